@@ -5,7 +5,7 @@ const Schema = mongoose.Schema;
 const baseQuestionSchema = {
   type: {
     type: String,
-    enum: ['mcq', 'ordering', 'hotspot'],
+    enum: ['mcq', 'ordering', 'hotspot', 'cloze', 'matching', 'numeric', 'short-answer', 'categorize', 'essay'],
     required: true
   },
   purpose: {
@@ -68,7 +68,7 @@ const mcqOptionSchema = new Schema({
   }
 }, { _id: true });
 
-// Ordering Item Schema
+// Ordering Item Schema; categorize questions reuse it with the id of the item's category instead of an order
 const orderingItemSchema = new Schema({
   text: {
     type: String,
@@ -77,32 +77,253 @@ const orderingItemSchema = new Schema({
   },
   order: {
     type: Number,
-    required: true
+    required: function() {
+      return this.ownerDocument().type === 'ordering';
+    }
+  },
+  // Empty for distractors, which belong in no category
+  categoryId: {
+    type: String
+  },
+  feedback: {
+    type: String,
+    trim: true
   }
 }, { _id: true });
 
-// Hotspot Zone Schema
+// Categorize Category Schema; items refer to a category by id
+const categorizeCategorySchema = new Schema({
+  id: {
+    type: String,
+    required: true
+  },
+  text: {
+    type: String,
+    required: true,
+    trim: true
+  }
+}, { _id: false });
+
+// Hotspot Zone Schema; labels refer to a zone by id. Coordinates are fractions (0 to 1) of the image's
+// natural width and height, so zones keep their place at any display size
 const hotspotZoneSchema = new Schema({
+  id: {
+    type: String
+  },
   coordinates: [{
     x: {
       type: Number,
-      required: true
+      required: true,
+      min: 0,
+      max: 1
     },
     y: {
       type: Number,
+      required: true,
+      min: 0,
+      max: 1
+    }
+  }],
+  label: {
+    type: String,
+    trim: true
+  }
+}, { _id: true });
+
+// Hotspot Label Schema for label placement; labels without zones are distractors
+const hotspotLabelSchema = new Schema({
+  text: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  imageUrl: {
+    type: String,
+    trim: true,
+    validate: {
+      validator: function(url) {
+        return !url || /^https?:\/\/.+/.test(url);
+      },
+      message: 'Label image URLs must be valid HTTP/HTTPS URLs'
+    }
+  },
+  zoneIds: [{
+    type: String
+  }],
+  feedback: {
+    type: String,
+    trim: true
+  }
+}, { _id: true });
+
+// Cloze Blank Schema; the passage refers to each blank as {{id}}
+const clozeBlankSchema = new Schema({
+  id: {
+    type: String,
+    required: true
+  },
+  mode: {
+    type: String,
+    enum: ['text', 'dropdown'],
+    required: true
+  },
+  // Text entry blanks
+  acceptedAnswers: [{
+    type: String,
+    trim: true
+  }],
+  caseSensitive: {
+    type: Boolean,
+    default: false
+  },
+  ignoreWhitespace: {
+    type: Boolean,
+    default: false
+  },
+  pattern: {
+    type: String
+  },
+  // Dropdown blanks
+  choices: [{
+    text: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    isCorrect: {
+      type: Boolean,
       required: true
     }
   }],
+  feedback: {
+    type: String,
+    trim: true
+  }
+}, { _id: false });
+
+// Matching Premise Schema; responseId refers to one of the question's responses
+const matchingPremiseSchema = new Schema({
+  text: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  responseId: {
+    type: String,
+    required: true
+  },
+  feedback: {
+    type: String,
+    trim: true
+  }
+}, { _id: true });
+
+// Matching Response Schema; responses no premise refers to are distractors
+const matchingResponseSchema = new Schema({
+  id: {
+    type: String,
+    required: true
+  },
+  text: {
+    type: String,
+    required: true,
+    trim: true
+  }
+}, { _id: false });
+
+// Short Answer Schema; credit is the percentage of the points the answer earns
+const shortAnswerSchema = new Schema({
+  text: {
+    type: String,
+    required: true
+  },
+  isPattern: {
+    type: Boolean,
+    default: false
+  },
+  credit: {
+    type: Number,
+    required: true,
+    min: 0,
+    max: 100
+  },
+  feedback: {
+    type: String,
+    trim: true
+  }
+}, { _id: true });
+
+// Rubric Schemas; every criterion has one descriptor per level, in the order of the levels
+const rubricLevelSchema = new Schema({
   label: {
     type: String,
+    required: true,
     trim: true
+  },
+  points: {
+    type: Number,
+    required: true,
+    min: 0
   }
 }, { _id: true });
 
+const rubricCriterionSchema = new Schema({
+  title: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  descriptors: [{
+    type: String,
+    required: true,
+    trim: true
+  }]
+}, { _id: true });
+
+const rubricSchema = new Schema({
+  levels: {
+    type: [rubricLevelSchema],
+    validate: {
+      validator: function(levels) {
+        return levels.length >= 2;
+      },
+      message: 'Rubrics must have at least 2 performance levels'
+    }
+  },
+  criteria: {
+    type: [rubricCriterionSchema],
+    validate: {
+      validator: function(criteria) {
+        return criteria.length >= 1;
+      },
+      message: 'Rubrics must have at least one criterion'
+    }
+  }
+}, { _id: false });
+
 // Main Question Schema with discriminator
 const questionSchema = new Schema({
   ...baseQuestionSchema,
   // MCQ specific fields
+  responseMode: {
+    type: String,
+    enum: ['single', 'multiple'],
+    default: 'single'
+  },
+  // Only used for multiple response; single response is always all or nothing
+  scoring: {
+    type: String,
+    enum: ['allOrNothing', 'partialCredit', 'rightMinusWrong'],
+    default: 'allOrNothing'
+  },
+  minSelections: {
+    type: Number,
+    min: 1
+  },
+  maxSelections: {
+    type: Number,
+    min: 1
+  },
   options: [{
     type: mcqOptionSchema,
     validate: {
@@ -141,6 +362,165 @@ const questionSchema = new Schema({
       },
       message: 'Image URL must be a valid HTTP/HTTPS URL'
     }
+  },
+  // Natural size of the image, to turn zone coordinates back into pixels (e.g. for QTI)
+  imageSize: {
+    width: { type: Number, min: 1 },
+    height: { type: Number, min: 1 }
+  },
+  // Students click the zones, or drag labels onto them
+  interaction: {
+    type: String,
+    enum: ['click', 'labels'],
+    default: 'click'
+  },
+  labels: [{
+    type: hotspotLabelSchema,
+    validate: {
+      validator: function(labels) {
+        return this.type === 'hotspot' && this.interaction === 'labels' ? labels.length >= 1 : true;
+      },
+      message: 'Label placement needs at least 1 label'
+    }
+  }],
+  // Cloze specific fields
+  passage: {
+    type: String,
+    required: function() {
+      return this.type === 'cloze';
+    }
+  },
+  blanks: [{
+    type: clozeBlankSchema,
+    validate: {
+      validator: function(blanks) {
+        return this.type === 'cloze' ? blanks.length >= 1 : true;
+      },
+      message: 'Cloze questions must have at least 1 blank'
+    }
+  }],
+  // Matching specific fields
+  mode: {
+    type: String,
+    enum: ['oneToOne', 'manyToOne'],
+    required: function() {
+      return this.type === 'matching';
+    }
+  },
+  premises: [{
+    type: matchingPremiseSchema,
+    validate: {
+      validator: function(premises) {
+        return this.type === 'matching' ? premises.length >= 2 : true;
+      },
+      message: 'Matching questions must have at least 2 premises'
+    }
+  }],
+  responses: [{
+    type: matchingResponseSchema,
+    validate: {
+      validator: function(responses) {
+        return this.type === 'matching' ? responses.length >= 2 : true;
+      },
+      message: 'Matching questions must have at least 2 responses'
+    }
+  }],
+  // Numeric specific fields; exact answers use value and tolerance, ranges min and max
+  answerMode: {
+    type: String,
+    enum: ['exact', 'range'],
+    required: function() {
+      return this.type === 'numeric';
+    }
+  },
+  value: {
+    type: Number
+  },
+  tolerance: {
+    type: Number,
+    min: 0
+  },
+  toleranceType: {
+    type: String,
+    enum: ['absolute', 'relative']
+  },
+  min: {
+    type: Number
+  },
+  max: {
+    type: Number
+  },
+  units: [{
+    type: String,
+    trim: true
+  }],
+  unitRequired: {
+    type: Boolean,
+    default: false
+  },
+  significantFigures: {
+    type: Number,
+    min: 1
+  },
+  // Short answer specific fields
+  answers: [{
+    type: shortAnswerSchema,
+    validate: {
+      validator: function(answers) {
+        return this.type === 'short-answer' ? answers.length >= 1 : true;
+      },
+      message: 'Short answer questions must have at least one accepted answer'
+    }
+  }],
+  caseSensitive: {
+    type: Boolean,
+    default: false
+  },
+  ignoreWhitespace: {
+    type: Boolean,
+    default: false
+  },
+  // Categorize specific fields; the items are in the items array
+  categories: [{
+    type: categorizeCategorySchema,
+    validate: {
+      validator: function(categories) {
+        return this.type === 'categorize' ? categories.length >= 2 : true;
+      },
+      message: 'Categorize questions must have at least 2 categories'
+    }
+  }],
+  // Essay specific fields
+  minWords: {
+    type: Number,
+    min: 1
+  },
+  maxWords: {
+    type: Number,
+    min: 1
+  },
+  maxCharacters: {
+    type: Number,
+    min: 1
+  },
+  modelAnswer: {
+    type: String,
+    trim: true
+  },
+  rubric: {
+    type: rubricSchema,
+    required: function() {
+      return this.type === 'essay' && this.purpose === 'summative';
+    }
+  },
+  // Numeric and short answer feedback
+  correctFeedback: {
+    type: String,
+    trim: true
+  },
+  incorrectFeedback: {
+    type: String,
+    trim: true
   }
 }, {
   timestamps: true,
@@ -155,6 +535,7 @@ const questionSchema = new Schema({
 //   "topic": "Color Theory",
 //   "createdBy": "65ab4f2e9c1234567890abcd",
 //   "tags": ["design", "basics"],
+//   "responseMode": "single",
 //   "options": [
 //     {
 //       "text": "Red",
@@ -180,12 +561,26 @@ const questionSchema = new Schema({
 // Pre-save validation
 questionSchema.pre('save', function(next) {
 
-    //if the question is of type mcq, then check if there is exactly one correct option
+    //if the question is of type mcq, single response needs exactly one correct option,
+    //multiple response at least one, and the correct options must fit the selection limits
   if (this.type === 'mcq') {
     const correctOptions = this.options.filter(opt => opt.isCorrect);
-    if (correctOptions.length !== 1) {
+    if (this.responseMode !== 'multiple' && correctOptions.length !== 1) {
       return next(new Error('MCQ questions must have exactly one correct option'));
     }
+    if (this.responseMode === 'multiple') {
+      const min = this.minSelections || 1;
+      const max = this.maxSelections || this.options.length;
+      if (correctOptions.length < 1) {
+        return next(new Error('Multiple response questions must have at least one correct option'));
+      }
+      if (min > max || max > this.options.length) {
+        return next(new Error('Path `maxSelections` must be between `minSelections` and the number of options.'));
+      }
+      if (correctOptions.length < min || correctOptions.length > max) {
+        return next(new Error('The number of correct options must be within the selection limits'));
+      }
+    }
     
     // Check formative feedback requirement
     // if the question is of type formative, then feedback is required for all options
@@ -207,6 +602,95 @@ questionSchema.pre('save', function(next) {
       }
     }
   }
+
+  if (this.type === 'cloze') {
+    // every blank must be placed in the passage and answerable
+    const markers = (this.passage.match(/\{\{[^{}\s]+\}\}/g) || []).map(marker => marker.slice(2, -2));
+    for (const blank of this.blanks) {
+      if (!markers.includes(blank.id)) {
+        return next(new Error('Every blank must be placed in the passage'));
+      }
+      if (blank.mode === 'dropdown' && blank.choices.filter(choice => choice.isCorrect).length !== 1) {
+        return next(new Error('Dropdown blanks must have exactly one correct choice'));
+      }
+      if (blank.mode === 'text' && blank.acceptedAnswers.length < 1 && !blank.pattern) {
+        return next(new Error('Text blanks must have an accepted answer or a pattern'));
+      }
+    }
+  }
+
+  if (this.type === 'matching') {
+    // every premise is paired with an existing response, each response at most once for one-to-one
+    const responseIds = this.responses.map(response => response.id);
+    if (this.premises.some(premise => !responseIds.includes(premise.responseId))) {
+      return next(new Error('Every premise must be paired with a response'));
+    }
+    const pairedIds = this.premises.map(premise => premise.responseId);
+    if (this.mode === 'oneToOne' && new Set(pairedIds).size !== pairedIds.length) {
+      return next(new Error('In one-to-one matching each response can be paired only once'));
+    }
+    if (this.purpose === 'formative' && this.premises.some(premise => !premise.feedback)) {
+      return next(new Error('Formative matching questions must have feedback for all pairs'));
+    }
+  }
+
+  if (this.type === 'numeric') {
+    // exact answers need a value, ranges both bounds in order
+    if (this.answerMode === 'exact' && this.value == null) {
+      return next(new Error('Exact numeric answers need a value'));
+    }
+    if (this.answerMode === 'range' && (this.min == null || this.max == null || this.min > this.max)) {
+      return next(new Error('Range answers need a minimum no greater than the maximum'));
+    }
+    if (this.unitRequired && this.units.length < 1) {
+      return next(new Error('A required unit needs at least one accepted unit'));
+    }
+  }
+
+  if (this.type === 'short-answer') {
+    // at least one answer earns full credit
+    if (!this.answers.some(answer => answer.credit === 100)) {
+      return next(new Error('Short answer questions must have an answer worth full credit'));
+    }
+    if (this.purpose === 'formative' && this.answers.some(answer => !answer.feedback)) {
+      return next(new Error('Formative short answer questions must have feedback for all answers'));
+    }
+  }
+
+  if (this.type === 'hotspot' && this.interaction === 'labels') {
+    // labels belong on existing zones or none
+    const zoneIds = this.zones.map(zone => zone.id);
+    if (this.labels.some(label => label.zoneIds.some(id => !zoneIds.includes(id)))) {
+      return next(new Error('Labels must belong on one of the zones or be distractors'));
+    }
+    if (this.purpose === 'formative' && this.labels.some(label => !label.feedback)) {
+      return next(new Error('Formative label placement questions must have feedback for all labels'));
+    }
+  }
+
+  if (this.type === 'categorize') {
+    // items belong to an existing category or none, and every category has an item
+    const categoryIds = this.categories.map(category => category.id);
+    if (this.items.some(item => item.categoryId && !categoryIds.includes(item.categoryId))) {
+      return next(new Error('Items must belong to one of the categories or be distractors'));
+    }
+    if (categoryIds.some(id => !this.items.some(item => item.categoryId === id))) {
+      return next(new Error('Every category needs at least one item'));
+    }
+    if (this.purpose === 'formative' && this.items.some(item => !item.feedback)) {
+      return next(new Error('Formative categorize questions must have feedback for all items'));
+    }
+  }
+
+  if (this.type === 'essay') {
+    if (this.minWords != null && this.maxWords != null && this.minWords > this.maxWords) {
+      return next(new Error('The minimum number of words cannot be more than the maximum'));
+    }
+    // a descriptor for every level of every criterion
+    if (this.rubric && this.rubric.criteria.some(criterion => criterion.descriptors.length !== this.rubric.levels.length)) {
+      return next(new Error('Every criterion needs a descriptor for each performance level'));
+    }
+  }
   
   next();
 });
@@ -219,5 +703,12 @@ module.exports = {
   Question,
   mcqOptionSchema,
   orderingItemSchema,
-  hotspotZoneSchema
+  hotspotZoneSchema,
+  hotspotLabelSchema,
+  clozeBlankSchema,
+  matchingPremiseSchema,
+  matchingResponseSchema,
+  shortAnswerSchema,
+  categorizeCategorySchema,
+  rubricSchema
 };
\ No newline at end of file
@@ -1,32 +1,130 @@
 import React, { useState } from 'react';
 import { MainCanvas } from './components/MainCanvas';
-import { Question, AssessmentState } from './types';
+import { DraftRecoveryBanner } from './components/DraftRecoveryBanner';
+import { Question, Assessment, AssessmentState } from './types';
+import { loadPersistedAssessment } from './utils/storage';
+import { useAssessmentPersistence } from './hooks/useAssessmentPersistence';
+import { useHistory } from './hooks/useHistory';
+import { useQuestionSave } from './hooks/useQuestionSave';
+import { useVersionHistory } from './hooks/useVersionHistory';
+import { HistoryChangeOptions } from './utils/history';
+import { orderQuestionsBySections, syncAssessmentQuestions } from './utils/assessmentStructure';
+import {
+  AssessmentImportMode,
+  ImportTarget,
+  mergeImportedAssessment,
+  mergeImportedQuestions,
+} from './utils/importUtils';
+import { questionApi, currentUserId } from './api';
 import './styles/base.css';
 import './styles/layout.css';
 import './styles/components.css';
 import './styles/questions.css';
 
 function App() {
-  const [assessmentState, setAssessmentState] = useState<AssessmentState>({
-    questions: [],
-    currentQuestionId: undefined,
+  const [initialLoad] = useState(loadPersistedAssessment);
+  const {
+    state: assessmentState,
+    set: setAssessmentState,
+    replace: replaceAssessmentState,
+    reset: resetAssessmentState,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+  } = useHistory<AssessmentState>(initialLoad.state);
+
+  const {
+    pendingDraft,
+    lastSavedAt,
+    lastAutosavedAt,
+    storageError,
+    saveSnapshot,
+    recoverDraft,
+    discardDraft,
+  } = useAssessmentPersistence(assessmentState, {
+    initialLastSavedAt: initialLoad.lastSavedAt,
+    pendingDraft: initialLoad.pendingDraft,
+    initialStorageError: initialLoad.storageError,
+    onRestore: resetAssessmentState,
   });
 
-  const handleQuestionsChange = (questions: Question[]) => {
-    setAssessmentState(prev => ({ ...prev, questions }));
+  const { saveQuestion, getSaveStatus, saveErrors, storageError: saveRecordsError } = useQuestionSave(questionApi, currentUserId);
+  const { histories, recordVersion, storageError: versionStorageError } = useVersionHistory();
+
+  // A successful save to the server becomes a new version of the question
+  // and the new local restore point
+  const handleSaveQuestion = async (question: Question, changeNote = '') => {
+    if (await saveQuestion(question)) {
+      recordVersion(question, changeNote, currentUserId);
+      saveSnapshot();
+    }
+  };
+
+  const handleQuestionsChange = (questions: Question[], options?: HistoryChangeOptions) => {
+    setAssessmentState(prev => ({
+      ...prev,
+      questions,
+      assessment: syncAssessmentQuestions(prev.assessment, questions),
+    }), options);
+  };
+
+  // Sections define the question order, so the question list follows them
+  const handleAssessmentChange = (assessment: Assessment, options?: HistoryChangeOptions) => {
+    setAssessmentState(prev => {
+      const synced = syncAssessmentQuestions(assessment, prev.questions);
+      return { ...prev, assessment: synced, questions: orderQuestionsBySections(prev.questions, synced) };
+    }, options);
+  };
+
+  // An import is a single undo step
+  const handleImportQuestions = (questions: Question[], target: ImportTarget) => {
+    setAssessmentState(prev => mergeImportedQuestions(prev, questions, target));
+  };
+
+  // Replacing is undoable too, so the current assessment isn't lost by mistake
+  const handleImportAssessment = (imported: AssessmentState, mode: AssessmentImportMode) => {
+    setAssessmentState(prev => (mode === 'replace' ? imported : mergeImportedAssessment(prev, imported)));
   };
 
+  // Selecting a question isn't an edit, so it doesn't get its own undo step
   const handleCurrentQuestionChange = (questionId?: string) => {
-    setAssessmentState(prev => ({ ...prev, currentQuestionId: questionId }));
+    replaceAssessmentState(prev => ({ ...prev, currentQuestionId: questionId }));
   };
 
   return (
-    <MainCanvas
-      questions={assessmentState.questions}
-      onQuestionsChange={handleQuestionsChange}
-      currentQuestionId={assessmentState.currentQuestionId}
-      onCurrentQuestionChange={handleCurrentQuestionChange}
-    />
+    <>
+      {pendingDraft && (
+        <DraftRecoveryBanner
+          draftSavedAt={pendingDraft.savedAt}
+          lastSavedAt={lastSavedAt}
+          questionCount={pendingDraft.state.questions.length}
+          onRecover={recoverDraft}
+          onDiscard={discardDraft}
+        />
+      )}
+      <MainCanvas
+        assessment={assessmentState.assessment}
+        onAssessmentChange={handleAssessmentChange}
+        questions={assessmentState.questions}
+        onQuestionsChange={handleQuestionsChange}
+        onImportQuestions={handleImportQuestions}
+        onImportAssessment={handleImportAssessment}
+        currentQuestionId={assessmentState.currentQuestionId}
+        onCurrentQuestionChange={handleCurrentQuestionChange}
+        onSaveQuestion={handleSaveQuestion}
+        getSaveStatus={getSaveStatus}
+        saveErrors={saveErrors}
+        versionHistories={histories}
+        lastSavedAt={lastSavedAt}
+        lastAutosavedAt={lastAutosavedAt}
+        storageError={storageError ?? saveRecordsError ?? versionStorageError}
+        onUndo={undo}
+        onRedo={redo}
+        canUndo={canUndo}
+        canRedo={canRedo}
+      />
+    </>
   );
 }
 
@@ -0,0 +1,12 @@
+import { createHttpQuestionApi, DEMO_USER_ID, QuestionApi } from './questionApi';
+import { createMockQuestionApi } from './mockQuestionApi';
+
+export * from './questionApi';
+export { createMockQuestionApi, validateQuestionBody } from './mockQuestionApi';
+
+// Talks to a real backend when REACT_APP_API_URL is set, otherwise to the in-memory mock
+export const questionApi: QuestionApi = process.env.REACT_APP_API_URL
+  ? createHttpQuestionApi(process.env.REACT_APP_API_URL)
+  : createMockQuestionApi({ latency: 300 });
+
+export const currentUserId = process.env.REACT_APP_USER_ID || DEMO_USER_ID;
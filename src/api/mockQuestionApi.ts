@@ -0,0 +1,333 @@
+import { generateId } from '../utils/assessmentUtils';
+import { getMarkerIds } from '../utils/cloze';
+import {
+  ApiError,
+  ApiValidationError,
+  FieldError,
+  QuestionApi,
+  QuestionRequestBody,
+  QuestionResponse,
+} from './questionApi';
+
+const BLOOMS_LEVELS = ['Remember', 'Understand', 'Apply', 'Analyze', 'Evaluate', 'Create'];
+const RESPONSE_MODES = ['single', 'multiple'];
+const SCORING_METHODS = ['allOrNothing', 'partialCredit', 'rightMinusWrong'];
+const MATCHING_MODES = ['oneToOne', 'manyToOne'];
+const NUMERIC_ANSWER_MODES = ['exact', 'range'];
+
+// Mirrors the field validators and the pre-save hook in demoSchema.js
+export const validateQuestionBody = (body: QuestionRequestBody): FieldError[] => {
+  const errors: FieldError[] = [];
+
+  if (!['mcq', 'ordering', 'hotspot', 'cloze', 'matching', 'numeric', 'short-answer', 'categorize', 'essay'].includes(body.type)) {
+    errors.push({ path: 'type', message: `\`${body.type}\` is not a valid question type` });
+  }
+  if (!['formative', 'summative'].includes(body.purpose)) {
+    errors.push({ path: 'purpose', message: `\`${body.purpose}\` is not a valid purpose` });
+  }
+  if (!body.stem?.trim()) {
+    errors.push({ path: 'stem', message: 'Path `stem` is required.' });
+  }
+  if (!body.createdBy) {
+    errors.push({ path: 'createdBy', message: 'Path `createdBy` is required.' });
+  }
+  if (body.purpose === 'summative') {
+    if (!body.learningObjective?.trim()) {
+      errors.push({ path: 'learningObjective', message: 'Path `learningObjective` is required.' });
+    }
+    if (!body.bloomsLevel) {
+      errors.push({ path: 'bloomsLevel', message: 'Path `bloomsLevel` is required.' });
+    }
+  }
+  if (body.bloomsLevel && !BLOOMS_LEVELS.includes(body.bloomsLevel)) {
+    errors.push({ path: 'bloomsLevel', message: `\`${body.bloomsLevel}\` is not a valid Bloom's level` });
+  }
+
+  switch (body.type) {
+    case 'mcq': {
+      const responseMode = body.responseMode ?? 'single';
+      if (!RESPONSE_MODES.includes(responseMode)) {
+        errors.push({ path: 'responseMode', message: `\`${responseMode}\` is not a valid response mode` });
+      }
+      if (body.scoring && !SCORING_METHODS.includes(body.scoring)) {
+        errors.push({ path: 'scoring', message: `\`${body.scoring}\` is not a valid scoring method` });
+      }
+      if (body.options.length < 2) {
+        errors.push({ path: 'options', message: 'MCQ questions must have at least 2 options' });
+      }
+      body.options.forEach((opt, index) => {
+        if (!opt.text?.trim()) {
+          errors.push({ path: `options.${index}.text`, message: `Option ${index + 1} text is required` });
+        }
+      });
+      const correctCount = body.options.filter(opt => opt.isCorrect).length;
+      if (responseMode === 'single' && correctCount !== 1) {
+        errors.push({ path: 'options', message: 'MCQ questions must have exactly one correct option' });
+      }
+      if (responseMode === 'multiple') {
+        const min = body.minSelections ?? 1;
+        const max = body.maxSelections ?? body.options.length;
+        if (correctCount < 1) {
+          errors.push({ path: 'options', message: 'Multiple response questions must have at least one correct option' });
+        }
+        if (!Number.isInteger(min) || min < 1) {
+          errors.push({ path: 'minSelections', message: 'Path `minSelections` must be a whole number of at least 1.' });
+        }
+        if (!Number.isInteger(max) || max < min || max > body.options.length) {
+          errors.push({ path: 'maxSelections', message: 'Path `maxSelections` must be between `minSelections` and the number of options.' });
+        } else if (correctCount > 0 && (correctCount < min || correctCount > max)) {
+          errors.push({ path: 'options', message: 'The number of correct options must be within the selection limits' });
+        }
+      }
+      if (body.purpose === 'formative' && body.options.some(opt => !opt.feedback)) {
+        errors.push({ path: 'options', message: 'Formative MCQ questions must have feedback for all options' });
+      }
+      break;
+    }
+
+    case 'ordering': {
+      if (body.items.length < 2) {
+        errors.push({ path: 'items', message: 'Ordering questions must have at least 2 items' });
+      }
+      body.items.forEach((item, index) => {
+        if (!item.text?.trim()) {
+          errors.push({ path: `items.${index}.text`, message: `Item ${index + 1} text is required` });
+        }
+      });
+      const orders = body.items.map(item => item.order).sort((a, b) => a - b);
+      if (orders.some((order, index) => order !== index)) {
+        errors.push({ path: 'items', message: 'Ordering items must have sequential order numbers starting from 0' });
+      }
+      break;
+    }
+
+    case 'hotspot':
+      if (body.zones.length < 1) {
+        errors.push({ path: 'zones', message: 'Hotspot questions must have at least 1 zone' });
+      }
+      body.zones.forEach((zone, index) => {
+        zone.coordinates.forEach((point, pointIndex) => {
+          (['x', 'y'] as const).forEach(axis => {
+            const path = `zones.${index}.coordinates.${pointIndex}.${axis}`;
+            if (point[axis] < 0) {
+              errors.push({ path, message: `Path \`${axis}\` (${point[axis]}) is less than minimum allowed value (0).` });
+            } else if (point[axis] > 1) {
+              errors.push({ path, message: `Path \`${axis}\` (${point[axis]}) is more than maximum allowed value (1).` });
+            }
+          });
+        });
+      });
+      if (body.imageUrl && !/^https?:\/\/.+/.test(body.imageUrl)) {
+        errors.push({ path: 'imageUrl', message: 'Image URL must be a valid HTTP/HTTPS URL' });
+      }
+      if (body.interaction === 'labels') {
+        const zoneIds = body.zones.map(zone => zone.id);
+        const labels = body.labels ?? [];
+        if (labels.length < 1) {
+          errors.push({ path: 'labels', message: 'Label placement needs at least 1 label' });
+        }
+        if (labels.some(label => label.zoneIds.some(id => !zoneIds.includes(id)))) {
+          errors.push({ path: 'labels', message: 'Labels must belong on one of the zones or be distractors' });
+        }
+        if (labels.some(label => label.imageUrl && !/^https?:\/\/.+/.test(label.imageUrl))) {
+          errors.push({ path: 'labels', message: 'Label image URLs must be valid HTTP/HTTPS URLs' });
+        }
+        if (body.purpose === 'formative' && labels.some(label => !label.feedback)) {
+          errors.push({ path: 'labels', message: 'Formative label placement questions must have feedback for all labels' });
+        }
+      }
+      break;
+
+    case 'cloze': {
+      const markerIds = getMarkerIds(body.passage ?? '');
+      if (body.blanks.length < 1) {
+        errors.push({ path: 'blanks', message: 'Cloze questions must have at least 1 blank' });
+      }
+      body.blanks.forEach((blank, index) => {
+        if (!markerIds.includes(blank.id)) {
+          errors.push({ path: `blanks.${index}`, message: `Blank ${index + 1} is not placed in the passage` });
+        }
+        if (blank.mode === 'dropdown') {
+          if (blank.choices.length < 2) {
+            errors.push({ path: `blanks.${index}.choices`, message: `Blank ${index + 1} must have at least 2 choices` });
+          }
+          if (blank.choices.filter(choice => choice.isCorrect).length !== 1) {
+            errors.push({ path: `blanks.${index}.choices`, message: `Blank ${index + 1} must have exactly one correct choice` });
+          }
+        } else if (blank.acceptedAnswers.length < 1 && !blank.pattern) {
+          errors.push({ path: `blanks.${index}.acceptedAnswers`, message: `Blank ${index + 1} must have an accepted answer or a pattern` });
+        }
+      });
+      if (markerIds.some(id => !body.blanks.some(blank => blank.id === id))) {
+        errors.push({ path: 'passage', message: 'The passage refers to a blank that does not exist' });
+      }
+      break;
+    }
+
+    case 'matching': {
+      if (!MATCHING_MODES.includes(body.mode)) {
+        errors.push({ path: 'mode', message: `\`${body.mode}\` is not a valid matching mode` });
+      }
+      if (body.premises.length < 2) {
+        errors.push({ path: 'premises', message: 'Matching questions must have at least 2 premises' });
+      }
+      if (body.responses.length < 2) {
+        errors.push({ path: 'responses', message: 'Matching questions must have at least 2 responses' });
+      }
+      body.premises.forEach((premise, index) => {
+        if (!body.responses.some(response => response.id === premise.responseId)) {
+          errors.push({ path: `premises.${index}.responseId`, message: `Premise ${index + 1} must be paired with a response` });
+        }
+      });
+      const pairedIds = body.premises.map(premise => premise.responseId);
+      if (body.mode === 'oneToOne' && new Set(pairedIds).size !== pairedIds.length) {
+        errors.push({ path: 'premises', message: 'In one-to-one matching each response can be paired only once' });
+      }
+      if (body.purpose === 'formative' && body.premises.some(premise => !premise.feedback)) {
+        errors.push({ path: 'premises', message: 'Formative matching questions must have feedback for all pairs' });
+      }
+      break;
+    }
+
+    case 'numeric':
+      if (!NUMERIC_ANSWER_MODES.includes(body.answerMode)) {
+        errors.push({ path: 'answerMode', message: `\`${body.answerMode}\` is not a valid answer mode` });
+      }
+      if (body.answerMode === 'exact' && body.value === undefined) {
+        errors.push({ path: 'value', message: 'Exact numeric answers need a value' });
+      }
+      if (body.answerMode === 'range' && (body.min === undefined || body.max === undefined || body.min > body.max)) {
+        errors.push({ path: 'min', message: 'Range answers need a minimum no greater than the maximum' });
+      }
+      if (body.unitRequired && body.units.length < 1) {
+        errors.push({ path: 'units', message: 'A required unit needs at least one accepted unit' });
+      }
+      break;
+
+    case 'short-answer':
+      if (!body.answers.some(answer => answer.credit === 100)) {
+        errors.push({ path: 'answers', message: 'Short answer questions must have an answer worth full credit' });
+      }
+      body.answers.forEach((answer, index) => {
+        if (answer.credit < 0 || answer.credit > 100) {
+          errors.push({ path: `answers.${index}.credit`, message: `Path \`credit\` (${answer.credit}) is outside 0 to 100.` });
+        }
+      });
+      if (body.purpose === 'formative' && body.answers.some(answer => !answer.feedback)) {
+        errors.push({ path: 'answers', message: 'Formative short answer questions must have feedback for all answers' });
+      }
+      break;
+
+    case 'categorize': {
+      const categoryIds = body.categories.map(category => category.id);
+      if (body.categories.length < 2) {
+        errors.push({ path: 'categories', message: 'Categorize questions must have at least 2 categories' });
+      }
+      if (body.items.some(item => item.categoryId && !categoryIds.includes(item.categoryId))) {
+        errors.push({ path: 'items', message: 'Items must belong to one of the categories or be distractors' });
+      }
+      if (categoryIds.some(id => !body.items.some(item => item.categoryId === id))) {
+        errors.push({ path: 'categories', message: 'Every category needs at least one item' });
+      }
+      if (body.purpose === 'formative' && body.items.some(item => !item.feedback)) {
+        errors.push({ path: 'items', message: 'Formative categorize questions must have feedback for all items' });
+      }
+      break;
+    }
+
+    case 'essay': {
+      (['minWords', 'maxWords', 'maxCharacters'] as const).forEach(path => {
+        const limit = body[path];
+        if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+          errors.push({ path, message: `Path \`${path}\` (${limit}) must be a whole number of at least 1.` });
+        }
+      });
+      if (body.minWords !== undefined && body.maxWords !== undefined && body.minWords > body.maxWords) {
+        errors.push({ path: 'minWords', message: 'The minimum number of words cannot be more than the maximum' });
+      }
+      if (!body.rubric) {
+        if (body.purpose === 'summative') {
+          errors.push({ path: 'rubric', message: 'Path `rubric` is required.' });
+        }
+        break;
+      }
+      const { levels, criteria } = body.rubric;
+      if (levels.length < 2) {
+        errors.push({ path: 'rubric.levels', message: 'Rubrics must have at least 2 performance levels' });
+      }
+      levels.forEach((level, index) => {
+        if (level.points < 0) {
+          errors.push({ path: `rubric.levels.${index}.points`, message: `Path \`points\` (${level.points}) is less than minimum allowed value (0).` });
+        }
+      });
+      if (criteria.length < 1) {
+        errors.push({ path: 'rubric.criteria', message: 'Rubrics must have at least one criterion' });
+      }
+      if (criteria.some(criterion => criterion.descriptors.length !== levels.length || criterion.descriptors.some(descriptor => !descriptor))) {
+        errors.push({ path: 'rubric.criteria', message: 'Every criterion needs a descriptor for each performance level' });
+      }
+      break;
+    }
+  }
+
+  return errors;
+};
+
+interface MockQuestionApiOptions {
+  // Simulated network latency in milliseconds
+  latency?: number;
+}
+
+// In-process stand-in for the backend, so saving can be exercised offline and in tests.
+// Data lives only as long as the page.
+export const createMockQuestionApi = ({ latency = 0 }: MockQuestionApiOptions = {}): QuestionApi => {
+  const store = new Map<string, QuestionResponse>();
+
+  const delay = <T>(value: () => T): Promise<T> =>
+    new Promise((resolve, reject) => {
+      setTimeout(() => {
+        try {
+          resolve(value());
+        } catch (error) {
+          reject(error);
+        }
+      }, latency);
+    });
+
+  const assertValid = (body: QuestionRequestBody) => {
+    const errors = validateQuestionBody(body);
+    if (errors.length > 0) {
+      throw new ApiValidationError('Question validation failed', errors);
+    }
+  };
+
+  const find = (id: string) => {
+    const existing = store.get(id);
+    if (!existing) {
+      throw new ApiError(`Question ${id} not found`, 404);
+    }
+    return existing;
+  };
+
+  return {
+    createQuestion: body => delay(() => {
+      assertValid(body);
+      const now = new Date().toISOString();
+      const created = { ...body, _id: generateId(), createdAt: now, updatedAt: now } as QuestionResponse;
+      store.set(created._id, created);
+      return created;
+    }),
+    updateQuestion: (id, body) => delay(() => {
+      const existing = find(id);
+      assertValid(body);
+      const updated = { ...body, _id: id, createdAt: existing.createdAt, updatedAt: new Date().toISOString() } as QuestionResponse;
+      store.set(id, updated);
+      return updated;
+    }),
+    getQuestion: id => delay(() => find(id)),
+    deleteQuestion: id => delay(() => {
+      find(id);
+      store.delete(id);
+    }),
+  };
+};
@@ -0,0 +1,119 @@
+import { HotspotQuestion, MCQQuestion } from '../types';
+import { createEmptyQuestion } from '../utils/assessmentUtils';
+import { ApiError, ApiValidationError, DEMO_USER_ID, toQuestionRequestBody } from './questionApi';
+import { createMockQuestionApi } from './mockQuestionApi';
+
+const validMCQ = (): MCQQuestion => {
+  const question = createEmptyQuestion('mcq') as MCQQuestion;
+  return {
+    ...question,
+    stem: '  Which is a primary color of light? ',
+    topic: 'Color Theory',
+    options: question.options.map((opt, index) => ({
+      ...opt,
+      text: ['Red', 'Yellow', 'Black', 'Brown'][index],
+      isCorrect: index === 0,
+      feedback: index === 0 ? 'Correct!' : 'Incorrect.',
+    })),
+  };
+};
+
+test('maps a question to the documented request body', () => {
+  const body = toQuestionRequestBody(validMCQ(), DEMO_USER_ID);
+
+  expect(body).toEqual({
+    type: 'mcq',
+    purpose: 'formative',
+    stem: 'Which is a primary color of light?',
+    topic: 'Color Theory',
+    learningObjective: undefined,
+    bloomsLevel: undefined,
+    createdBy: DEMO_USER_ID,
+    tags: [],
+    responseMode: 'single',
+    options: [
+      { text: 'Red', isCorrect: true, feedback: 'Correct!' },
+      { text: 'Yellow', isCorrect: false, feedback: 'Incorrect.' },
+      { text: 'Black', isCorrect: false, feedback: 'Incorrect.' },
+      { text: 'Brown', isCorrect: false, feedback: 'Incorrect.' },
+    ],
+  });
+});
+
+test('mock backend creates, updates and reports missing questions', async () => {
+  const api = createMockQuestionApi();
+  const body = toQuestionRequestBody(validMCQ(), DEMO_USER_ID);
+
+  const created = await api.createQuestion(body);
+  const updated = await api.updateQuestion(created._id, { ...body, stem: 'Updated stem' });
+
+  expect(updated._id).toBe(created._id);
+  expect((await api.getQuestion(created._id)).stem).toBe('Updated stem');
+  await expect(api.updateQuestion('missing', body)).rejects.toMatchObject({ status: 404 });
+  await expect(api.getQuestion('missing')).rejects.toBeInstanceOf(ApiError);
+});
+
+test('mock backend enforces the schema pre-save hook', async () => {
+  const api = createMockQuestionApi();
+  const question = validMCQ();
+  const body = toQuestionRequestBody({
+    ...question,
+    options: question.options.map(opt => ({ ...opt, isCorrect: true })),
+  }, DEMO_USER_ID);
+
+  const error = await api.createQuestion(body).catch(e => e);
+  expect(error).toBeInstanceOf(ApiValidationError);
+  expect(error.messages).toContain('MCQ questions must have exactly one correct option');
+});
+
+test('mock backend accepts multiple response questions within their selection limits', async () => {
+  const api = createMockQuestionApi();
+  const question = validMCQ();
+  const multiple: MCQQuestion = {
+    ...question,
+    responseMode: 'multiple',
+    scoring: 'partialCredit',
+    options: question.options.map((opt, index) => ({ ...opt, isCorrect: index < 2 })),
+  };
+
+  const created = await api.createQuestion(toQuestionRequestBody(multiple, DEMO_USER_ID));
+  expect(created).toMatchObject({ responseMode: 'multiple', scoring: 'partialCredit' });
+
+  const error = await api.createQuestion(toQuestionRequestBody({ ...multiple, maxSelections: 1 }, DEMO_USER_ID)).catch(e => e);
+  expect(error.messages).toContain('The number of correct options must be within the selection limits');
+});
+
+test('saves hotspot questions with an uploaded image, leaving the data URL out', async () => {
+  const api = createMockQuestionApi();
+  const question: HotspotQuestion = {
+    ...(createEmptyQuestion('hotspot') as HotspotQuestion),
+    stem: 'Click the heart',
+    imageUrl: 'data:image/png;base64,iVBORw0KGgo=',
+    zones: [{ id: 'z1', coordinates: [{ x: 0.1, y: 0.1 }, { x: 0.5, y: 0.1 }, { x: 0.5, y: 0.5 }] }],
+  };
+  const body = toQuestionRequestBody(question, DEMO_USER_ID);
+
+  expect(body).toMatchObject({ type: 'hotspot', imageUrl: undefined });
+  await expect(api.createQuestion(body)).resolves.toMatchObject({ stem: 'Click the heart' });
+  expect(toQuestionRequestBody({ ...question, imageUrl: 'https://example.com/heart.png' }, DEMO_USER_ID))
+    .toMatchObject({ imageUrl: 'https://example.com/heart.png' });
+});
+
+test('saves label placement questions with uploaded label images', async () => {
+  const api = createMockQuestionApi();
+  const question: HotspotQuestion = {
+    ...(createEmptyQuestion('hotspot') as HotspotQuestion),
+    purpose: 'summative',
+    learningObjective: 'Name the parts of the heart',
+    bloomsLevel: 'Remember',
+    stem: 'Label the heart',
+    imageUrl: 'https://example.com/heart.png',
+    interaction: 'labels',
+    zones: [{ id: 'z1', coordinates: [{ x: 0.1, y: 0.1 }, { x: 0.5, y: 0.1 }, { x: 0.5, y: 0.5 }] }],
+    labels: [{ id: 'l1', text: 'Aorta', imageUrl: 'data:image/png;base64,iVBORw0KGgo=', zoneIds: ['z1'] }],
+  };
+  const body = toQuestionRequestBody(question, DEMO_USER_ID);
+
+  expect(body).toMatchObject({ labels: [{ text: 'Aorta', imageUrl: undefined, zoneIds: ['z1'] }] });
+  await expect(api.createQuestion(body)).resolves.toMatchObject({ stem: 'Label the heart' });
+});
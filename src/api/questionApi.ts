@@ -0,0 +1,404 @@
+import {
+  BloomsLevel,
+  ClozeBlankMode,
+  HotspotInteraction,
+  MatchingMode,
+  MCQResponseMode,
+  MCQScoringMethod,
+  NumericAnswerMode,
+  NumericToleranceType,
+  Purpose,
+  Question,
+  QuestionType,
+} from '../types';
+import { getResponseMode, getScoringMethod } from '../utils/scoring';
+import { getHotspotInteraction } from '../utils/labelPlacement';
+import { isObject } from '../utils/storage';
+
+// Request/response shapes follow the Mongoose schema documented in demoSchema.js
+
+export interface QuestionRequestBodyBase {
+  type: QuestionType;
+  purpose: Purpose;
+  stem: string;
+  topic?: string;
+  learningObjective?: string;
+  bloomsLevel?: BloomsLevel;
+  createdBy: string;
+  tags: string[];
+}
+
+export interface MCQRequestBody extends QuestionRequestBodyBase {
+  type: 'mcq';
+  responseMode: MCQResponseMode;
+  scoring?: MCQScoringMethod;
+  minSelections?: number;
+  maxSelections?: number;
+  options: { text: string; isCorrect: boolean; feedback?: string }[];
+}
+
+export interface OrderingRequestBody extends QuestionRequestBodyBase {
+  type: 'ordering';
+  items: { text: string; order: number }[];
+}
+
+export interface HotspotRequestBody extends QuestionRequestBodyBase {
+  type: 'hotspot';
+  interaction: HotspotInteraction;
+  // Zone ids are kept because labels refer to them; coordinates are fractions of the image size
+  zones: { id: string; coordinates: { x: number; y: number }[]; label?: string }[];
+  imageUrl?: string;
+  imageSize?: { width: number; height: number };
+  // Label placement only; labels without zones are distractors
+  labels?: { text: string; imageUrl?: string; zoneIds: string[]; feedback?: string }[];
+}
+
+export interface ClozeRequestBody extends QuestionRequestBodyBase {
+  type: 'cloze';
+  // Blank ids are kept because the passage refers to them
+  passage: string;
+  blanks: {
+    id: string;
+    mode: ClozeBlankMode;
+    acceptedAnswers: string[];
+    caseSensitive: boolean;
+    ignoreWhitespace: boolean;
+    pattern?: string;
+    choices: { text: string; isCorrect: boolean }[];
+    feedback?: string;
+  }[];
+}
+
+export interface MatchingRequestBody extends QuestionRequestBodyBase {
+  type: 'matching';
+  mode: MatchingMode;
+  // Response ids are kept because premises refer to them
+  premises: { text: string; responseId: string; feedback?: string }[];
+  responses: { id: string; text: string }[];
+}
+
+export interface NumericRequestBody extends QuestionRequestBodyBase {
+  type: 'numeric';
+  answerMode: NumericAnswerMode;
+  value?: number;
+  tolerance?: number;
+  toleranceType?: NumericToleranceType;
+  min?: number;
+  max?: number;
+  units: string[];
+  unitRequired: boolean;
+  significantFigures?: number;
+  correctFeedback?: string;
+  incorrectFeedback?: string;
+}
+
+export interface ShortAnswerRequestBody extends QuestionRequestBodyBase {
+  type: 'short-answer';
+  answers: { text: string; isPattern: boolean; credit: number; feedback?: string }[];
+  caseSensitive: boolean;
+  ignoreWhitespace: boolean;
+  incorrectFeedback?: string;
+}
+
+export interface CategorizeRequestBody extends QuestionRequestBodyBase {
+  type: 'categorize';
+  categories: { id: string; text: string }[];
+  // categoryId is empty for distractors
+  items: { text: string; categoryId: string; feedback?: string }[];
+}
+
+export interface EssayRequestBody extends QuestionRequestBodyBase {
+  type: 'essay';
+  minWords?: number;
+  maxWords?: number;
+  maxCharacters?: number;
+  modelAnswer?: string;
+  // Descriptors are in the order of the levels, so levels need no ids
+  rubric?: {
+    levels: { label: string; points: number }[];
+    criteria: { title: string; descriptors: string[] }[];
+  };
+}
+
+export type QuestionRequestBody =
+  | MCQRequestBody
+  | OrderingRequestBody
+  | HotspotRequestBody
+  | ClozeRequestBody
+  | MatchingRequestBody
+  | NumericRequestBody
+  | ShortAnswerRequestBody
+  | CategorizeRequestBody
+  | EssayRequestBody;
+
+export type QuestionResponse = QuestionRequestBody & {
+  _id: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export interface QuestionApi {
+  createQuestion: (body: QuestionRequestBody) => Promise<QuestionResponse>;
+  updateQuestion: (id: string, body: QuestionRequestBody) => Promise<QuestionResponse>;
+  getQuestion: (id: string) => Promise<QuestionResponse>;
+  deleteQuestion: (id: string) => Promise<void>;
+}
+
+export interface FieldError {
+  path: string;
+  message: string;
+}
+
+export class ApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+export class ApiValidationError extends ApiError {
+  fieldErrors: FieldError[];
+
+  constructor(message: string, fieldErrors: FieldError[] = []) {
+    super(message, 400);
+    this.name = 'ApiValidationError';
+    this.fieldErrors = fieldErrors;
+  }
+
+  get messages(): string[] {
+    return this.fieldErrors.length > 0
+      ? this.fieldErrors.map(error => error.message)
+      : [this.message];
+  }
+}
+
+// Placeholder author until the tool has real authentication
+export const DEMO_USER_ID = '65ab4f2e9c1234567890abcd';
+
+const trimOptional = (value?: string) => {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : undefined;
+};
+
+// Uploaded images, of hotspots and their labels, are data URLs kept with the assessment (and embedded in its
+// exports); the schema only stores links to images, so they are left out of the request
+const toImageLink = (url?: string) => {
+  const trimmed = trimOptional(url);
+  return trimmed && !/^data:/i.test(trimmed) ? trimmed : undefined;
+};
+
+export const normalizeTags = (tags: string[] = []) =>
+  tags
+    .map(tag => tag.trim())
+    .filter((tag, index, all) => tag && all.indexOf(tag) === index);
+
+export const toQuestionRequestBody = (question: Question, createdBy: string): QuestionRequestBody => {
+  const base = {
+    purpose: question.purpose,
+    stem: question.stem.trim(),
+    topic: trimOptional(question.topic),
+    learningObjective: trimOptional(question.learningObjective),
+    bloomsLevel: question.bloomsLevel,
+    createdBy,
+    tags: normalizeTags(question.tags),
+  };
+
+  switch (question.type) {
+    case 'mcq': {
+      const multiple = getResponseMode(question) === 'multiple';
+      return {
+        ...base,
+        type: 'mcq',
+        responseMode: multiple ? 'multiple' : 'single',
+        scoring: multiple ? getScoringMethod(question) : undefined,
+        minSelections: multiple ? question.minSelections : undefined,
+        maxSelections: multiple ? question.maxSelections : undefined,
+        options: question.options.map(opt => ({
+          text: opt.text.trim(),
+          isCorrect: opt.isCorrect,
+          feedback: trimOptional(opt.feedback),
+        })),
+      };
+    }
+    case 'ordering':
+      return {
+        ...base,
+        type: 'ordering',
+        items: question.items.map(item => ({
+          text: item.text.trim(),
+          order: item.order,
+        })),
+      };
+    case 'hotspot': {
+      const interaction = getHotspotInteraction(question);
+      return {
+        ...base,
+        type: 'hotspot',
+        interaction,
+        zones: question.zones.map(zone => ({
+          id: zone.id,
+          coordinates: zone.coordinates.map(({ x, y }) => ({ x, y })),
+          label: trimOptional(zone.label),
+        })),
+        imageUrl: toImageLink(question.imageUrl),
+        imageSize: question.imageSize && { width: question.imageSize.width, height: question.imageSize.height },
+        labels: interaction === 'labels'
+          ? (question.labels ?? []).map(label => ({
+              text: label.text.trim(),
+              imageUrl: toImageLink(label.imageUrl),
+              zoneIds: label.zoneIds,
+              feedback: trimOptional(label.feedback),
+            }))
+          : undefined,
+      };
+    }
+    case 'cloze':
+      return {
+        ...base,
+        type: 'cloze',
+        passage: question.passage,
+        // Only the fields of the blank's mode are sent
+        blanks: question.blanks.map(blank => ({
+          id: blank.id,
+          mode: blank.mode,
+          acceptedAnswers: blank.mode === 'text'
+            ? blank.acceptedAnswers.map(answer => answer.trim()).filter(Boolean)
+            : [],
+          caseSensitive: !!blank.caseSensitive,
+          ignoreWhitespace: !!blank.ignoreWhitespace,
+          pattern: blank.mode === 'text' ? trimOptional(blank.pattern) : undefined,
+          choices: blank.mode === 'dropdown'
+            ? blank.choices.map(choice => ({ text: choice.text.trim(), isCorrect: choice.isCorrect }))
+            : [],
+          feedback: trimOptional(blank.feedback),
+        })),
+      };
+    case 'matching':
+      return {
+        ...base,
+        type: 'matching',
+        mode: question.mode,
+        premises: question.premises.map(premise => ({
+          text: premise.text.trim(),
+          responseId: premise.responseId,
+          feedback: trimOptional(premise.feedback),
+        })),
+        responses: question.responses.map(response => ({ id: response.id, text: response.text.trim() })),
+      };
+    case 'numeric': {
+      // Only the fields of the answer mode are sent
+      const exact = question.answerMode === 'exact';
+      return {
+        ...base,
+        type: 'numeric',
+        answerMode: question.answerMode,
+        value: exact ? question.value : undefined,
+        tolerance: exact ? question.tolerance ?? 0 : undefined,
+        toleranceType: exact ? question.toleranceType : undefined,
+        min: exact ? undefined : question.min,
+        max: exact ? undefined : question.max,
+        units: question.units.map(unit => unit.trim()).filter(Boolean),
+        unitRequired: !!question.unitRequired,
+        significantFigures: question.significantFigures,
+        correctFeedback: trimOptional(question.correctFeedback),
+        incorrectFeedback: trimOptional(question.incorrectFeedback),
+      };
+    }
+    case 'short-answer':
+      return {
+        ...base,
+        type: 'short-answer',
+        answers: question.answers.map(answer => ({
+          // Patterns are sent as written, since spaces can matter in them
+          text: answer.isPattern ? answer.text : answer.text.trim(),
+          isPattern: !!answer.isPattern,
+          credit: answer.credit,
+          feedback: trimOptional(answer.feedback),
+        })),
+        caseSensitive: !!question.caseSensitive,
+        ignoreWhitespace: !!question.ignoreWhitespace,
+        incorrectFeedback: trimOptional(question.incorrectFeedback),
+      };
+    case 'categorize':
+      return {
+        ...base,
+        type: 'categorize',
+        categories: question.categories.map(category => ({ id: category.id, text: category.text.trim() })),
+        items: question.items.map(item => ({
+          text: item.text.trim(),
+          categoryId: item.categoryId,
+          feedback: trimOptional(item.feedback),
+        })),
+      };
+    case 'essay':
+      return {
+        ...base,
+        type: 'essay',
+        minWords: question.minWords,
+        maxWords: question.maxWords,
+        maxCharacters: question.maxCharacters,
+        modelAnswer: trimOptional(question.modelAnswer),
+        rubric: question.rubric && {
+          levels: question.rubric.levels.map(level => ({ label: level.label.trim(), points: level.points })),
+          criteria: question.rubric.criteria.map(criterion => ({
+            title: criterion.title.trim(),
+            descriptors: question.rubric!.levels.map((_, index) => criterion.descriptors[index]?.trim() ?? ''),
+          })),
+        },
+      };
+  }
+};
+
+// Mongoose reports validation failures as { message, errors: { [path]: { message } } }
+const parseErrorResponse = async (response: Response): Promise<ApiError> => {
+  let payload: unknown;
+  try {
+    payload = await response.json();
+  } catch {
+    payload = undefined;
+  }
+
+  const body = isObject(payload) ? payload : {};
+  const message = typeof body.message === 'string' && body.message
+    ? body.message
+    : `Request failed with status ${response.status}`;
+  if (response.status === 400 || response.status === 422) {
+    const fieldErrors: FieldError[] = isObject(body.errors)
+      ? Object.entries(body.errors).map(([path, error]) => ({
+          path,
+          message: isObject(error) && typeof error.message === 'string' && error.message ? error.message : String(error),
+        }))
+      : [];
+    return new ApiValidationError(message, fieldErrors);
+  }
+  return new ApiError(message, response.status);
+};
+
+export const createHttpQuestionApi = (baseUrl: string, fetchImpl: typeof fetch = fetch): QuestionApi => {
+  const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+    const response = await fetchImpl(`${baseUrl.replace(/\/$/, '')}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init?.headers },
+    });
+    if (!response.ok) {
+      throw await parseErrorResponse(response);
+    }
+    return response.status === 204 ? (undefined as T) : response.json();
+  };
+
+  return {
+    createQuestion: body => request<QuestionResponse>('/questions', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    }),
+    updateQuestion: (id, body) => request<QuestionResponse>(`/questions/${encodeURIComponent(id)}`, {
+      method: 'PUT',
+      body: JSON.stringify(body),
+    }),
+    getQuestion: id => request<QuestionResponse>(`/questions/${encodeURIComponent(id)}`),
+    deleteQuestion: id => request<void>(`/questions/${encodeURIComponent(id)}`, { method: 'DELETE' }),
+  };
+};
@@ -0,0 +1,125 @@
+import React from 'react';
+import { Assessment } from '../types';
+import { HistoryChangeOptions } from '../utils/history';
+import { addSection, getSectionPoints, removeSection, updateSection } from '../utils/assessmentStructure';
+
+interface AssessmentSettingsPanelProps {
+  assessment: Assessment;
+  onChange: (assessment: Assessment, options?: HistoryChangeOptions) => void;
+  onClose: () => void;
+}
+
+export const AssessmentSettingsPanel: React.FC<AssessmentSettingsPanelProps> = ({
+  assessment,
+  onChange,
+  onClose,
+}) => {
+  const updateField = (field: 'title' | 'description' | 'instructions', value: string) => {
+    onChange({ ...assessment, [field]: value }, { coalesceKey: `assessment:${field}` });
+  };
+
+  const updateTimeLimit = (value: string) => {
+    const minutes = parseInt(value, 10);
+    onChange(
+      { ...assessment, timeLimitMinutes: Number.isNaN(minutes) || minutes <= 0 ? undefined : minutes },
+      { coalesceKey: 'assessment:timeLimitMinutes' }
+    );
+  };
+
+  return (
+    <section className="assessment-settings">
+      <div className="section-card">
+        <div className="flex items-center justify-between">
+          <h2 className="section-title">Assessment Settings</h2>
+          <button onClick={onClose} className="btn btn-secondary btn-sm">
+            Done
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md-grid-cols-2 gap-6">
+          <div>
+            <div className="form-group">
+              <label className="form-label">Title</label>
+              <input
+                type="text"
+                value={assessment.title}
+                onChange={(e) => updateField('title', e.target.value)}
+                className="form-input"
+                placeholder="Assessment title"
+              />
+            </div>
+
+            <div className="form-group">
+              <label className="form-label">Description</label>
+              <textarea
+                value={assessment.description}
+                onChange={(e) => updateField('description', e.target.value)}
+                className="form-textarea"
+                rows={2}
+                placeholder="What this assessment covers"
+              />
+            </div>
+
+            <div className="form-group">
+              <label className="form-label">Instructions for students</label>
+              <textarea
+                value={assessment.instructions}
+                onChange={(e) => updateField('instructions', e.target.value)}
+                className="form-textarea"
+                rows={3}
+                placeholder="Shown before the first question"
+              />
+            </div>
+
+            <div className="form-group">
+              <label className="form-label">Time limit (minutes)</label>
+              <input
+                type="number"
+                min={0}
+                value={assessment.timeLimitMinutes ?? ''}
+                onChange={(e) => updateTimeLimit(e.target.value)}
+                className="form-input"
+                placeholder="No time limit"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="form-label">Sections</label>
+            <div className="space-y-2">
+              {assessment.sections.map((section) => (
+                <div key={section.id} className="assessment-section-row">
+                  <input
+                    type="text"
+                    value={section.title}
+                    onChange={(e) => onChange(
+                      updateSection(assessment, section.id, { title: e.target.value }),
+                      { coalesceKey: `section:${section.id}:title` }
+                    )}
+                    className="form-input"
+                    placeholder="Section title"
+                  />
+                  <span className="assessment-section-meta">
+                    {section.questionRefs.length} q · {getSectionPoints(section)} pts
+                  </span>
+                  {assessment.sections.length > 1 && (
+                    <button
+                      onClick={() => onChange(removeSection(assessment, section.id))}
+                      className="btn btn-danger btn-sm"
+                      title="Remove section (its questions move to the neighbouring section)"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+            <button onClick={() => onChange(addSection(assessment))} className="mcq-add-option">
+              + Add Section
+            </button>
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+};
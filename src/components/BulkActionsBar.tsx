@@ -0,0 +1,215 @@
+import React, { useState } from 'react';
+import { BloomsLevel, Purpose } from '../types';
+import { BulkEdit, InvalidQuestionSummary } from '../utils/bulkOperations';
+
+export interface BulkActionResult {
+  action: string;
+  count: number;
+  invalid: InvalidQuestionSummary[];
+}
+
+interface BulkActionsBarProps {
+  selectedCount: number;
+  visibleCount: number;
+  onSelectAllVisible: () => void;
+  onClearSelection: () => void;
+  onEdit: (edit: BulkEdit, action: string) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onExport: () => void;
+  topics: string[];
+  tags: string[];
+  result?: BulkActionResult;
+  onDismissResult: () => void;
+  onSelectQuestion: (questionId: string) => void;
+}
+
+const bloomsLevels: BloomsLevel[] = ['Remember', 'Understand', 'Apply', 'Analyze', 'Evaluate', 'Create'];
+
+const parseTags = (value: string) =>
+  Array.from(new Set(value.split(',').map(tag => tag.trim()).filter(Boolean)));
+
+export const BulkActionsBar: React.FC<BulkActionsBarProps> = ({
+  selectedCount,
+  visibleCount,
+  onSelectAllVisible,
+  onClearSelection,
+  onEdit,
+  onDuplicate,
+  onDelete,
+  onExport,
+  topics,
+  tags,
+  result,
+  onDismissResult,
+  onSelectQuestion,
+}) => {
+  const [topic, setTopic] = useState('');
+  const [learningObjective, setLearningObjective] = useState('');
+  const [tagDraft, setTagDraft] = useState('');
+
+  const plural = selectedCount !== 1 ? 's' : '';
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete ${selectedCount} selected question${plural}?`)) {
+      onDelete();
+    }
+  };
+
+  const handleTags = (kind: 'addTags' | 'removeTags') => {
+    const parsed = parseTags(tagDraft);
+    if (parsed.length === 0) return;
+    onEdit({ kind, tags: parsed }, kind === 'addTags' ? 'Add tags' : 'Remove tags');
+    setTagDraft('');
+  };
+
+  return (
+    <div className="bulk-actions">
+      <div className="bulk-actions-header">
+        <span className="bulk-actions-count">
+          {selectedCount} selected
+        </span>
+        <div className="bulk-actions-links">
+          {selectedCount < visibleCount && (
+            <button onClick={onSelectAllVisible} className="filter-bar-clear">
+              Select all {visibleCount}
+            </button>
+          )}
+          {selectedCount > 0 && (
+            <button onClick={onClearSelection} className="filter-bar-clear">
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+
+      {selectedCount > 0 && (
+        <div className="bulk-actions-body">
+          <div className="bulk-actions-row">
+            <button onClick={onDuplicate} className="btn btn-secondary btn-sm">
+              📋 Duplicate
+            </button>
+            <button onClick={onExport} className="btn btn-secondary btn-sm">
+              ⬇ Export
+            </button>
+            <button onClick={handleDelete} className="btn btn-danger btn-sm">
+              🗑️ Delete
+            </button>
+          </div>
+
+          <div className="bulk-actions-row">
+            <select
+              value=""
+              onChange={(e) => e.target.value && onEdit({ kind: 'purpose', purpose: e.target.value as Purpose }, 'Set purpose')}
+              className="form-select"
+            >
+              <option value="">Set purpose...</option>
+              <option value="formative">Formative</option>
+              <option value="summative">Summative</option>
+            </select>
+            <select
+              value=""
+              onChange={(e) => e.target.value && onEdit(
+                { kind: 'bloomsLevel', bloomsLevel: e.target.value === 'none' ? undefined : e.target.value as BloomsLevel },
+                "Set Bloom's level"
+              )}
+              className="form-select"
+            >
+              <option value="">Set Bloom's level...</option>
+              {bloomsLevels.map((level) => (
+                <option key={level} value={level}>{level}</option>
+              ))}
+              <option value="none">Clear level</option>
+            </select>
+          </div>
+
+          <div className="bulk-actions-row">
+            <input
+              type="text"
+              value={topic}
+              onChange={(e) => setTopic(e.target.value)}
+              className="form-input"
+              placeholder="Topic"
+              list="bulk-topic-suggestions"
+            />
+            <datalist id="bulk-topic-suggestions">
+              {topics.map((t) => (
+                <option key={t} value={t} />
+              ))}
+            </datalist>
+            <button
+              onClick={() => onEdit({ kind: 'topic', topic }, 'Set topic')}
+              className="btn btn-secondary btn-sm"
+            >
+              Set topic
+            </button>
+          </div>
+
+          <div className="bulk-actions-row">
+            <input
+              type="text"
+              value={learningObjective}
+              onChange={(e) => setLearningObjective(e.target.value)}
+              className="form-input"
+              placeholder="Learning objective"
+            />
+            <button
+              onClick={() => onEdit({ kind: 'learningObjective', learningObjective }, 'Set learning objective')}
+              className="btn btn-secondary btn-sm"
+            >
+              Set objective
+            </button>
+          </div>
+
+          <div className="bulk-actions-row">
+            <input
+              type="text"
+              value={tagDraft}
+              onChange={(e) => setTagDraft(e.target.value)}
+              className="form-input"
+              placeholder="Tags, comma separated"
+              list="bulk-tag-suggestions"
+            />
+            <datalist id="bulk-tag-suggestions">
+              {tags.map((tag) => (
+                <option key={tag} value={tag} />
+              ))}
+            </datalist>
+            <button onClick={() => handleTags('addTags')} className="btn btn-secondary btn-sm">
+              + Add
+            </button>
+            <button onClick={() => handleTags('removeTags')} className="btn btn-secondary btn-sm">
+              − Remove
+            </button>
+          </div>
+        </div>
+      )}
+
+      {result && (
+        <div className={`bulk-actions-result ${result.invalid.length > 0 ? 'has-errors' : ''}`}>
+          <div className="bulk-actions-result-header">
+            <span>
+              {result.action}: {result.count} question{result.count !== 1 ? 's' : ''} updated
+              {result.invalid.length > 0 && `, ${result.invalid.length} became invalid`}
+            </span>
+            <button onClick={onDismissResult} className="tag-chip-remove" title="Dismiss">
+              ×
+            </button>
+          </div>
+          {result.invalid.length > 0 && (
+            <ul className="bulk-actions-invalid">
+              {result.invalid.map(({ questionId, stem, errors }) => (
+                <li key={questionId}>
+                  <button onClick={() => onSelectQuestion(questionId)} className="filter-bar-clear">
+                    {stem || 'Untitled question'}
+                  </button>
+                  <span>{errors.join(' · ')}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,163 @@
+import React, { useRef, useState } from 'react';
+import { ImportResult } from '../utils/importUtils';
+import {
+  CSV_IGNORE,
+  CSV_SCALAR_COLUMNS,
+  createCsvTemplate,
+  csvToImportResult,
+  detectColumnMapping,
+  parseCsv,
+} from '../utils/csvFormat';
+import { downloadFile } from '../utils/download';
+import { Modal } from './Modal';
+
+interface CsvImportDialogProps {
+  onContinue: (result: ImportResult) => void;
+  onCancel: () => void;
+}
+
+const scalarLabels: Record<typeof CSV_SCALAR_COLUMNS[number], string> = {
+  type: 'Type',
+  purpose: 'Purpose',
+  stem: 'Question stem',
+  topic: 'Topic',
+  tags: 'Tags',
+  learningObjective: 'Learning objective',
+  bloomsLevel: "Bloom's level",
+  correct: 'Correct option(s)',
+};
+
+const countColumns = (mapping: string[], pattern: RegExp, minimum: number) =>
+  Math.max(minimum, ...mapping.map(column => Number(pattern.exec(column)?.[1] ?? 0)));
+
+export const CsvImportDialog: React.FC<CsvImportDialogProps> = ({
+  onContinue,
+  onCancel,
+}) => {
+  const [source, setSource] = useState('');
+  const [fileName, setFileName] = useState('Pasted CSV');
+  const [mapping, setMapping] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const rows = source.trim() ? parseCsv(source) : [];
+  const headers = rows[0] ?? [];
+
+  const updateSource = (text: string, name: string) => {
+    setSource(text);
+    setFileName(name);
+    const parsed = text.trim() ? parseCsv(text) : [];
+    setMapping(detectColumnMapping(parsed[0] ?? []));
+  };
+
+  const loadFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) updateSource(await file.text(), file.name);
+  };
+
+  const updateMapping = (index: number, column: string) => {
+    const next = [...mapping];
+    next[index] = column;
+    setMapping(next);
+  };
+
+  const optionCount = countColumns(mapping, /^option(\d+)/, 6);
+  const itemCount = countColumns(mapping, /^item(\d+)/, 8);
+
+  return (
+    <Modal
+      title="Import from CSV"
+      onClose={onCancel}
+      wide
+      footer={
+        <>
+          <span className="import-summary">
+            {rows.length > 1 ? `${rows.length - 1} data row${rows.length !== 2 ? 's' : ''}` : 'The first row must hold the column headers'}
+          </span>
+          <button onClick={onCancel} className="btn btn-secondary">
+            Cancel
+          </button>
+          <button
+            onClick={() => onContinue(csvToImportResult(rows, mapping, fileName))}
+            disabled={rows.length < 2}
+            className="btn btn-primary"
+          >
+            Review import
+          </button>
+        </>
+      }
+    >
+      <div className="text-import-toolbar">
+        <button
+          onClick={() => downloadFile('question-template.csv', createCsvTemplate(), 'text/csv')}
+          className="filter-bar-clear"
+        >
+          Download a template with the column layout
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} className="btn btn-secondary btn-sm">
+          Load file…
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.tsv,.txt,text/csv,text/plain"
+          onChange={loadFile}
+          className="hidden"
+        />
+      </div>
+
+      <textarea
+        value={source}
+        onChange={(e) => updateSource(e.target.value, 'Pasted CSV')}
+        className="form-textarea text-import-source"
+        rows={headers.length > 0 ? 5 : 12}
+        placeholder="Paste rows copied from a spreadsheet, or load a .csv file"
+        spellCheck={false}
+      />
+
+      {headers.length > 0 && (
+        <table className="csv-mapping">
+          <thead>
+            <tr>
+              <th>Column</th>
+              <th>First row</th>
+              <th>Imported as</th>
+            </tr>
+          </thead>
+          <tbody>
+            {headers.map((header, index) => (
+              <tr key={index}>
+                <td>{header || `Column ${index + 1}`}</td>
+                <td className="csv-mapping-sample">{rows[1]?.[index] ?? ''}</td>
+                <td>
+                  <select
+                    value={mapping[index] ?? CSV_IGNORE}
+                    onChange={(e) => updateMapping(index, e.target.value)}
+                    className="form-select"
+                  >
+                    <option value={CSV_IGNORE}>Don't import</option>
+                    {CSV_SCALAR_COLUMNS.map((column) => (
+                      <option key={column} value={column}>{scalarLabels[column]}</option>
+                    ))}
+                    {Array.from({ length: optionCount }, (_, i) => (
+                      <optgroup key={`option${i + 1}`} label={`Option ${i + 1}`}>
+                        <option value={`option${i + 1}`}>Option {i + 1} text</option>
+                        <option value={`option${i + 1}Correct`}>Option {i + 1} is correct</option>
+                        <option value={`option${i + 1}Feedback`}>Option {i + 1} feedback</option>
+                      </optgroup>
+                    ))}
+                    <optgroup label="Ordering items">
+                      {Array.from({ length: itemCount }, (_, i) => (
+                        <option key={i} value={`item${i + 1}`}>Item {i + 1}</option>
+                      ))}
+                    </optgroup>
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </Modal>
+  );
+};
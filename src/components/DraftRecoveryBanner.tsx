@@ -0,0 +1,38 @@
+import React from 'react';
+
+interface DraftRecoveryBannerProps {
+  draftSavedAt: number;
+  lastSavedAt?: number;
+  questionCount: number;
+  onRecover: () => void;
+  onDiscard: () => void;
+}
+
+export const DraftRecoveryBanner: React.FC<DraftRecoveryBannerProps> = ({
+  draftSavedAt,
+  lastSavedAt,
+  questionCount,
+  onRecover,
+  onDiscard,
+}) => {
+  return (
+    <div className="draft-banner" role="alert">
+      <div className="draft-banner-content">
+        <h4 className="draft-banner-title">Recover unsaved draft?</h4>
+        <p className="draft-banner-text">
+          A draft with {questionCount} question{questionCount !== 1 ? 's' : ''} was autosaved on{' '}
+          {new Date(draftSavedAt).toLocaleString()}
+          {lastSavedAt && <>, after your last save on {new Date(lastSavedAt).toLocaleString()}</>}.
+        </p>
+      </div>
+      <div className="draft-banner-actions">
+        <button onClick={onRecover} className="btn btn-primary btn-sm">
+          Recover Draft
+        </button>
+        <button onClick={onDiscard} className="btn btn-secondary btn-sm">
+          Discard
+        </button>
+      </div>
+    </div>
+  );
+};
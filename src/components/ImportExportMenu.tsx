@@ -0,0 +1,317 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Assessment, AssessmentState, Question } from '../types';
+import { validateQuestion } from '../utils/assessmentUtils';
+import { downloadFile, toFileSlug } from '../utils/download';
+import { AssessmentImportMode, ImportResult, ImportTarget, TextExportResult } from '../utils/importUtils';
+import { serializeGift } from '../utils/giftFormat';
+import { serializeAiken } from '../utils/aikenFormat';
+import { serializeCsv } from '../utils/csvFormat';
+import { AssessmentFileImport, createAssessmentFile, parseAssessmentFile } from '../utils/jsonFormat';
+import { QTI_VERSIONS, QtiVersion } from '../utils/qti';
+import { createQtiPackage } from '../utils/qtiExport';
+import { parseQtiFile } from '../utils/qtiImport';
+import { ImportPreview } from './ImportPreview';
+import { TextImportDialog } from './TextImportDialog';
+import { CsvImportDialog } from './CsvImportDialog';
+import { JsonImportDialog } from './JsonImportDialog';
+import { PrintDialog } from './PrintDialog';
+import { ScormExportDialog } from './ScormExportDialog';
+
+interface ImportExportMenuProps {
+  assessment: Assessment;
+  questions: Question[];
+  onImport?: (questions: Question[], target: ImportTarget) => void;
+  onImportAssessment?: (state: AssessmentState, mode: AssessmentImportMode) => void;
+}
+
+export const ImportExportMenu: React.FC<ImportExportMenuProps> = ({
+  assessment,
+  questions,
+  onImport,
+  onImportAssessment,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string>();
+  const [importResult, setImportResult] = useState<ImportResult>();
+  const [showTextImport, setShowTextImport] = useState(false);
+  const [showCsvImport, setShowCsvImport] = useState(false);
+  const [showPrint, setShowPrint] = useState(false);
+  const [showScormExport, setShowScormExport] = useState(false);
+  const [assessmentFile, setAssessmentFile] = useState<{ name: string; file: AssessmentFileImport }>();
+  const menuRef = useRef<HTMLDivElement>(null);
+  const qtiInputRef = useRef<HTMLInputElement>(null);
+  const jsonInputRef = useRef<HTMLInputElement>(null);
+
+  // Close the menu when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const confirmInvalid = () => {
+    const invalidCount = questions.filter(q => !validateQuestion(q).isValid).length;
+    return invalidCount === 0 || window.confirm(
+      `${invalidCount} question${invalidCount !== 1 ? 's have' : ' has'} validation errors and may not import cleanly. Export anyway?`
+    );
+  };
+
+  const exportQti = async (version: QtiVersion) => {
+    setIsOpen(false);
+    if (!confirmInvalid()) return;
+
+    setIsBusy(true);
+    setError(undefined);
+    try {
+      const blob = await createQtiPackage(assessment, questions, version);
+      downloadFile(`${toFileSlug(assessment.title)}-qti${version.replace('.', '')}.zip`, blob, 'application/zip');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const exportJson = async () => {
+    setIsOpen(false);
+    setIsBusy(true);
+    setError(undefined);
+    try {
+      const { text, linkedImages } = await createAssessmentFile({ assessment, questions });
+      if (linkedImages.length > 0) {
+        window.alert(
+          `${linkedImages.length} hotspot image${linkedImages.length !== 1 ? 's' : ''} couldn't be downloaded for embedding and ` +
+          `stay linked by URL in the file.`
+        );
+      }
+      downloadFile(`${toFileSlug(assessment.title)}.json`, text, 'application/json');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const exportText = (
+    format: string,
+    serialize: (questions: Question[]) => TextExportResult,
+    extension = 'txt',
+    mimeType = 'text/plain'
+  ) => {
+    setIsOpen(false);
+    const { text, skipped } = serialize(questions);
+    const reasons = Array.from(new Set(skipped.map(entry => entry.reason))).join('\n');
+    if (!text) {
+      window.alert(`None of the questions can be exported as ${format}:\n${reasons}`);
+      return;
+    }
+    if (skipped.length > 0 && !window.confirm(
+      `${skipped.length} question${skipped.length !== 1 ? 's' : ''} will be left out of the ${format} export:\n${reasons}\n\nExport the rest?`
+    )) {
+      return;
+    }
+    // Excel only reads CSV files as UTF-8 when they start with a byte order mark
+    const content = extension === 'csv' ? `\uFEFF${text}` : text;
+    downloadFile(`${toFileSlug(assessment.title)}-${format.toLowerCase()}.${extension}`, content, mimeType);
+  };
+
+  const openFilePicker = (input: HTMLInputElement | null) => {
+    setIsOpen(false);
+    input?.click();
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>, parse: (file: File) => Promise<ImportResult>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still triggers a change
+    e.target.value = '';
+    if (!file) return;
+
+    setIsBusy(true);
+    setError(undefined);
+    try {
+      setImportResult(await parse(file));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleJsonFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) setAssessmentFile({ name: file.name, file: parseAssessmentFile(await file.text()) });
+  };
+
+  const confirmImport = (imported: Question[], target: ImportTarget) => {
+    onImport?.(imported, target);
+    setImportResult(undefined);
+  };
+
+  return (
+    <div className="menu" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={isBusy}
+        className="btn btn-secondary btn-sm"
+        title={error}
+      >
+        {isBusy ? 'Working…' : error ? '⚠ Import / Export' : '⇅ Import / Export'}
+      </button>
+      {isOpen && (
+        <div className="menu-dropdown">
+          {onImport && (
+            <>
+              <div className="menu-group-title">Import</div>
+              {onImportAssessment && (
+                <button onClick={() => openFilePicker(jsonInputRef.current)} className="menu-item">
+                  Assessment file (.json)…
+                </button>
+              )}
+              <button onClick={() => openFilePicker(qtiInputRef.current)} className="menu-item">
+                QTI package or item (.zip, .xml)…
+              </button>
+              <button
+                onClick={() => {
+                  setIsOpen(false);
+                  setShowTextImport(true);
+                }}
+                className="menu-item"
+              >
+                GIFT or Aiken text…
+              </button>
+              <button
+                onClick={() => {
+                  setIsOpen(false);
+                  setShowCsvImport(true);
+                }}
+                className="menu-item"
+              >
+                CSV spreadsheet…
+              </button>
+            </>
+          )}
+          <div className="menu-group-title">Export</div>
+          <button onClick={exportJson} className="menu-item">
+            Assessment file (.json)
+          </button>
+          {QTI_VERSIONS.map((version) => (
+            <button
+              key={version}
+              onClick={() => exportQti(version)}
+              disabled={questions.length === 0}
+              className="menu-item"
+            >
+              QTI {version} package (.zip)
+            </button>
+          ))}
+          <button
+            onClick={() => {
+              setIsOpen(false);
+              setShowScormExport(true);
+            }}
+            disabled={questions.length === 0}
+            className="menu-item"
+          >
+            SCORM 1.2 or cmi5 package (.zip)…
+          </button>
+          <button
+            onClick={() => exportText('GIFT', serializeGift)}
+            disabled={questions.length === 0}
+            className="menu-item"
+          >
+            GIFT text (.txt)
+          </button>
+          <button
+            onClick={() => exportText('Aiken', serializeAiken)}
+            disabled={questions.length === 0}
+            className="menu-item"
+          >
+            Aiken text (.txt)
+          </button>
+          <button
+            onClick={() => exportText('CSV', serializeCsv, 'csv', 'text/csv')}
+            disabled={questions.length === 0}
+            className="menu-item"
+          >
+            CSV spreadsheet (.csv)
+          </button>
+          <button
+            onClick={() => {
+              setIsOpen(false);
+              setShowPrint(true);
+            }}
+            disabled={questions.length === 0}
+            className="menu-item"
+          >
+            Paper test and answer key…
+          </button>
+        </div>
+      )}
+      <input
+        ref={qtiInputRef}
+        type="file"
+        accept=".zip,.xml,application/zip,text/xml,application/xml"
+        onChange={(e) => handleFile(e, parseQtiFile)}
+        className="hidden"
+      />
+      <input
+        ref={jsonInputRef}
+        type="file"
+        accept=".json,application/json"
+        onChange={handleJsonFile}
+        className="hidden"
+      />
+      {showScormExport && (
+        <ScormExportDialog assessment={assessment} questions={questions} onClose={() => setShowScormExport(false)} />
+      )}
+      {showPrint && (
+        <PrintDialog assessment={assessment} questions={questions} onClose={() => setShowPrint(false)} />
+      )}
+      {assessmentFile && (
+        <JsonImportDialog
+          name={assessmentFile.name}
+          file={assessmentFile.file}
+          onConfirm={(state, mode) => {
+            onImportAssessment?.(state, mode);
+            setAssessmentFile(undefined);
+          }}
+          onCancel={() => setAssessmentFile(undefined)}
+        />
+      )}
+      {showTextImport && (
+        <TextImportDialog
+          onContinue={(result) => {
+            setShowTextImport(false);
+            setImportResult(result);
+          }}
+          onCancel={() => setShowTextImport(false)}
+        />
+      )}
+      {showCsvImport && (
+        <CsvImportDialog
+          onContinue={(result) => {
+            setShowCsvImport(false);
+            setImportResult(result);
+          }}
+          onCancel={() => setShowCsvImport(false)}
+        />
+      )}
+      {importResult && (
+        <ImportPreview
+          result={importResult}
+          sections={assessment.sections}
+          onConfirm={confirmImport}
+          onCancel={() => setImportResult(undefined)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { AssessmentSection, Question } from '../types';
+import { ImportResult, ImportTarget } from '../utils/importUtils';
+import { Modal } from './Modal';
+
+interface ImportPreviewProps {
+  result: ImportResult;
+  sections: AssessmentSection[];
+  onConfirm: (questions: Question[], target: ImportTarget) => void;
+  onCancel: () => void;
+}
+
+const NEW_SECTION = '__new__';
+
+export const ImportPreview: React.FC<ImportPreviewProps> = ({
+  result,
+  sections,
+  onConfirm,
+  onCancel,
+}) => {
+  // Items are referenced by index since skipped items have no question id
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+  const [targetSection, setTargetSection] = useState(NEW_SECTION);
+  const [newSectionTitle, setNewSectionTitle] = useState(`Imported from ${result.name}`);
+
+  const importable = result.items.filter(item => item.question);
+  const selected = result.items.filter((item, index) => item.question && !excluded.has(index));
+  const invalidCount = selected.filter(item => item.validationErrors.length > 0).length;
+  const skippedCount = result.items.length - importable.length;
+
+  const toggleItem = (index: number) => {
+    const next = new Set(excluded);
+    if (next.has(index)) {
+      next.delete(index);
+    } else {
+      next.add(index);
+    }
+    setExcluded(next);
+  };
+
+  const excludeInvalid = () => {
+    const next = new Set(excluded);
+    result.items.forEach((item, index) => {
+      if (item.validationErrors.length > 0) next.add(index);
+    });
+    setExcluded(next);
+  };
+
+  const handleConfirm = () => {
+    onConfirm(
+      selected.map(item => item.question!),
+      targetSection === NEW_SECTION
+        ? { kind: 'newSection', title: newSectionTitle.trim() || 'Imported questions' }
+        : { kind: 'section', sectionId: targetSection }
+    );
+  };
+
+  return (
+    <Modal
+      title={`Import ${result.format}: ${result.name}`}
+      onClose={onCancel}
+      wide
+      footer={
+        <>
+          <span className="import-summary">
+            {selected.length} of {result.items.length} item{result.items.length !== 1 ? 's' : ''} selected
+            {invalidCount > 0 && ` · ${invalidCount} with validation errors`}
+            {skippedCount > 0 && ` · ${skippedCount} skipped`}
+          </span>
+          <button onClick={onCancel} className="btn btn-secondary">
+            Cancel
+          </button>
+          <button onClick={handleConfirm} disabled={selected.length === 0} className="btn btn-primary">
+            Import {selected.length} question{selected.length !== 1 ? 's' : ''}
+          </button>
+        </>
+      }
+    >
+      {result.errors.length > 0 && (
+        <div className="validation-error">
+          <ul className="validation-error-list">
+            {result.errors.map((error, index) => (
+              <li key={index} className="validation-error-item">{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {importable.length > 0 && (
+        <div className="import-target">
+          <label className="form-label">Add to</label>
+          <select
+            value={targetSection}
+            onChange={(e) => setTargetSection(e.target.value)}
+            className="form-select"
+          >
+            <option value={NEW_SECTION}>New section</option>
+            {sections.map((section) => (
+              <option key={section.id} value={section.id}>
+                {section.title || 'Untitled section'}
+              </option>
+            ))}
+          </select>
+          {targetSection === NEW_SECTION && (
+            <input
+              type="text"
+              value={newSectionTitle}
+              onChange={(e) => setNewSectionTitle(e.target.value)}
+              className="form-input"
+              placeholder="Section title"
+            />
+          )}
+        </div>
+      )}
+
+      {invalidCount > 0 && (
+        <div className="import-invalid-note">
+          {invalidCount} selected item{invalidCount !== 1 ? 's need' : ' needs'} fixing after import.
+          <button onClick={excludeInvalid} className="filter-bar-clear">
+            Leave them out
+          </button>
+        </div>
+      )}
+
+      <ul className="import-items">
+        {result.items.map((item, index) => {
+          const { question, issues, validationErrors } = item;
+          const status = !question
+            ? { label: 'Skipped', className: 'badge-red' }
+            : validationErrors.length > 0
+              ? { label: 'Needs fixes', className: 'badge-orange' }
+              : { label: 'Ready', className: 'badge-green' };
+
+          return (
+            <li key={index} className={`import-item ${!question || excluded.has(index) ? 'excluded' : ''}`}>
+              <div className="import-item-header">
+                <input
+                  type="checkbox"
+                  checked={!!question && !excluded.has(index)}
+                  disabled={!question}
+                  onChange={() => toggleItem(index)}
+                />
+                {question && <span className="badge badge-blue">{question.type.toUpperCase()}</span>}
+                <span className={`badge ${status.className}`}>{status.label}</span>
+                <span className="import-item-text">{question?.stem || item.source}</span>
+              </div>
+              {question && question.stem && <div className="import-item-source">{item.source}</div>}
+              {(issues.length > 0 || validationErrors.length > 0) && (
+                <ul className="import-item-messages">
+                  {issues.map((issue, i) => (
+                    <li key={`issue-${i}`} className="import-item-issue">{issue}</li>
+                  ))}
+                  {validationErrors.map((error, i) => (
+                    <li key={`error-${i}`} className="import-item-error">{error}</li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </Modal>
+  );
+};
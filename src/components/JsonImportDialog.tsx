@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { AssessmentState } from '../types';
+import { validateQuestion } from '../utils/assessmentUtils';
+import { AssessmentFileImport } from '../utils/jsonFormat';
+import { AssessmentImportMode } from '../utils/importUtils';
+import { Modal } from './Modal';
+
+interface JsonImportDialogProps {
+  name: string;
+  file: AssessmentFileImport;
+  onConfirm: (state: AssessmentState, mode: AssessmentImportMode) => void;
+  onCancel: () => void;
+}
+
+export const JsonImportDialog: React.FC<JsonImportDialogProps> = ({
+  name,
+  file,
+  onConfirm,
+  onCancel,
+}) => {
+  const [mode, setMode] = useState<AssessmentImportMode>('merge');
+  const { state, errors, kind } = file;
+
+  const questionCount = state?.questions.length ?? 0;
+  const sectionCount = state?.assessment.sections.length ?? 0;
+  const invalidCount = state ? state.questions.filter(q => !validateQuestion(q).isValid).length : 0;
+
+  return (
+    <Modal
+      title={`Import ${name}`}
+      onClose={onCancel}
+      footer={
+        <>
+          <button onClick={onCancel} className="btn btn-secondary">
+            Cancel
+          </button>
+          <button
+            onClick={() => state && onConfirm(state, kind === 'questions' ? 'merge' : mode)}
+            disabled={!state || questionCount === 0}
+            className="btn btn-primary"
+          >
+            {mode === 'replace' && kind === 'assessment' ? 'Replace assessment' : `Add ${questionCount} question${questionCount !== 1 ? 's' : ''}`}
+          </button>
+        </>
+      }
+    >
+      {errors.length > 0 && (
+        <div className="validation-error">
+          <h4 className="validation-error-title">The file doesn't match the assessment file format:</h4>
+          <ul className="validation-error-list">
+            {errors.map((error, index) => (
+              <li key={index} className="validation-error-item">{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {state && (
+        <>
+          <p className="import-summary">
+            {kind === 'assessment' && <><strong>{state.assessment.title || 'Untitled assessment'}</strong> · </>}
+            {questionCount} question{questionCount !== 1 ? 's' : ''} in {sectionCount} section{sectionCount !== 1 ? 's' : ''}
+            {invalidCount > 0 && ` · ${invalidCount} with validation errors`}
+          </p>
+
+          {kind === 'assessment' && (
+            <div className="import-mode">
+              <label className="import-mode-option">
+                <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+                <span>
+                  <strong>Add to this assessment</strong>
+                  <span className="import-mode-hint">
+                    Its sections are added after yours; ids that are already in use are replaced with new ones.
+                  </span>
+                </span>
+              </label>
+              <label className="import-mode-option">
+                <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                <span>
+                  <strong>Replace this assessment</strong>
+                  <span className="import-mode-hint">
+                    The title, sections and all current questions are swapped for the file's. Undo brings them back.
+                  </span>
+                </span>
+              </label>
+            </div>
+          )}
+        </>
+      )}
+    </Modal>
+  );
+};
@@ -1,21 +1,122 @@
-import React from 'react';
-import { Question, QuestionType } from '../types';
+import React, { useEffect, useState } from 'react';
+import { DndContext, DragEndEvent, closestCenter, KeyboardSensor, PointerSensor, useSensor, useSensors } from '@dnd-kit/core';
+import { sortableKeyboardCoordinates } from '@dnd-kit/sortable';
+import { Assessment, AssessmentState, Question, QuestionSaveStatus, QuestionType, QuestionVersion } from '../types';
 import { QuestionEditor } from './QuestionEditor';
-import { createEmptyQuestion, generateId } from '../utils/assessmentUtils';
+import { AssessmentSettingsPanel } from './AssessmentSettingsPanel';
+import { QuestionFilterBar } from './QuestionFilterBar';
+import { SortableQuestionCard } from './SortableQuestionCard';
+import { SidebarSection, SECTION_DROP_PREFIX } from './SidebarSection';
+import { BulkActionResult, BulkActionsBar } from './BulkActionsBar';
+import { ImportExportMenu } from './ImportExportMenu';
+import { MarkdownSourceEditor } from './MarkdownSourceEditor';
+import { createEmptyQuestion } from '../utils/assessmentUtils';
+import { HistoryChangeOptions, getTextEditKey } from '../utils/history';
+import {
+  findQuestionRef,
+  getOrderedQuestionIds,
+  getTotalPoints,
+  moveQuestion,
+  moveQuestionRef,
+  moveQuestionToSection,
+  setQuestionPoints,
+} from '../utils/assessmentStructure';
+import {
+  EMPTY_FILTER,
+  QuestionFilter,
+  collectTags,
+  collectTopics,
+  filterQuestions,
+  isFilterActive,
+} from '../utils/questionFilters';
+import {
+  BulkEdit,
+  applyBulkEdit,
+  createSelectionExport,
+  deleteQuestions,
+  duplicateQuestions,
+  findNewlyInvalid,
+  getSelectionRange,
+} from '../utils/bulkOperations';
+import { downloadFile, toFileSlug } from '../utils/download';
+import { AssessmentImportMode, ImportTarget } from '../utils/importUtils';
 
 interface MainCanvasProps {
+  assessment: Assessment;
+  onAssessmentChange: (assessment: Assessment, options?: HistoryChangeOptions) => void;
   questions: Question[];
-  onQuestionsChange: (questions: Question[]) => void;
+  onQuestionsChange: (questions: Question[], options?: HistoryChangeOptions) => void;
+  onImportQuestions?: (questions: Question[], target: ImportTarget) => void;
+  onImportAssessment?: (state: AssessmentState, mode: AssessmentImportMode) => void;
   currentQuestionId?: string;
   onCurrentQuestionChange: (questionId?: string) => void;
+  onSaveQuestion?: (question: Question, changeNote?: string) => void;
+  getSaveStatus?: (question: Question) => QuestionSaveStatus;
+  saveErrors?: Record<string, string[]>;
+  versionHistories?: Record<string, QuestionVersion[]>;
+  lastSavedAt?: number;
+  lastAutosavedAt?: number;
+  // Browser storage failing to read or write, which takes the place of the save status
+  storageError?: string;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
 }
 
 export const MainCanvas: React.FC<MainCanvasProps> = ({
+  assessment,
+  onAssessmentChange,
   questions,
   onQuestionsChange,
+  onImportQuestions,
+  onImportAssessment,
   currentQuestionId,
   onCurrentQuestionChange,
+  onSaveQuestion,
+  getSaveStatus,
+  saveErrors = {},
+  versionHistories = {},
+  lastSavedAt,
+  lastAutosavedAt,
+  storageError,
+  onUndo,
+  onRedo,
+  canUndo = false,
+  canRedo = false,
 }) => {
+  const [showSettings, setShowSettings] = useState(false);
+  const [sourceMode, setSourceMode] = useState(false);
+  const [filter, setFilter] = useState<QuestionFilter>(EMPTY_FILTER);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [selectionAnchor, setSelectionAnchor] = useState<string>();
+  const [bulkResult, setBulkResult] = useState<BulkActionResult>();
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 4 } }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y) undo and redo across the whole editor
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey && onUndo) {
+        e.preventDefault();
+        onUndo();
+      } else if (((key === 'z' && e.shiftKey) || key === 'y') && onRedo) {
+        e.preventDefault();
+        onRedo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onUndo, onRedo]);
+
   const addQuestion = (type: QuestionType) => {
     const newQuestion = createEmptyQuestion(type);
     onQuestionsChange([...questions, newQuestion]);
@@ -23,10 +124,14 @@ export const MainCanvas: React.FC<MainCanvasProps> = ({
   };
 
   const updateQuestion = (updatedQuestion: Question) => {
+    const previousQuestion = questions.find(q => q.id === updatedQuestion.id);
     const updatedQuestions = questions.map(q =>
       q.id === updatedQuestion.id ? updatedQuestion : q
     );
-    onQuestionsChange(updatedQuestions);
+    // Typing in a single text field is grouped into one undo step
+    onQuestionsChange(updatedQuestions, {
+      coalesceKey: previousQuestion && getTextEditKey(previousQuestion, updatedQuestion),
+    });
   };
 
   const deleteQuestion = (questionId: string) => {
@@ -39,30 +144,108 @@ export const MainCanvas: React.FC<MainCanvasProps> = ({
     }
   };
 
+  // The copy is inserted right after its source, which also places it after
+  // the source within the same section
   const duplicateQuestion = (question: Question) => {
-    const duplicatedQuestion = {
-      ...question,
-      id: generateId(),
-      stem: `${question.stem} (Copy)`,
-    };
-    onQuestionsChange([...questions, duplicatedQuestion]);
-    onCurrentQuestionChange(duplicatedQuestion.id);
+    const { questions: updatedQuestions, duplicatedIds } = duplicateQuestions(questions, new Set([question.id]));
+    onQuestionsChange(updatedQuestions);
+    onCurrentQuestionChange(duplicatedIds[0]);
   };
 
-  const saveQuestion = () => {
-    // In a real application, this would save to a backend
-    // For now, we'll just show a success message
-    alert('Question saved successfully!');
-    console.log('Question saved:', questions.find(q => q.id === currentQuestionId));
-    addQuestion('mcq');
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over || active.id === over.id) return;
+
+    const overId = String(over.id);
+    if (overId.startsWith(SECTION_DROP_PREFIX)) {
+      onAssessmentChange(moveQuestionRef(assessment, String(active.id), overId.slice(SECTION_DROP_PREFIX.length)));
+      return;
+    }
+
+    const target = findQuestionRef(assessment, overId);
+    if (target) {
+      onAssessmentChange(moveQuestionRef(
+        assessment,
+        String(active.id),
+        target.section.id,
+        target.section.questionRefs.indexOf(target.ref)
+      ));
+    }
   };
 
   const currentQuestion = questions.find(q => q.id === currentQuestionId);
+  const currentPlacement = currentQuestion && findQuestionRef(assessment, currentQuestion.id);
+  const totalPoints = getTotalPoints(assessment);
+  const filterActive = isFilterActive(filter);
+  const visibleIds = new Set(filterQuestions(questions, filter).map(q => q.id));
+  const allTopics = collectTopics(questions);
+  const allTags = collectTags(questions);
+  const orderedIds = getOrderedQuestionIds(assessment);
+  const visibleOrderedIds = orderedIds.filter(id => visibleIds.has(id));
+  // Questions removed elsewhere (undo, delete) drop out of the selection
+  const selection = new Set(selectedIds.filter(id => questions.some(q => q.id === id)));
+
+  const toggleSelection = (questionId: string, extendRange: boolean) => {
+    if (extendRange && selectionAnchor) {
+      const range = getSelectionRange(visibleOrderedIds, selectionAnchor, questionId);
+      setSelectedIds(Array.from(new Set([...Array.from(selection), ...range])));
+    } else {
+      setSelectedIds(selection.has(questionId)
+        ? Array.from(selection).filter(id => id !== questionId)
+        : [...Array.from(selection), questionId]);
+      setSelectionAnchor(questionId);
+    }
+  };
+
+  const clearSelection = () => {
+    setSelectedIds([]);
+    setSelectionAnchor(undefined);
+  };
+
+  const handleBulkEdit = (edit: BulkEdit, action: string) => {
+    const updatedQuestions = applyBulkEdit(questions, selection, edit);
+    onQuestionsChange(updatedQuestions);
+    setBulkResult({
+      action,
+      count: selection.size,
+      invalid: findNewlyInvalid(questions, updatedQuestions),
+    });
+  };
+
+  const handleBulkDuplicate = () => {
+    const { questions: updatedQuestions, duplicatedIds } = duplicateQuestions(questions, selection);
+    onQuestionsChange(updatedQuestions);
+    setSelectedIds(duplicatedIds);
+    setSelectionAnchor(undefined);
+  };
+
+  const handleBulkDelete = () => {
+    const updatedQuestions = deleteQuestions(questions, selection);
+    onQuestionsChange(updatedQuestions);
+    if (currentQuestionId && selection.has(currentQuestionId)) {
+      onCurrentQuestionChange(updatedQuestions.length > 0 ? updatedQuestions[0].id : undefined);
+    }
+    clearSelection();
+    setBulkResult(undefined);
+  };
+
+  const handleBulkExport = () => {
+    downloadFile(
+      `${toFileSlug(assessment.title)}-questions.json`,
+      JSON.stringify(createSelectionExport(questions, selection), null, 2),
+      'application/json'
+    );
+  };
 
   const questionTypes = [
     { type: 'mcq' as QuestionType, label: 'Multiple Choice', icon: '🔘', description: 'Students select from multiple options' },
     { type: 'ordering' as QuestionType, label: 'Ordering', icon: '🔢', description: 'Students arrange items in correct sequence' },
     { type: 'hotspot' as QuestionType, label: 'Hotspot', icon: '🎯', description: 'Students click on specific areas' },
+    { type: 'cloze' as QuestionType, label: 'Fill in the Blanks', icon: '✏️', description: 'Students complete gaps in a passage' },
+    { type: 'matching' as QuestionType, label: 'Matching', icon: '🔗', description: 'Students pair premises with responses' },
+    { type: 'numeric' as QuestionType, label: 'Numeric', icon: '🧮', description: 'Students enter a number, with tolerance and units' },
+    { type: 'short-answer' as QuestionType, label: 'Short Answer', icon: '💬', description: 'Students type a word or phrase' },
+    { type: 'categorize' as QuestionType, label: 'Categorize', icon: '🗂️', description: 'Students sort items into categories' },
+    { type: 'essay' as QuestionType, label: 'Essay', icon: '📝', description: 'Students write an extended response graded with a rubric' },
   ];
 
   return (
@@ -73,12 +256,61 @@ export const MainCanvas: React.FC<MainCanvasProps> = ({
           <div className="header-inner">
             <div className="header-title-section">
               <h1 className="header-title">Assessment Authoring Tool</h1>
-              <p className="header-subtitle">Create and manage assessment questions</p>
+              <p className="header-subtitle">{assessment.title || 'Create and manage assessment questions'}</p>
             </div>
             <div className="header-stats">
+              {(onUndo || onRedo) && (
+                <div className="history-controls">
+                  <button
+                    onClick={onUndo}
+                    disabled={!canUndo}
+                    className="btn btn-secondary btn-sm"
+                    title="Undo (Ctrl+Z)"
+                  >
+                    ↶ Undo
+                  </button>
+                  <button
+                    onClick={onRedo}
+                    disabled={!canRedo}
+                    className="btn btn-secondary btn-sm"
+                    title="Redo (Ctrl+Shift+Z)"
+                  >
+                    ↷ Redo
+                  </button>
+                </div>
+              )}
+              {storageError ? (
+                <span className="header-save-status is-error">{storageError}</span>
+              ) : (lastAutosavedAt || lastSavedAt) && (
+                <span className="header-save-status">
+                  {lastAutosavedAt && (!lastSavedAt || lastAutosavedAt > lastSavedAt)
+                    ? `Draft autosaved ${new Date(lastAutosavedAt).toLocaleTimeString()}`
+                    : `Saved ${new Date(lastSavedAt!).toLocaleTimeString()}`}
+                </span>
+              )}
               <span className="header-stats-text">
-                {questions.length} question{questions.length !== 1 ? 's' : ''}
+                {questions.length} question{questions.length !== 1 ? 's' : ''} · {totalPoints} pt{totalPoints !== 1 ? 's' : ''}
+                {assessment.timeLimitMinutes ? ` · ${assessment.timeLimitMinutes} min` : ''}
               </span>
+              <ImportExportMenu
+                assessment={assessment}
+                questions={questions}
+                onImport={onImportQuestions}
+                onImportAssessment={onImportAssessment}
+              />
+              <button
+                onClick={() => setSourceMode(!sourceMode)}
+                className={`btn btn-sm ${sourceMode ? 'btn-primary' : 'btn-secondary'}`}
+                title="Write questions as Markdown next to the visual editor"
+              >
+                ✎ Source
+              </button>
+              <button
+                onClick={() => setShowSettings(!showSettings)}
+                className={`btn btn-sm ${showSettings ? 'btn-primary' : 'btn-secondary'}`}
+              >
+                ⚙ Assessment Settings
+              </button>
             </div>
           </div>
         </div>
@@ -86,6 +318,14 @@ export const MainCanvas: React.FC<MainCanvasProps> = ({
 
       {/* Main Content */}
       <main className="main-content">
+        {showSettings && (
+          <AssessmentSettingsPanel
+            assessment={assessment}
+            onChange={onAssessmentChange}
+            onClose={() => setShowSettings(false)}
+          />
+        )}
+
         {/* Add Question Section */}
         <section className="add-question-section">
           <div className="section-card">
@@ -112,7 +352,7 @@ export const MainCanvas: React.FC<MainCanvasProps> = ({
 
         {/* Questions Layout */}
         <section className="questions-layout">
-          {questions.length === 0 ? (
+          {questions.length === 0 && !sourceMode ? (
             <div className="empty-state">
               <div className="empty-state-icon">
                 <svg width="64" height="64" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -123,87 +363,144 @@ export const MainCanvas: React.FC<MainCanvasProps> = ({
               <p className="empty-state-text">Get started by adding your first question above</p>
             </div>
           ) : (
-            <div className="questions-grid">
+            <div className={`questions-grid ${sourceMode ? 'source-mode' : ''}`}>
               {/* Questions Sidebar */}
-              <aside className="questions-sidebar">
-                <div className="sidebar-card">
-                  <div className="sidebar-header">
-                    <h3 className="sidebar-title">Questions</h3>
-                    <span className="question-count">{questions.length}</span>
-                  </div>
-                  <div className="questions-list">
-                    {questions.map((question, index) => (
-                      <div
-                        key={question.id}
-                        className={`question-card ${
-                          currentQuestionId === question.id ? 'active' : ''
-                        }`}
-                        onClick={() => onCurrentQuestionChange(question.id)}
+              {sourceMode ? (
+                <aside className="questions-sidebar">
+                  <MarkdownSourceEditor
+                    assessment={assessment}
+                    questions={questions}
+                    onQuestionsChange={onQuestionsChange}
+                    currentQuestionId={currentQuestionId}
+                    onCurrentQuestionChange={onCurrentQuestionChange}
+                  />
+                </aside>
+              ) : (
+                <aside className="questions-sidebar">
+                  <div className="sidebar-card">
+                    <div className="sidebar-header">
+                      <h3 className="sidebar-title">Questions</h3>
+                      <span className="question-count">
+                        {filterActive ? `${visibleIds.size}/${questions.length}` : questions.length}
+                      </span>
+                    </div>
+                    <QuestionFilterBar
+                      filter={filter}
+                      onChange={setFilter}
+                      topics={allTopics}
+                      tags={allTags}
+                      matchCount={visibleIds.size}
+                      totalCount={questions.length}
+                    />
+                    <BulkActionsBar
+                      selectedCount={selection.size}
+                      visibleCount={visibleOrderedIds.length}
+                      onSelectAllVisible={() => setSelectedIds(Array.from(new Set([...Array.from(selection), ...visibleOrderedIds])))}
+                      onClearSelection={clearSelection}
+                      onEdit={handleBulkEdit}
+                      onDuplicate={handleBulkDuplicate}
+                      onDelete={handleBulkDelete}
+                      onExport={handleBulkExport}
+                      topics={allTopics}
+                      tags={allTags}
+                      result={bulkResult}
+                      onDismissResult={() => setBulkResult(undefined)}
+                      onSelectQuestion={onCurrentQuestionChange}
+                    />
+                    <div className="questions-list">
+                      {filterActive && visibleIds.size === 0 && (
+                        <p className="sidebar-section-empty">No questions match the current filters</p>
+                      )}
+                      <DndContext
+                        sensors={sensors}
+                        collisionDetection={closestCenter}
+                        onDragEnd={handleDragEnd}
                       >
-                        <div className="question-card-header">
-                          <div className="question-card-content">
-                            <div className="question-card-badges">
-                              <span className="question-number">Q{index + 1}</span>
-                              <span className={`badge ${
-                                question.type === 'mcq' ? 'badge-blue' :
-                                question.type === 'ordering' ? 'badge-green' :
-                                'badge-purple'
-                              }`}>
-                                {question.type.toUpperCase()}
-                              </span>
-                              <span className={`badge ${
-                                question.purpose === 'formative' ? 'badge-gray' :
-                                'badge-orange'
-                              }`}>
-                                {question.purpose}
-                              </span>
-                            </div>
-                            <p className="question-card-text">
-                              {question.stem || 'Untitled question'}
-                            </p>
-                            {question.topic && (
-                              <p className="question-card-meta">
-                                Topic: {question.topic}
-                              </p>
-                            )}
-                          </div>
-                          <div className="question-card-actions">
-                            <button
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                duplicateQuestion(question);
-                              }}
-                              className="btn btn-secondary btn-sm"
-                              title="Duplicate question"
-                            >
-                              📋
-                            </button>
-                            <button
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                deleteQuestion(question.id);
-                              }}
-                              className="btn btn-danger btn-sm"
-                              title="Delete question"
-                            >
-                              🗑️
-                            </button>
-                          </div>
-                        </div>
-                      </div>
-                    ))}
+                        {assessment.sections
+                          .filter(section => !filterActive || section.questionRefs.some(ref => visibleIds.has(ref.questionId)))
+                          .map((section) => {
+                            const visibleRefs = section.questionRefs.filter(ref => visibleIds.has(ref.questionId));
+                            return (
+                              <SidebarSection
+                                key={section.id}
+                                section={section}
+                                visibleQuestionIds={visibleRefs.map(ref => ref.questionId)}
+                              >
+                                {visibleRefs.map((ref) => {
+                                  const index = questions.findIndex(q => q.id === ref.questionId);
+                                  if (index === -1) return null;
+                                  const question = questions[index];
+                                  const position = orderedIds.indexOf(question.id);
+                                  return (
+                                    <SortableQuestionCard
+                                      key={question.id}
+                                      question={question}
+                                      questionRef={ref}
+                                      index={index}
+                                      isActive={currentQuestionId === question.id}
+                                      isSelected={selection.has(question.id)}
+                                      saveStatus={getSaveStatus?.(question)}
+                                      canMoveToTop={section.questionRefs[0] !== ref}
+                                      canMoveUp={position > 0}
+                                      canMoveDown={position < orderedIds.length - 1}
+                                      dragDisabled={filterActive}
+                                      onSelect={() => onCurrentQuestionChange(question.id)}
+                                      onToggleSelect={(extendRange) => toggleSelection(question.id, extendRange)}
+                                      onMove={(direction) => onAssessmentChange(moveQuestion(assessment, question.id, direction))}
+                                      onDuplicate={() => duplicateQuestion(question)}
+                                      onDelete={() => deleteQuestion(question.id)}
+                                    />
+                                  );
+                                })}
+                              </SidebarSection>
+                            );
+                          })}
+                      </DndContext>
+                    </div>
                   </div>
-                </div>
-              </aside>
+                </aside>
+              )}
 
               {/* Question Editor Canvas */}
               <div className="editor-canvas">
+                {currentQuestion && currentPlacement && (
+                  <div className="question-placement">
+                    <label className="form-label">Section</label>
+                    <select
+                      value={currentPlacement.section.id}
+                      onChange={(e) => onAssessmentChange(moveQuestionToSection(assessment, currentQuestion.id, e.target.value))}
+                      className="form-select"
+                    >
+                      {assessment.sections.map((section) => (
+                        <option key={section.id} value={section.id}>
+                          {section.title || 'Untitled section'}
+                        </option>
+                      ))}
+                    </select>
+                    <label className="form-label">Points</label>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      value={currentPlacement.ref.points}
+                      onChange={(e) => onAssessmentChange(
+                        setQuestionPoints(assessment, currentQuestion.id, Math.max(0, Number(e.target.value) || 0)),
+                        { coalesceKey: `points:${currentQuestion.id}` }
+                      )}
+                      className="form-input question-points-input"
+                    />
+                  </div>
+                )}
                 {currentQuestion ? (
                   <QuestionEditor
                     question={currentQuestion}
                     onChange={updateQuestion}
                     onDelete={() => deleteQuestion(currentQuestion.id)}
-                    onSave={saveQuestion}
+                    onSave={onSaveQuestion && (changeNote => onSaveQuestion(currentQuestion, changeNote))}
+                    saveStatus={getSaveStatus?.(currentQuestion)}
+                    serverErrors={saveErrors[currentQuestion.id]}
+                    versions={versionHistories[currentQuestion.id]}
+                    tagSuggestions={allTags}
                   />
                 ) : (
                   <div className="card">
@@ -0,0 +1,173 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Assessment, Question } from '../types';
+import { validateQuestion } from '../utils/assessmentUtils';
+import { orderQuestionsBySections, syncAssessmentQuestions } from '../utils/assessmentStructure';
+import { HistoryChangeOptions } from '../utils/history';
+import { MarkdownBlock, MarkdownDiagnostic, parseMarkdown, serializeMarkdown, syncMarkdownQuestions } from '../utils/markdownFormat';
+
+interface MarkdownSourceEditorProps {
+  assessment: Assessment;
+  questions: Question[];
+  onQuestionsChange: (questions: Question[], options?: HistoryChangeOptions) => void;
+  currentQuestionId?: string;
+  onCurrentQuestionChange: (questionId?: string) => void;
+}
+
+// Must match .source-editor line-height so the gutter and jumps line up
+const LINE_HEIGHT = 20;
+
+const getBlockIds = (blocks: MarkdownBlock[], generatedIds: string[]) => {
+  let generated = 0;
+  return blocks.map(block => block.id ?? generatedIds[generated++]);
+};
+
+export const MarkdownSourceEditor: React.FC<MarkdownSourceEditorProps> = ({
+  assessment,
+  questions,
+  onQuestionsChange,
+  currentQuestionId,
+  onCurrentQuestionChange,
+}) => {
+  const [source, setSource] = useState(() => serializeMarkdown(questions));
+  // The last questions sent up; any other list came from the visual editor or undo
+  const emittedRef = useRef(questions);
+  const generatedIdsRef = useRef<string[]>([]);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (questions === emittedRef.current) return;
+    emittedRef.current = questions;
+    generatedIdsRef.current = [];
+    setSource(serializeMarkdown(questions));
+  }, [questions]);
+
+  const parsed = useMemo(() => parseMarkdown(source), [source]);
+  const hasErrors = parsed.diagnostics.some(diagnostic => diagnostic.severity === 'error');
+  const blockIds = getBlockIds(parsed.blocks, generatedIdsRef.current);
+  const lines = source.split('\n');
+
+  // Validation problems are only meaningful once the source has been applied
+  const diagnostics: MarkdownDiagnostic[] = hasErrors
+    ? parsed.diagnostics
+    : [
+        ...parsed.diagnostics,
+        ...parsed.blocks.flatMap((block, index) => {
+          const question = questions.find(q => q.id === blockIds[index]);
+          return question
+            ? validateQuestion(question).errors.map(message => ({ line: block.line, severity: 'warning' as const, message }))
+            : [];
+        }),
+      ].sort((a, b) => a.line - b.line);
+  const lineSeverity = new Map<number, MarkdownDiagnostic['severity']>();
+  diagnostics.forEach(({ line, severity }) => {
+    if (lineSeverity.get(line) !== 'error') lineSeverity.set(line, severity);
+  });
+
+  const handleChange = (value: string) => {
+    setSource(value);
+    const result = parseMarkdown(value);
+    if (result.diagnostics.some(diagnostic => diagnostic.severity === 'error')) return;
+
+    const synced = syncMarkdownQuestions(questions, result.blocks, generatedIdsRef.current);
+    generatedIdsRef.current = synced.generatedIds;
+    // Sections own the question order, so new questions land after the one above them in the source
+    const updated = orderQuestionsBySections(synced.questions, syncAssessmentQuestions(assessment, synced.questions));
+    if (updated.length === questions.length && updated.every((question, index) => question === questions[index])) return;
+
+    emittedRef.current = updated;
+    onQuestionsChange(updated, { coalesceKey: 'markdown-source' });
+  };
+
+  // Moving the cursor into a question opens it in the visual editor
+  const handleSelect = () => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const line = textarea.value.slice(0, textarea.selectionStart).split('\n').length;
+    const index = parsed.blocks.findIndex(block => line >= block.line && line <= block.endLine);
+    const questionId = blockIds[index];
+    if (questionId && questionId !== currentQuestionId && questions.some(q => q.id === questionId)) {
+      onCurrentQuestionChange(questionId);
+    }
+  };
+
+  const goToLine = (line: number) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const start = lines.slice(0, line - 1).reduce((offset, text) => offset + text.length + 1, 0);
+    textarea.focus();
+    textarea.setSelectionRange(start, start + (lines[line - 1]?.length ?? 0));
+    textarea.scrollTop = Math.max(0, (line - 3) * LINE_HEIGHT);
+  };
+
+  return (
+    <div className="sidebar-card source-pane">
+      <div className="sidebar-header">
+        <h3 className="sidebar-title">Source</h3>
+        <span className={`source-status ${hasErrors ? 'has-errors' : ''}`}>
+          {hasErrors ? 'Fix errors to apply changes' : `${parsed.blocks.length} question${parsed.blocks.length !== 1 ? 's' : ''}`}
+        </span>
+      </div>
+      <details className="source-help">
+        <summary>Syntax</summary>
+        <pre>{`---
+purpose: summative
+topic: Astronomy
+tags: planets, space
+bloomsLevel: Remember
+learningObjective: Name the planets
+---
+# Which planet is the largest?
+- [x] Jupiter
+  > Feedback for the option above
+- [ ] Mars
+
+# Order the planets from the Sun
+1. Mercury
+2. Venus`}</pre>
+        <p>
+          Questions without <code>type</code> are multiple choice, or ordering when they have numbered items. Multiple
+          response takes <code>responseMode: multiple</code> with optional <code>scoring</code>,{' '}
+          <code>minSelections</code> and <code>maxSelections</code>. Hotspot images and zones, cloze passages and blanks,
+          matching pairs, numeric and short answers, categories, essay limits and rubrics, question order and sections are edited in the visual editor; editing
+          there rewrites this source.
+        </p>
+      </details>
+      <div className="source-editor-frame">
+        <div ref={gutterRef} className="source-gutter" aria-hidden="true">
+          {lines.map((_, index) => (
+            <div key={index} className={`source-gutter-line ${lineSeverity.get(index + 1) ?? ''}`}>
+              {index + 1}
+            </div>
+          ))}
+        </div>
+        <textarea
+          ref={textareaRef}
+          value={source}
+          onChange={(e) => handleChange(e.target.value)}
+          onSelect={handleSelect}
+          onScroll={(e) => {
+            if (gutterRef.current) gutterRef.current.scrollTop = e.currentTarget.scrollTop;
+          }}
+          className="source-editor"
+          wrap="off"
+          spellCheck={false}
+          placeholder="# Write your first question here"
+          aria-label="Questions as Markdown"
+        />
+      </div>
+      {diagnostics.length > 0 && (
+        <ul className="source-diagnostics">
+          {diagnostics.map((diagnostic, index) => (
+            <li key={index} className={`source-diagnostic ${diagnostic.severity}`}>
+              <button onClick={() => goToLine(diagnostic.line)} className="source-diagnostic-line">
+                Line {diagnostic.line}
+              </button>
+              {diagnostic.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Assessment, ImageSize, Question } from '../types';
+import { downloadFile, toFileSlug } from '../utils/download';
+import { PrintOptions, buildPrintDocument, loadImageSizes } from '../utils/printDocument';
+import { createSeed } from '../utils/shuffle';
+import { Modal } from './Modal';
+
+interface PrintDialogProps {
+  assessment: Assessment;
+  questions: Question[];
+  onClose: () => void;
+}
+
+export const PrintDialog: React.FC<PrintDialogProps> = ({
+  assessment,
+  questions,
+  onClose,
+}) => {
+  const [options, setOptions] = useState<PrintOptions>(() => ({
+    includeAnswerKey: true,
+    includeFeedback: false,
+    seed: createSeed(),
+  }));
+  const [imageSizes, setImageSizes] = useState<Record<string, ImageSize>>();
+  const frameRef = useRef<HTMLIFrameElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImageSizes(questions).then(sizes => {
+      if (!cancelled) setImageSizes(sizes);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [questions]);
+
+  const html = imageSizes ? buildPrintDocument(assessment, questions, options, imageSizes) : '';
+  const hasFeedback = questions.some(q => q.type === 'mcq' && q.purpose === 'formative' && q.options.some(o => o.feedback?.trim()));
+
+  const updateOptions = (changes: Partial<PrintOptions>) => setOptions({ ...options, ...changes });
+
+  return (
+    <Modal
+      title="Print or save as HTML"
+      onClose={onClose}
+      wide
+      footer={
+        <>
+          <button onClick={onClose} className="btn btn-secondary">
+            Close
+          </button>
+          <button
+            onClick={() => downloadFile(`${toFileSlug(assessment.title)}.html`, html, 'text/html')}
+            disabled={!html}
+            className="btn btn-secondary"
+          >
+            Download HTML
+          </button>
+          <button
+            onClick={() => frameRef.current?.contentWindow?.print()}
+            disabled={!html}
+            className="btn btn-primary"
+          >
+            Print…
+          </button>
+        </>
+      }
+    >
+      <div className="print-options">
+        <label className="print-option">
+          <input
+            type="checkbox"
+            checked={options.includeAnswerKey}
+            onChange={(e) => updateOptions({ includeAnswerKey: e.target.checked })}
+          />
+          Answer key on separate pages
+        </label>
+        <label className="print-option">
+          <input
+            type="checkbox"
+            checked={options.includeFeedback}
+            disabled={!hasFeedback}
+            onChange={(e) => updateOptions({ includeFeedback: e.target.checked })}
+          />
+          Feedback appendix
+        </label>
+        <button
+          onClick={() => updateOptions({ seed: createSeed() })}
+          className="btn btn-secondary btn-sm"
+          title="Ordering items are printed in a shuffled order; the answer key follows it"
+        >
+          ⟳ Reshuffle ordering items
+        </button>
+      </div>
+      {html ? (
+        <iframe ref={frameRef} srcDoc={html} title="Print preview" className="print-preview" />
+      ) : (
+        <div className="print-preview print-preview-loading">Loading images…</div>
+      )}
+    </Modal>
+  );
+};
@@ -1,15 +1,28 @@
-import React from 'react';
-import { Question, QuestionType, Purpose, BloomsLevel } from '../types';
+import React, { useState } from 'react';
+import { Question, QuestionType, Purpose, BloomsLevel, QuestionSaveStatus, QuestionVersion } from '../types';
 import { MCQQuestion } from './questions/MCQQuestion';
 import { OrderingQuestion } from './questions/OrderingQuestion';
 import { HotspotQuestion } from './questions/HotspotQuestion';
-import { validateQuestion, generateAISuggestions } from '../utils/assessmentUtils';
+import { ClozeQuestion } from './questions/ClozeQuestion';
+import { MatchingQuestion } from './questions/MatchingQuestion';
+import { NumericQuestion } from './questions/NumericQuestion';
+import { ShortAnswerQuestion } from './questions/ShortAnswerQuestion';
+import { CategorizeQuestion } from './questions/CategorizeQuestion';
+import { EssayQuestion } from './questions/EssayQuestion';
+import { VersionHistoryPanel } from './VersionHistoryPanel';
+import { TagInput } from './TagInput';
+import { validateQuestion, applyAISuggestions, generateId } from '../utils/assessmentUtils';
+import { restoreQuestionVersion } from '../utils/versionUtils';
 
 interface QuestionEditorProps {
   question: Question;
   onChange: (question: Question) => void;
   onDelete?: () => void;
-  onSave?: () => void;
+  onSave?: (changeNote: string) => void;
+  saveStatus?: QuestionSaveStatus;
+  serverErrors?: string[];
+  versions?: QuestionVersion[];
+  tagSuggestions?: string[];
 }
 
 export const QuestionEditor: React.FC<QuestionEditorProps> = ({
@@ -17,8 +30,18 @@ export const QuestionEditor: React.FC<QuestionEditorProps> = ({
   onChange,
   onDelete,
   onSave,
+  saveStatus,
+  serverErrors = [],
+  versions = [],
+  tagSuggestions = [],
 }) => {
   const validation = validateQuestion(question);
+  const [changeNote, setChangeNote] = useState('');
+
+  const handleSave = () => {
+    onSave?.(changeNote);
+    setChangeNote('');
+  };
 
   const updateQuestionType = (type: QuestionType) => {
     // This is a simplified approach - in a real app, you might want to preserve some data
@@ -28,6 +51,7 @@ export const QuestionEditor: React.FC<QuestionEditorProps> = ({
       purpose: question.purpose,
       stem: question.stem,
       topic: question.topic,
+      tags: question.tags,
       learningObjective: question.learningObjective,
       bloomsLevel: question.bloomsLevel,
     };
@@ -64,6 +88,61 @@ export const QuestionEditor: React.FC<QuestionEditorProps> = ({
           imageUrl: '',
         });
         break;
+      case 'cloze':
+        onChange({
+          ...baseData,
+          type: 'cloze',
+          passage: '',
+          blanks: [],
+        });
+        break;
+      case 'matching': {
+        const responses = [
+          { id: generateId(), text: '' },
+          { id: generateId(), text: '' },
+          { id: generateId(), text: '' },
+        ];
+        onChange({
+          ...baseData,
+          type: 'matching',
+          mode: 'oneToOne',
+          premises: responses.map(response => ({ id: generateId(), text: '', responseId: response.id })),
+          responses,
+        });
+        break;
+      }
+      case 'numeric':
+        onChange({
+          ...baseData,
+          type: 'numeric',
+          answerMode: 'exact',
+          toleranceType: 'absolute',
+          units: [],
+        });
+        break;
+      case 'short-answer':
+        onChange({
+          ...baseData,
+          type: 'short-answer',
+          answers: [{ id: generateId(), text: '', credit: 100 }],
+        });
+        break;
+      case 'categorize': {
+        const categories = [{ id: generateId(), text: '' }, { id: generateId(), text: '' }];
+        onChange({
+          ...baseData,
+          type: 'categorize',
+          categories,
+          items: categories.map(category => ({ id: generateId(), text: '', categoryId: category.id })),
+        });
+        break;
+      }
+      case 'essay':
+        onChange({
+          ...baseData,
+          type: 'essay',
+        });
+        break;
     }
   };
 
@@ -76,33 +155,19 @@ export const QuestionEditor: React.FC<QuestionEditorProps> = ({
   };
 
   const handleAISuggest = () => {
-    const topic = question.topic || 'the topic';
-    const suggestions = generateAISuggestions(topic, question);
-    
-    // Create a properly typed updated question
-    const updatedQuestion = { ...question };
-    
-    // Update base fields
-    if (suggestions.stem) updatedQuestion.stem = suggestions.stem;
-    // if (suggestions.difficulty) updatedQuestion.difficulty = suggestions.difficulty;
-    if (suggestions.topic) updatedQuestion.topic = suggestions.topic;
-    
-    // Update type-specific fields
-    if (question.type === 'mcq' && 'options' in suggestions) {
-      (updatedQuestion as any).options = suggestions.options;
-    } else if (question.type === 'ordering' && 'items' in suggestions) {
-      (updatedQuestion as any).items = suggestions.items;
-    } else if (question.type === 'hotspot' && 'zones' in suggestions) {
-      (updatedQuestion as any).zones = suggestions.zones;
-    }
-    
-    onChange(updatedQuestion);
+    onChange(applyAISuggestions(question.topic || 'the topic', question));
   };
 
   const questionTypes: { value: QuestionType; label: string; icon: string }[] = [
     { value: 'mcq', label: 'Multiple Choice', icon: '🔘' },
     { value: 'ordering', label: 'Ordering', icon: '🔢' },
     { value: 'hotspot', label: 'Hotspot', icon: '🎯' },
+    { value: 'cloze', label: 'Fill in the Blanks', icon: '✏️' },
+    { value: 'matching', label: 'Matching', icon: '🔗' },
+    { value: 'numeric', label: 'Numeric', icon: '🧮' },
+    { value: 'short-answer', label: 'Short Answer', icon: '💬' },
+    { value: 'categorize', label: 'Categorize', icon: '🗂️' },
+    { value: 'essay', label: 'Essay', icon: '📝' },
   ];
 
   const purposes: { value: Purpose; label: string; description: string }[] = [
@@ -163,14 +228,23 @@ export const QuestionEditor: React.FC<QuestionEditorProps> = ({
 
           {/* Actions */}
           <div className="flex items-center space-x-2">
+            {onSave && versions.length > 0 && saveStatus !== 'saved' && (
+              <input
+                type="text"
+                value={changeNote}
+                onChange={(e) => setChangeNote(e.target.value)}
+                className="form-input change-note-input"
+                placeholder="Change note (optional)"
+              />
+            )}
             {onSave && (
               <button
-                onClick={onSave}
-                disabled={!validation.isValid}
+                onClick={handleSave}
+                disabled={!validation.isValid || saveStatus === 'saving' || saveStatus === 'saved'}
                 className="btn btn-primary btn-sm"
                 title={validation.isValid ? "Save question" : "Fix validation errors before saving"}
               >
-                Save Question
+                {saveStatus === 'saving' ? 'Saving…' : saveStatus === 'saved' ? 'Saved' : 'Save Question'}
               </button>
             )}
             {onDelete && (
@@ -211,6 +285,18 @@ export const QuestionEditor: React.FC<QuestionEditorProps> = ({
             </div>
           </div>
 
+          {/* Tags */}
+          <div>
+            <label className="form-label">
+              Tags
+            </label>
+            <TagInput
+              tags={question.tags ?? []}
+              onChange={(tags) => updateMetadata('tags', tags)}
+              suggestions={tagSuggestions}
+            />
+          </div>
+
           {/* Summative-specific fields */}
           {question.purpose === 'summative' && (
             <>
@@ -272,8 +358,62 @@ export const QuestionEditor: React.FC<QuestionEditorProps> = ({
             validationErrors={validation.errors}
           />
         )}
+        {question.type === 'cloze' && (
+          <ClozeQuestion
+            question={question}
+            onChange={onChange}
+            validationErrors={validation.errors}
+          />
+        )}
+        {question.type === 'matching' && (
+          <MatchingQuestion
+            question={question}
+            onChange={onChange}
+            validationErrors={validation.errors}
+          />
+        )}
+        {question.type === 'numeric' && (
+          <NumericQuestion
+            question={question}
+            onChange={onChange}
+            validationErrors={validation.errors}
+          />
+        )}
+        {question.type === 'short-answer' && (
+          <ShortAnswerQuestion
+            question={question}
+            onChange={onChange}
+            validationErrors={validation.errors}
+          />
+        )}
+        {question.type === 'categorize' && (
+          <CategorizeQuestion
+            question={question}
+            onChange={onChange}
+            validationErrors={validation.errors}
+          />
+        )}
+        {question.type === 'essay' && (
+          <EssayQuestion
+            question={question}
+            onChange={onChange}
+            validationErrors={validation.errors}
+          />
+        )}
       </div>
 
+      {/* Version History */}
+      {onSave && (
+        <div className="card-body version-history-section">
+          <VersionHistoryPanel
+            key={question.id}
+            question={question}
+            versions={versions}
+            onRestore={(version) => onChange(restoreQuestionVersion(question, version))}
+          />
+        </div>
+      )}
+
       {/* Validation Status */}
       <div className="card-footer">
         <div className={`validation-success ${
@@ -306,6 +446,17 @@ export const QuestionEditor: React.FC<QuestionEditorProps> = ({
             </ul>
           </div>
         )}
+
+        {serverErrors.length > 0 && (
+          <div className="validation-error">
+            <h4 className="validation-error-title">The server rejected the last save:</h4>
+            <ul className="validation-error-list">
+              {serverErrors.map((error, index) => (
+                <li key={index} className="validation-error-item">{error}</li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
     </div>
   );
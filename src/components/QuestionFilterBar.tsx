@@ -0,0 +1,129 @@
+import React from 'react';
+import { BloomsLevel, Purpose, QuestionType } from '../types';
+import { QuestionFilter, ValidationFilter, EMPTY_FILTER, isFilterActive } from '../utils/questionFilters';
+
+interface QuestionFilterBarProps {
+  filter: QuestionFilter;
+  onChange: (filter: QuestionFilter) => void;
+  topics: string[];
+  tags: string[];
+  matchCount: number;
+  totalCount: number;
+}
+
+const questionTypes: { value: QuestionType; label: string }[] = [
+  { value: 'mcq', label: 'Multiple Choice' },
+  { value: 'ordering', label: 'Ordering' },
+  { value: 'hotspot', label: 'Hotspot' },
+  { value: 'cloze', label: 'Fill in the Blanks' },
+  { value: 'matching', label: 'Matching' },
+  { value: 'numeric', label: 'Numeric' },
+  { value: 'short-answer', label: 'Short Answer' },
+  { value: 'categorize', label: 'Categorize' },
+  { value: 'essay', label: 'Essay' },
+];
+
+const bloomsLevels: BloomsLevel[] = ['Remember', 'Understand', 'Apply', 'Analyze', 'Evaluate', 'Create'];
+
+export const QuestionFilterBar: React.FC<QuestionFilterBarProps> = ({
+  filter,
+  onChange,
+  topics,
+  tags,
+  matchCount,
+  totalCount,
+}) => {
+  // Empty select values clear that part of the filter
+  const update = <K extends keyof QuestionFilter>(field: K, value: string) => {
+    onChange({ ...filter, [field]: value || undefined });
+  };
+
+  return (
+    <div className="filter-bar">
+      <input
+        type="search"
+        value={filter.search}
+        onChange={(e) => onChange({ ...filter, search: e.target.value })}
+        className="form-input"
+        placeholder="Search stems, options, items..."
+      />
+
+      <div className="filter-bar-selects">
+        <select
+          value={filter.type ?? ''}
+          onChange={(e) => update('type', e.target.value as QuestionType)}
+          className="form-select"
+        >
+          <option value="">All types</option>
+          {questionTypes.map(({ value, label }) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+
+        <select
+          value={filter.purpose ?? ''}
+          onChange={(e) => update('purpose', e.target.value as Purpose)}
+          className="form-select"
+        >
+          <option value="">All purposes</option>
+          <option value="formative">Formative</option>
+          <option value="summative">Summative</option>
+        </select>
+
+        <select
+          value={filter.topic ?? ''}
+          onChange={(e) => update('topic', e.target.value)}
+          className="form-select"
+        >
+          <option value="">All topics</option>
+          {topics.map((topic) => (
+            <option key={topic} value={topic}>{topic}</option>
+          ))}
+        </select>
+
+        <select
+          value={filter.bloomsLevel ?? ''}
+          onChange={(e) => update('bloomsLevel', e.target.value as BloomsLevel)}
+          className="form-select"
+        >
+          <option value="">All Bloom's levels</option>
+          {bloomsLevels.map((level) => (
+            <option key={level} value={level}>{level}</option>
+          ))}
+        </select>
+
+        <select
+          value={filter.tag ?? ''}
+          onChange={(e) => update('tag', e.target.value)}
+          className="form-select"
+        >
+          <option value="">All tags</option>
+          {tags.map((tag) => (
+            <option key={tag} value={tag}>{tag}</option>
+          ))}
+        </select>
+
+        <select
+          value={filter.validation ?? ''}
+          onChange={(e) => update('validation', e.target.value as ValidationFilter)}
+          className="form-select"
+        >
+          <option value="">Any status</option>
+          <option value="valid">Valid</option>
+          <option value="invalid">Has errors</option>
+        </select>
+      </div>
+
+      {isFilterActive(filter) && (
+        <div className="filter-bar-summary">
+          <span>
+            Showing {matchCount} of {totalCount}
+          </span>
+          <button onClick={() => onChange(EMPTY_FILTER)} className="filter-bar-clear">
+            Clear filters
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
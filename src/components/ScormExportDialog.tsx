@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Assessment, Question } from '../types';
+import { downloadFile, toFileSlug } from '../utils/download';
+import { SCORM_VERSIONS, ScormVersion, createScormPackage } from '../utils/scormExport';
+import { Modal } from './Modal';
+
+interface ScormExportDialogProps {
+  assessment: Assessment;
+  questions: Question[];
+  onClose: () => void;
+}
+
+export const ScormExportDialog: React.FC<ScormExportDialogProps> = ({
+  assessment,
+  questions,
+  onClose,
+}) => {
+  const [version, setVersion] = useState<ScormVersion>('scorm12');
+  const [passingScore, setPassingScore] = useState('');
+  const [showFeedback, setShowFeedback] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string>();
+
+  const parsedScore = passingScore.trim() ? Number(passingScore) : undefined;
+  const scoreInvalid = parsedScore !== undefined && (!Number.isFinite(parsedScore) || parsedScore < 0 || parsedScore > 100);
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    setError(undefined);
+    try {
+      const blob = await createScormPackage(assessment, questions, { version, passingScore: parsedScore, showFeedback });
+      downloadFile(`${toFileSlug(assessment.title)}-${version}.zip`, blob, 'application/zip');
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <Modal
+      title="Export for an LMS"
+      onClose={onClose}
+      footer={
+        <>
+          <button onClick={onClose} className="btn btn-secondary">
+            Cancel
+          </button>
+          <button onClick={handleExport} disabled={isBusy || scoreInvalid} className="btn btn-primary">
+            {isBusy ? 'Packaging…' : 'Download package'}
+          </button>
+        </>
+      }
+    >
+      <div className="form-group">
+        <label className="form-label">Package type</label>
+        <div className="toggle-group">
+          {SCORM_VERSIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setVersion(option.value)}
+              className={`toggle-btn ${version === option.value ? 'active' : ''}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="form-group">
+        <label className="form-label">Passing score (%)</label>
+        <input
+          type="number"
+          min={0}
+          max={100}
+          value={passingScore}
+          onChange={(e) => setPassingScore(e.target.value)}
+          className="form-input"
+          placeholder="Leave empty to report completion only"
+        />
+        {scoreInvalid && <p className="form-error">Enter a percentage between 0 and 100</p>}
+      </div>
+
+      <label className="print-option">
+        <input type="checkbox" checked={showFeedback} onChange={(e) => setShowFeedback(e.target.checked)} />
+        Show correct answers and feedback after submitting
+      </label>
+
+      {error && <p className="form-error">{error}</p>}
+    </Modal>
+  );
+};
@@ -0,0 +1,37 @@
+import React from 'react';
+import { useDroppable } from '@dnd-kit/core';
+import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable';
+import { AssessmentSection } from '../types';
+import { getSectionPoints } from '../utils/assessmentStructure';
+
+// Droppable ids for sections are prefixed so they can't collide with question ids
+export const SECTION_DROP_PREFIX = 'section:';
+
+interface SidebarSectionProps {
+  section: AssessmentSection;
+  visibleQuestionIds: string[];
+  children: React.ReactNode;
+}
+
+export const SidebarSection: React.FC<SidebarSectionProps> = ({
+  section,
+  visibleQuestionIds,
+  children,
+}) => {
+  const { setNodeRef, isOver } = useDroppable({ id: `${SECTION_DROP_PREFIX}${section.id}` });
+
+  return (
+    <div ref={setNodeRef} className={`sidebar-section ${isOver ? 'drop-target' : ''}`}>
+      <div className="sidebar-section-header">
+        <span className="sidebar-section-title">{section.title || 'Untitled section'}</span>
+        <span className="sidebar-section-meta">{getSectionPoints(section)} pts</span>
+      </div>
+      {section.questionRefs.length === 0 && (
+        <p className="sidebar-section-empty">No questions in this section</p>
+      )}
+      <SortableContext items={visibleQuestionIds} strategy={verticalListSortingStrategy}>
+        {children}
+      </SortableContext>
+    </div>
+  );
+};
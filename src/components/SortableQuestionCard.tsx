@@ -0,0 +1,192 @@
+import React from 'react';
+import { useSortable } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { Question, QuestionRef, QuestionSaveStatus } from '../types';
+import { MoveDirection } from '../utils/assessmentStructure';
+
+interface SortableQuestionCardProps {
+  question: Question;
+  questionRef: QuestionRef;
+  index: number;
+  isActive: boolean;
+  isSelected?: boolean;
+  saveStatus?: QuestionSaveStatus;
+  canMoveToTop: boolean;
+  canMoveUp: boolean;
+  canMoveDown: boolean;
+  dragDisabled?: boolean;
+  onSelect: () => void;
+  onToggleSelect?: (extendRange: boolean) => void;
+  onMove: (direction: MoveDirection) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+}
+
+const saveStatusLabels: Record<QuestionSaveStatus, { label: string; className: string }> = {
+  new: { label: 'Not saved', className: 'badge-gray' },
+  saved: { label: 'Saved', className: 'badge-green' },
+  dirty: { label: 'Unsaved changes', className: 'badge-orange' },
+  saving: { label: 'Saving…', className: 'badge-blue' },
+  error: { label: 'Save failed', className: 'badge-red' },
+};
+
+export const SortableQuestionCard: React.FC<SortableQuestionCardProps> = ({
+  question,
+  questionRef,
+  index,
+  isActive,
+  isSelected = false,
+  saveStatus,
+  canMoveToTop,
+  canMoveUp,
+  canMoveDown,
+  dragDisabled = false,
+  onSelect,
+  onToggleSelect,
+  onMove,
+  onDuplicate,
+  onDelete,
+}) => {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id: question.id, disabled: dragDisabled });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.5 : 1,
+  };
+
+  // Keeps the card from being selected when one of its buttons is used
+  const handle = (action: () => void) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    action();
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      className={`question-card ${isActive ? 'active' : ''} ${isSelected ? 'selected' : ''}`}
+      onClick={onSelect}
+    >
+      <div className="question-card-header">
+        {!dragDisabled && (
+          <div
+            {...attributes}
+            {...listeners}
+            className="question-card-drag-handle"
+            title="Drag to reorder (or focus and use Space + arrow keys)"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <svg width="16" height="16" fill="currentColor" viewBox="0 0 20 20">
+              <path d="M10 6a2 2 0 110-4 2 2 0 010 4zM10 12a2 2 0 110-4 2 2 0 010 4zM10 18a2 2 0 110-4 2 2 0 010 4z" />
+            </svg>
+          </div>
+        )}
+        {onToggleSelect && (
+          <input
+            type="checkbox"
+            checked={isSelected}
+            onClick={(e) => e.stopPropagation()}
+            onChange={(e) => onToggleSelect((e.nativeEvent as MouseEvent).shiftKey)}
+            className="question-card-checkbox"
+            title="Select question (Shift+click to select a range)"
+          />
+        )}
+        <div className="question-card-content">
+          <div className="question-card-badges">
+            <span className="question-number">Q{index + 1}</span>
+            <span className="badge badge-gray">{questionRef.points} pt{questionRef.points !== 1 ? 's' : ''}</span>
+            <span className={`badge ${
+              question.type === 'mcq' ? 'badge-blue' :
+              question.type === 'ordering' ? 'badge-green' :
+              question.type === 'cloze' ? 'badge-teal' :
+              question.type === 'matching' ? 'badge-indigo' :
+              question.type === 'numeric' ? 'badge-amber' :
+              question.type === 'short-answer' ? 'badge-pink' :
+              question.type === 'categorize' ? 'badge-cyan' :
+              question.type === 'essay' ? 'badge-slate' :
+              'badge-purple'
+            }`}>
+              {question.type.toUpperCase()}
+            </span>
+            <span className={`badge ${
+              question.purpose === 'formative' ? 'badge-gray' :
+              'badge-orange'
+            }`}>
+              {question.purpose}
+            </span>
+            {saveStatus && (
+              <span className={`badge ${saveStatusLabels[saveStatus].className}`}>
+                {saveStatusLabels[saveStatus].label}
+              </span>
+            )}
+          </div>
+          <p className="question-card-text">
+            {question.stem || 'Untitled question'}
+          </p>
+          {question.topic && (
+            <p className="question-card-meta">
+              Topic: {question.topic}
+            </p>
+          )}
+          {question.tags && question.tags.length > 0 && (
+            <div className="question-card-tags">
+              {question.tags.map((tag) => (
+                <span key={tag} className="tag-chip">{tag}</span>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="question-card-actions">
+          <div className="question-card-move">
+            <button
+              onClick={handle(() => onMove('top'))}
+              disabled={!canMoveToTop}
+              className="question-card-move-btn"
+              title="Move to top of section"
+            >
+              ⤒
+            </button>
+            <button
+              onClick={handle(() => onMove('up'))}
+              disabled={!canMoveUp}
+              className="question-card-move-btn"
+              title="Move up"
+            >
+              ↑
+            </button>
+            <button
+              onClick={handle(() => onMove('down'))}
+              disabled={!canMoveDown}
+              className="question-card-move-btn"
+              title="Move down"
+            >
+              ↓
+            </button>
+          </div>
+          <button
+            onClick={handle(onDuplicate)}
+            className="btn btn-secondary btn-sm"
+            title="Duplicate question"
+          >
+            📋
+          </button>
+          <button
+            onClick={handle(onDelete)}
+            className="btn btn-danger btn-sm"
+            title="Delete question"
+          >
+            🗑️
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React, { KeyboardEvent, useState } from 'react';
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  suggestions?: string[];
+  placeholder?: string;
+}
+
+export const TagInput: React.FC<TagInputProps> = ({
+  tags,
+  onChange,
+  suggestions = [],
+  placeholder = 'Add tag...',
+}) => {
+  const [draft, setDraft] = useState('');
+  const listId = 'tag-suggestions';
+
+  const addTags = (value: string) => {
+    const newTags = value
+      .split(',')
+      .map(tag => tag.trim())
+      .filter(tag => tag && !tags.includes(tag));
+    if (newTags.length > 0) {
+      onChange([...tags, ...Array.from(new Set(newTags))]);
+    }
+    setDraft('');
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(tags.filter(t => t !== tag));
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTags(draft);
+    } else if (e.key === 'Backspace' && !draft && tags.length > 0) {
+      removeTag(tags[tags.length - 1]);
+    }
+  };
+
+  return (
+    <div className="tag-input">
+      {tags.map((tag) => (
+        <span key={tag} className="tag-chip">
+          {tag}
+          <button
+            type="button"
+            onClick={() => removeTag(tag)}
+            className="tag-chip-remove"
+            title={`Remove tag "${tag}"`}
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      <input
+        type="text"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => draft.trim() && addTags(draft)}
+        className="tag-input-field"
+        placeholder={tags.length === 0 ? placeholder : ''}
+        list={listId}
+      />
+      <datalist id={listId}>
+        {suggestions
+          .filter(tag => !tags.includes(tag))
+          .map((tag) => (
+            <option key={tag} value={tag} />
+          ))}
+      </datalist>
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+import React, { useRef, useState } from 'react';
+import { ImportResult } from '../utils/importUtils';
+import { parseGift } from '../utils/giftFormat';
+import { parseAiken } from '../utils/aikenFormat';
+import { Modal } from './Modal';
+
+export type TextFormat = 'gift' | 'aiken';
+
+interface TextImportDialogProps {
+  initialFormat?: TextFormat;
+  onContinue: (result: ImportResult) => void;
+  onCancel: () => void;
+}
+
+const parsers: Record<TextFormat, (source: string, name?: string) => ImportResult> = {
+  gift: parseGift,
+  aiken: parseAiken,
+};
+
+const placeholders: Record<TextFormat, string> = {
+  gift: `$CATEGORY: Astronomy
+
+Which planet is the largest? {
+  =Jupiter #Correct, it is a gas giant
+  ~Mars #Mars is smaller than Earth
+}`,
+  aiken: `Which planet is the largest?
+A. Mars
+B. Jupiter
+ANSWER: B`,
+};
+
+export const TextImportDialog: React.FC<TextImportDialogProps> = ({
+  initialFormat = 'gift',
+  onContinue,
+  onCancel,
+}) => {
+  const [format, setFormat] = useState<TextFormat>(initialFormat);
+  const [source, setSource] = useState('');
+  const [fileName, setFileName] = useState<string>();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const result = source.trim() ? parsers[format](source, fileName) : undefined;
+  const problems = result
+    ? [...result.errors, ...result.items.flatMap(item => (item.question ? [] : item.issues))]
+    : [];
+  const questionCount = result ? result.items.filter(item => item.question).length : 0;
+
+  const loadFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setSource(await file.text());
+    setFileName(file.name);
+    if (/\.gift$/i.test(file.name)) setFormat('gift');
+  };
+
+  return (
+    <Modal
+      title="Import from text"
+      onClose={onCancel}
+      wide
+      footer={
+        <>
+          <span className="import-summary">
+            {result
+              ? `${questionCount} question${questionCount !== 1 ? 's' : ''} found${problems.length > 0 ? ` · ${problems.length} problem${problems.length !== 1 ? 's' : ''}` : ''}`
+              : 'Paste questions or load a file'}
+          </span>
+          <button onClick={onCancel} className="btn btn-secondary">
+            Cancel
+          </button>
+          <button
+            onClick={() => result && onContinue(result)}
+            disabled={!result || result.items.length === 0}
+            className="btn btn-primary"
+          >
+            Review import
+          </button>
+        </>
+      }
+    >
+      <div className="text-import-toolbar">
+        <div className="toggle-group">
+          <button
+            onClick={() => setFormat('gift')}
+            className={`toggle-btn ${format === 'gift' ? 'active' : ''}`}
+          >
+            GIFT
+          </button>
+          <button
+            onClick={() => setFormat('aiken')}
+            className={`toggle-btn ${format === 'aiken' ? 'active' : ''}`}
+          >
+            Aiken
+          </button>
+        </div>
+        <button onClick={() => fileInputRef.current?.click()} className="btn btn-secondary btn-sm">
+          Load file…
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".txt,.gift,text/plain"
+          onChange={loadFile}
+          className="hidden"
+        />
+      </div>
+
+      <textarea
+        value={source}
+        onChange={(e) => {
+          setSource(e.target.value);
+          setFileName(undefined);
+        }}
+        className="form-textarea text-import-source"
+        rows={14}
+        placeholder={placeholders[format]}
+        spellCheck={false}
+      />
+
+      {problems.length > 0 && (
+        <div className="validation-error">
+          <h4 className="validation-error-title">These parts can't be imported:</h4>
+          <ul className="validation-error-list">
+            {problems.map((problem, index) => (
+              <li key={index} className="validation-error-item">{problem}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </Modal>
+  );
+};
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Question, QuestionVersion } from '../types';
+import { DiffGroup, diffQuestions } from '../utils/versionUtils';
+
+interface VersionHistoryPanelProps {
+  question: Question;
+  versions: QuestionVersion[];
+  onRestore: (version: QuestionVersion) => void;
+}
+
+// 'current' compares against the question as it is in the editor right now
+type VersionKey = number | 'current';
+
+const groupLabels: Record<DiffGroup, string> = {
+  stem: 'Stem',
+  options: 'Options',
+  items: 'Items',
+  zones: 'Zones',
+  metadata: 'Metadata',
+};
+
+export const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({
+  question,
+  versions,
+  onRestore,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const latest = versions[versions.length - 1];
+  const [compareFrom, setCompareFrom] = useState<VersionKey | undefined>();
+  const [compareTo, setCompareTo] = useState<VersionKey>('current');
+
+  const from = compareFrom ?? latest?.version;
+  const resolve = (key?: VersionKey) =>
+    key === 'current' ? question : versions.find(v => v.version === key)?.snapshot;
+
+  const fromQuestion = resolve(from);
+  const toQuestion = resolve(compareTo);
+  const diffs = fromQuestion && toQuestion ? diffQuestions(fromQuestion, toQuestion) : [];
+  const groups = (Object.keys(groupLabels) as DiffGroup[])
+    .map(group => ({ group, diffs: diffs.filter(diff => diff.group === group) }))
+    .filter(({ diffs }) => diffs.length > 0);
+
+  const parseKey = (value: string): VersionKey => (value === 'current' ? 'current' : Number(value));
+
+  const versionOptions = (
+    <>
+      <option value="current">Current (editor)</option>
+      {[...versions].reverse().map(version => (
+        <option key={version.version} value={version.version}>
+          v{version.version} — {new Date(version.savedAt).toLocaleString()}
+        </option>
+      ))}
+    </>
+  );
+
+  return (
+    <div className="version-history">
+      <button onClick={() => setIsOpen(!isOpen)} className="version-history-toggle">
+        {isOpen ? '▾' : '▸'} Version History ({versions.length})
+      </button>
+
+      {isOpen && (
+        versions.length === 0 ? (
+          <p className="version-history-empty">No saved versions yet. Each save creates a new version.</p>
+        ) : (
+          <div className="version-history-body">
+            <ul className="version-list">
+              {[...versions].reverse().map(version => (
+                <li key={version.version} className="version-item">
+                  <div className="version-item-content">
+                    <span className="question-number">v{version.version}</span>
+                    <div>
+                      <p className="version-item-note">{version.changeNote}</p>
+                      <p className="version-item-meta">{new Date(version.savedAt).toLocaleString()}</p>
+                    </div>
+                  </div>
+                  <div className="question-card-actions">
+                    <button
+                      onClick={() => {
+                        setCompareFrom(version.version);
+                        setCompareTo('current');
+                      }}
+                      className="btn btn-secondary btn-sm"
+                    >
+                      Compare
+                    </button>
+                    <button
+                      onClick={() => onRestore(version)}
+                      className="btn btn-secondary btn-sm"
+                      title="Replace the editor content with this version"
+                    >
+                      Restore
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+
+            <div className="version-diff">
+              <div className="version-diff-controls">
+                <select
+                  value={from}
+                  onChange={(e) => setCompareFrom(parseKey(e.target.value))}
+                  className="form-select"
+                >
+                  {versionOptions}
+                </select>
+                <span>→</span>
+                <select
+                  value={compareTo}
+                  onChange={(e) => setCompareTo(parseKey(e.target.value))}
+                  className="form-select"
+                >
+                  {versionOptions}
+                </select>
+              </div>
+
+              {groups.length === 0 ? (
+                <p className="version-history-empty">No differences.</p>
+              ) : (
+                groups.map(({ group, diffs }) => (
+                  <div key={group} className="version-diff-group">
+                    <h5 className="version-diff-group-title">{groupLabels[group]}</h5>
+                    {diffs.map((diff, index) => (
+                      <div key={index} className={`version-diff-row version-diff-${diff.kind}`}>
+                        <span className="version-diff-field">{diff.field}</span>
+                        {diff.before !== undefined && <del>{diff.before}</del>}
+                        {diff.after !== undefined && <ins>{diff.after}</ins>}
+                      </div>
+                    ))}
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  );
+};
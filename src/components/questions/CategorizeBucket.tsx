@@ -0,0 +1,31 @@
+import React from 'react';
+import { useDroppable } from '@dnd-kit/core';
+
+interface CategorizeBucketProps {
+  id: string;
+  // Empty for the distractors, which belong in no category
+  categoryId: string;
+  title: string;
+  children?: React.ReactNode;
+}
+
+export const CategorizeBucket: React.FC<CategorizeBucketProps> = ({
+  id,
+  categoryId,
+  title,
+  children,
+}) => {
+  const { setNodeRef, isOver } = useDroppable({ id, data: { categoryId } });
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={`categorize-bucket ${categoryId ? '' : 'distractors'} ${isOver ? 'drop-target' : ''}`}
+    >
+      <h5 className="categorize-bucket-title">{title}</h5>
+      <div className="categorize-bucket-items">
+        {children}
+      </div>
+    </div>
+  );
+};
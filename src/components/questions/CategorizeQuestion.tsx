@@ -0,0 +1,241 @@
+import React from 'react';
+import { DndContext, closestCorners, DragEndEvent, KeyboardSensor, PointerSensor, useSensor, useSensors } from '@dnd-kit/core';
+import { arrayMove, SortableContext, sortableKeyboardCoordinates, verticalListSortingStrategy } from '@dnd-kit/sortable';
+import { CategorizeBucket } from './CategorizeBucket';
+import { SortableCategorizeItem } from './SortableCategorizeItem';
+import { CategorizeItem, CategorizeQuestion as CategorizeQuestionType } from '../../types';
+import { generateId } from '../../utils/assessmentUtils';
+
+interface CategorizeQuestionProps {
+  question: CategorizeQuestionType;
+  onChange: (question: CategorizeQuestionType) => void;
+  validationErrors?: string[];
+}
+
+// Buckets get their own ids so they never collide with item ids
+const DISTRACTOR_BUCKET_ID = 'bucket-distractors';
+const bucketId = (categoryId: string) => (categoryId ? `bucket-${categoryId}` : DISTRACTOR_BUCKET_ID);
+
+export const CategorizeQuestion: React.FC<CategorizeQuestionProps> = ({
+  question,
+  onChange,
+  validationErrors = [],
+}) => {
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  const updateCategory = (categoryId: string, text: string) => {
+    onChange({
+      ...question,
+      categories: question.categories.map(category => (category.id === categoryId ? { ...category, text } : category)),
+    });
+  };
+
+  const addCategory = () => {
+    onChange({ ...question, categories: [...question.categories, { id: generateId(), text: '' }] });
+  };
+
+  // Items of a removed category become distractors rather than disappearing
+  const removeCategory = (categoryId: string) => {
+    if (question.categories.length > 2) {
+      onChange({
+        ...question,
+        categories: question.categories.filter(category => category.id !== categoryId),
+        items: question.items.map(item => (item.categoryId === categoryId ? { ...item, categoryId: '' } : item)),
+      });
+    }
+  };
+
+  const updateItem = (itemId: string, changes: Partial<CategorizeItem>) => {
+    onChange({
+      ...question,
+      items: question.items.map(item => (item.id === itemId ? { ...item, ...changes } : item)),
+    });
+  };
+
+  const addItem = () => {
+    onChange({
+      ...question,
+      items: [...question.items, { id: generateId(), text: '', categoryId: question.categories[0]?.id ?? '' }],
+    });
+  };
+
+  const removeItem = (itemId: string) => {
+    if (question.items.length > 1) {
+      onChange({ ...question, items: question.items.filter(item => item.id !== itemId) });
+    }
+  };
+
+  // Dropping on a bucket or on an item in it moves the item there; within a bucket items are reordered
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    if (!over || active.id === over.id) return;
+
+    const categoryId = over.data.current?.categoryId;
+    if (typeof categoryId !== 'string') return;
+    const item = question.items.find(entry => entry.id === active.id);
+    if (!item) return;
+
+    if (item.categoryId !== categoryId) {
+      updateItem(item.id, { categoryId });
+    } else {
+      const oldIndex = question.items.findIndex(entry => entry.id === active.id);
+      const newIndex = question.items.findIndex(entry => entry.id === over.id);
+      if (newIndex !== -1) onChange({ ...question, items: arrayMove(question.items, oldIndex, newIndex) });
+    }
+  };
+
+  const buckets = [
+    ...question.categories.map((category, index) => ({ categoryId: category.id, title: category.text || `Category ${index + 1}` })),
+    { categoryId: '', title: 'Distractors' },
+  ];
+
+  return (
+    <div className="space-y-4">
+      {/* Question Stem */}
+      <div className="form-group">
+        <label className="form-label">
+          Question Stem
+        </label>
+        <textarea
+          value={question.stem}
+          onChange={(e) => onChange({ ...question, stem: e.target.value })}
+          className="form-textarea"
+          rows={3}
+          placeholder="Instructions, e.g. Sort these organisms into their kingdoms..."
+        />
+      </div>
+
+      {/* Categories */}
+      <div className="form-group">
+        <label className="form-label">
+          Categories
+        </label>
+        <div className="cloze-blank-answers">
+          {question.categories.map((category, index) => (
+            <div key={category.id} className="cloze-blank-row">
+              <input
+                type="text"
+                value={category.text}
+                onChange={(e) => updateCategory(category.id, e.target.value)}
+                className="mcq-option-input"
+                placeholder={`Category ${index + 1}`}
+              />
+              {question.categories.length > 2 && (
+                <button onClick={() => removeCategory(category.id)} className="mcq-option-remove">
+                  Remove
+                </button>
+              )}
+            </div>
+          ))}
+          <button onClick={addCategory} className="mcq-add-option">
+            + Add Category
+          </button>
+        </div>
+      </div>
+
+      {/* Items */}
+      <div className="form-group">
+        <label className="form-label">
+          Items
+        </label>
+        <div className="mcq-options-container">
+          {question.items.map((item, index) => (
+            <div key={item.id} className="mcq-option">
+              <div className="cloze-blank-row">
+                <input
+                  type="text"
+                  value={item.text}
+                  onChange={(e) => updateItem(item.id, { text: e.target.value })}
+                  className="mcq-option-input"
+                  placeholder={`Item ${index + 1}`}
+                />
+                <select
+                  value={item.categoryId}
+                  onChange={(e) => updateItem(item.id, { categoryId: e.target.value })}
+                  className="form-select categorize-select"
+                  aria-label={`Category of item ${index + 1}`}
+                >
+                  {question.categories.map((category, categoryIndex) => (
+                    <option key={category.id} value={category.id}>
+                      {category.text || `Category ${categoryIndex + 1}`}
+                    </option>
+                  ))}
+                  <option value="">Distractor (no category)</option>
+                </select>
+                {question.items.length > 1 && (
+                  <button onClick={() => removeItem(item.id)} className="mcq-option-remove">
+                    Remove
+                  </button>
+                )}
+              </div>
+              {question.purpose === 'formative' && (
+                <input
+                  type="text"
+                  value={item.feedback || ''}
+                  onChange={(e) => updateItem(item.id, { feedback: e.target.value })}
+                  className="mcq-option-feedback short-answer-feedback"
+                  placeholder={item.categoryId ? 'Feedback for this item' : 'Feedback when this distractor is placed in a category'}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+        <button onClick={addItem} className="mcq-add-option">
+          + Add Item
+        </button>
+      </div>
+
+      {/* Preview */}
+      <div className="ordering-preview">
+        <h4 className="ordering-preview-title">Preview: drag items between categories to change where they belong</h4>
+        <DndContext
+          sensors={sensors}
+          collisionDetection={closestCorners}
+          onDragEnd={handleDragEnd}
+        >
+          <div className="categorize-board">
+            {buckets.map(bucket => {
+              const items = question.items.filter(item => item.categoryId === bucket.categoryId);
+              return (
+                <CategorizeBucket
+                  key={bucketId(bucket.categoryId)}
+                  id={bucketId(bucket.categoryId)}
+                  categoryId={bucket.categoryId}
+                  title={bucket.title}
+                >
+                  <SortableContext items={items.map(item => item.id)} strategy={verticalListSortingStrategy}>
+                    {items.map(item => (
+                      <SortableCategorizeItem
+                        key={item.id}
+                        id={item.id}
+                        categoryId={item.categoryId}
+                        text={item.text || `Item ${question.items.indexOf(item) + 1}`}
+                      />
+                    ))}
+                  </SortableContext>
+                </CategorizeBucket>
+              );
+            })}
+          </div>
+        </DndContext>
+      </div>
+
+      {/* Validation Errors */}
+      {validationErrors.length > 0 && (
+        <div className="validation-error">
+          <h4 className="validation-error-title">Validation Errors:</h4>
+          <ul className="validation-error-list space-y-1">
+            {validationErrors.map((error, index) => (
+              <li key={index} className="validation-error-item">{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
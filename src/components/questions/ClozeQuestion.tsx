@@ -0,0 +1,343 @@
+import React, { useEffect, useRef } from 'react';
+import { ClozeBlank, ClozeBlankMode, ClozeQuestion as ClozeQuestionType } from '../../types';
+import { generateId } from '../../utils/assessmentUtils';
+import { createClozeMarker, getMarkerIds, parseClozePassage } from '../../utils/cloze';
+
+interface ClozeQuestionProps {
+  question: ClozeQuestionType;
+  onChange: (question: ClozeQuestionType) => void;
+  validationErrors?: string[];
+}
+
+const blankModes: { value: ClozeBlankMode; label: string; description: string }[] = [
+  { value: 'text', label: 'Text entry', description: 'Students type the answer' },
+  { value: 'dropdown', label: 'Dropdown', description: 'Students pick the answer from a list' },
+];
+
+export const ClozeQuestion: React.FC<ClozeQuestionProps> = ({
+  question,
+  onChange,
+  validationErrors = [],
+}) => {
+  const passageRef = useRef<HTMLTextAreaElement>(null);
+  // Cursor position to restore once an inserted marker has reached the textarea
+  const pendingCursorRef = useRef<number | undefined>(undefined);
+
+  useEffect(() => {
+    const textarea = passageRef.current;
+    const cursor = pendingCursorRef.current;
+    if (!textarea || cursor === undefined) return;
+    pendingCursorRef.current = undefined;
+    textarea.focus();
+    textarea.setSelectionRange(cursor, cursor);
+  }, [question.passage]);
+
+  const markerIds = getMarkerIds(question.passage);
+  const placedBlanks = markerIds.flatMap(id => question.blanks.filter(blank => blank.id === id));
+  const unplacedBlanks = question.blanks.filter(blank => !markerIds.includes(blank.id));
+
+  const updateBlank = (blankId: string, changes: Partial<ClozeBlank>) => {
+    onChange({
+      ...question,
+      blanks: question.blanks.map(blank => (blank.id === blankId ? { ...blank, ...changes } : blank)),
+    });
+  };
+
+  // Puts a marker at the cursor; selected text is replaced and becomes the first accepted answer
+  const insertMarker = (blank: ClozeBlank, isNew: boolean) => {
+    const textarea = passageRef.current;
+    const start = textarea?.selectionStart ?? question.passage.length;
+    const end = textarea?.selectionEnd ?? start;
+    const selected = question.passage.slice(start, end).trim();
+    const marker = createClozeMarker(blank.id);
+    const filled = isNew && selected ? { ...blank, acceptedAnswers: [selected] } : blank;
+
+    pendingCursorRef.current = start + marker.length;
+    onChange({
+      ...question,
+      passage: question.passage.slice(0, start) + marker + question.passage.slice(end),
+      blanks: isNew ? [...question.blanks, filled] : question.blanks,
+    });
+  };
+
+  const addBlank = () => {
+    insertMarker({ id: generateId(), mode: 'text', acceptedAnswers: [''], choices: [] }, true);
+  };
+
+  const removeBlank = (blankId: string) => {
+    onChange({
+      ...question,
+      passage: question.passage.split(createClozeMarker(blankId)).join(''),
+      blanks: question.blanks.filter(blank => blank.id !== blankId),
+    });
+  };
+
+  // A fresh dropdown starts with two choices so it is usable straight away
+  const setMode = (blank: ClozeBlank, mode: ClozeBlankMode) => {
+    const choices = mode === 'dropdown' && blank.choices.length === 0
+      ? [
+          { id: generateId(), text: blank.acceptedAnswers[0] ?? '', isCorrect: true },
+          { id: generateId(), text: '', isCorrect: false },
+        ]
+      : blank.choices;
+    updateBlank(blank.id, { mode, choices });
+  };
+
+  const updateAnswer = (blank: ClozeBlank, index: number, value: string) => {
+    updateBlank(blank.id, { acceptedAnswers: blank.acceptedAnswers.map((answer, i) => (i === index ? value : answer)) });
+  };
+
+  const updateChoice = (blank: ClozeBlank, choiceId: string, changes: { text?: string; isCorrect?: boolean }) => {
+    updateBlank(blank.id, {
+      choices: blank.choices.map(choice => {
+        if (choice.id === choiceId) return { ...choice, ...changes };
+        // Dropdowns have exactly one correct choice
+        return changes.isCorrect ? { ...choice, isCorrect: false } : choice;
+      }),
+    });
+  };
+
+  const renderBlankSettings = (blank: ClozeBlank) => (
+    <>
+      <div className="toggle-group">
+        {blankModes.map((mode) => (
+          <button
+            key={mode.value}
+            onClick={() => setMode(blank, mode.value)}
+            className={`toggle-btn ${blank.mode === mode.value ? 'active' : ''}`}
+            title={mode.description}
+          >
+            {mode.label}
+          </button>
+        ))}
+      </div>
+
+      {blank.mode === 'text' ? (
+        <div className="cloze-blank-answers">
+          {blank.acceptedAnswers.map((answer, index) => (
+            <div key={index} className="cloze-blank-row">
+              <input
+                type="text"
+                value={answer}
+                onChange={(e) => updateAnswer(blank, index, e.target.value)}
+                className="mcq-option-input"
+                placeholder={index === 0 ? 'Accepted answer' : 'Another accepted answer'}
+              />
+              {blank.acceptedAnswers.length > 1 && (
+                <button
+                  onClick={() => updateBlank(blank.id, { acceptedAnswers: blank.acceptedAnswers.filter((_, i) => i !== index) })}
+                  className="mcq-option-remove"
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+          ))}
+          <button
+            onClick={() => updateBlank(blank.id, { acceptedAnswers: [...blank.acceptedAnswers, ''] })}
+            className="mcq-add-option"
+          >
+            + Add Accepted Answer
+          </button>
+          <div className="cloze-blank-options">
+            <label className="cloze-blank-option">
+              <input
+                type="checkbox"
+                checked={!!blank.caseSensitive}
+                onChange={(e) => updateBlank(blank.id, { caseSensitive: e.target.checked || undefined })}
+              />
+              Case sensitive
+            </label>
+            <label className="cloze-blank-option">
+              <input
+                type="checkbox"
+                checked={!!blank.ignoreWhitespace}
+                onChange={(e) => updateBlank(blank.id, { ignoreWhitespace: e.target.checked || undefined })}
+              />
+              Ignore all spaces
+            </label>
+          </div>
+          <input
+            type="text"
+            value={blank.pattern ?? ''}
+            onChange={(e) => updateBlank(blank.id, { pattern: e.target.value || undefined })}
+            className="mcq-option-input cloze-blank-pattern"
+            placeholder="Regular expression for other accepted answers (optional), e.g. colou?r"
+          />
+        </div>
+      ) : (
+        <div className="cloze-blank-answers">
+          {blank.choices.map((choice, index) => (
+            <div key={choice.id} className="cloze-blank-row">
+              <div className="mcq-option-radio">
+                <input
+                  type="radio"
+                  name={`correct-${blank.id}`}
+                  checked={choice.isCorrect}
+                  onChange={() => updateChoice(blank, choice.id, { isCorrect: true })}
+                />
+                <span className="mcq-option-radio-label">Correct</span>
+              </div>
+              <input
+                type="text"
+                value={choice.text}
+                onChange={(e) => updateChoice(blank, choice.id, { text: e.target.value })}
+                className="mcq-option-input"
+                placeholder={`Choice ${index + 1}`}
+              />
+              {blank.choices.length > 2 && (
+                <button
+                  onClick={() => updateBlank(blank.id, { choices: blank.choices.filter(entry => entry.id !== choice.id) })}
+                  className="mcq-option-remove"
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+          ))}
+          <button
+            onClick={() => updateBlank(blank.id, {
+              choices: [...blank.choices, { id: generateId(), text: '', isCorrect: false }],
+            })}
+            className="mcq-add-option"
+          >
+            + Add Choice
+          </button>
+        </div>
+      )}
+
+      {question.purpose === 'formative' && (
+        <input
+          type="text"
+          value={blank.feedback || ''}
+          onChange={(e) => updateBlank(blank.id, { feedback: e.target.value })}
+          className="mcq-option-feedback"
+          placeholder="Feedback for this blank (optional)"
+        />
+      )}
+    </>
+  );
+
+  let previewNumber = 0;
+
+  return (
+    <div className="space-y-4">
+      {/* Question Stem */}
+      <div className="form-group">
+        <label className="form-label">
+          Question Stem
+        </label>
+        <textarea
+          value={question.stem}
+          onChange={(e) => onChange({ ...question, stem: e.target.value })}
+          className="form-textarea"
+          rows={2}
+          placeholder="Instructions, e.g. Complete the passage..."
+        />
+      </div>
+
+      {/* Passage */}
+      <div className="form-group">
+        <div className="cloze-passage-header">
+          <label className="form-label">
+            Passage
+          </label>
+          <button onClick={addBlank} className="btn btn-secondary btn-sm" title="Select a word to turn it into a blank">
+            + Insert Blank
+          </button>
+        </div>
+        <div className="hotspot-instructions">
+          <p className="hotspot-instructions-text">
+            Select the words to blank out (or place the cursor) and click Insert Blank. Each blank appears as a
+            {' '}<code>{'{{…}}'}</code> marker; deleting the marker takes the blank out of the passage.
+          </p>
+        </div>
+        <textarea
+          ref={passageRef}
+          value={question.passage}
+          onChange={(e) => onChange({ ...question, passage: e.target.value })}
+          className="form-textarea cloze-passage"
+          rows={5}
+          placeholder="Write the passage here..."
+        />
+      </div>
+
+      {/* Preview */}
+      {markerIds.length > 0 && (
+        <div className="ordering-preview">
+          <h4 className="ordering-preview-title">Preview</h4>
+          <p className="cloze-preview-text">
+            {parseClozePassage(question.passage).map((segment, index) => {
+              if (segment.kind === 'text') return <React.Fragment key={index}>{segment.text}</React.Fragment>;
+              const exists = question.blanks.some(blank => blank.id === segment.blankId);
+              return (
+                <span key={index} className={`cloze-preview-blank ${exists ? '' : 'missing'}`}>
+                  {exists ? ++previewNumber : '?'}
+                </span>
+              );
+            })}
+          </p>
+        </div>
+      )}
+
+      {/* Blanks */}
+      {placedBlanks.length > 0 && (
+        <div className="form-group">
+          <label className="form-label">
+            Blanks
+          </label>
+          {placedBlanks.map((blank, index) => (
+            <div key={blank.id} className="mcq-option cloze-blank">
+              <div className="cloze-blank-header">
+                <span className="cloze-preview-blank">{index + 1}</span>
+                <button onClick={() => removeBlank(blank.id)} className="mcq-option-remove">
+                  Remove Blank
+                </button>
+              </div>
+              {renderBlankSettings(blank)}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {unplacedBlanks.length > 0 && (
+        <div className="form-group">
+          <label className="form-label">
+            Not in the passage
+          </label>
+          {unplacedBlanks.map((blank) => (
+            <div key={blank.id} className="mcq-option cloze-blank unplaced">
+              <div className="cloze-blank-header">
+                <span className="cloze-blank-summary">
+                  {blank.mode === 'dropdown'
+                    ? blank.choices.map(choice => choice.text).filter(Boolean).join(' / ') || 'Dropdown'
+                    : blank.acceptedAnswers.filter(Boolean).join(' / ') || 'Text entry'}
+                </span>
+                <div className="cloze-blank-actions">
+                  <button onClick={() => insertMarker(blank, false)} className="btn btn-secondary btn-sm">
+                    Insert at Cursor
+                  </button>
+                  <button onClick={() => removeBlank(blank.id)} className="mcq-option-remove">
+                    Remove
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Validation Errors */}
+      {validationErrors.length > 0 && (
+        <div className="validation-error">
+          <h4 className="validation-error-title">Validation Errors:</h4>
+          <ul className="validation-error-list space-y-1">
+            {validationErrors.map((error, index) => (
+              <li key={index} className="validation-error-item">{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
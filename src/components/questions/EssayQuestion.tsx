@@ -0,0 +1,284 @@
+import React from 'react';
+import { EssayQuestion as EssayQuestionType, Rubric, RubricCriterion, RubricLevel } from '../../types';
+import { createDefaultRubric, generateId } from '../../utils/assessmentUtils';
+import { countWords, getRubricMaxPoints } from '../../utils/essay';
+
+interface EssayQuestionProps {
+  question: EssayQuestionType;
+  onChange: (question: EssayQuestionType) => void;
+  validationErrors?: string[];
+}
+
+// Empty inputs clear the limit instead of storing 0
+const toNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+export const EssayQuestion: React.FC<EssayQuestionProps> = ({
+  question,
+  onChange,
+  validationErrors = [],
+}) => {
+  const { rubric } = question;
+  const modelAnswer = question.modelAnswer || '';
+
+  const updateRubric = (changes: Partial<Rubric>) => {
+    if (rubric) onChange({ ...question, rubric: { ...rubric, ...changes } });
+  };
+
+  const updateLevel = (levelId: string, changes: Partial<RubricLevel>) => {
+    if (!rubric) return;
+    updateRubric({ levels: rubric.levels.map(level => (level.id === levelId ? { ...level, ...changes } : level)) });
+  };
+
+  // A new level is worth one point more than the best one so far
+  const addLevel = () => {
+    if (!rubric) return;
+    const points = rubric.levels.reduce((max, level) => Math.max(max, level.points), 0) + 1;
+    updateRubric({
+      levels: [...rubric.levels, { id: generateId(), label: '', points }],
+      criteria: rubric.criteria.map(criterion => ({ ...criterion, descriptors: [...criterion.descriptors, ''] })),
+    });
+  };
+
+  // Descriptors are kept in level order, so the removed level's descriptor goes too
+  const removeLevel = (index: number) => {
+    if (!rubric || rubric.levels.length <= 2) return;
+    updateRubric({
+      levels: rubric.levels.filter((_, i) => i !== index),
+      criteria: rubric.criteria.map(criterion => ({
+        ...criterion,
+        descriptors: criterion.descriptors.filter((_, i) => i !== index),
+      })),
+    });
+  };
+
+  const updateCriterion = (criterionId: string, changes: Partial<RubricCriterion>) => {
+    if (!rubric) return;
+    updateRubric({
+      criteria: rubric.criteria.map(criterion => (criterion.id === criterionId ? { ...criterion, ...changes } : criterion)),
+    });
+  };
+
+  const updateDescriptor = (criterion: RubricCriterion, index: number, value: string) => {
+    if (!rubric) return;
+    updateCriterion(criterion.id, {
+      descriptors: rubric.levels.map((_, i) => (i === index ? value : criterion.descriptors[i] ?? '')),
+    });
+  };
+
+  const addCriterion = () => {
+    if (!rubric) return;
+    updateRubric({
+      criteria: [...rubric.criteria, { id: generateId(), title: '', descriptors: rubric.levels.map(() => '') }],
+    });
+  };
+
+  const removeCriterion = (criterionId: string) => {
+    if (!rubric || rubric.criteria.length <= 1) return;
+    updateRubric({ criteria: rubric.criteria.filter(criterion => criterion.id !== criterionId) });
+  };
+
+  const objective = [
+    question.learningObjective?.trim() && `Assesses: ${question.learningObjective.trim()}`,
+    question.bloomsLevel && `Bloom's level: ${question.bloomsLevel}`,
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div className="space-y-4">
+      {/* Question Stem */}
+      <div className="form-group">
+        <label className="form-label">
+          Question Stem
+        </label>
+        <textarea
+          value={question.stem}
+          onChange={(e) => onChange({ ...question, stem: e.target.value })}
+          className="form-textarea"
+          rows={3}
+          placeholder="The essay prompt, e.g. Evaluate the causes of..."
+        />
+      </div>
+
+      {/* Response Limits */}
+      <div className="numeric-fields">
+        <div className="form-group">
+          <label className="form-label">
+            Minimum Words
+          </label>
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={question.minWords ?? ''}
+            onChange={(e) => onChange({ ...question, minWords: toNumber(e.target.value) })}
+            className="form-input"
+            placeholder="None"
+          />
+        </div>
+        <div className="form-group">
+          <label className="form-label">
+            Maximum Words
+          </label>
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={question.maxWords ?? ''}
+            onChange={(e) => onChange({ ...question, maxWords: toNumber(e.target.value) })}
+            className="form-input"
+            placeholder="None"
+          />
+        </div>
+        <div className="form-group">
+          <label className="form-label">
+            Maximum Characters
+          </label>
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={question.maxCharacters ?? ''}
+            onChange={(e) => onChange({ ...question, maxCharacters: toNumber(e.target.value) })}
+            className="form-input"
+            placeholder="None"
+          />
+        </div>
+      </div>
+
+      {/* Model Answer */}
+      <div className="form-group">
+        <label className="form-label">
+          Model Answer
+        </label>
+        <textarea
+          value={modelAnswer}
+          onChange={(e) => onChange({ ...question, modelAnswer: e.target.value })}
+          className="form-textarea"
+          rows={6}
+          placeholder="An exemplary response or the points graders look for (optional)"
+        />
+        <p className="essay-count">
+          {countWords(modelAnswer)} words · {modelAnswer.trim().length} characters
+        </p>
+      </div>
+
+      {/* Rubric */}
+      <div className="form-group">
+        <label className="form-label">
+          Rubric{question.purpose === 'summative' ? ' *' : ''}
+        </label>
+        {!rubric ? (
+          <div className="hotspot-instructions">
+            <p className="hotspot-instructions-text">
+              An analytic rubric describes each criterion at every performance level.
+              {question.purpose === 'summative' ? ' Summative essays need one.' : ''}
+            </p>
+            <button onClick={() => onChange({ ...question, rubric: createDefaultRubric() })} className="mcq-add-option">
+              + Add Rubric
+            </button>
+          </div>
+        ) : (
+          <>
+            {objective && <p className="rubric-objective">{objective}</p>}
+            <div className="rubric-scroll">
+              <table className="rubric-grid">
+                <thead>
+                  <tr>
+                    <th className="rubric-corner">Criterion</th>
+                    {rubric.levels.map((level, index) => (
+                      <th key={level.id}>
+                        <div className="cloze-blank-row">
+                          <input
+                            type="text"
+                            value={level.label}
+                            onChange={(e) => updateLevel(level.id, { label: e.target.value })}
+                            className="mcq-option-input"
+                            placeholder={`Level ${index + 1}`}
+                          />
+                          {rubric.levels.length > 2 && (
+                            <button onClick={() => removeLevel(index)} className="mcq-option-remove" title="Remove level">
+                              ×
+                            </button>
+                          )}
+                        </div>
+                        <label className="rubric-level-points">
+                          <input
+                            type="number"
+                            min={0}
+                            step="any"
+                            value={level.points}
+                            onChange={(e) => updateLevel(level.id, { points: Number(e.target.value) || 0 })}
+                            className="mcq-option-input"
+                            aria-label={`Points for level ${index + 1}`}
+                          />
+                          pts
+                        </label>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rubric.criteria.map((criterion, criterionIndex) => (
+                    <tr key={criterion.id}>
+                      <th>
+                        <textarea
+                          value={criterion.title}
+                          onChange={(e) => updateCriterion(criterion.id, { title: e.target.value })}
+                          className="form-textarea rubric-cell"
+                          rows={2}
+                          placeholder={`Criterion ${criterionIndex + 1}, e.g. Use of evidence`}
+                        />
+                        {rubric.criteria.length > 1 && (
+                          <button onClick={() => removeCriterion(criterion.id)} className="mcq-option-remove">
+                            Remove
+                          </button>
+                        )}
+                      </th>
+                      {rubric.levels.map((level, index) => (
+                        <td key={level.id}>
+                          <textarea
+                            value={criterion.descriptors[index] ?? ''}
+                            onChange={(e) => updateDescriptor(criterion, index, e.target.value)}
+                            className="form-textarea rubric-cell"
+                            rows={3}
+                            placeholder={`What ${level.label || `level ${index + 1}`} looks like`}
+                            aria-label={`${criterion.title || `Criterion ${criterionIndex + 1}`}, ${level.label || `level ${index + 1}`}`}
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="rubric-actions">
+              <button onClick={addCriterion} className="mcq-add-option">
+                + Add Criterion
+              </button>
+              <button onClick={addLevel} className="mcq-add-option">
+                + Add Level
+              </button>
+              <button onClick={() => onChange({ ...question, rubric: undefined })} className="mcq-option-remove">
+                Remove Rubric
+              </button>
+            </div>
+            <p className="essay-count">
+              Up to {getRubricMaxPoints(rubric)} rubric points, scaled to the points the question is worth
+            </p>
+          </>
+        )}
+      </div>
+
+      {/* Validation Errors */}
+      {validationErrors.length > 0 && (
+        <div className="validation-error">
+          <h4 className="validation-error-title">Validation Errors:</h4>
+          <ul className="validation-error-list space-y-1">
+            {validationErrors.map((error, index) => (
+              <li key={index} className="validation-error-item">{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,9 @@
-import React, { useState, useRef, MouseEvent, ChangeEvent } from 'react';
-import { HotspotQuestion as HotspotQuestionType, HotspotZone } from '../../types';
+import React, { useRef, ChangeEvent } from 'react';
+import { HotspotInteraction, HotspotLabel, HotspotQuestion as HotspotQuestionType, HotspotZone } from '../../types';
 import { generateId } from '../../utils/assessmentUtils';
+import { formatPoint } from '../../utils/hotspotGeometry';
+import { getHotspotInteraction } from '../../utils/labelPlacement';
+import { HotspotZoneCanvas } from './HotspotZoneCanvas';
 
 interface HotspotQuestionProps {
   question: HotspotQuestionType;
@@ -8,28 +11,31 @@ interface HotspotQuestionProps {
   validationErrors?: string[];
 }
 
+const interactions: { value: HotspotInteraction; label: string; description: string }[] = [
+  { value: 'click', label: 'Click areas', description: 'Students click every zone' },
+  { value: 'labels', label: 'Place labels', description: 'Students drag labels onto the zones' },
+];
+
 export const HotspotQuestion: React.FC<HotspotQuestionProps> = ({
   question,
   onChange,
   validationErrors = [],
 }) => {
-  const [isDrawing, setIsDrawing] = useState(false);
-  const [currentZone, setCurrentZone] = useState<{ x: number; y: number }[]>([]);
-  const imageRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const interaction = getHotspotInteraction(question);
+  const labels = question.labels ?? [];
+  const distractorCount = labels.filter(label => label.zoneIds.length === 0).length;
 
   const updateStem = (stem: string) => {
     onChange({ ...question, stem });
   };
 
+  // The size is recorded again once the new image loads
   const updateImageUrl = (imageUrl: string) => {
-    onChange({ ...question, imageUrl, imageFile: undefined });
+    onChange({ ...question, imageUrl, imageFile: undefined, imageSize: undefined });
   };
 
-  const handleFileUpload = async (e: ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
+  const readImage = (file: File, onLoad: (dataUrl: string) => void) => {
     // Validate file type
     if (!file.type.startsWith('image/')) {
       alert('Please select an image file');
@@ -45,76 +51,82 @@ export const HotspotQuestion: React.FC<HotspotQuestionProps> = ({
     // Convert file to data URL for display
     const reader = new FileReader();
     reader.onload = (event) => {
-      const dataUrl = event.target?.result as string;
-      onChange({ ...question, imageUrl: dataUrl, imageFile: file });
+      onLoad(event.target?.result as string);
     };
     reader.readAsDataURL(file);
   };
 
+  const handleFileUpload = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    readImage(file, (dataUrl) => onChange({ ...question, imageUrl: dataUrl, imageFile: file, imageSize: undefined }));
+  };
+
   const triggerFileUpload = () => {
     fileInputRef.current?.click();
   };
 
   const clearImage = () => {
-    onChange({ ...question, imageUrl: undefined, imageFile: undefined });
+    onChange({ ...question, imageUrl: undefined, imageFile: undefined, imageSize: undefined });
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
   };
 
-  const handleImageClick = (e: MouseEvent<HTMLDivElement>) => {
-    if (!imageRef.current) return;
+  // Labels that only belonged on a removed zone become distractors
+  const removeZone = (zoneId: string) => {
+    const updatedZones = question.zones.filter(zone => zone.id !== zoneId);
+    onChange({
+      ...question,
+      zones: updatedZones,
+      labels: question.labels?.map(label => ({ ...label, zoneIds: label.zoneIds.filter(id => id !== zoneId) })),
+    });
+  };
 
-    const rect = imageRef.current.getBoundingClientRect();
-    const x = Math.round(e.clientX - rect.left);
-    const y = Math.round(e.clientY - rect.top);
+  const updateZoneLabel = (zoneId: string, label: string) => {
+    const updatedZones = question.zones.map(zone =>
+      zone.id === zoneId ? { ...zone, label } : zone
+    );
+    onChange({ ...question, zones: updatedZones });
+  };
 
-    if (isDrawing) {
-      setCurrentZone([...currentZone, { x, y }]);
-    } else {
-      // Start a new zone
-      setIsDrawing(true);
-      setCurrentZone([{ x, y }]);
-    }
+  const setInteraction = (value: HotspotInteraction) => {
+    onChange({
+      ...question,
+      interaction: value,
+      labels: value === 'labels' && labels.length === 0 ? [{ id: generateId(), text: '', zoneIds: [] }] : question.labels,
+    });
   };
 
-  const finishZone = () => {
-    if (currentZone.length >= 3) {
-      const newZone: HotspotZone = {
-        id: generateId(),
-        coordinates: currentZone,
-        label: `Zone ${question.zones.length + 1}`,
-      };
-      onChange({ ...question, zones: [...question.zones, newZone] });
-    }
-    setCurrentZone([]);
-    setIsDrawing(false);
+  const updateLabel = (labelId: string, changes: Partial<HotspotLabel>) => {
+    onChange({ ...question, labels: labels.map(label => (label.id === labelId ? { ...label, ...changes } : label)) });
   };
 
-  const cancelDrawing = () => {
-    setCurrentZone([]);
-    setIsDrawing(false);
+  const toggleLabelZone = (label: HotspotLabel, zoneId: string) => {
+    updateLabel(label.id, {
+      zoneIds: label.zoneIds.includes(zoneId) ? label.zoneIds.filter(id => id !== zoneId) : [...label.zoneIds, zoneId],
+    });
   };
 
-  const removeZone = (zoneId: string) => {
-    const updatedZones = question.zones.filter(zone => zone.id !== zoneId);
-    onChange({ ...question, zones: updatedZones });
+  const handleLabelImageUpload = (labelId: string, e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    readImage(file, (imageUrl) => updateLabel(labelId, { imageUrl }));
   };
 
-  const updateZoneLabel = (zoneId: string, label: string) => {
-    const updatedZones = question.zones.map(zone =>
-      zone.id === zoneId ? { ...zone, label } : zone
-    );
-    onChange({ ...question, zones: updatedZones });
+  const addLabel = () => {
+    onChange({ ...question, labels: [...labels, { id: generateId(), text: '', zoneIds: [] }] });
   };
 
-  const getZonePath = (coordinates: { x: number; y: number }[]) => {
-    if (coordinates.length < 2) return '';
-    return coordinates.map((point, index) => 
-      `${index === 0 ? 'M' : 'L'} ${point.x} ${point.y}`
-    ).join(' ') + ' Z';
+  const removeLabel = (labelId: string) => {
+    if (labels.length > 1) {
+      onChange({ ...question, labels: labels.filter(label => label.id !== labelId) });
+    }
   };
 
+  const getZoneName = (zone: HotspotZone, index: number) => zone.label || `Zone ${index + 1}`;
+
   return (
     <div className="space-y-4">
       {/* Question Stem */}
@@ -131,6 +143,25 @@ export const HotspotQuestion: React.FC<HotspotQuestionProps> = ({
         />
       </div>
 
+      {/* Interaction */}
+      <div className="form-group">
+        <label className="form-label">
+          Students
+        </label>
+        <div className="toggle-group">
+          {interactions.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setInteraction(option.value)}
+              className={`toggle-btn ${interaction === option.value ? 'active' : ''}`}
+              title={option.description}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
       {/* Image Upload */}
       <div className="form-group">
         <label className="form-label">
@@ -194,97 +225,9 @@ export const HotspotQuestion: React.FC<HotspotQuestionProps> = ({
       {/* Hotspot Drawing Area */}
       <div className="form-group">
         <label className="form-label">
-          Click to Define Hotspot Zones
+          {interaction === 'labels' ? 'Drop Zones' : 'Hotspot Zones'}
         </label>
-        
-        {/* Instructions */}
-        <div className="hotspot-instructions">
-          <p className="hotspot-instructions-text">
-            {isDrawing 
-              ? `Click to add points to your zone (${currentZone.length} points). Click "Finish Zone" when done.`
-              : "Click on the image to start drawing a hotspot zone. Click multiple points to create a polygon."
-            }
-          </p>
-        </div>
-
-        {/* Drawing Controls */}
-        {isDrawing && (
-          <div className="hotspot-controls">
-            <button
-              onClick={finishZone}
-              disabled={currentZone.length < 3}
-              className="btn btn-primary btn-sm"
-            >
-              Finish Zone ({currentZone.length} points)
-            </button>
-            <button
-              onClick={cancelDrawing}
-              className="btn btn-secondary btn-sm"
-            >
-              Cancel
-            </button>
-          </div>
-        )}
-
-        {/* Image Canvas */}
-        <div
-          ref={imageRef}
-          onClick={handleImageClick}
-          className="hotspot-canvas"
-          style={{ backgroundImage: question.imageUrl ? `url(${question.imageUrl})` : undefined }}
-        >
-          {!question.imageUrl && (
-            <div className="hotspot-canvas-placeholder">
-              <div>
-                <svg width="64" height="64" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
-                </svg>
-                <p>Click to define hotspot zones</p>
-              </div>
-            </div>
-          )}
-
-          {/* SVG Overlay for Zones */}
-          <svg className="hotspot-svg-overlay">
-            {/* Existing Zones */}
-            {question.zones.map((zone) => (
-              <g key={zone.id}>
-                <path
-                  d={getZonePath(zone.coordinates)}
-                  className="hotspot-zone"
-                />
-                <text
-                  x={zone.coordinates[0]?.x || 0}
-                  y={zone.coordinates[0]?.y || 0}
-                  className="hotspot-zone-label"
-                >
-                  {zone.label}
-                </text>
-              </g>
-            ))}
-
-            {/* Current Drawing Zone */}
-            {currentZone.length > 0 && (
-              <g>
-                {currentZone.map((point, index) => (
-                  <circle
-                    key={index}
-                    cx={point.x}
-                    cy={point.y}
-                    r="4"
-                    className="hotspot-point"
-                  />
-                ))}
-                {currentZone.length > 1 && (
-                  <path
-                    d={getZonePath(currentZone)}
-                    className="hotspot-zone-drawing"
-                  />
-                )}
-              </g>
-            )}
-          </svg>
-        </div>
+        <HotspotZoneCanvas question={question} onChange={onChange} onRemoveZone={removeZone} />
       </div>
 
       {/* Zone List */}
@@ -305,7 +248,7 @@ export const HotspotQuestion: React.FC<HotspotQuestionProps> = ({
                     placeholder="Zone label"
                   />
                   <p className="hotspot-zone-coords">
-                    {zone.coordinates.length} points: {zone.coordinates.map(p => `(${p.x},${p.y})`).join(', ')}
+                    {zone.coordinates.length} points: {zone.coordinates.map(formatPoint).join(', ')}
                   </p>
                 </div>
                 <button
@@ -320,6 +263,83 @@ export const HotspotQuestion: React.FC<HotspotQuestionProps> = ({
         </div>
       )}
 
+      {/* Labels */}
+      {interaction === 'labels' && (
+        <div className="form-group">
+          <label className="form-label">
+            Labels{distractorCount > 0 ? ` (${distractorCount} distractor${distractorCount !== 1 ? 's' : ''})` : ''}
+          </label>
+          <div className="hotspot-instructions">
+            <p className="hotspot-instructions-text">
+              Tick the zones each label belongs on; labels without zones are distractors. Students place each label
+              once and every zone holds one label.
+            </p>
+          </div>
+          <div className="mcq-options-container">
+            {labels.map((label, index) => (
+              <div key={label.id} className="mcq-option">
+                <div className="cloze-blank-row">
+                  {label.imageUrl && <img src={label.imageUrl} alt="" className="hotspot-label-image" />}
+                  <input
+                    type="text"
+                    value={label.text}
+                    onChange={(e) => updateLabel(label.id, { text: e.target.value })}
+                    className="mcq-option-input"
+                    placeholder={label.imageUrl ? 'Description of the image' : `Label ${index + 1}`}
+                  />
+                  <label className="btn btn-secondary btn-sm">
+                    {label.imageUrl ? 'Change Image' : 'Add Image'}
+                    <input
+                      type="file"
+                      accept="image/*"
+                      onChange={(e) => handleLabelImageUpload(label.id, e)}
+                      className="hidden"
+                    />
+                  </label>
+                  {label.imageUrl && (
+                    <button onClick={() => updateLabel(label.id, { imageUrl: undefined })} className="mcq-option-remove">
+                      Remove Image
+                    </button>
+                  )}
+                  {labels.length > 1 && (
+                    <button onClick={() => removeLabel(label.id)} className="mcq-option-remove">
+                      Remove
+                    </button>
+                  )}
+                </div>
+                <div className="hotspot-label-zones">
+                  {question.zones.length === 0 && (
+                    <span className="mcq-option-radio-label">Draw zones on the image to place this label</span>
+                  )}
+                  {question.zones.map((zone, zoneIndex) => (
+                    <label key={zone.id} className="cloze-blank-option">
+                      <input
+                        type="checkbox"
+                        checked={label.zoneIds.includes(zone.id)}
+                        onChange={() => toggleLabelZone(label, zone.id)}
+                      />
+                      {getZoneName(zone, zoneIndex)}
+                    </label>
+                  ))}
+                </div>
+                {question.purpose === 'formative' && (
+                  <input
+                    type="text"
+                    value={label.feedback || ''}
+                    onChange={(e) => updateLabel(label.id, { feedback: e.target.value })}
+                    className="mcq-option-feedback short-answer-feedback"
+                    placeholder={label.zoneIds.length > 0 ? 'Feedback for this label' : 'Feedback when this distractor is placed'}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+          <button onClick={addLabel} className="mcq-add-option">
+            + Add Label
+          </button>
+        </div>
+      )}
+
       {/* Validation Errors */}
       {validationErrors.length > 0 && (
         <div className="validation-error">
@@ -0,0 +1,496 @@
+import React, { useState, useRef, KeyboardEvent, PointerEvent, SyntheticEvent } from 'react';
+import { HotspotPoint, HotspotQuestion, HotspotZone } from '../../types';
+import { generateId } from '../../utils/assessmentUtils';
+import {
+  clampPoint,
+  ellipsePoints,
+  hasPixelCoordinates,
+  insertMidpoint,
+  normalizeHotspotZones,
+  rectanglePoints,
+  snapPoint,
+  translatePoints,
+} from '../../utils/hotspotGeometry';
+import { isLabelPlacement } from '../../utils/labelPlacement';
+
+interface HotspotZoneCanvasProps {
+  question: HotspotQuestion;
+  onChange: (question: HotspotQuestion) => void;
+  onRemoveZone: (zoneId: string) => void;
+}
+
+type ZoneTool = 'select' | 'polygon' | 'rectangle' | 'ellipse';
+
+const tools: { value: ZoneTool; label: string; description: string }[] = [
+  { value: 'select', label: 'Select', description: 'Select zones to move them or drag their points' },
+  { value: 'polygon', label: 'Polygon', description: 'Click each corner of the zone' },
+  { value: 'rectangle', label: 'Rectangle', description: 'Drag across the zone; Shift draws a square' },
+  { value: 'ellipse', label: 'Ellipse', description: 'Drag across the zone; Shift draws a circle' },
+];
+
+const instructions: Record<ZoneTool, string> = {
+  select: 'Click a zone to select it, then drag it or its points. Drag a midpoint to add a point; double-click a point or press Delete to remove it. Arrow keys nudge by a pixel (Shift for 10).',
+  polygon: 'Click on the image to add the points of a zone. Click the first point or press Enter to finish; Backspace removes the last point.',
+  rectangle: 'Drag across the image to draw a rectangle. Hold Shift for a square.',
+  ellipse: 'Drag across the image to draw an ellipse. Hold Shift for a circle.',
+};
+
+const ZOOM_LEVELS = [0.5, 0.75, 1, 1.5, 2, 3];
+
+// Screen pixels within which points snap to other points and the image edges
+const SNAP_DISTANCE = 8;
+
+// A zone being moved (no vertex) or reshaped; it is saved once the pointer is released so a drag is one undo step
+interface ZoneDrag {
+  zoneId: string;
+  vertex?: number;
+  origin: HotspotPoint;
+  original: HotspotPoint[];
+  points: HotspotPoint[];
+}
+
+// Positions markers over the image in fractions of its size
+const markerStyle = (point: HotspotPoint) => ({ left: `${point.x * 100}%`, top: `${point.y * 100}%` });
+
+const getZonePath = (coordinates: HotspotPoint[]) => {
+  if (coordinates.length < 2) return '';
+  return coordinates.map((point, index) =>
+    `${index === 0 ? 'M' : 'L'} ${point.x} ${point.y}`
+  ).join(' ') + ' Z';
+};
+
+const samePoints = (a: HotspotPoint[], b: HotspotPoint[]) =>
+  a.length === b.length && a.every((point, index) => point.x === b[index].x && point.y === b[index].y);
+
+export const HotspotZoneCanvas: React.FC<HotspotZoneCanvasProps> = ({
+  question,
+  onChange,
+  onRemoveZone,
+}) => {
+  const [tool, setTool] = useState<ZoneTool>('polygon');
+  const [currentZone, setCurrentZone] = useState<HotspotPoint[]>([]);
+  const [shape, setShape] = useState<{ start: HotspotPoint; end: HotspotPoint }>();
+  const [selectedZoneId, setSelectedZoneId] = useState<string>();
+  const [selectedVertex, setSelectedVertex] = useState<number>();
+  const [drag, setDrag] = useState<ZoneDrag>();
+  const [snapping, setSnapping] = useState(true);
+  const [zoom, setZoom] = useState(1);
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const selectedZone = question.zones.find(zone => zone.id === selectedZoneId);
+  const labels = isLabelPlacement(question) ? question.labels ?? [] : [];
+
+  // Zones drawn in pixels by earlier versions are converted once the image size is known
+  const handleImageLoad = (e: SyntheticEvent<HTMLImageElement>) => {
+    const { naturalWidth: width, naturalHeight: height } = e.currentTarget;
+    if (!width || !height) return;
+    if (question.imageSize?.width !== width || question.imageSize?.height !== height || hasPixelCoordinates(question.zones)) {
+      onChange(normalizeHotspotZones(question, { width, height }));
+    }
+  };
+
+  // The canvas has the image's aspect ratio, so its size stands for the image at any zoom
+  const getCanvasRect = () => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    return rect && rect.width && rect.height ? rect : undefined;
+  };
+
+  const getPoint = (e: PointerEvent, rect: DOMRect) =>
+    clampPoint({ x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height });
+
+  // Snaps to the points of the zone being drawn and of every zone except the one being reshaped
+  const snap = (point: HotspotPoint, rect: DOMRect, excludeZoneId?: string) => {
+    if (!snapping) return point;
+    const candidates = [
+      ...currentZone,
+      ...question.zones.filter(zone => zone.id !== excludeZoneId).reduce<HotspotPoint[]>(
+        (points, zone) => [...points, ...zone.coordinates], []
+      ),
+    ];
+    return snapPoint(point, candidates, { x: SNAP_DISTANCE / rect.width, y: SNAP_DISTANCE / rect.height });
+  };
+
+  // Shift makes the shape as wide as it is high on screen
+  const getShapeEnd = (start: HotspotPoint, end: HotspotPoint, square: boolean, rect: DOMRect) => {
+    if (!square) return end;
+    const side = Math.max(Math.abs(end.x - start.x) * rect.width, Math.abs(end.y - start.y) * rect.height);
+    return clampPoint({
+      x: start.x + Math.sign(end.x - start.x || 1) * side / rect.width,
+      y: start.y + Math.sign(end.y - start.y || 1) * side / rect.height,
+    });
+  };
+
+  const getShapePoints = (start: HotspotPoint, end: HotspotPoint) =>
+    tool === 'ellipse'
+      ? ellipsePoints(
+          { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 },
+          Math.abs(end.x - start.x) / 2,
+          Math.abs(end.y - start.y) / 2
+        ).map(clampPoint)
+      : rectanglePoints(start, end);
+
+  const addZone = (coordinates: HotspotPoint[]) => {
+    const newZone: HotspotZone = {
+      id: generateId(),
+      coordinates,
+      label: `Zone ${question.zones.length + 1}`,
+    };
+    onChange({ ...question, zones: [...question.zones, newZone] });
+  };
+
+  const updateZonePoints = (zoneId: string, coordinates: HotspotPoint[]) => {
+    onChange({ ...question, zones: question.zones.map(zone => (zone.id === zoneId ? { ...zone, coordinates } : zone)) });
+  };
+
+  const selectZone = (zoneId?: string, vertex?: number) => {
+    setSelectedZoneId(zoneId);
+    setSelectedVertex(vertex);
+  };
+
+  const changeTool = (value: ZoneTool) => {
+    setTool(value);
+    setCurrentZone([]);
+    setShape(undefined);
+    if (value !== 'select') selectZone();
+  };
+
+  const finishZone = () => {
+    if (currentZone.length >= 3) addZone(currentZone);
+    setCurrentZone([]);
+  };
+
+  const removeVertex = (zone: HotspotZone, vertex: number) => {
+    if (zone.coordinates.length <= 3) return;
+    updateZonePoints(zone.id, zone.coordinates.filter((_, index) => index !== vertex));
+    setSelectedVertex(undefined);
+  };
+
+  const removeSelectedZone = () => {
+    if (!selectedZoneId) return;
+    onRemoveZone(selectedZoneId);
+    selectZone();
+  };
+
+  const startDrag = (e: PointerEvent, zone: HotspotZone, vertex?: number, points = zone.coordinates) => {
+    const rect = getCanvasRect();
+    if (e.button !== 0 || !rect) return;
+    e.stopPropagation();
+    canvasRef.current?.focus({ preventScroll: true });
+    canvasRef.current?.setPointerCapture(e.pointerId);
+    selectZone(zone.id, vertex);
+    setDrag({ zoneId: zone.id, vertex, origin: getPoint(e, rect), original: zone.coordinates, points });
+  };
+
+  // Dragging a midpoint adds a point there and drags it
+  const startMidpointDrag = (e: PointerEvent, zone: HotspotZone, index: number) => {
+    startDrag(e, zone, index + 1, insertMidpoint(zone.coordinates, index));
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    const rect = getCanvasRect();
+    if (e.button !== 0 || !rect) return;
+    canvasRef.current?.focus({ preventScroll: true });
+
+    if (tool === 'select') {
+      selectZone();
+      return;
+    }
+
+    const point = snap(getPoint(e, rect), rect);
+    if (tool === 'polygon') {
+      const first = currentZone[0];
+      if (currentZone.length >= 3 && point.x === first.x && point.y === first.y) {
+        finishZone();
+      } else {
+        setCurrentZone([...currentZone, point]);
+      }
+    } else {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setShape({ start: point, end: point });
+    }
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    const rect = getCanvasRect();
+    if (!rect) return;
+
+    if (shape) {
+      setShape({ ...shape, end: getShapeEnd(shape.start, snap(getPoint(e, rect), rect), e.shiftKey, rect) });
+    } else if (drag) {
+      const point = getPoint(e, rect);
+      setDrag({
+        ...drag,
+        points: drag.vertex === undefined
+          ? translatePoints(drag.original, point.x - drag.origin.x, point.y - drag.origin.y)
+          : drag.points.map((current, index) => (index === drag.vertex ? snap(point, rect, drag.zoneId) : current)),
+      });
+    }
+  };
+
+  // Shapes smaller than the snap distance are taken as stray clicks
+  const handlePointerUp = () => {
+    const rect = getCanvasRect();
+    if (shape && rect) {
+      const width = Math.abs(shape.end.x - shape.start.x) * rect.width;
+      const height = Math.abs(shape.end.y - shape.start.y) * rect.height;
+      if (width >= SNAP_DISTANCE && height >= SNAP_DISTANCE) addZone(getShapePoints(shape.start, shape.end));
+    } else if (drag && !samePoints(drag.points, drag.original)) {
+      updateZonePoints(drag.zoneId, drag.points);
+    }
+    setShape(undefined);
+    setDrag(undefined);
+  };
+
+  // Arrow keys move the selected point, or the whole zone, by one pixel of the image
+  const nudge = (dx: number, dy: number, large: boolean) => {
+    if (!selectedZone) return;
+    const step = large ? 10 : 1;
+    const x = dx * step / (question.imageSize?.width ?? 1000);
+    const y = dy * step / (question.imageSize?.height ?? 1000);
+    updateZonePoints(
+      selectedZone.id,
+      selectedVertex === undefined
+        ? translatePoints(selectedZone.coordinates, x, y)
+        : selectedZone.coordinates.map((point, index) =>
+            index === selectedVertex ? clampPoint({ x: point.x + x, y: point.y + y }) : point
+          )
+    );
+  };
+
+  const arrows: Record<string, [number, number]> = {
+    ArrowLeft: [-1, 0],
+    ArrowRight: [1, 0],
+    ArrowUp: [0, -1],
+    ArrowDown: [0, 1],
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    const isUndo = (e.ctrlKey || e.metaKey) && !e.shiftKey && e.key.toLowerCase() === 'z';
+
+    if (currentZone.length > 0) {
+      // Undoes the last point here instead of the last change to the assessment
+      if (isUndo || e.key === 'Backspace' || e.key === 'Delete') {
+        setCurrentZone(currentZone.slice(0, -1));
+      } else if (e.key === 'Enter') {
+        finishZone();
+      } else if (e.key === 'Escape') {
+        setCurrentZone([]);
+      } else {
+        return;
+      }
+    } else if (selectedZone && !drag) {
+      if (arrows[e.key]) {
+        nudge(arrows[e.key][0], arrows[e.key][1], e.shiftKey);
+      } else if (e.key === 'Backspace' || e.key === 'Delete') {
+        if (selectedVertex === undefined) removeSelectedZone();
+        else removeVertex(selectedZone, selectedVertex);
+      } else if (e.key === 'Escape') {
+        selectZone();
+      } else {
+        return;
+      }
+    } else {
+      return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  const changeZoom = (step: number) => {
+    const index = ZOOM_LEVELS.indexOf(zoom) + step;
+    if (index >= 0 && index < ZOOM_LEVELS.length) setZoom(ZOOM_LEVELS[index]);
+  };
+
+  const getPoints = (zone: HotspotZone) => (drag?.zoneId === zone.id ? drag.points : zone.coordinates);
+  const selectedPoints = selectedZone ? getPoints(selectedZone) : [];
+
+  return (
+    <>
+      {/* Instructions */}
+      <div className="hotspot-instructions">
+        <p className="hotspot-instructions-text">
+          {tool === 'polygon' && currentZone.length > 0
+            ? `Click to add points to your zone (${currentZone.length} points). Click the first point or "Finish Zone" when done.`
+            : instructions[tool]
+          }
+        </p>
+      </div>
+
+      {/* Tools, Drawing and Zoom Controls */}
+      <div className="hotspot-controls">
+        <div className="toggle-group">
+          {tools.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => changeTool(option.value)}
+              className={`toggle-btn ${tool === option.value ? 'active' : ''}`}
+              title={option.description}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {currentZone.length > 0 && (
+          <>
+            <button
+              onClick={finishZone}
+              disabled={currentZone.length < 3}
+              className="btn btn-primary btn-sm"
+            >
+              Finish Zone ({currentZone.length} points)
+            </button>
+            <button
+              onClick={() => setCurrentZone(currentZone.slice(0, -1))}
+              className="btn btn-secondary btn-sm"
+            >
+              Undo Point
+            </button>
+            <button
+              onClick={() => setCurrentZone([])}
+              className="btn btn-secondary btn-sm"
+            >
+              Cancel
+            </button>
+          </>
+        )}
+        {tool === 'select' && selectedZone && (
+          <>
+            {selectedVertex !== undefined && (
+              <button
+                onClick={() => removeVertex(selectedZone, selectedVertex)}
+                disabled={selectedZone.coordinates.length <= 3}
+                className="btn btn-secondary btn-sm"
+              >
+                Delete Point
+              </button>
+            )}
+            <button onClick={removeSelectedZone} className="btn btn-danger btn-sm">
+              Delete Zone
+            </button>
+          </>
+        )}
+        <label className="hotspot-snap" title="Snap to nearby points and the edges of the image">
+          <input type="checkbox" checked={snapping} onChange={(e) => setSnapping(e.target.checked)} />
+          Snap
+        </label>
+        {question.imageUrl && (
+          <div className="hotspot-zoom">
+            <button
+              onClick={() => changeZoom(-1)}
+              disabled={zoom === ZOOM_LEVELS[0]}
+              className="btn btn-secondary btn-sm"
+              title="Zoom out"
+            >
+              −
+            </button>
+            <button onClick={() => setZoom(1)} className="btn btn-secondary btn-sm" title="Actual width">
+              {Math.round(zoom * 100)}%
+            </button>
+            <button
+              onClick={() => changeZoom(1)}
+              disabled={zoom === ZOOM_LEVELS[ZOOM_LEVELS.length - 1]}
+              className="btn btn-secondary btn-sm"
+              title="Zoom in"
+            >
+              +
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Image Canvas */}
+      <div className="hotspot-viewport">
+        <div
+          ref={canvasRef}
+          tabIndex={0}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onKeyDown={handleKeyDown}
+          className={`hotspot-canvas ${question.imageUrl ? '' : 'is-empty'} ${tool === 'select' ? 'is-selecting' : ''}`}
+          style={{ width: `${zoom * 100}%` }}
+          aria-label="Hotspot zones"
+        >
+          {question.imageUrl ? (
+            <img
+              src={question.imageUrl}
+              alt=""
+              onLoad={handleImageLoad}
+              className="hotspot-canvas-image"
+              draggable={false}
+            />
+          ) : (
+            <div className="hotspot-canvas-placeholder">
+              <div>
+                <svg width="64" height="64" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                </svg>
+                <p>Click to define hotspot zones</p>
+              </div>
+            </div>
+          )}
+
+          {/* SVG Overlay for Zones, stretched over the image */}
+          <svg className="hotspot-svg-overlay" viewBox="0 0 1 1" preserveAspectRatio="none">
+            {question.zones.map((zone) => (
+              <path
+                key={zone.id}
+                d={getZonePath(getPoints(zone))}
+                onPointerDown={tool === 'select' ? (e) => startDrag(e, zone) : undefined}
+                className={`hotspot-zone ${zone.id === selectedZoneId ? 'is-selected' : ''}`}
+              />
+            ))}
+            {currentZone.length > 1 && (
+              <path
+                d={getZonePath(currentZone)}
+                className="hotspot-zone-drawing"
+              />
+            )}
+            {shape && (
+              <path
+                d={getZonePath(getShapePoints(shape.start, shape.end))}
+                className="hotspot-zone-drawing"
+              />
+            )}
+          </svg>
+
+          {/* Zone Labels and Points */}
+          {question.zones.map((zone) => zone.coordinates[0] && (
+            <div key={zone.id} className="hotspot-zone-label" style={markerStyle(getPoints(zone)[0])}>
+              {zone.label}
+              {labels.length > 0 && (
+                <span className="hotspot-zone-answer">
+                  {labels.filter(label => label.zoneIds.includes(zone.id)).map(label => label.text).join(' / ')}
+                </span>
+              )}
+            </div>
+          ))}
+          {currentZone.map((point, index) => (
+            <span key={index} className="hotspot-point" style={markerStyle(point)} />
+          ))}
+
+          {/* Handles of the Selected Zone */}
+          {tool === 'select' && selectedZone && selectedPoints.map((point, index) => (
+            <React.Fragment key={index}>
+              <span
+                onPointerDown={(e) => startDrag(e, selectedZone, index)}
+                onDoubleClick={() => removeVertex(selectedZone, index)}
+                className={`hotspot-handle ${index === selectedVertex ? 'is-active' : ''}`}
+                style={markerStyle(point)}
+                title="Drag to move this point; double-click to remove it"
+              />
+              {!drag && (
+                <span
+                  onPointerDown={(e) => startMidpointDrag(e, selectedZone, index)}
+                  className="hotspot-handle is-midpoint"
+                  style={markerStyle(insertMidpoint(selectedPoints, index)[index + 1])}
+                  title="Drag to add a point"
+                />
+              )}
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+    </>
+  );
+};
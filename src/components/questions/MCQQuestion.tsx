@@ -1,6 +1,7 @@
 import React from 'react';
-import { MCQQuestion as MCQQuestionType } from '../../types';
+import { MCQQuestion as MCQQuestionType, MCQResponseMode, MCQScoringMethod } from '../../types';
 import { generateId } from '../../utils/assessmentUtils';
+import { SCORING_METHODS, getResponseMode, getScoringMethod } from '../../utils/scoring';
 
 interface MCQQuestionProps {
   question: MCQQuestionType;
@@ -48,6 +49,42 @@ export const MCQQuestion: React.FC<MCQQuestionProps> = ({
     onChange({ ...question, options: updatedOptions });
   };
 
+  const toggleCorrectOption = (optionId: string) => {
+    const updatedOptions = question.options.map(opt =>
+      opt.id === optionId ? { ...opt, isCorrect: !opt.isCorrect } : opt
+    );
+    // Stored explicitly so unticking down to one correct option keeps the checkboxes
+    onChange({ ...question, responseMode: 'multiple', options: updatedOptions });
+  };
+
+  // Switching to single response keeps only the first correct option
+  const setResponseMode = (mode: MCQResponseMode) => {
+    if (mode === 'multiple') {
+      onChange({ ...question, responseMode: mode });
+      return;
+    }
+    const firstCorrect = question.options.find(opt => opt.isCorrect);
+    onChange({
+      ...question,
+      responseMode: mode,
+      scoring: undefined,
+      minSelections: undefined,
+      maxSelections: undefined,
+      options: question.options.map(opt => ({ ...opt, isCorrect: opt === firstCorrect })),
+    });
+  };
+
+  const updateSelectionLimit = (field: 'minSelections' | 'maxSelections', value: string) => {
+    onChange({ ...question, [field]: value ? Math.max(1, Math.round(Number(value))) : undefined });
+  };
+
+  const responseMode = getResponseMode(question);
+  const scoring = getScoringMethod(question);
+  const responseModes: { value: MCQResponseMode; label: string; description: string }[] = [
+    { value: 'single', label: 'Single response', description: 'Students choose one option' },
+    { value: 'multiple', label: 'Multiple response', description: 'Students choose every option that applies' },
+  ];
+
   return (
     <div className="space-y-4">
       {/* Question Stem */}
@@ -64,6 +101,77 @@ export const MCQQuestion: React.FC<MCQQuestionProps> = ({
         />
       </div>
 
+      {/* Response Mode */}
+      <div className="form-group">
+        <label className="form-label">
+          Response Mode
+        </label>
+        <div className="toggle-group">
+          {responseModes.map((mode) => (
+            <button
+              key={mode.value}
+              onClick={() => setResponseMode(mode.value)}
+              className={`toggle-btn ${responseMode === mode.value ? 'active' : ''}`}
+              title={mode.description}
+            >
+              {mode.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {responseMode === 'multiple' && (
+        <div className="mcq-scoring">
+          <div className="form-group">
+            <label className="form-label">
+              Scoring
+            </label>
+            <select
+              value={scoring}
+              onChange={(e) => onChange({ ...question, scoring: e.target.value as MCQScoringMethod })}
+              className="form-select"
+            >
+              {SCORING_METHODS.map((method) => (
+                <option key={method.value} value={method.value}>
+                  {method.label}
+                </option>
+              ))}
+            </select>
+            <p className="mcq-scoring-description">
+              {SCORING_METHODS.find(method => method.value === scoring)?.description}
+            </p>
+          </div>
+          <div className="form-group">
+            <label className="form-label">
+              Min selections
+            </label>
+            <input
+              type="number"
+              min={1}
+              max={question.options.length}
+              value={question.minSelections ?? ''}
+              onChange={(e) => updateSelectionLimit('minSelections', e.target.value)}
+              className="form-input"
+              placeholder="1"
+            />
+          </div>
+          <div className="form-group">
+            <label className="form-label">
+              Max selections
+            </label>
+            <input
+              type="number"
+              min={1}
+              max={question.options.length}
+              value={question.maxSelections ?? ''}
+              onChange={(e) => updateSelectionLimit('maxSelections', e.target.value)}
+              className="form-input"
+              placeholder={String(question.options.length)}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Options */}
       <div className="form-group">
         <label className="form-label">
@@ -74,12 +182,20 @@ export const MCQQuestion: React.FC<MCQQuestionProps> = ({
             <div key={option.id} className="mcq-option">
               <div className="mcq-option-header">
                 <div className="mcq-option-radio">
-                  <input
-                    type="radio"
-                    name={`correct-${question.id}`}
-                    checked={option.isCorrect}
-                    onChange={() => setCorrectOption(option.id)}
-                  />
+                  {responseMode === 'multiple' ? (
+                    <input
+                      type="checkbox"
+                      checked={option.isCorrect}
+                      onChange={() => toggleCorrectOption(option.id)}
+                    />
+                  ) : (
+                    <input
+                      type="radio"
+                      name={`correct-${question.id}`}
+                      checked={option.isCorrect}
+                      onChange={() => setCorrectOption(option.id)}
+                    />
+                  )}
                   <span className="mcq-option-radio-label">Correct</span>
                 </div>
                 
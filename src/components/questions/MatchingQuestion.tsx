@@ -0,0 +1,267 @@
+import React from 'react';
+import { DndContext, closestCenter, DragEndEvent, KeyboardSensor, PointerSensor, useSensor, useSensors } from '@dnd-kit/core';
+import { arrayMove, SortableContext, sortableKeyboardCoordinates, verticalListSortingStrategy } from '@dnd-kit/sortable';
+import { SortableMatchingRow } from './SortableMatchingRow';
+import { MatchingMode, MatchingPremise, MatchingQuestion as MatchingQuestionType } from '../../types';
+import { generateId } from '../../utils/assessmentUtils';
+
+interface MatchingQuestionProps {
+  question: MatchingQuestionType;
+  onChange: (question: MatchingQuestionType) => void;
+  validationErrors?: string[];
+}
+
+const matchingModes: { value: MatchingMode; label: string; description: string }[] = [
+  { value: 'oneToOne', label: 'One to one', description: 'Each response matches at most one premise' },
+  { value: 'manyToOne', label: 'Many to one', description: 'Several premises can share a response' },
+];
+
+const responseLabel = (index: number) => String.fromCharCode(65 + index);
+
+export const MatchingQuestion: React.FC<MatchingQuestionProps> = ({
+  question,
+  onChange,
+  validationErrors = [],
+}) => {
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  const pairedIds = question.premises.map(premise => premise.responseId);
+  const distractorCount = question.responses.filter(response => !pairedIds.includes(response.id)).length;
+
+  const updatePremise = (premiseId: string, changes: Partial<MatchingPremise>) => {
+    onChange({
+      ...question,
+      premises: question.premises.map(premise => (premise.id === premiseId ? { ...premise, ...changes } : premise)),
+    });
+  };
+
+  // In one-to-one mode the response moves to the new premise, leaving the old one unpaired
+  const pair = (premiseId: string, responseId: string) => {
+    onChange({
+      ...question,
+      premises: question.premises.map(premise => {
+        if (premise.id === premiseId) return { ...premise, responseId };
+        return question.mode === 'oneToOne' && responseId && premise.responseId === responseId
+          ? { ...premise, responseId: '' }
+          : premise;
+      }),
+    });
+  };
+
+  // Switching to one-to-one keeps the first premise of every shared response
+  const setMode = (mode: MatchingMode) => {
+    const seen = new Set<string>();
+    const premises = mode === 'manyToOne'
+      ? question.premises
+      : question.premises.map(premise => {
+          if (!premise.responseId || !seen.has(premise.responseId)) {
+            seen.add(premise.responseId);
+            return premise;
+          }
+          return { ...premise, responseId: '' };
+        });
+    onChange({ ...question, mode, premises });
+  };
+
+  const addPremise = () => {
+    onChange({ ...question, premises: [...question.premises, { id: generateId(), text: '', responseId: '' }] });
+  };
+
+  const removePremise = (premiseId: string) => {
+    if (question.premises.length > 2) {
+      onChange({ ...question, premises: question.premises.filter(premise => premise.id !== premiseId) });
+    }
+  };
+
+  const addResponse = () => {
+    onChange({ ...question, responses: [...question.responses, { id: generateId(), text: '' }] });
+  };
+
+  const updateResponse = (responseId: string, text: string) => {
+    onChange({
+      ...question,
+      responses: question.responses.map(response => (response.id === responseId ? { ...response, text } : response)),
+    });
+  };
+
+  const removeResponse = (responseId: string) => {
+    if (question.responses.length > 2) {
+      onChange({
+        ...question,
+        premises: question.premises.map(premise =>
+          premise.responseId === responseId ? { ...premise, responseId: '' } : premise
+        ),
+        responses: question.responses.filter(response => response.id !== responseId),
+      });
+    }
+  };
+
+  // Dragging within a column reorders it; dropping a response on a premise pairs them
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    if (!over || active.id === over.id) return;
+
+    const from = active.data.current?.column;
+    const to = over.data.current?.column;
+    const activeId = String(active.id);
+    const overId = String(over.id);
+
+    if (from === 'response' && to === 'premise') {
+      pair(overId, activeId);
+    } else if (from === 'premise' && to === 'premise') {
+      const oldIndex = question.premises.findIndex(premise => premise.id === activeId);
+      const newIndex = question.premises.findIndex(premise => premise.id === overId);
+      onChange({ ...question, premises: arrayMove(question.premises, oldIndex, newIndex) });
+    } else if (from === 'response' && to === 'response') {
+      const oldIndex = question.responses.findIndex(response => response.id === activeId);
+      const newIndex = question.responses.findIndex(response => response.id === overId);
+      onChange({ ...question, responses: arrayMove(question.responses, oldIndex, newIndex) });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Question Stem */}
+      <div className="form-group">
+        <label className="form-label">
+          Question Stem
+        </label>
+        <textarea
+          value={question.stem}
+          onChange={(e) => onChange({ ...question, stem: e.target.value })}
+          className="form-textarea"
+          rows={3}
+          placeholder="Instructions, e.g. Match each country with its capital..."
+        />
+      </div>
+
+      {/* Mode */}
+      <div className="form-group">
+        <label className="form-label">
+          Matching
+        </label>
+        <div className="toggle-group">
+          {matchingModes.map((mode) => (
+            <button
+              key={mode.value}
+              onClick={() => setMode(mode.value)}
+              className={`toggle-btn ${question.mode === mode.value ? 'active' : ''}`}
+              title={mode.description}
+            >
+              {mode.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Premises and Responses */}
+      <div className="hotspot-instructions">
+        <p className="hotspot-instructions-text">
+          Drag within a column to reorder it, or drop a response on a premise to pair them. Responses that no premise
+          is paired with are distractors.
+        </p>
+      </div>
+      <DndContext
+        sensors={sensors}
+        collisionDetection={closestCenter}
+        onDragEnd={handleDragEnd}
+      >
+        <div className="matching-columns">
+          <div className="form-group">
+            <label className="form-label">
+              Premises
+            </label>
+            <div className="ordering-items-container">
+              <SortableContext items={question.premises.map(premise => premise.id)} strategy={verticalListSortingStrategy}>
+                {question.premises.map((premise, index) => (
+                  <SortableMatchingRow
+                    key={premise.id}
+                    id={premise.id}
+                    column="premise"
+                    label={String(index + 1)}
+                    text={premise.text}
+                    placeholder={`Premise ${index + 1}`}
+                    onUpdate={(text) => updatePremise(premise.id, { text })}
+                    onRemove={() => removePremise(premise.id)}
+                    canRemove={question.premises.length > 2}
+                  >
+                    <div className="matching-row-pairing">
+                      <span className="mcq-option-radio-label">Matches</span>
+                      <select
+                        value={premise.responseId}
+                        onChange={(e) => pair(premise.id, e.target.value)}
+                        className={`form-select matching-select ${premise.responseId ? '' : 'unpaired'}`}
+                      >
+                        <option value="">Not paired</option>
+                        {question.responses.map((response, responseIndex) => (
+                          <option key={response.id} value={response.id}>
+                            {responseLabel(responseIndex)}. {response.text || `Response ${responseLabel(responseIndex)}`}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    {question.purpose === 'formative' && (
+                      <input
+                        type="text"
+                        value={premise.feedback || ''}
+                        onChange={(e) => updatePremise(premise.id, { feedback: e.target.value })}
+                        className="mcq-option-feedback"
+                        placeholder="Feedback for this pair"
+                      />
+                    )}
+                  </SortableMatchingRow>
+                ))}
+              </SortableContext>
+            </div>
+            <button onClick={addPremise} className="ordering-add-item">
+              + Add Premise
+            </button>
+          </div>
+
+          <div className="form-group">
+            <label className="form-label">
+              Responses{distractorCount > 0 ? ` (${distractorCount} distractor${distractorCount !== 1 ? 's' : ''})` : ''}
+            </label>
+            <div className="ordering-items-container">
+              <SortableContext items={question.responses.map(response => response.id)} strategy={verticalListSortingStrategy}>
+                {question.responses.map((response, index) => (
+                  <SortableMatchingRow
+                    key={response.id}
+                    id={response.id}
+                    column="response"
+                    label={responseLabel(index)}
+                    text={response.text}
+                    placeholder={pairedIds.includes(response.id) ? `Response ${responseLabel(index)}` : 'Distractor'}
+                    onUpdate={(text) => updateResponse(response.id, text)}
+                    onRemove={() => removeResponse(response.id)}
+                    canRemove={question.responses.length > 2}
+                  />
+                ))}
+              </SortableContext>
+            </div>
+            <button onClick={addResponse} className="ordering-add-item">
+              + Add Response
+            </button>
+          </div>
+        </div>
+      </DndContext>
+
+      {/* Validation Errors */}
+      {validationErrors.length > 0 && (
+        <div className="validation-error">
+          <h4 className="validation-error-title">Validation Errors:</h4>
+          <ul className="validation-error-list space-y-1">
+            {validationErrors.map((error, index) => (
+              <li key={index} className="validation-error-item">{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
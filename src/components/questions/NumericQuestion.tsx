@@ -0,0 +1,257 @@
+import React, { useState } from 'react';
+import { NumericAnswerMode, NumericQuestion as NumericQuestionType, NumericToleranceType } from '../../types';
+import { describeNumericAnswer } from '../../utils/numeric';
+import { NumericResponseProblem, gradeNumericResponse } from '../../utils/scoring';
+
+interface NumericQuestionProps {
+  question: NumericQuestionType;
+  onChange: (question: NumericQuestionType) => void;
+  validationErrors?: string[];
+}
+
+const answerModes: { value: NumericAnswerMode; label: string; description: string }[] = [
+  { value: 'exact', label: 'Exact value', description: 'The value, optionally within a tolerance' },
+  { value: 'range', label: 'Range', description: 'Any value between a minimum and a maximum' },
+];
+
+const problemMessages: Record<NumericResponseProblem, string> = {
+  notANumber: 'Not read as a number',
+  unit: 'Unit not accepted',
+  significantFigures: 'Wrong number of significant figures',
+};
+
+// Empty inputs clear the field instead of storing 0
+const toNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+export const NumericQuestion: React.FC<NumericQuestionProps> = ({
+  question,
+  onChange,
+  validationErrors = [],
+}) => {
+  const [sampleResponse, setSampleResponse] = useState('');
+  const sampleGrade = sampleResponse.trim() ? gradeNumericResponse(question, sampleResponse) : undefined;
+
+  const updateUnit = (index: number, value: string) => {
+    onChange({ ...question, units: question.units.map((unit, i) => (i === index ? value : unit)) });
+  };
+
+  const removeUnit = (index: number) => {
+    const units = question.units.filter((_, i) => i !== index);
+    onChange({ ...question, units, unitRequired: units.length > 0 ? question.unitRequired : undefined });
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Question Stem */}
+      <div className="form-group">
+        <label className="form-label">
+          Question Stem
+        </label>
+        <textarea
+          value={question.stem}
+          onChange={(e) => onChange({ ...question, stem: e.target.value })}
+          className="form-textarea"
+          rows={3}
+          placeholder="Enter your question here..."
+        />
+      </div>
+
+      {/* Correct Answer */}
+      <div className="form-group">
+        <label className="form-label">
+          Correct Answer
+        </label>
+        <div className="toggle-group">
+          {answerModes.map((mode) => (
+            <button
+              key={mode.value}
+              onClick={() => onChange({ ...question, answerMode: mode.value })}
+              className={`toggle-btn ${question.answerMode === mode.value ? 'active' : ''}`}
+              title={mode.description}
+            >
+              {mode.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {question.answerMode === 'exact' ? (
+        <div className="numeric-fields">
+          <div className="form-group">
+            <label className="form-label">
+              Value
+            </label>
+            <input
+              type="number"
+              step="any"
+              value={question.value ?? ''}
+              onChange={(e) => onChange({ ...question, value: toNumber(e.target.value) })}
+              className="form-input"
+              placeholder="e.g. 9.81"
+            />
+          </div>
+          <div className="form-group">
+            <label className="form-label">
+              Tolerance (±)
+            </label>
+            <input
+              type="number"
+              step="any"
+              min={0}
+              value={question.tolerance ?? ''}
+              onChange={(e) => onChange({ ...question, tolerance: toNumber(e.target.value) })}
+              className="form-input"
+              placeholder="0"
+            />
+          </div>
+          <div className="form-group">
+            <label className="form-label">
+              Tolerance is
+            </label>
+            <select
+              value={question.toleranceType}
+              onChange={(e) => onChange({ ...question, toleranceType: e.target.value as NumericToleranceType })}
+              className="form-select"
+            >
+              <option value="absolute">Absolute</option>
+              <option value="relative">Percent of the value</option>
+            </select>
+          </div>
+        </div>
+      ) : (
+        <div className="numeric-fields">
+          <div className="form-group">
+            <label className="form-label">
+              Minimum
+            </label>
+            <input
+              type="number"
+              step="any"
+              value={question.min ?? ''}
+              onChange={(e) => onChange({ ...question, min: toNumber(e.target.value) })}
+              className="form-input"
+            />
+          </div>
+          <div className="form-group">
+            <label className="form-label">
+              Maximum
+            </label>
+            <input
+              type="number"
+              step="any"
+              value={question.max ?? ''}
+              onChange={(e) => onChange({ ...question, max: toNumber(e.target.value) })}
+              className="form-input"
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Units and Precision */}
+      <div className="form-group">
+        <label className="form-label">
+          Accepted Units
+        </label>
+        <div className="cloze-blank-answers">
+          {question.units.map((unit, index) => (
+            <div key={index} className="cloze-blank-row">
+              <input
+                type="text"
+                value={unit}
+                onChange={(e) => updateUnit(index, e.target.value)}
+                className="mcq-option-input"
+                placeholder={index === 0 ? 'Unit shown in answer keys, e.g. m/s' : 'Another way to write it, e.g. m s^-1'}
+              />
+              <button onClick={() => removeUnit(index)} className="mcq-option-remove">
+                Remove
+              </button>
+            </div>
+          ))}
+          <button onClick={() => onChange({ ...question, units: [...question.units, ''] })} className="mcq-add-option">
+            + Add Unit
+          </button>
+          {question.units.length > 0 && (
+            <label className="cloze-blank-option">
+              <input
+                type="checkbox"
+                checked={!!question.unitRequired}
+                onChange={(e) => onChange({ ...question, unitRequired: e.target.checked || undefined })}
+              />
+              Students must give the unit
+            </label>
+          )}
+        </div>
+      </div>
+
+      <div className="form-group">
+        <label className="form-label">
+          Significant Figures
+        </label>
+        <input
+          type="number"
+          min={1}
+          step={1}
+          value={question.significantFigures ?? ''}
+          onChange={(e) => onChange({ ...question, significantFigures: toNumber(e.target.value) })}
+          className="form-input numeric-figures-input"
+          placeholder="Any"
+        />
+      </div>
+
+      {question.purpose === 'formative' && (
+        <div className="form-group">
+          <label className="form-label">
+            Feedback
+          </label>
+          <div className="space-y-2">
+            <input
+              type="text"
+              value={question.correctFeedback || ''}
+              onChange={(e) => onChange({ ...question, correctFeedback: e.target.value })}
+              className="mcq-option-feedback"
+              placeholder="Feedback for a correct answer"
+            />
+            <input
+              type="text"
+              value={question.incorrectFeedback || ''}
+              onChange={(e) => onChange({ ...question, incorrectFeedback: e.target.value })}
+              className="mcq-option-feedback"
+              placeholder="Feedback for any other answer"
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Preview */}
+      <div className="ordering-preview">
+        <h4 className="ordering-preview-title">Accepted: {describeNumericAnswer(question)}</h4>
+        <div className="answer-check">
+          <input
+            type="text"
+            value={sampleResponse}
+            onChange={(e) => setSampleResponse(e.target.value)}
+            className="mcq-option-input"
+            placeholder="Try a student response, e.g. 9.8 m/s"
+          />
+          {sampleGrade && (
+            <span className={`answer-check-result ${sampleGrade.credit === 1 ? 'correct' : 'wrong'}`}>
+              {sampleGrade.credit === 1 ? 'Correct' : sampleGrade.problem ? problemMessages[sampleGrade.problem] : 'Incorrect'}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {/* Validation Errors */}
+      {validationErrors.length > 0 && (
+        <div className="validation-error">
+          <h4 className="validation-error-title">Validation Errors:</h4>
+          <ul className="validation-error-list space-y-1">
+            {validationErrors.map((error, index) => (
+              <li key={index} className="validation-error-item">{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { ShortAnswerAnswer, ShortAnswerQuestion as ShortAnswerQuestionType } from '../../types';
+import { generateId } from '../../utils/assessmentUtils';
+import { gradeShortAnswerResponse } from '../../utils/scoring';
+
+interface ShortAnswerQuestionProps {
+  question: ShortAnswerQuestionType;
+  onChange: (question: ShortAnswerQuestionType) => void;
+  validationErrors?: string[];
+}
+
+export const ShortAnswerQuestion: React.FC<ShortAnswerQuestionProps> = ({
+  question,
+  onChange,
+  validationErrors = [],
+}) => {
+  const [sampleResponse, setSampleResponse] = useState('');
+  const sampleGrade = sampleResponse.trim() ? gradeShortAnswerResponse(question, sampleResponse) : undefined;
+
+  const updateAnswer = (answerId: string, changes: Partial<ShortAnswerAnswer>) => {
+    onChange({
+      ...question,
+      answers: question.answers.map(answer => (answer.id === answerId ? { ...answer, ...changes } : answer)),
+    });
+  };
+
+  // Further answers start without credit, as they are usually near misses that deserve feedback
+  const addAnswer = () => {
+    const credit = question.answers.some(answer => answer.credit === 100) ? 0 : 100;
+    onChange({ ...question, answers: [...question.answers, { id: generateId(), text: '', credit }] });
+  };
+
+  const removeAnswer = (answerId: string) => {
+    if (question.answers.length > 1) {
+      onChange({ ...question, answers: question.answers.filter(answer => answer.id !== answerId) });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Question Stem */}
+      <div className="form-group">
+        <label className="form-label">
+          Question Stem
+        </label>
+        <textarea
+          value={question.stem}
+          onChange={(e) => onChange({ ...question, stem: e.target.value })}
+          className="form-textarea"
+          rows={3}
+          placeholder="Enter your question here..."
+        />
+      </div>
+
+      {/* Answers */}
+      <div className="form-group">
+        <label className="form-label">
+          Answers
+        </label>
+        <div className="cloze-blank-options">
+          <label className="cloze-blank-option">
+            <input
+              type="checkbox"
+              checked={!!question.caseSensitive}
+              onChange={(e) => onChange({ ...question, caseSensitive: e.target.checked || undefined })}
+            />
+            Case sensitive
+          </label>
+          <label className="cloze-blank-option">
+            <input
+              type="checkbox"
+              checked={!!question.ignoreWhitespace}
+              onChange={(e) => onChange({ ...question, ignoreWhitespace: e.target.checked || undefined })}
+            />
+            Ignore all spaces
+          </label>
+        </div>
+        <div className="mcq-options-container">
+          {question.answers.map((answer, index) => (
+            <div key={answer.id} className="mcq-option">
+              <div className="cloze-blank-row">
+                <input
+                  type="text"
+                  value={answer.text}
+                  onChange={(e) => updateAnswer(answer.id, { text: e.target.value })}
+                  className="mcq-option-input"
+                  placeholder={answer.isPattern ? 'Regular expression for the whole answer, e.g. colou?r' : `Answer ${index + 1}`}
+                />
+                <label className="cloze-blank-option">
+                  <input
+                    type="checkbox"
+                    checked={!!answer.isPattern}
+                    onChange={(e) => updateAnswer(answer.id, { isPattern: e.target.checked || undefined })}
+                  />
+                  Pattern
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={answer.credit}
+                  onChange={(e) => updateAnswer(answer.id, { credit: Number(e.target.value) || 0 })}
+                  className="mcq-option-input short-answer-credit"
+                  title="Credit in percent"
+                  aria-label={`Credit for answer ${index + 1} in percent`}
+                />
+                <span className="mcq-option-radio-label">%</span>
+                {question.answers.length > 1 && (
+                  <button onClick={() => removeAnswer(answer.id)} className="mcq-option-remove">
+                    Remove
+                  </button>
+                )}
+              </div>
+              {question.purpose === 'formative' && (
+                <input
+                  type="text"
+                  value={answer.feedback || ''}
+                  onChange={(e) => updateAnswer(answer.id, { feedback: e.target.value })}
+                  className="mcq-option-feedback short-answer-feedback"
+                  placeholder="Feedback when this answer matches"
+                />
+              )}
+            </div>
+          ))}
+        </div>
+        <button onClick={addAnswer} className="mcq-add-option">
+          + Add Answer
+        </button>
+      </div>
+
+      {question.purpose === 'formative' && (
+        <div className="form-group">
+          <label className="form-label">
+            Feedback for Other Answers
+          </label>
+          <input
+            type="text"
+            value={question.incorrectFeedback || ''}
+            onChange={(e) => onChange({ ...question, incorrectFeedback: e.target.value })}
+            className="mcq-option-feedback"
+            placeholder="Shown when no answer matches (optional)"
+          />
+        </div>
+      )}
+
+      {/* Preview */}
+      <div className="ordering-preview">
+        <h4 className="ordering-preview-title">Check a Response</h4>
+        <div className="answer-check">
+          <input
+            type="text"
+            value={sampleResponse}
+            onChange={(e) => setSampleResponse(e.target.value)}
+            className="mcq-option-input"
+            placeholder="Try a student response"
+          />
+          {sampleGrade && (
+            <span className={`answer-check-result ${sampleGrade.credit === 1 ? 'correct' : sampleGrade.credit > 0 ? 'partial' : 'wrong'}`}>
+              {Math.round(sampleGrade.credit * 100)}%{sampleGrade.feedback ? `: ${sampleGrade.feedback}` : ''}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {/* Validation Errors */}
+      {validationErrors.length > 0 && (
+        <div className="validation-error">
+          <h4 className="validation-error-title">Validation Errors:</h4>
+          <ul className="validation-error-list space-y-1">
+            {validationErrors.map((error, index) => (
+              <li key={index} className="validation-error-item">{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
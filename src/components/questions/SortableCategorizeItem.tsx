@@ -0,0 +1,42 @@
+import React from 'react';
+import { useSortable } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+
+interface SortableCategorizeItemProps {
+  id: string;
+  categoryId: string;
+  text: string;
+}
+
+export const SortableCategorizeItem: React.FC<SortableCategorizeItemProps> = ({
+  id,
+  categoryId,
+  text,
+}) => {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id, data: { categoryId } });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.5 : 1,
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      {...attributes}
+      {...listeners}
+      className="categorize-chip"
+    >
+      {text}
+    </div>
+  );
+};
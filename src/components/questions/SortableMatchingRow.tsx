@@ -0,0 +1,92 @@
+import React from 'react';
+import { useSortable } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+
+export type MatchingColumn = 'premise' | 'response';
+
+interface SortableMatchingRowProps {
+  id: string;
+  column: MatchingColumn;
+  label: string;
+  text: string;
+  placeholder: string;
+  onUpdate: (text: string) => void;
+  onRemove: () => void;
+  canRemove: boolean;
+  children?: React.ReactNode;
+}
+
+export const SortableMatchingRow: React.FC<SortableMatchingRowProps> = ({
+  id,
+  column,
+  label,
+  text,
+  placeholder,
+  onUpdate,
+  onRemove,
+  canRemove,
+  children,
+}) => {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+    isOver,
+    active,
+  } = useSortable({ id, data: { column } });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.5 : 1,
+  };
+
+  // A response dragged over a premise pairs them on drop
+  const isPairTarget = isOver && column === 'premise' && active?.data.current?.column === 'response';
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      className={`ordering-item matching-row ${isPairTarget ? 'pair-target' : ''}`}
+    >
+      <div className="matching-row-main">
+        {/* Drag Handle */}
+        <div
+          {...attributes}
+          {...listeners}
+          className="ordering-drag-handle"
+        >
+          <svg width="20" height="20" fill="currentColor" viewBox="0 0 20 20">
+            <path d="M10 6a2 2 0 110-4 2 2 0 010 4zM10 12a2 2 0 110-4 2 2 0 010 4zM10 18a2 2 0 110-4 2 2 0 010 4z" />
+          </svg>
+        </div>
+
+        <div className={`ordering-item-number ${column === 'response' ? 'matching-response-label' : ''}`}>
+          {label}
+        </div>
+
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => onUpdate(e.target.value)}
+          className="ordering-item-input"
+          placeholder={placeholder}
+        />
+
+        {canRemove && (
+          <button
+            onClick={onRemove}
+            className="ordering-item-remove"
+          >
+            Remove
+          </button>
+        )}
+      </div>
+      {children}
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AssessmentState } from '../types';
+import {
+  DRAFT_STORAGE_KEY,
+  SAVED_STORAGE_KEY,
+  PersistedSnapshot,
+  isSameState,
+  removeSnapshot,
+  writeSnapshot,
+} from '../utils/storage';
+
+interface AssessmentPersistenceOptions {
+  initialLastSavedAt?: number;
+  pendingDraft?: PersistedSnapshot;
+  initialStorageError?: string;
+  onRestore: (state: AssessmentState) => void;
+  autosaveDelay?: number;
+}
+
+export const useAssessmentPersistence = (
+  state: AssessmentState,
+  {
+    initialLastSavedAt,
+    pendingDraft: initialPendingDraft,
+    initialStorageError,
+    onRestore,
+    autosaveDelay = 1000,
+  }: AssessmentPersistenceOptions
+) => {
+  const [pendingDraft, setPendingDraft] = useState<PersistedSnapshot | undefined>(initialPendingDraft);
+  const [lastSavedAt, setLastSavedAt] = useState<number | undefined>(initialLastSavedAt);
+  const [lastAutosavedAt, setLastAutosavedAt] = useState<number | undefined>();
+  // Shown in the header until the next write succeeds
+  const [storageError, setStorageError] = useState<string | undefined>(initialStorageError);
+  const lastWrittenState = useRef<AssessmentState>(state);
+
+  // Debounced autosave. Held back while a recoverable draft is waiting,
+  // otherwise the first autosave would overwrite it before the author decides.
+  useEffect(() => {
+    if (pendingDraft || isSameState(state, lastWrittenState.current)) return;
+
+    const timeout = setTimeout(() => {
+      const savedAt = Date.now();
+      if (writeSnapshot(DRAFT_STORAGE_KEY, state, savedAt)) {
+        lastWrittenState.current = state;
+        setLastAutosavedAt(savedAt);
+        setStorageError(undefined);
+      } else {
+        setStorageError('Could not autosave the draft: browser storage is full or unavailable');
+      }
+    }, autosaveDelay);
+
+    return () => clearTimeout(timeout);
+  }, [state, pendingDraft, autosaveDelay]);
+
+  const saveSnapshot = useCallback(() => {
+    const savedAt = Date.now();
+    if (writeSnapshot(SAVED_STORAGE_KEY, state, savedAt)) {
+      writeSnapshot(DRAFT_STORAGE_KEY, state, savedAt);
+      lastWrittenState.current = state;
+      setLastSavedAt(savedAt);
+      setPendingDraft(undefined);
+      setStorageError(undefined);
+    } else {
+      setStorageError('Could not save to browser storage: it is full or unavailable');
+    }
+  }, [state]);
+
+  const recoverDraft = useCallback(() => {
+    if (!pendingDraft) return;
+    lastWrittenState.current = pendingDraft.state;
+    setPendingDraft(undefined);
+    onRestore(pendingDraft.state);
+  }, [pendingDraft, onRestore]);
+
+  const discardDraft = useCallback(() => {
+    removeSnapshot(DRAFT_STORAGE_KEY);
+    setPendingDraft(undefined);
+  }, []);
+
+  return {
+    pendingDraft,
+    lastSavedAt,
+    lastAutosavedAt,
+    storageError,
+    saveSnapshot,
+    recoverDraft,
+    discardDraft,
+  };
+};
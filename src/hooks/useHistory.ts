@@ -0,0 +1,63 @@
+import { useCallback, useReducer } from 'react';
+import {
+  DEFAULT_COALESCE_WINDOW,
+  DEFAULT_HISTORY_LIMIT,
+  HistoryAction,
+  HistoryChangeOptions,
+  HistoryState,
+  createHistoryState,
+  historyReducer,
+} from '../utils/history';
+
+type Updater<T> = T | ((prev: T) => T);
+
+const resolve = <T>(updater: Updater<T>, prev: T): T =>
+  typeof updater === 'function' ? (updater as (prev: T) => T)(prev) : updater;
+
+interface HistoryOptions {
+  limit?: number;
+  coalesceWindow?: number;
+}
+
+export const useHistory = <T>(
+  initialState: T,
+  { limit = DEFAULT_HISTORY_LIMIT, coalesceWindow = DEFAULT_COALESCE_WINDOW }: HistoryOptions = {}
+) => {
+  const [history, dispatch] = useReducer(
+    (state: HistoryState<T>, action: HistoryAction<T> | { type: 'update'; updater: (prev: T) => HistoryAction<T> }) =>
+      action.type === 'update'
+        ? historyReducer(state, action.updater(state.present), limit, coalesceWindow)
+        : historyReducer(state, action, limit, coalesceWindow),
+    initialState,
+    createHistoryState
+  );
+
+  // Records a new undo step (or extends the current one when coalescing)
+  const set = useCallback((updater: Updater<T>, options: HistoryChangeOptions = {}) => {
+    const timestamp = Date.now();
+    dispatch({
+      type: 'update',
+      updater: prev => ({ type: 'set', state: resolve(updater, prev), coalesceKey: options.coalesceKey, timestamp }),
+    });
+  }, []);
+
+  // Changes the present state without creating an undo step (e.g. selection changes)
+  const replace = useCallback((updater: Updater<T>) => {
+    dispatch({ type: 'update', updater: prev => ({ type: 'replace', state: resolve(updater, prev) }) });
+  }, []);
+
+  const reset = useCallback((state: T) => dispatch({ type: 'reset', state }), []);
+  const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+  const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+
+  return {
+    state: history.present,
+    set,
+    replace,
+    reset,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Question, QuestionSaveRecord, QuestionSaveStatus } from '../types';
+import { ApiError, ApiValidationError, QuestionApi, QuestionRequestBody, toQuestionRequestBody } from '../api';
+import { readSaveRecords, writeSaveRecords } from '../utils/storage';
+
+export const useQuestionSave = (api: QuestionApi, createdBy: string) => {
+  const [records, setRecords] = useState<Record<string, QuestionSaveRecord>>(readSaveRecords);
+  const [savingIds, setSavingIds] = useState<string[]>([]);
+  const [errors, setErrors] = useState<Record<string, string[]>>({});
+  const [storageError, setStorageError] = useState<string>();
+
+  useEffect(() => {
+    setStorageError(writeSaveRecords(records)
+      ? undefined
+      : 'Could not record the saved questions: browser storage is full or unavailable');
+  }, [records]);
+
+  const saveQuestion = useCallback(async (question: Question): Promise<boolean> => {
+    const body = toQuestionRequestBody(question, createdBy);
+    const record = records[question.id];
+
+    const send = async (): Promise<{ _id: string }> => {
+      if (!record) return api.createQuestion(body);
+      try {
+        return await api.updateQuestion(record.serverId, body);
+      } catch (error) {
+        // The server no longer knows this question (e.g. the mock store was reset), so create it again
+        if (error instanceof ApiError && error.status === 404) {
+          return api.createQuestion(body);
+        }
+        throw error;
+      }
+    };
+
+    setSavingIds(prev => [...prev, question.id]);
+    try {
+      const response = await send();
+      setRecords(prev => ({
+        ...prev,
+        [question.id]: { serverId: response._id, savedAt: Date.now(), savedBody: JSON.stringify(body) },
+      }));
+      setErrors(({ [question.id]: _, ...rest }) => rest);
+      return true;
+    } catch (error) {
+      const messages = error instanceof ApiValidationError
+        ? error.messages
+        : [`Could not save question: ${error instanceof Error ? error.message : String(error)}`];
+      setErrors(prev => ({ ...prev, [question.id]: messages }));
+      return false;
+    } finally {
+      setSavingIds(prev => prev.filter(id => id !== question.id));
+    }
+  }, [api, createdBy, records]);
+
+  const getSaveStatus = useCallback((question: Question): QuestionSaveStatus => {
+    if (savingIds.includes(question.id)) return 'saving';
+    if (errors[question.id]) return 'error';
+
+    const record = records[question.id];
+    if (!record) return 'new';
+
+    const body: QuestionRequestBody = toQuestionRequestBody(question, createdBy);
+    return JSON.stringify(body) === record.savedBody ? 'saved' : 'dirty';
+  }, [createdBy, errors, records, savingIds]);
+
+  return {
+    saveQuestion,
+    getSaveStatus,
+    saveErrors: errors,
+    storageError,
+  };
+};
@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Question, QuestionVersion } from '../types';
+import { readVersionHistory, writeVersionHistory } from '../utils/storage';
+import { createQuestionVersion } from '../utils/versionUtils';
+
+export const useVersionHistory = () => {
+  const [histories, setHistories] = useState<Record<string, QuestionVersion[]>>(readVersionHistory);
+
+  const [storageError, setStorageError] = useState<string>();
+
+  useEffect(() => {
+    setStorageError(writeVersionHistory(histories)
+      ? undefined
+      : 'Could not store the version history: browser storage is full or unavailable');
+  }, [histories]);
+
+  const recordVersion = useCallback((question: Question, changeNote: string, changedBy?: string) => {
+    setHistories(prev => {
+      const history = prev[question.id] ?? [];
+      return {
+        ...prev,
+        [question.id]: [...history, createQuestionVersion(question, history, changeNote, changedBy)],
+      };
+    });
+  }, []);
+
+  return {
+    histories,
+    recordVersion,
+    storageError,
+  };
+};
@@ -1,4 +1,13 @@
-export type QuestionType = 'mcq' | 'ordering' | 'hotspot';
+export type QuestionType =
+  | 'mcq'
+  | 'ordering'
+  | 'hotspot'
+  | 'cloze'
+  | 'matching'
+  | 'numeric'
+  | 'short-answer'
+  | 'categorize'
+  | 'essay';
 
 export type Purpose = 'formative' | 'summative';
 
@@ -17,9 +26,20 @@ export interface OrderingItem {
   order: number;
 }
 
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+// Fractions of the image's natural width and height, so zones keep their place at any display size
+export interface HotspotPoint {
+  x: number;
+  y: number;
+}
+
 export interface HotspotZone {
   id: string;
-  coordinates: { x: number; y: number }[];
+  coordinates: HotspotPoint[];
   label?: string;
 }
 
@@ -29,15 +49,27 @@ export interface BaseQuestion {
   purpose: Purpose;
   stem: string;
   topic?: string;
+  tags?: string[];
   
   // Summative specific fields
   learningObjective?: string;
   bloomsLevel?: BloomsLevel;
 }
 
+export type MCQResponseMode = 'single' | 'multiple';
+
+export type MCQScoringMethod = 'allOrNothing' | 'partialCredit' | 'rightMinusWrong';
+
 export interface MCQQuestion extends BaseQuestion {
   type: 'mcq';
   options: MCQOption[];
+  // Missing on older and imported questions; see getResponseMode
+  responseMode?: MCQResponseMode;
+
+  // Multiple response specific fields
+  scoring?: MCQScoringMethod;
+  minSelections?: number;
+  maxSelections?: number;
 }
 
 export interface OrderingQuestion extends BaseQuestion {
@@ -45,16 +77,236 @@ export interface OrderingQuestion extends BaseQuestion {
   items: OrderingItem[];
 }
 
+export type HotspotInteraction = 'click' | 'labels';
+
+// A draggable label for label placement; labels without zones are distractors
+export interface HotspotLabel {
+  id: string;
+  text: string;
+  imageUrl?: string;
+  zoneIds: string[];
+  feedback?: string;
+}
+
 export interface HotspotQuestion extends BaseQuestion {
   type: 'hotspot';
   zones: HotspotZone[];
   imageUrl?: string;
   imageFile?: File;
+  // Natural size of the image, recorded when it loads in the editor
+  imageSize?: ImageSize;
+  // Missing on older questions, which are clicked; with 'labels' the zones are drop targets
+  interaction?: HotspotInteraction;
+  labels?: HotspotLabel[];
+}
+
+export type ClozeBlankMode = 'text' | 'dropdown';
+
+export interface ClozeChoice {
+  id: string;
+  text: string;
+  isCorrect: boolean;
+}
+
+export interface ClozeBlank {
+  id: string;
+  mode: ClozeBlankMode;
+
+  // Text entry specific fields; the other mode's fields are kept so switching back loses nothing
+  acceptedAnswers: string[];
+  caseSensitive?: boolean;
+  // Ignores all whitespace instead of only leading, trailing and repeated spaces
+  ignoreWhitespace?: boolean;
+  // Regular expression the whole response may match instead of an accepted answer
+  pattern?: string;
+
+  // Dropdown specific fields
+  choices: ClozeChoice[];
+
+  feedback?: string;
+}
+
+export interface ClozeQuestion extends BaseQuestion {
+  type: 'cloze';
+  // Text with a {{blankId}} marker where each blank goes; see utils/cloze.ts
+  passage: string;
+  blanks: ClozeBlank[];
+}
+
+// One-to-one uses every response at most once; many-to-one lets premises share a response
+export type MatchingMode = 'oneToOne' | 'manyToOne';
+
+export interface MatchingPremise {
+  id: string;
+  text: string;
+  // The response this premise is paired with; empty until the author picks one
+  responseId: string;
+  feedback?: string; // For the pair, required for formative
+}
+
+export interface MatchingResponse {
+  id: string;
+  text: string;
+}
+
+export interface MatchingQuestion extends BaseQuestion {
+  type: 'matching';
+  mode: MatchingMode;
+  premises: MatchingPremise[];
+  // Responses no premise is paired with are distractors
+  responses: MatchingResponse[];
+}
+
+// Exact answers are the value within the tolerance; range answers lie between min and max inclusive
+export type NumericAnswerMode = 'exact' | 'range';
+
+// Relative tolerance is a percentage of the value
+export type NumericToleranceType = 'absolute' | 'relative';
+
+export interface NumericQuestion extends BaseQuestion {
+  type: 'numeric';
+  answerMode: NumericAnswerMode;
+
+  // Exact answer specific fields
+  value?: number;
+  tolerance?: number;
+  toleranceType: NumericToleranceType;
+
+  // Range answer specific fields
+  min?: number;
+  max?: number;
+
+  // Accepted units after the number, e.g. ["m/s", "m s^-1"]; the first is shown in answer keys
+  units: string[];
+  unitRequired?: boolean;
+  // Responses must be given to exactly this many significant figures
+  significantFigures?: number;
+
+  correctFeedback?: string;
+  incorrectFeedback?: string;
+}
+
+export interface ShortAnswerAnswer {
+  id: string;
+  // The accepted answer, or a regular expression for the whole response when isPattern is set
+  text: string;
+  isPattern?: boolean;
+  // Percentage of the points; answers worth 0 can still carry feedback for a common mistake
+  credit: number;
+  feedback?: string; // Required for formative
+}
+
+export interface ShortAnswerQuestion extends BaseQuestion {
+  type: 'short-answer';
+  answers: ShortAnswerAnswer[];
+  caseSensitive?: boolean;
+  // Ignores all whitespace instead of only leading, trailing and repeated spaces
+  ignoreWhitespace?: boolean;
+  // Shown when no answer matches
+  incorrectFeedback?: string;
+}
+
+export interface CategorizeCategory {
+  id: string;
+  text: string;
 }
 
-export type Question = MCQQuestion | OrderingQuestion | HotspotQuestion;
+export interface CategorizeItem {
+  id: string;
+  text: string;
+  // The category the item belongs in; empty for distractors, which belong nowhere
+  categoryId: string;
+  feedback?: string; // Required for formative
+}
+
+export interface CategorizeQuestion extends BaseQuestion {
+  type: 'categorize';
+  categories: CategorizeCategory[];
+  items: CategorizeItem[];
+}
+
+// A column of an analytic rubric, e.g. "Proficient" worth 3 points; every criterion uses the same levels
+export interface RubricLevel {
+  id: string;
+  label: string;
+  points: number;
+}
+
+export interface RubricCriterion {
+  id: string;
+  title: string;
+  // What a response at each level looks like, in the order of the rubric's levels
+  descriptors: string[];
+}
+
+export interface Rubric {
+  levels: RubricLevel[];
+  criteria: RubricCriterion[];
+}
+
+export interface EssayQuestion extends BaseQuestion {
+  type: 'essay';
+  minWords?: number;
+  maxWords?: number;
+  maxCharacters?: number;
+  // Guides graders; students see it after submitting when feedback is shown
+  modelAnswer?: string;
+  // Required for summative essays
+  rubric?: Rubric;
+}
+
+export type Question =
+  | MCQQuestion
+  | OrderingQuestion
+  | HotspotQuestion
+  | ClozeQuestion
+  | MatchingQuestion
+  | NumericQuestion
+  | ShortAnswerQuestion
+  | CategorizeQuestion
+  | EssayQuestion;
+
+export interface QuestionRef {
+  questionId: string;
+  points: number;
+}
+
+export interface AssessmentSection {
+  id: string;
+  title: string;
+  // Ordered; every question belongs to exactly one section
+  questionRefs: QuestionRef[];
+}
+
+export interface Assessment {
+  title: string;
+  description: string;
+  instructions: string;
+  timeLimitMinutes?: number;
+  sections: AssessmentSection[];
+}
 
 export interface AssessmentState {
+  assessment: Assessment;
+  // Kept in the same order as the questions appear across sections
   questions: Question[];
   currentQuestionId?: string;
 }
+
+export type QuestionSaveStatus = 'new' | 'saved' | 'dirty' | 'saving' | 'error';
+
+export interface QuestionSaveRecord {
+  serverId: string;
+  savedAt: number;
+  // Request body sent on the last successful save, used to detect unsaved changes
+  savedBody: string;
+}
+
+// Snapshot taken on every explicit save; mirrors the changeLog described in the README
+export interface QuestionVersion {
+  version: number;
+  savedAt: number;
+  changedBy?: string;
+  changeNote: string;
+  snapshot: Question;
+}
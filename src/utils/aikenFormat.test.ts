@@ -0,0 +1,29 @@
+import { parseAiken, serializeAiken } from './aikenFormat';
+
+test('parses Aiken questions and reports problems by line', () => {
+  const result = parseAiken(`What is 2 + 2?
+A. 3
+B) 4
+ANSWER: B
+
+Broken question
+A. One
+C. Two
+ANSWER: D`);
+
+  expect(result.items[0].question).toMatchObject({
+    stem: 'What is 2 + 2?',
+    options: [{ text: '3', isCorrect: false }, { text: '4', isCorrect: true }],
+  });
+  expect(result.items[1].issues).toEqual([
+    'Line 8: expected option B but found C',
+    'Line 6: ANSWER D does not match any option',
+  ]);
+});
+
+test('serializes single-answer multiple choice and skips the rest', () => {
+  const questions = parseAiken('Pick one\nA. Yes\nB. No\nANSWER: A').items.map(item => item.question!);
+  const { text, skipped } = serializeAiken(questions);
+  expect(text).toBe('Pick one\nA. Yes\nB. No\nANSWER: A\n');
+  expect(skipped).toEqual([]);
+});
@@ -0,0 +1,121 @@
+import { MCQQuestion, Question } from '../types';
+import { generateId } from './assessmentUtils';
+import { ImportResult, ImportedItem, TextExportResult, createImportedItem } from './importUtils';
+
+const OPTION_LINE = /^([A-Z])[.)]\s+(.*)$/;
+const ANSWER_LINE = /^ANSWER:\s*([A-Z])?\s*$/i;
+const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+interface AikenDraft {
+  line: number;
+  stem: string[];
+  options: { letter: string; text: string }[];
+  problems: string[];
+}
+
+const finishQuestion = (draft: AikenDraft, answer: string | undefined): ImportedItem => {
+  const source = `Line ${draft.line}`;
+  // Problems found while reading lines already carry their own line number
+  const problems = [...draft.problems];
+  if (draft.options.length < 2) problems.push(`${source}: A question needs at least two options (A. ... B. ...)`);
+  if (!answer) problems.push(`${source}: Missing ANSWER line`);
+  else if (!draft.options.some(option => option.letter === answer)) {
+    problems.push(`${source}: ANSWER ${answer} does not match any option`);
+  }
+
+  if (problems.length > 0) {
+    return createImportedItem(source, undefined, problems);
+  }
+
+  const question: MCQQuestion = {
+    id: generateId(),
+    type: 'mcq',
+    purpose: 'formative',
+    stem: draft.stem.join('\n'),
+    options: draft.options.map(option => ({
+      id: generateId(),
+      text: option.text,
+      isCorrect: option.letter === answer,
+    })),
+  };
+  return createImportedItem(source, question);
+};
+
+export const parseAiken = (source: string, name = 'Pasted Aiken'): ImportResult => {
+  const result: ImportResult = { format: 'Aiken', name, items: [], errors: [] };
+  let draft: AikenDraft | undefined;
+
+  source.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    const lineNumber = index + 1;
+    if (!line) return;
+
+    const answerMatch = ANSWER_LINE.exec(line);
+    if (answerMatch) {
+      if (draft) {
+        result.items.push(finishQuestion(draft, answerMatch[1]?.toUpperCase()));
+      } else {
+        result.errors.push(`Line ${lineNumber}: ANSWER line without a question`);
+      }
+      draft = undefined;
+      return;
+    }
+
+    const optionMatch = OPTION_LINE.exec(line);
+    if (optionMatch && draft && draft.stem.length > 0) {
+      const expected = LETTERS[draft.options.length];
+      if (optionMatch[1] !== expected) {
+        draft.problems.push(`Line ${lineNumber}: expected option ${expected} but found ${optionMatch[1]}`);
+      }
+      draft.options.push({ letter: optionMatch[1], text: optionMatch[2].trim() });
+      return;
+    }
+
+    if (!draft) {
+      draft = { line: lineNumber, stem: [line], options: [], problems: [] };
+    } else if (draft.options.length === 0) {
+      draft.stem.push(line);
+    } else {
+      // Aiken options are single lines, so stray text ends up on the previous option
+      draft.problems.push(`Line ${lineNumber}: text after the options must be an option or the ANSWER line`);
+    }
+  });
+
+  if (draft) {
+    result.items.push(finishQuestion(draft, undefined));
+  }
+  if (result.items.length === 0 && result.errors.length === 0) {
+    result.errors.push('No questions found');
+  }
+  return result;
+};
+
+const singleLine = (text: string) => text.replace(/\s*\n\s*/g, ' ').trim();
+
+// Aiken only covers single-answer multiple choice without feedback
+export const serializeAiken = (questions: Question[]): TextExportResult => {
+  const blocks: string[] = [];
+  const skipped: TextExportResult['skipped'] = [];
+
+  questions.forEach(question => {
+    if (question.type !== 'mcq') {
+      skipped.push({ question, reason: 'Aiken only supports multiple choice questions' });
+      return;
+    }
+    const correct = question.options.filter(option => option.isCorrect);
+    if (correct.length !== 1) {
+      skipped.push({ question, reason: 'Aiken questions need exactly one correct option' });
+      return;
+    }
+    if (question.options.length > LETTERS.length) {
+      skipped.push({ question, reason: `Aiken supports at most ${LETTERS.length} options` });
+      return;
+    }
+
+    const options = question.options.map((option, index) => `${LETTERS[index]}. ${singleLine(option.text)}`);
+    const answer = LETTERS[question.options.indexOf(correct[0])];
+    blocks.push([question.stem.trim(), ...options, `ANSWER: ${answer}`].join('\n'));
+  });
+
+  return { text: blocks.length > 0 ? `${blocks.join('\n\n')}\n` : '', skipped };
+};
@@ -0,0 +1,62 @@
+import { createEmptyQuestion } from './assessmentUtils';
+import {
+  addSection,
+  createEmptyAssessment,
+  getOrderedQuestionIds,
+  getTotalPoints,
+  moveQuestion,
+  moveQuestionRef,
+  moveQuestionToSection,
+  orderQuestionsBySections,
+  removeSection,
+  setQuestionPoints,
+  syncAssessmentQuestions,
+} from './assessmentStructure';
+
+const [a, b, c] = [createEmptyQuestion('mcq'), createEmptyQuestion('ordering'), createEmptyQuestion('hotspot')];
+
+test('places new questions after their predecessor and drops deleted ones', () => {
+  const withSections = addSection(createEmptyAssessment([a.id, b.id]));
+  const moved = moveQuestionToSection(withSections, b.id, withSections.sections[1].id);
+
+  // c is inserted right after a, in the first section; b stays in the second one
+  const synced = syncAssessmentQuestions(moved, [a, c, b]);
+  expect(synced.sections.map(section => section.questionRefs.map(ref => ref.questionId))).toEqual([
+    [a.id, c.id],
+    [b.id],
+  ]);
+
+  const afterDelete = syncAssessmentQuestions(synced, [c, b]);
+  expect(getOrderedQuestionIds(afterDelete)).toEqual([c.id, b.id]);
+});
+
+test('orders questions by section and totals points', () => {
+  const assessment = setQuestionPoints(createEmptyAssessment([c.id, a.id]), c.id, 3);
+
+  expect(orderQuestionsBySections([a, c], assessment).map(q => q.id)).toEqual([c.id, a.id]);
+  expect(getTotalPoints(assessment)).toBe(4);
+});
+
+test('keeps questions of a removed section', () => {
+  const assessment = addSection(createEmptyAssessment([a.id]));
+  const second = assessment.sections[1].id;
+  const moved = moveQuestionToSection(assessment, a.id, second);
+
+  const removed = removeSection(moved, second);
+  expect(removed.sections).toHaveLength(1);
+  expect(getOrderedQuestionIds(removed)).toEqual([a.id]);
+});
+
+test('moves questions within and across sections', () => {
+  const assessment = addSection(createEmptyAssessment([a.id, b.id, c.id]));
+  const [first, second] = assessment.sections;
+
+  expect(getOrderedQuestionIds(moveQuestionRef(assessment, a.id, first.id, 2))).toEqual([b.id, c.id, a.id]);
+  expect(getOrderedQuestionIds(moveQuestion(assessment, c.id, 'top'))).toEqual([c.id, a.id, b.id]);
+
+  const crossed = moveQuestion(assessment, c.id, 'down');
+  expect(crossed.sections[1].questionRefs.map(ref => ref.questionId)).toEqual([c.id]);
+  expect(moveQuestion(crossed, c.id, 'up').sections[0].questionRefs.map(ref => ref.questionId))
+    .toEqual([a.id, b.id, c.id]);
+  expect(second.questionRefs).toEqual([]);
+});
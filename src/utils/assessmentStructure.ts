@@ -0,0 +1,196 @@
+import { Assessment, AssessmentSection, Question, QuestionRef } from '../types';
+import { generateId } from './assessmentUtils';
+
+export const DEFAULT_QUESTION_POINTS = 1;
+
+export const createQuestionRefs = (questionIds: string[]): QuestionRef[] =>
+  questionIds.map(questionId => ({ questionId, points: DEFAULT_QUESTION_POINTS }));
+
+export const createSection = (title: string, questionIds: string[] = []): AssessmentSection => ({
+  id: generateId(),
+  title,
+  questionRefs: createQuestionRefs(questionIds),
+});
+
+export const createEmptyAssessment = (questionIds: string[] = []): Assessment => ({
+  title: 'Untitled assessment',
+  description: '',
+  instructions: '',
+  timeLimitMinutes: undefined,
+  sections: [createSection('Section 1', questionIds)],
+});
+
+export const getOrderedQuestionIds = (assessment: Assessment): string[] =>
+  assessment.sections.flatMap(section => section.questionRefs.map(ref => ref.questionId));
+
+export const findQuestionRef = (assessment: Assessment, questionId: string) => {
+  for (const section of assessment.sections) {
+    const ref = section.questionRefs.find(r => r.questionId === questionId);
+    if (ref) return { section, ref };
+  }
+  return undefined;
+};
+
+export const getSectionPoints = (section: AssessmentSection) =>
+  section.questionRefs.reduce((total, ref) => total + ref.points, 0);
+
+export const getTotalPoints = (assessment: Assessment) =>
+  assessment.sections.reduce((total, section) => total + getSectionPoints(section), 0);
+
+// Brings the section references in line with the question list: refs to deleted
+// questions are dropped and new questions are placed right after the question
+// preceding them in the list (or at the start of the first section).
+export const syncAssessmentQuestions = (assessment: Assessment, questions: Question[]): Assessment => {
+  const questionIds = new Set(questions.map(q => q.id));
+  let sections = assessment.sections.map(section => ({
+    ...section,
+    questionRefs: section.questionRefs.filter(ref => questionIds.has(ref.questionId)),
+  }));
+  if (sections.length === 0) {
+    sections = [createSection('Section 1')];
+  }
+
+  const referenced = new Set(sections.flatMap(section => section.questionRefs.map(ref => ref.questionId)));
+
+  questions.forEach((question, index) => {
+    if (referenced.has(question.id)) return;
+
+    const newRef: QuestionRef = { questionId: question.id, points: DEFAULT_QUESTION_POINTS };
+    const predecessor = questions.slice(0, index).reverse().find(q => referenced.has(q.id));
+    const sectionIndex = predecessor
+      ? sections.findIndex(section => section.questionRefs.some(ref => ref.questionId === predecessor.id))
+      : 0;
+    const section = sections[sectionIndex];
+    const refIndex = predecessor
+      ? section.questionRefs.findIndex(ref => ref.questionId === predecessor.id) + 1
+      : 0;
+
+    sections[sectionIndex] = {
+      ...section,
+      questionRefs: [...section.questionRefs.slice(0, refIndex), newRef, ...section.questionRefs.slice(refIndex)],
+    };
+    referenced.add(question.id);
+  });
+
+  const unchanged =
+    sections.length === assessment.sections.length &&
+    sections.every((section, index) =>
+      section.questionRefs.length === assessment.sections[index].questionRefs.length &&
+      section.questionRefs.every((ref, refIndex) => ref === assessment.sections[index].questionRefs[refIndex])
+    );
+
+  return unchanged ? assessment : { ...assessment, sections };
+};
+
+export const orderQuestionsBySections = (questions: Question[], assessment: Assessment): Question[] => {
+  const order = new Map(getOrderedQuestionIds(assessment).map((id, index) => [id, index]));
+  return [...questions].sort((a, b) => (order.get(a.id) ?? Infinity) - (order.get(b.id) ?? Infinity));
+};
+
+export const updateSection = (
+  assessment: Assessment,
+  sectionId: string,
+  changes: Partial<Omit<AssessmentSection, 'id'>>
+): Assessment => ({
+  ...assessment,
+  sections: assessment.sections.map(section =>
+    section.id === sectionId ? { ...section, ...changes } : section
+  ),
+});
+
+export const addSection = (assessment: Assessment): Assessment => ({
+  ...assessment,
+  sections: [...assessment.sections, createSection(`Section ${assessment.sections.length + 1}`)],
+});
+
+// Questions of a removed section move to the end of the previous (or next) section
+export const removeSection = (assessment: Assessment, sectionId: string): Assessment => {
+  const index = assessment.sections.findIndex(section => section.id === sectionId);
+  if (index === -1 || assessment.sections.length === 1) return assessment;
+
+  const removed = assessment.sections[index];
+  const targetIndex = index > 0 ? index - 1 : 1;
+  const sections = assessment.sections.map((section, i) =>
+    i === targetIndex ? { ...section, questionRefs: [...section.questionRefs, ...removed.questionRefs] } : section
+  );
+  return { ...assessment, sections: sections.filter(section => section.id !== sectionId) };
+};
+
+export const setQuestionPoints = (assessment: Assessment, questionId: string, points: number): Assessment => ({
+  ...assessment,
+  sections: assessment.sections.map(section => ({
+    ...section,
+    questionRefs: section.questionRefs.map(ref =>
+      ref.questionId === questionId ? { ...ref, points } : ref
+    ),
+  })),
+});
+
+export const moveQuestionToSection = (assessment: Assessment, questionId: string, sectionId: string): Assessment => {
+  const current = findQuestionRef(assessment, questionId);
+  if (!current || current.section.id === sectionId) return assessment;
+
+  return {
+    ...assessment,
+    sections: assessment.sections.map(section => {
+      if (section.id === current.section.id) {
+        return { ...section, questionRefs: section.questionRefs.filter(ref => ref.questionId !== questionId) };
+      }
+      if (section.id === sectionId) {
+        return { ...section, questionRefs: [...section.questionRefs, current.ref] };
+      }
+      return section;
+    }),
+  };
+};
+
+// Moves a question to a position within a section; without an index it goes to the end.
+// Within the same section the question ends up at the given index (like arrayMove).
+export const moveQuestionRef = (
+  assessment: Assessment,
+  questionId: string,
+  sectionId: string,
+  index?: number
+): Assessment => {
+  const current = findQuestionRef(assessment, questionId);
+  if (!current || !assessment.sections.some(section => section.id === sectionId)) return assessment;
+
+  const sections = assessment.sections.map(section => ({
+    ...section,
+    questionRefs: section.questionRefs.filter(ref => ref.questionId !== questionId),
+  }));
+  const target = sections.find(section => section.id === sectionId)!;
+  const insertAt = index === undefined ? target.questionRefs.length : Math.min(Math.max(index, 0), target.questionRefs.length);
+  target.questionRefs.splice(insertAt, 0, current.ref);
+
+  return { ...assessment, sections };
+};
+
+export type MoveDirection = 'up' | 'down' | 'top';
+
+// Up/down cross into the neighbouring section at the section boundaries;
+// top moves the question to the start of its own section.
+export const moveQuestion = (assessment: Assessment, questionId: string, direction: MoveDirection): Assessment => {
+  const current = findQuestionRef(assessment, questionId);
+  if (!current) return assessment;
+
+  const sectionIndex = assessment.sections.indexOf(current.section);
+  const refIndex = current.section.questionRefs.indexOf(current.ref);
+
+  switch (direction) {
+    case 'top':
+      return moveQuestionRef(assessment, questionId, current.section.id, 0);
+    case 'up':
+      if (refIndex > 0) return moveQuestionRef(assessment, questionId, current.section.id, refIndex - 1);
+      if (sectionIndex > 0) return moveQuestionRef(assessment, questionId, assessment.sections[sectionIndex - 1].id);
+      return assessment;
+    case 'down':
+      if (refIndex < current.section.questionRefs.length - 1) {
+        return moveQuestionRef(assessment, questionId, current.section.id, refIndex + 1);
+      }
+      if (sectionIndex < assessment.sections.length - 1) {
+        return moveQuestionRef(assessment, questionId, assessment.sections[sectionIndex + 1].id, 0);
+      }
+      return assessment;
+  }
+};
@@ -1,9 +1,24 @@
-import { Question, QuestionType, Purpose } from '../types';
+import { Question, QuestionType, Purpose, Rubric } from '../types';
+import { getResponseMode, getSelectionLimits } from './scoring';
+import { compileBlankPattern, createClozeMarker, getMarkerIds } from './cloze';
+import { compileAnswerPattern } from './textAnswers';
+import { hasPixelCoordinates } from './hotspotGeometry';
+import { findCorrectPlacement, getScoredLabels, isLabelPlacement } from './labelPlacement';
 
 export const generateId = (): string => {
   return Math.random().toString(36).substr(2, 9);
 };
 
+// Four levels from 1 to 4 points and one criterion to start from
+export const createDefaultRubric = (): Rubric => {
+  const levels = ['Beginning', 'Developing', 'Proficient', 'Exemplary'].map((label, index) => ({
+    id: generateId(),
+    label,
+    points: index + 1,
+  }));
+  return { levels, criteria: [{ id: generateId(), title: '', descriptors: levels.map(() => '') }] };
+};
+
 export const createEmptyQuestion = (type: QuestionType): Question => {
   const baseQuestion = {
     id: generateId(),
@@ -17,6 +32,7 @@ export const createEmptyQuestion = (type: QuestionType): Question => {
       return {
         ...baseQuestion,
         type: 'mcq',
+        responseMode: 'single',
         options: [
           { id: generateId(), text: '', isCorrect: false },
           { id: generateId(), text: '', isCorrect: true },
@@ -41,6 +57,55 @@ export const createEmptyQuestion = (type: QuestionType): Question => {
         zones: [],
         imageUrl: '',
       };
+    case 'cloze':
+      return {
+        ...baseQuestion,
+        type: 'cloze',
+        passage: '',
+        blanks: [],
+      };
+    case 'matching': {
+      const responses = [
+        { id: generateId(), text: '' },
+        { id: generateId(), text: '' },
+        { id: generateId(), text: '' },
+      ];
+      return {
+        ...baseQuestion,
+        type: 'matching',
+        mode: 'oneToOne',
+        premises: responses.map(response => ({ id: generateId(), text: '', responseId: response.id })),
+        responses,
+      };
+    }
+    case 'numeric':
+      return {
+        ...baseQuestion,
+        type: 'numeric',
+        answerMode: 'exact',
+        toleranceType: 'absolute',
+        units: [],
+      };
+    case 'short-answer':
+      return {
+        ...baseQuestion,
+        type: 'short-answer',
+        answers: [{ id: generateId(), text: '', credit: 100 }],
+      };
+    case 'categorize': {
+      const categories = [{ id: generateId(), text: '' }, { id: generateId(), text: '' }];
+      return {
+        ...baseQuestion,
+        type: 'categorize',
+        categories,
+        items: categories.map(category => ({ id: generateId(), text: '', categoryId: category.id })),
+      };
+    }
+    case 'essay':
+      return {
+        ...baseQuestion,
+        type: 'essay',
+      };
     default:
       throw new Error(`Unknown question type: ${type}`);
   }
@@ -67,9 +132,24 @@ export const validateQuestion = (question: Question): { isValid: boolean; errors
   // Type-specific validation
   switch (question.type) {
     case 'mcq':
-      const hasCorrectOption = question.options.some(opt => opt.isCorrect);
-      if (!hasCorrectOption) {
-        errors.push('At least one option must be marked as correct');
+      const correctCount = question.options.filter(opt => opt.isCorrect).length;
+      if (getResponseMode(question) === 'single') {
+        // Same rule as the pre-save hook in demoSchema.js
+        if (correctCount !== 1) {
+          errors.push('Exactly one option must be marked as correct');
+        }
+      } else {
+        const { min, max } = getSelectionLimits(question);
+        if (correctCount === 0) {
+          errors.push('At least one option must be marked as correct');
+        }
+        if (!Number.isInteger(min) || !Number.isInteger(max) || min < 1 || min > max) {
+          errors.push('Selection limits must be whole numbers with the minimum no larger than the maximum');
+        } else if (max > question.options.length) {
+          errors.push('Maximum selections cannot exceed the number of options');
+        } else if (correctCount > 0 && (correctCount < min || correctCount > max)) {
+          errors.push('The correct options must be selectable within the selection limits');
+        }
       }
       
       const hasEmptyOption = question.options.some(opt => !opt.text.trim());
@@ -100,7 +180,207 @@ export const validateQuestion = (question: Question): { isValid: boolean; errors
       if (question.zones.length === 0) {
         errors.push('At least one hotspot zone is required');
       }
+      if (hasPixelCoordinates(question.zones)) {
+        errors.push('Zones drawn in an earlier version are converted once the image loads; check that the image is available');
+      }
+      if (isLabelPlacement(question)) {
+        const labels = question.labels ?? [];
+        if (labels.length === 0) {
+          errors.push('Label placement needs at least one label');
+        }
+        if (labels.some(label => !label.text.trim())) {
+          errors.push('All labels must have text');
+        }
+        if (labels.length > 0 && getScoredLabels(question).length === 0) {
+          errors.push('At least one label must belong on a zone');
+        } else if (!findCorrectPlacement(question)) {
+          errors.push('Each zone holds one label, so every label needs a zone of its own');
+        }
+        if (question.purpose === 'formative' && labels.some(label => !label.feedback?.trim())) {
+          errors.push('All labels must have feedback for formative questions');
+        }
+      }
+      break;
+
+    case 'cloze':
+      const markerIds = getMarkerIds(question.passage);
+      if (!question.passage.trim()) {
+        errors.push('Passage is required');
+      }
+      if (markerIds.length === 0) {
+        errors.push('The passage must contain at least one blank');
+      }
+      if (markerIds.some(id => !question.blanks.some(blank => blank.id === id))) {
+        errors.push('The passage refers to a blank that does not exist');
+      }
+      if (new Set(markerIds).size !== markerIds.length) {
+        errors.push('Each blank can appear in the passage only once');
+      }
+      if (question.blanks.some(blank => !markerIds.includes(blank.id))) {
+        errors.push('Every blank must be placed in the passage');
+      }
+
+      // Numbered as students see them
+      markerIds.forEach((id, index) => {
+        const blank = question.blanks.find(entry => entry.id === id);
+        if (!blank) return;
+        const name = `Blank ${index + 1}`;
+        if (blank.mode === 'dropdown') {
+          if (blank.choices.length < 2) {
+            errors.push(`${name} needs at least two choices`);
+          }
+          if (blank.choices.some(choice => !choice.text.trim())) {
+            errors.push(`All choices of ${name.toLowerCase()} must have text`);
+          }
+          if (blank.choices.filter(choice => choice.isCorrect).length !== 1) {
+            errors.push(`${name} must have exactly one correct choice`);
+          }
+        } else {
+          if (!blank.acceptedAnswers.some(answer => answer.trim()) && !blank.pattern) {
+            errors.push(`${name} needs at least one accepted answer or a pattern`);
+          }
+          if (blank.pattern && !compileBlankPattern(blank)) {
+            errors.push(`${name} has a pattern that is not a valid regular expression`);
+          }
+        }
+      });
       break;
+
+    case 'matching': {
+      if (question.premises.length < 2) {
+        errors.push('Matching questions must have at least 2 premises');
+      }
+      if (question.responses.length < 2) {
+        errors.push('Matching questions must have at least 2 responses');
+      }
+      if (question.premises.some(premise => !premise.text.trim())) {
+        errors.push('All premises must have text');
+      }
+      if (question.responses.some(response => !response.text.trim())) {
+        errors.push('All responses must have text');
+      }
+      if (question.premises.some(premise => !question.responses.some(response => response.id === premise.responseId))) {
+        errors.push('Every premise must be paired with a response');
+      }
+      const pairedIds = question.premises.map(premise => premise.responseId).filter(Boolean);
+      if (question.mode === 'oneToOne' && new Set(pairedIds).size !== pairedIds.length) {
+        errors.push('In one-to-one matching each response can be paired only once');
+      }
+      if (question.purpose === 'formative' && question.premises.some(premise => !premise.feedback?.trim())) {
+        errors.push('All pairs must have feedback for formative questions');
+      }
+      break;
+    }
+
+    case 'numeric':
+      if (question.answerMode === 'exact') {
+        if (question.value === undefined) {
+          errors.push('The correct value is required');
+        }
+        if ((question.tolerance ?? 0) < 0) {
+          errors.push('Tolerance cannot be negative');
+        }
+      } else {
+        if (question.min === undefined || question.max === undefined) {
+          errors.push('Range answers need a minimum and a maximum');
+        } else if (question.min > question.max) {
+          errors.push('The minimum cannot be greater than the maximum');
+        }
+      }
+      if (question.units.some(unit => !unit.trim())) {
+        errors.push('Units cannot be empty');
+      }
+      if (question.unitRequired && question.units.length === 0) {
+        errors.push('Add the accepted units or stop requiring one');
+      }
+      if (question.significantFigures !== undefined &&
+        (!Number.isInteger(question.significantFigures) || question.significantFigures < 1)) {
+        errors.push('Significant figures must be a whole number of at least 1');
+      }
+      if (question.purpose === 'formative' && (!question.correctFeedback?.trim() || !question.incorrectFeedback?.trim())) {
+        errors.push('Correct and incorrect feedback are required for formative questions');
+      }
+      break;
+
+    case 'short-answer':
+      if (question.answers.length === 0) {
+        errors.push('Short answer questions must have at least one accepted answer');
+      }
+      if (question.answers.some(answer => !answer.text.trim())) {
+        errors.push('All answers must have text');
+      }
+      if (question.answers.some(answer => answer.credit < 0 || answer.credit > 100)) {
+        errors.push('Answer credit must be between 0 and 100%');
+      }
+      if (question.answers.length > 0 && !question.answers.some(answer => answer.credit === 100)) {
+        errors.push('At least one answer must earn full credit');
+      }
+      question.answers.forEach((answer, index) => {
+        if (answer.isPattern && answer.text.trim() && !compileAnswerPattern(answer.text, question)) {
+          errors.push(`Answer ${index + 1} is not a valid regular expression`);
+        }
+      });
+      if (question.purpose === 'formative' && question.answers.some(answer => !answer.feedback?.trim())) {
+        errors.push('All answers must have feedback for formative questions');
+      }
+      break;
+
+    case 'categorize':
+      if (question.categories.length < 2) {
+        errors.push('Categorize questions must have at least 2 categories');
+      }
+      if (question.categories.some(category => !category.text.trim())) {
+        errors.push('All categories must have a name');
+      }
+      if (question.items.some(item => !item.text.trim())) {
+        errors.push('All items must have text');
+      }
+      if (question.items.some(item => item.categoryId && !question.categories.some(category => category.id === item.categoryId))) {
+        errors.push('Items must belong to one of the categories or be distractors');
+      }
+      if (question.categories.some(category => !question.items.some(item => item.categoryId === category.id))) {
+        errors.push('Every category needs at least one item');
+      }
+      if (question.purpose === 'formative' && question.items.some(item => !item.feedback?.trim())) {
+        errors.push('All items must have feedback for formative questions');
+      }
+      break;
+
+    case 'essay': {
+      const { minWords, maxWords, maxCharacters, rubric } = question;
+      if ([minWords, maxWords, maxCharacters].some(limit => limit !== undefined && (!Number.isInteger(limit) || limit < 1))) {
+        errors.push('Word and character limits must be whole numbers of at least 1');
+      } else if (minWords !== undefined && maxWords !== undefined && minWords > maxWords) {
+        errors.push('The minimum number of words cannot be more than the maximum');
+      }
+      if (!rubric) {
+        if (question.purpose === 'summative') {
+          errors.push('Summative essays need a rubric');
+        }
+        break;
+      }
+      if (rubric.levels.length < 2) {
+        errors.push('Rubrics must have at least 2 performance levels');
+      }
+      if (rubric.levels.some(level => !level.label.trim())) {
+        errors.push('All performance levels must have a label');
+      }
+      if (rubric.levels.some(level => !Number.isFinite(level.points) || level.points < 0)) {
+        errors.push('Performance levels must be worth 0 points or more');
+      } else if (!rubric.levels.some(level => level.points > 0)) {
+        errors.push('At least one performance level must be worth points');
+      }
+      if (rubric.criteria.length === 0) {
+        errors.push('Rubrics must have at least one criterion');
+      }
+      if (rubric.criteria.some(criterion => !criterion.title.trim())) {
+        errors.push('All criteria must have a title');
+      }
+      if (rubric.criteria.some(criterion => rubric.levels.some((_, index) => !criterion.descriptors[index]?.trim()))) {
+        errors.push('Every criterion needs a descriptor for each performance level');
+      }
+      break;
+    }
   }
 
   return {
@@ -109,17 +389,17 @@ export const validateQuestion = (question: Question): { isValid: boolean; errors
   };
 };
 
-// AI Suggest mock data generation
-export const generateAISuggestions = (topic: string, question: Question): Partial<Question> => {
+// AI Suggest mock data generation, applied over the question as its own type
+export const applyAISuggestions = (topic: string, question: Question): Question => {
   const mockData = {
     stem: `Explain the concept of ${topic} and its importance in modern applications.`,
-    difficulty: 'medium' as const,
     topic,
   };
 
   switch (question.type) {
     case 'mcq':
       return {
+        ...question,
         ...mockData,
         options: [
           { id: question.options[0]?.id || generateId(), text: `${topic} is a fundamental concept`, isCorrect: true, feedback: 'Correct! This is the right answer.' },
@@ -131,6 +411,7 @@ export const generateAISuggestions = (topic: string, question: Question): Partia
 
     case 'ordering':
       return {
+        ...question,
         ...mockData,
         items: [
           { id: question.items[0]?.id || generateId(), text: `Initialize ${topic} environment`, order: 0 },
@@ -140,16 +421,165 @@ export const generateAISuggestions = (topic: string, question: Question): Partia
         ],
       };
 
-    case 'hotspot':
+    case 'hotspot': {
+      const zones = [
+        { id: generateId(), coordinates: [{ x: 0.16, y: 0.26 }, { x: 0.31, y: 0.26 }, { x: 0.31, y: 0.52 }, { x: 0.16, y: 0.52 }], label: 'Main component' },
+        { id: generateId(), coordinates: [{ x: 0.47, y: 0.39 }, { x: 0.63, y: 0.39 }, { x: 0.63, y: 0.65 }, { x: 0.47, y: 0.65 }], label: 'Secondary component' },
+      ];
+      if (!isLabelPlacement(question)) {
+        return { ...question, ...mockData, zones };
+      }
       return {
+        ...question,
         ...mockData,
-        zones: [
-          { id: generateId(), coordinates: [{ x: 100, y: 100 }, { x: 200, y: 100 }, { x: 200, y: 200 }, { x: 100, y: 200 }], label: 'Main component' },
-          { id: generateId(), coordinates: [{ x: 300, y: 150 }, { x: 400, y: 150 }, { x: 400, y: 250 }, { x: 300, y: 250 }], label: 'Secondary component' },
+        stem: `Drag each label onto the matching part of this ${topic} diagram.`,
+        zones,
+        labels: [
+          { id: generateId(), text: 'Main component', zoneIds: [zones[0].id], feedback: `The main component is the core of ${topic}.` },
+          { id: generateId(), text: 'Secondary component', zoneIds: [zones[1].id], feedback: 'The secondary component supports the main one.' },
+          { id: generateId(), text: 'Power supply', zoneIds: [], feedback: `This diagram of ${topic} does not show a power supply.` },
         ],
       };
+    }
 
-    default:
-      return mockData;
+    case 'cloze': {
+      const [first, second] = [question.blanks[0]?.id || generateId(), question.blanks[1]?.id || generateId()];
+      return {
+        ...question,
+        ...mockData,
+        stem: `Complete the sentence about ${topic}.`,
+        passage: `${topic} is used to ${createClozeMarker(first)} data and is supported on ${createClozeMarker(second)} platforms.`,
+        blanks: [
+          { id: first, mode: 'text', acceptedAnswers: ['process', 'transform'], choices: [] },
+          {
+            id: second,
+            mode: 'dropdown',
+            acceptedAnswers: [],
+            choices: [
+              { id: generateId(), text: 'most', isCorrect: true },
+              { id: generateId(), text: 'no', isCorrect: false },
+            ],
+          },
+        ],
+      };
+    }
+
+    case 'matching': {
+      const pairs = [
+        [`${topic} input`, 'Parsing'],
+        [`${topic} core`, 'Processing'],
+        [`${topic} output`, 'Rendering'],
+      ];
+      const responses = pairs.map(([, response], index) => ({ id: question.responses[index]?.id || generateId(), text: response }));
+      return {
+        ...question,
+        ...mockData,
+        stem: `Match each part of ${topic} with what it does.`,
+        premises: pairs.map(([premise], index) => ({
+          id: question.premises[index]?.id || generateId(),
+          text: premise,
+          responseId: responses[index].id,
+          feedback: `${premise} is responsible for ${responses[index].text.toLowerCase()}.`,
+        })),
+        responses: [...responses, { id: generateId(), text: 'Caching' }],
+      };
+    }
+
+    case 'numeric':
+      return {
+        ...question,
+        ...mockData,
+        stem: `A ${topic} job processes 120 records per second. How many records does it process in 2.5 minutes?`,
+        answerMode: 'exact',
+        value: 18000,
+        tolerance: 1,
+        toleranceType: 'relative',
+        units: ['records'],
+        correctFeedback: 'Correct: 120 records/s × 150 s = 18000 records.',
+        incorrectFeedback: 'Convert the minutes to seconds first, then multiply by the rate.',
+      };
+
+    case 'short-answer':
+      return {
+        ...question,
+        ...mockData,
+        stem: `Name the process that ${topic} uses to turn raw input into structured data.`,
+        answers: [
+          { id: question.answers[0]?.id || generateId(), text: 'parsing', credit: 100, feedback: 'Correct!' },
+          { id: question.answers[1]?.id || generateId(), text: 'pars(e|er)', isPattern: true, credit: 50, feedback: 'Close: name the process rather than the tool.' },
+          { id: generateId(), text: 'compiling', credit: 0, feedback: `Compiling comes later; ${topic} parses the input first.` },
+        ],
+      };
+
+    case 'categorize': {
+      const categories = [
+        { id: question.categories[0]?.id || generateId(), text: 'Input' },
+        { id: question.categories[1]?.id || generateId(), text: 'Output' },
+      ];
+      const items: [string, string][] = [
+        ['Configuration file', categories[0].id],
+        ['User request', categories[0].id],
+        ['Report', categories[1].id],
+        ['Log entry', categories[1].id],
+        ['Marketing budget', ''],
+      ];
+      return {
+        ...question,
+        ...mockData,
+        stem: `Sort these into what ${topic} reads and what it produces.`,
+        categories,
+        items: items.map(([text, categoryId], index) => ({
+          id: question.items[index]?.id || generateId(),
+          text,
+          categoryId,
+          feedback: categoryId
+            ? `${text} is ${categoryId === categories[0].id ? 'read' : 'produced'} by ${topic}.`
+            : `${text} has nothing to do with ${topic}.`,
+        })),
+      };
+    }
+
+    case 'essay': {
+      const levels = createDefaultRubric().levels.map((level, index) => ({
+        ...level,
+        id: question.rubric?.levels[index]?.id || level.id,
+      }));
+      const criteria: [string, string[]][] = [
+        ['Understanding', [
+          `Misstates what ${topic} is`,
+          `Describes ${topic} with gaps or errors`,
+          `Explains ${topic} accurately`,
+          `Explains ${topic} accurately and relates it to other ideas`,
+        ]],
+        ['Use of examples', [
+          'Gives no examples',
+          'Gives examples that do not support the points made',
+          'Supports the main points with relevant examples',
+          'Chooses examples that show where the idea applies and where it does not',
+        ]],
+        ['Organization', [
+          'Ideas are listed without order',
+          'Some structure, but hard to follow in places',
+          'Clear introduction, body and conclusion',
+          'Each paragraph builds on the last towards the conclusion',
+        ]],
+      ];
+      return {
+        ...question,
+        ...mockData,
+        stem: `Explain ${topic} and discuss where it is useful, with examples.`,
+        minWords: 150,
+        maxWords: 400,
+        modelAnswer: `A strong answer defines ${topic}, describes two situations where it is used with an example of each, and ends with one limitation of ${topic}.`,
+        rubric: {
+          levels,
+          criteria: criteria.map(([title, descriptors], index) => ({
+            id: question.rubric?.criteria[index]?.id || generateId(),
+            title,
+            descriptors,
+          })),
+        },
+      };
+    }
   }
 };
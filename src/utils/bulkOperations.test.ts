@@ -0,0 +1,40 @@
+import { OrderingQuestion } from '../types';
+import { createEmptyQuestion } from './assessmentUtils';
+import { applyBulkEdit, duplicateQuestions, findNewlyInvalid, getSelectionRange } from './bulkOperations';
+
+const makeOrdering = (stem: string, tags: string[] = []): OrderingQuestion => ({
+  ...(createEmptyQuestion('ordering') as OrderingQuestion),
+  stem,
+  tags,
+  items: [
+    { id: 'a', text: 'First', order: 0 },
+    { id: 'b', text: 'Second', order: 1 },
+  ],
+});
+
+test('reports questions that a bulk edit made invalid', () => {
+  const valid = makeOrdering('Valid', ['lab']);
+  const alreadyInvalid = makeOrdering('');
+  const questions = [valid, alreadyInvalid];
+  const selected = new Set(questions.map(q => q.id));
+
+  const updated = applyBulkEdit(questions, selected, { kind: 'purpose', purpose: 'summative' });
+  expect(updated.every(q => q.purpose === 'summative')).toBe(true);
+  expect(findNewlyInvalid(questions, updated).map(entry => entry.questionId)).toEqual([valid.id]);
+
+  const untagged = applyBulkEdit(questions, selected, { kind: 'removeTags', tags: ['lab'] });
+  expect(untagged[0].tags).toEqual([]);
+  expect(untagged[1]).toBe(alreadyInvalid);
+});
+
+test('duplicates selected questions right after their sources', () => {
+  const [a, b, c] = [makeOrdering('A'), makeOrdering('B'), makeOrdering('C')];
+  const { questions, duplicatedIds } = duplicateQuestions([a, b, c], new Set([a.id, c.id]));
+  expect(questions.map(q => q.stem)).toEqual(['A', 'A (Copy)', 'B', 'C', 'C (Copy)']);
+  expect(duplicatedIds).toEqual([questions[1].id, questions[4].id]);
+});
+
+test('selects ranges in either direction', () => {
+  expect(getSelectionRange(['a', 'b', 'c', 'd'], 'd', 'b')).toEqual(['b', 'c', 'd']);
+  expect(getSelectionRange(['a', 'b'], 'x', 'b')).toEqual(['b']);
+});
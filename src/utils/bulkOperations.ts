@@ -0,0 +1,98 @@
+import { BloomsLevel, Purpose, Question } from '../types';
+import { generateId, validateQuestion } from './assessmentUtils';
+import { JSON_FILE_FORMAT } from './jsonFormat';
+import { STORAGE_VERSION, StoredQuestion, serializeQuestion } from './storage';
+
+export type BulkEdit =
+  | { kind: 'purpose'; purpose: Purpose }
+  | { kind: 'topic'; topic: string }
+  | { kind: 'bloomsLevel'; bloomsLevel?: BloomsLevel }
+  | { kind: 'learningObjective'; learningObjective: string }
+  | { kind: 'addTags'; tags: string[] }
+  | { kind: 'removeTags'; tags: string[] };
+
+export interface InvalidQuestionSummary {
+  questionId: string;
+  stem: string;
+  errors: string[];
+}
+
+// Readable by the assessment file import, which adds the questions as a new section
+export interface QuestionSelectionExport {
+  format: typeof JSON_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  questions: StoredQuestion[];
+}
+
+const applyEdit = (question: Question, edit: BulkEdit): Question => {
+  switch (edit.kind) {
+    case 'purpose':
+      return { ...question, purpose: edit.purpose };
+    case 'topic':
+      return { ...question, topic: edit.topic.trim() || undefined };
+    case 'bloomsLevel':
+      return { ...question, bloomsLevel: edit.bloomsLevel };
+    case 'learningObjective':
+      return { ...question, learningObjective: edit.learningObjective.trim() || undefined };
+    case 'addTags': {
+      const tags = question.tags ?? [];
+      const added = edit.tags.filter(tag => !tags.includes(tag));
+      return added.length > 0 ? { ...question, tags: [...tags, ...added] } : question;
+    }
+    case 'removeTags': {
+      const tags = question.tags ?? [];
+      const kept = tags.filter(tag => !edit.tags.includes(tag));
+      return kept.length !== tags.length ? { ...question, tags: kept } : question;
+    }
+  }
+};
+
+export const applyBulkEdit = (questions: Question[], selectedIds: Set<string>, edit: BulkEdit): Question[] =>
+  questions.map(question => (selectedIds.has(question.id) ? applyEdit(question, edit) : question));
+
+// Each copy is inserted right after its source question
+export const duplicateQuestions = (questions: Question[], selectedIds: Set<string>) => {
+  const duplicatedIds: string[] = [];
+  const result = questions.flatMap(question => {
+    if (!selectedIds.has(question.id)) return [question];
+
+    const copy = { ...question, id: generateId(), stem: `${question.stem} (Copy)` };
+    duplicatedIds.push(copy.id);
+    return [question, copy];
+  });
+  return { questions: result, duplicatedIds };
+};
+
+export const deleteQuestions = (questions: Question[], selectedIds: Set<string>) =>
+  questions.filter(question => !selectedIds.has(question.id));
+
+// Questions that passed validateQuestion before the change and fail it afterwards
+export const findNewlyInvalid = (before: Question[], after: Question[]): InvalidQuestionSummary[] => {
+  const previous = new Map(before.map(question => [question.id, question]));
+
+  return after.flatMap(question => {
+    const original = previous.get(question.id);
+    if (!original || original === question || !validateQuestion(original).isValid) return [];
+
+    const { isValid, errors } = validateQuestion(question);
+    return isValid ? [] : [{ questionId: question.id, stem: question.stem, errors }];
+  });
+};
+
+// Ids between the anchor and the target (inclusive) in list order, for shift-click selection
+export const getSelectionRange = (orderedIds: string[], anchorId: string, targetId: string): string[] => {
+  const anchorIndex = orderedIds.indexOf(anchorId);
+  const targetIndex = orderedIds.indexOf(targetId);
+  if (anchorIndex === -1 || targetIndex === -1) return [targetId];
+
+  const [start, end] = anchorIndex < targetIndex ? [anchorIndex, targetIndex] : [targetIndex, anchorIndex];
+  return orderedIds.slice(start, end + 1);
+};
+
+export const createSelectionExport = (questions: Question[], selectedIds: Set<string>): QuestionSelectionExport => ({
+  format: JSON_FILE_FORMAT,
+  version: STORAGE_VERSION,
+  exportedAt: new Date().toISOString(),
+  questions: questions.filter(question => selectedIds.has(question.id)).map(serializeQuestion),
+});
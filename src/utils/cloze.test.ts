@@ -0,0 +1,53 @@
+import { ClozeBlank, ClozeQuestion } from '../types';
+import { getPlacedBlanks, isClozeResponseCorrect, parseClozePassage, renderClozePassage } from './cloze';
+import { scoreClozeResponse } from './scoring';
+
+const textBlank: ClozeBlank = { id: 'b1', mode: 'text', acceptedAnswers: ['Carbon dioxide', 'CO2'], choices: [] };
+
+const question: ClozeQuestion = {
+  id: 'q1',
+  type: 'cloze',
+  purpose: 'formative',
+  stem: 'Complete the sentence.',
+  passage: 'Plants take in {{b1}} and release {{b2}}.',
+  blanks: [
+    {
+      id: 'b2',
+      mode: 'dropdown',
+      acceptedAnswers: [],
+      choices: [
+        { id: 'c1', text: 'oxygen', isCorrect: true },
+        { id: 'c2', text: 'nitrogen', isCorrect: false },
+      ],
+    },
+    textBlank,
+  ],
+};
+
+test('splits the passage into text and blanks in reading order', () => {
+  expect(parseClozePassage('{{a}} and {{b}}!')).toEqual([
+    { kind: 'blank', blankId: 'a' },
+    { kind: 'text', text: ' and ' },
+    { kind: 'blank', blankId: 'b' },
+    { kind: 'text', text: '!' },
+  ]);
+  expect(getPlacedBlanks(question).map(blank => blank.id)).toEqual(['b1', 'b2']);
+  expect(renderClozePassage(question, (_, index) => `(${index + 1})`)).toBe('Plants take in (1) and release (2).');
+});
+
+test('matches text responses with the case, whitespace and pattern options', () => {
+  expect(isClozeResponseCorrect(textBlank, '  carbon   DIOXIDE ')).toBe(true);
+  expect(isClozeResponseCorrect(textBlank, 'carbondioxide')).toBe(false);
+  expect(isClozeResponseCorrect({ ...textBlank, ignoreWhitespace: true }, 'carbondioxide')).toBe(true);
+  expect(isClozeResponseCorrect({ ...textBlank, caseSensitive: true }, 'co2')).toBe(false);
+  expect(isClozeResponseCorrect({ ...textBlank, pattern: 'CO\\s?2' }, 'co 2')).toBe(true);
+  expect(isClozeResponseCorrect({ ...textBlank, pattern: 'CO\\s?2' }, 'CO23')).toBe(false);
+  expect(isClozeResponseCorrect({ ...textBlank, pattern: '(' }, 'CO2')).toBe(true);
+  expect(isClozeResponseCorrect(textBlank, '')).toBe(false);
+});
+
+test('scores each placed blank as an equal share', () => {
+  expect(scoreClozeResponse(question, { b1: 'co2', b2: 'c1' })).toBe(1);
+  expect(scoreClozeResponse(question, { b1: 'co2', b2: 'c2' })).toBe(0.5);
+  expect(scoreClozeResponse({ ...question, passage: 'Only {{b2}}' }, { b1: 'co2' })).toBe(0);
+});
@@ -0,0 +1,71 @@
+import { ClozeBlank, ClozeQuestion } from '../types';
+import { compileAnswerPattern, normalizeTextResponse } from './textAnswers';
+
+export type ClozeSegment =
+  | { kind: 'text'; text: string }
+  | { kind: 'blank'; blankId: string };
+
+const MARKER_PATTERN = /\{\{([^{}\s]+)\}\}/g;
+
+export const createClozeMarker = (blankId: string) => `{{${blankId}}}`;
+
+// Splits the passage into text and blank markers, in reading order
+export const parseClozePassage = (passage: string): ClozeSegment[] => {
+  const segments: ClozeSegment[] = [];
+  let last = 0;
+  passage.replace(MARKER_PATTERN, (marker: string, blankId: string, index: number) => {
+    if (index > last) segments.push({ kind: 'text', text: passage.slice(last, index) });
+    segments.push({ kind: 'blank', blankId });
+    last = index + marker.length;
+    return marker;
+  });
+  if (last < passage.length) segments.push({ kind: 'text', text: passage.slice(last) });
+  return segments;
+};
+
+export const getMarkerIds = (passage: string) =>
+  parseClozePassage(passage).flatMap(segment => (segment.kind === 'blank' ? [segment.blankId] : []));
+
+// Blanks in the order students meet them; blanks missing from the passage are left out
+export const getPlacedBlanks = (question: ClozeQuestion): ClozeBlank[] =>
+  getMarkerIds(question.passage).flatMap(id => question.blanks.filter(blank => blank.id === id));
+
+// The passage with every marker replaced, e.g. by a numbered gap for print
+export const renderClozePassage = (
+  question: ClozeQuestion,
+  renderBlank: (blank: ClozeBlank, index: number) => string,
+  renderText: (text: string) => string = text => text
+) => {
+  let index = 0;
+  return parseClozePassage(question.passage)
+    .map(segment => {
+      if (segment.kind === 'text') return renderText(segment.text);
+      const blank = question.blanks.find(entry => entry.id === segment.blankId);
+      return blank ? renderBlank(blank, index++) : renderText(createClozeMarker(segment.blankId));
+    })
+    .join('');
+};
+
+// Undefined when the pattern is not a valid regular expression
+export const compileBlankPattern = (blank: ClozeBlank): RegExp | undefined =>
+  blank.pattern ? compileAnswerPattern(blank.pattern, blank) : undefined;
+
+// For dropdown blanks the response is the id of the chosen choice
+export const isClozeResponseCorrect = (blank: ClozeBlank, response: string) => {
+  if (blank.mode === 'dropdown') {
+    return blank.choices.some(choice => choice.isCorrect && choice.id === response);
+  }
+  const normalized = normalizeTextResponse(response, blank);
+  if (!normalized) return false;
+  if (blank.acceptedAnswers.some(answer => normalizeTextResponse(answer, blank) === normalized)) return true;
+  return compileBlankPattern(blank)?.test(response.trim()) ?? false;
+};
+
+// Accepted answers, or the correct choice, as one line for answer keys
+export const describeBlankAnswer = (blank: ClozeBlank) => {
+  if (blank.mode === 'dropdown') {
+    return blank.choices.filter(choice => choice.isCorrect).map(choice => choice.text).join(' / ');
+  }
+  const answers = blank.acceptedAnswers.filter(answer => answer.trim());
+  return [...answers, ...(blank.pattern ? [`/${blank.pattern}/`] : [])].join(' / ');
+};
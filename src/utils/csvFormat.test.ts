@@ -0,0 +1,59 @@
+import { CSV_IGNORE, csvToImportResult, detectColumnMapping, parseCsv, serializeCsv, stringifyCsv } from './csvFormat';
+
+test('parses quoted fields and guesses the delimiter', () => {
+  expect(parseCsv('\uFEFFstem,option1\r\n"Say ""hi"", please","a\nb"\r\n')).toEqual([
+    ['stem', 'option1'],
+    ['Say "hi", please', 'a\nb'],
+  ]);
+  expect(parseCsv('Question;Answer A;Answer B\nWhich?;Yes;No')[1]).toEqual(['Which?', 'Yes', 'No']);
+});
+
+test('maps common spreadsheet headers onto the column layout', () => {
+  expect(detectColumnMapping(['Question', 'Answer A', 'Choice 2 feedback', 'Correct answer', 'Step 1', 'Notes'])).toEqual([
+    'stem', 'option1', 'option2Feedback', 'correct', 'item1', CSV_IGNORE,
+  ]);
+});
+
+test('reports failing rows by their spreadsheet row number', () => {
+  const rows = parseCsv(`Question,Answer A,Answer B,Answer,Bloom
+Which planet is the largest?,Mars,Jupiter,B,understand
+Pick one,Yes,No,,Memorize
+,,,,`);
+  const result = csvToImportResult(rows, detectColumnMapping(rows[0]), 'bank.csv');
+
+  expect(result.items).toHaveLength(2);
+  expect(result.items[0].question).toMatchObject({
+    type: 'mcq',
+    bloomsLevel: 'Understand',
+    options: [{ text: 'Mars', isCorrect: false }, { text: 'Jupiter', isCorrect: true }],
+  });
+  expect(result.items[1].source).toBe('Row 3');
+  expect(result.items[1].issues).toEqual(['Row 3: Unknown Bloom\'s level "Memorize" was left empty']);
+  expect(result.items[1].validationErrors.length).toBeGreaterThan(0);
+});
+
+test('round-trips exported questions', () => {
+  const rows = parseCsv(`type,stem,tags,option1,option1Correct,option2,option2Correct,item1,item2
+mcq,"Pick, one",a; b,Yes,TRUE,No,FALSE,,
+ordering,Order them,,,,,,First,Second`);
+  const questions = csvToImportResult(rows, detectColumnMapping(rows[0]), 'bank.csv').items.map(item => item.question!);
+  const { text, skipped } = serializeCsv(questions);
+  const exported = parseCsv(text);
+
+  expect(skipped).toEqual([]);
+  const reimported = csvToImportResult(exported, detectColumnMapping(exported[0]), 'again.csv').items;
+  expect(reimported.map(item => item.question)).toMatchObject([
+    { type: 'mcq', stem: 'Pick, one', tags: ['a', 'b'], options: [{ text: 'Yes', isCorrect: true }, { text: 'No' }] },
+    { type: 'ordering', stem: 'Order them', items: [{ text: 'First', order: 0 }, { text: 'Second', order: 1 }] },
+  ]);
+});
+
+test('keeps cells that look like formulas as text', () => {
+  const text = stringifyCsv([['stem', 'option1'], ['=SUM(A1:A2)', '-1 is odd'], ['@risk', '+1']]);
+  expect(text).toBe("stem,option1\r\n'=SUM(A1:A2),'-1 is odd\r\n'@risk,'+1\r\n");
+
+  const rows = parseCsv(`type,stem,option1,option1Correct,option2,option2Correct
+mcq,'=1+1 equals,'-2,FALSE,2,TRUE`);
+  const [item] = csvToImportResult(rows, detectColumnMapping(rows[0]), 'bank.csv').items;
+  expect(item.question).toMatchObject({ stem: '=1+1 equals', options: [{ text: '-2' }, { text: '2' }] });
+});
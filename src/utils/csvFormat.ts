@@ -0,0 +1,326 @@
+import { BloomsLevel, MCQOption, OrderingItem, Purpose, Question, QuestionType } from '../types';
+import { generateId } from './assessmentUtils';
+import { ImportResult, ImportedItem, TextExportResult, createImportedItem } from './importUtils';
+
+// Column keys of the documented layout. Options and items are numbered from 1:
+// option1, option1Correct, option1Feedback, ..., item1, item2, ...
+// "correct" is an alternative to the per-option flags listing letters or numbers (e.g. "B" or "1;3").
+export const CSV_SCALAR_COLUMNS = [
+  'type',
+  'purpose',
+  'stem',
+  'topic',
+  'tags',
+  'learningObjective',
+  'bloomsLevel',
+  'correct',
+] as const;
+
+export const CSV_IGNORE = 'ignore';
+
+const BLOOMS_LEVELS: BloomsLevel[] = ['Remember', 'Understand', 'Apply', 'Analyze', 'Evaluate', 'Create'];
+
+const OPTION_COLUMN = /^option(\d+)(Correct|Feedback)?$/;
+const ITEM_COLUMN = /^item(\d+)$/;
+
+const HEADER_ALIASES: Record<string, string> = {
+  questiontype: 'type',
+  kind: 'type',
+  question: 'stem',
+  questiontext: 'stem',
+  text: 'stem',
+  prompt: 'stem',
+  category: 'topic',
+  subject: 'topic',
+  keywords: 'tags',
+  objective: 'learningObjective',
+  learningobjective: 'learningObjective',
+  lo: 'learningObjective',
+  bloom: 'bloomsLevel',
+  blooms: 'bloomsLevel',
+  bloomslevel: 'bloomsLevel',
+  answer: 'correct',
+  correctanswer: 'correct',
+  key: 'correct',
+};
+
+// RFC 4180 with the delimiter guessed from the header line (comma, semicolon or tab)
+export const parseCsv = (text: string): string[][] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const headerLine = source.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+// Spreadsheets run cells starting with these as formulas; an apostrophe in front keeps them text
+const FORMULA_START = /^[=+\-@]/;
+
+const protectFormula = (cell: string) => (FORMULA_START.test(cell) ? `'${cell}` : cell);
+
+// The apostrophe added on export, removed again on import
+const unprotectFormula = (cell: string) => (/^'[=+\-@]/.test(cell) ? cell.slice(1) : cell);
+
+export const stringifyCsv = (rows: string[][]) =>
+  rows
+    .map(row => row
+      .map(protectFormula)
+      .map(cell => (/[",\n\r]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell))
+      .join(','))
+    .join('\r\n') + '\r\n';
+
+const toKey = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Option columns may be numbered (Option 2) or lettered (Answer B)
+const detectOptionColumn = (key: string) => {
+  const match = /^(?:option|choice|answer|distractor)(\d+|[a-z])(correct|iscorrect|feedback)?$/.exec(key);
+  if (!match) return undefined;
+
+  const index = /\d/.test(match[1]) ? Number(match[1]) : match[1].charCodeAt(0) - 96;
+  const suffix = match[2] === 'feedback' ? 'Feedback' : match[2] ? 'Correct' : '';
+  return `option${index}${suffix}`;
+};
+
+export const detectColumnMapping = (headers: string[]): string[] => {
+  const used = new Set<string>();
+  return headers.map(header => {
+    const key = toKey(header);
+    const scalar = CSV_SCALAR_COLUMNS.find(column => column.toLowerCase() === key) ?? HEADER_ALIASES[key];
+    const item = /^(?:item|step)(\d+)$/.exec(key);
+    const column = scalar ?? detectOptionColumn(key) ?? (item ? `item${Number(item[1])}` : undefined);
+
+    // A column is only auto-mapped once; later duplicates are ignored
+    if (!column || used.has(column)) return CSV_IGNORE;
+    used.add(column);
+    return column;
+  });
+};
+
+// Question types without a row layout, as named in import errors and export notes
+const UNSUPPORTED_TYPE_LABELS: Partial<Record<QuestionType, string>> = {
+  hotspot: 'Hotspot',
+  cloze: 'Fill in the blanks',
+  matching: 'Matching',
+  numeric: 'Numeric',
+  'short-answer': 'Short answer',
+  categorize: 'Categorize',
+  essay: 'Essay',
+};
+
+const isTruthy = (value: string) => /^(true|yes|y|1|x|✓|correct)$/i.test(value.trim());
+
+const parseType = (value: string, hasOptions: boolean, hasItems: boolean): QuestionType | undefined => {
+  const key = toKey(value);
+  if (!key) return hasItems && !hasOptions ? 'ordering' : hasOptions ? 'mcq' : undefined;
+  if (['mcq', 'mc', 'multiplechoice', 'choice'].includes(key)) return 'mcq';
+  if (['ordering', 'order', 'sequence'].includes(key)) return 'ordering';
+  if (key === 'hotspot') return 'hotspot';
+  if (['cloze', 'fillintheblanks', 'fillintheblank'].includes(key)) return 'cloze';
+  if (['matching', 'match'].includes(key)) return 'matching';
+  if (['numeric', 'numerical', 'number'].includes(key)) return 'numeric';
+  if (['shortanswer', 'short'].includes(key)) return 'short-answer';
+  if (['categorize', 'categorise', 'categorization'].includes(key)) return 'categorize';
+  if (['essay', 'extendedresponse', 'longanswer'].includes(key)) return 'essay';
+  return undefined;
+};
+
+// The text of the correct option, or letters (B, "A;C") or 1-based numbers (2, "1;3")
+const parseCorrectList = (value: string, optionTexts: [number, string][]) => {
+  const byText = optionTexts.find(([, text]) => text.toLowerCase() === value.toLowerCase());
+  if (byText) return [byText[0]];
+
+  return value
+    .split(/[;,\s|]+/)
+    .filter(Boolean)
+    .map(entry => {
+      if (/^\d+$/.test(entry)) return Number(entry);
+      return /^[a-z]$/i.test(entry) ? entry.toUpperCase().charCodeAt(0) - 64 : NaN;
+    });
+};
+
+const rowToItem = (cells: string[], mapping: string[], rowNumber: number): ImportedItem => {
+  const source = `Row ${rowNumber}`;
+  const issues: string[] = [];
+  const values: Record<string, string> = {};
+  mapping.forEach((column, index) => {
+    if (column !== CSV_IGNORE && cells[index]?.trim()) values[column] = unprotectFormula(cells[index].trim());
+  });
+
+  const optionIndexes = new Set<number>();
+  const itemIndexes = new Set<number>();
+  Object.keys(values).forEach(column => {
+    const option = OPTION_COLUMN.exec(column);
+    const item = ITEM_COLUMN.exec(column);
+    if (option) optionIndexes.add(Number(option[1]));
+    if (item) itemIndexes.add(Number(item[1]));
+  });
+
+  const type = parseType(values.type ?? '', optionIndexes.size > 0, itemIndexes.size > 0);
+  if (!type) {
+    return createImportedItem(source, undefined, [
+      values.type ? `${source}: Unknown question type "${values.type}"` : `${source}: No type and no options or items to infer it from`,
+    ]);
+  }
+  if (type !== 'mcq' && type !== 'ordering') {
+    return createImportedItem(source, undefined, [`${source}: ${UNSUPPORTED_TYPE_LABELS[type]} questions can't be imported from CSV`]);
+  }
+
+  let purpose: Purpose = 'formative';
+  if (values.purpose) {
+    const key = values.purpose.toLowerCase();
+    if (key === 'formative' || key === 'summative') purpose = key;
+    else issues.push(`${source}: Unknown purpose "${values.purpose}"; using formative`);
+  }
+
+  let bloomsLevel: BloomsLevel | undefined;
+  if (values.bloomsLevel) {
+    bloomsLevel = BLOOMS_LEVELS.find(level => level.toLowerCase() === values.bloomsLevel.toLowerCase());
+    if (!bloomsLevel) issues.push(`${source}: Unknown Bloom's level "${values.bloomsLevel}" was left empty`);
+  }
+
+  const base = {
+    id: generateId(),
+    purpose,
+    stem: values.stem ?? '',
+    topic: values.topic,
+    tags: values.tags ? Array.from(new Set(values.tags.split(/[;,]/).map(tag => tag.trim()).filter(Boolean))) : undefined,
+    learningObjective: values.learningObjective,
+    bloomsLevel,
+  };
+
+  if (type === 'ordering') {
+    const items: OrderingItem[] = Array.from(itemIndexes)
+      .sort((a, b) => a - b)
+      .map((index, order) => ({ id: generateId(), text: values[`item${index}`], order }));
+    return createImportedItem(source, { ...base, type, items }, issues);
+  }
+
+  const optionNumbers = Array.from(optionIndexes).sort((a, b) => a - b);
+  const correctList = values.correct
+    ? parseCorrectList(values.correct, optionNumbers.map(index => [index, values[`option${index}`] ?? '']))
+    : [];
+  const options: MCQOption[] = optionNumbers.map(index => ({
+    id: generateId(),
+    text: values[`option${index}`] ?? '',
+    isCorrect: isTruthy(values[`option${index}Correct`] ?? '') || correctList.includes(index),
+    feedback: values[`option${index}Feedback`],
+  }));
+
+  const unknownCorrect = correctList.filter(index => !optionIndexes.has(index));
+  if (unknownCorrect.length > 0) {
+    issues.push(`${source}: Correct answer "${values.correct}" refers to options that don't exist`);
+  }
+
+  return createImportedItem(source, { ...base, type, options }, issues);
+};
+
+export const csvToImportResult = (rows: string[][], mapping: string[], name: string): ImportResult => {
+  const result: ImportResult = { format: 'CSV', name, items: [], errors: [] };
+  if (!mapping.includes('stem')) {
+    result.errors.push('No column is mapped to the question stem');
+  }
+
+  // Row numbers match the spreadsheet: the header is row 1
+  rows.slice(1).forEach((cells, index) => {
+    result.items.push(rowToItem(cells, mapping, index + 2));
+  });
+
+  if (result.items.length === 0) {
+    result.errors.push('The file has no data rows');
+  }
+  return result;
+};
+
+export const serializeCsv = (questions: Question[]): TextExportResult => {
+  const skipped: TextExportResult['skipped'] = [];
+  const exported = questions.filter(question => {
+    if (question.type === 'mcq' || question.type === 'ordering') return true;
+    skipped.push({ question, reason: `${UNSUPPORTED_TYPE_LABELS[question.type]} questions have no CSV layout` });
+    return false;
+  });
+
+  const optionCount = Math.max(0, ...exported.map(q => (q.type === 'mcq' ? q.options.length : 0)));
+  const itemCount = Math.max(0, ...exported.map(q => (q.type === 'ordering' ? q.items.length : 0)));
+  const optionColumns = Array.from({ length: optionCount }, (_, i) =>
+    [`option${i + 1}`, `option${i + 1}Correct`, `option${i + 1}Feedback`]
+  ).flat();
+  const itemColumns = Array.from({ length: itemCount }, (_, i) => `item${i + 1}`);
+  const header = ['type', 'purpose', 'stem', 'topic', 'tags', 'learningObjective', 'bloomsLevel', ...optionColumns, ...itemColumns];
+
+  const rows = exported.map(question => {
+    const row: Record<string, string> = {
+      type: question.type,
+      purpose: question.purpose,
+      stem: question.stem,
+      topic: question.topic ?? '',
+      tags: (question.tags ?? []).join('; '),
+      learningObjective: question.learningObjective ?? '',
+      bloomsLevel: question.bloomsLevel ?? '',
+    };
+    if (question.type === 'mcq') {
+      question.options.forEach((option, i) => {
+        row[`option${i + 1}`] = option.text;
+        row[`option${i + 1}Correct`] = option.isCorrect ? 'TRUE' : 'FALSE';
+        row[`option${i + 1}Feedback`] = option.feedback ?? '';
+      });
+    } else if (question.type === 'ordering') {
+      [...question.items]
+        .sort((a, b) => a.order - b.order)
+        .forEach((item, i) => {
+          row[`item${i + 1}`] = item.text;
+        });
+    }
+    return header.map(column => row[column] ?? '');
+  });
+
+  return { text: exported.length > 0 ? stringifyCsv([header, ...rows]) : '', skipped };
+};
+
+export const createCsvTemplate = () =>
+  stringifyCsv([
+    ['type', 'purpose', 'stem', 'topic', 'tags', 'learningObjective', 'bloomsLevel',
+      'option1', 'option1Correct', 'option1Feedback', 'option2', 'option2Correct', 'option2Feedback',
+      'item1', 'item2', 'item3'],
+    ['mcq', 'formative', 'Which planet is the largest?', 'Astronomy', 'space; planets', '', '',
+      'Jupiter', 'TRUE', 'Correct!', 'Mars', 'FALSE', 'Mars is smaller than Earth', '', '', ''],
+    ['ordering', 'summative', 'Order the planets by distance from the Sun', 'Astronomy', '', 'Describe the solar system', 'Remember',
+      '', '', '', '', '', '', 'Mercury', 'Venus', 'Earth'],
+  ]);
@@ -0,0 +1,37 @@
+import { EssayQuestion } from '../types';
+import { createDefaultRubric, createEmptyQuestion, validateQuestion } from './assessmentUtils';
+import { countWords, getEssayLimitHint, getRubricMaxPoints, isWithinEssayLimits } from './essay';
+
+const question: EssayQuestion = {
+  ...(createEmptyQuestion('essay') as EssayQuestion),
+  stem: 'Why did the Roman Republic fall?',
+  minWords: 3,
+  maxWords: 5,
+};
+
+test('counts words and checks responses against the limits', () => {
+  expect(countWords('  Crassus,   Pompey\nand Caesar ')).toBe(4);
+  expect(countWords('   ')).toBe(0);
+  expect(isWithinEssayLimits(question, 'Civil wars ended it')).toBe(true);
+  expect(isWithinEssayLimits(question, 'Civil wars')).toBe(false);
+  expect(isWithinEssayLimits({ ...question, maxCharacters: 10 }, 'Civil wars ended it')).toBe(false);
+});
+
+test('describes the limits for students', () => {
+  expect(getEssayLimitHint(question)).toBe('Write 3–5 words.');
+  expect(getEssayLimitHint({ ...question, minWords: undefined, maxCharacters: 80 })).toBe('Write at most 5 words. Use no more than 80 characters.');
+  expect(getEssayLimitHint({ ...question, minWords: undefined, maxWords: undefined })).toBeUndefined();
+});
+
+test('summative essays need a complete rubric', () => {
+  const summative: EssayQuestion = { ...question, purpose: 'summative', learningObjective: 'Explain causes', bloomsLevel: 'Evaluate' };
+  expect(validateQuestion(summative).errors).toContain('Summative essays need a rubric');
+
+  const rubric = createDefaultRubric();
+  expect(getRubricMaxPoints(rubric)).toBe(4);
+  expect(validateQuestion({ ...summative, rubric }).errors).toEqual([
+    'All criteria must have a title',
+    'Every criterion needs a descriptor for each performance level',
+  ]);
+  expect(validateQuestion({ ...summative, minWords: 10 }).errors).toContain('The minimum number of words cannot be more than the maximum');
+});
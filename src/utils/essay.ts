@@ -0,0 +1,28 @@
+import { EssayQuestion, Rubric } from '../types';
+
+export const countWords = (text: string) => {
+  const trimmed = text.trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+};
+
+export const isWithinEssayLimits = (question: EssayQuestion, response: string) => {
+  const words = countWords(response);
+  return (question.minWords === undefined || words >= question.minWords) &&
+    (question.maxWords === undefined || words <= question.maxWords) &&
+    (question.maxCharacters === undefined || response.trim().length <= question.maxCharacters);
+};
+
+// The limits as one sentence for students, e.g. "Write 150–300 words."
+export const getEssayLimitHint = (question: EssayQuestion) => {
+  const { minWords, maxWords, maxCharacters } = question;
+  const words = minWords !== undefined && maxWords !== undefined ? `Write ${minWords}–${maxWords} words.`
+    : minWords !== undefined ? `Write at least ${minWords} words.`
+    : maxWords !== undefined ? `Write at most ${maxWords} words.`
+    : '';
+  const characters = maxCharacters !== undefined ? `Use no more than ${maxCharacters} characters.` : '';
+  return [words, characters].filter(Boolean).join(' ') || undefined;
+};
+
+// Every criterion can reach the top level
+export const getRubricMaxPoints = (rubric: Rubric) =>
+  rubric.criteria.length * rubric.levels.reduce((max, level) => Math.max(max, level.points), 0);
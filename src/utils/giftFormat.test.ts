@@ -0,0 +1,171 @@
+import { EssayQuestion, MatchingQuestion, MCQQuestion, NumericQuestion, OrderingQuestion, ShortAnswerQuestion } from '../types';
+import { parseGift, serializeGift } from './giftFormat';
+
+const source = `// Sample quiz
+$CATEGORY: $course$/top/Astronomy
+
+::Q1:: Which planet is largest? {
+  =Jupiter #Correct\\: a gas giant
+  ~Mars #Too small
+}
+
+Order the planets from the Sun {
+  =Earth -> 3
+  =Mercury -> 1
+  =Venus -> 2
+}
+
+The Sun is a star. {T}
+
+Name a moon {=Titan =%50%Moon #Which one?}
+
+Broken {=a ~b`;
+
+test('parses multiple choice, true/false, positional matching and short answers with line numbers', () => {
+  const result = parseGift(source);
+  const [mcq, ordering, trueFalse, shortAnswer, broken] = result.items;
+
+  expect(mcq.question).toMatchObject({
+    type: 'mcq',
+    stem: 'Which planet is largest?',
+    topic: 'Astronomy',
+    options: [
+      { text: 'Jupiter', isCorrect: true, feedback: 'Correct: a gas giant' },
+      { text: 'Mars', isCorrect: false, feedback: 'Too small' },
+    ],
+  });
+  expect((ordering.question as OrderingQuestion).items.map(item => item.text)).toEqual(['Mercury', 'Venus', 'Earth']);
+  expect((trueFalse.question as MCQQuestion).options.map(o => [o.text, o.isCorrect])).toEqual([['True', true], ['False', false]]);
+  expect((shortAnswer.question as ShortAnswerQuestion).answers.map(a => [a.text, a.credit, a.feedback])).toEqual([
+    ['Titan', 100, undefined],
+    ['Moon', 50, 'Which one?'],
+  ]);
+  expect(broken.issues).toEqual(['Line 19: Missing closing "}"']);
+});
+
+test('round-trips questions through the serializer', () => {
+  const questions = parseGift(source).items.flatMap(item => (item.question ? [item.question] : []));
+  const reparsed = parseGift(serializeGift(questions).text).items.map(item => item.question);
+
+  expect(reparsed).toHaveLength(questions.length);
+  reparsed.forEach((question, index) => {
+    const { id, ...expected } = questions[index];
+    expect(JSON.parse(JSON.stringify(question))).toMatchObject(JSON.parse(JSON.stringify({
+      ...expected,
+      options: 'options' in expected ? expected.options.map(({ id: _, ...option }) => option) : undefined,
+      items: 'items' in expected ? expected.items.map(({ id: _, ...item }) => item) : undefined,
+      answers: 'answers' in expected ? expected.answers.map(({ id: _, ...answer }) => answer) : undefined,
+    })));
+  });
+});
+
+test('imports other matching pairs as a matching question with distractors', () => {
+  const [item] = parseGift(`Match the moons {
+  =Titan -> Saturn
+  =Io -> Jupiter
+  =Europa -> Jupiter
+  = -> Mars
+}`).items;
+  const question = item.question as MatchingQuestion;
+  const responseText = (responseId: string) => question.responses.find(response => response.id === responseId)?.text;
+
+  expect(question.mode).toBe('manyToOne');
+  expect(question.premises.map(premise => [premise.text, responseText(premise.responseId)])).toEqual([
+    ['Titan', 'Saturn'],
+    ['Io', 'Jupiter'],
+    ['Europa', 'Jupiter'],
+  ]);
+  expect(question.responses.map(response => response.text)).toEqual(['Saturn', 'Jupiter', 'Mars']);
+
+  const [reparsed] = parseGift(serializeGift([question]).text).items;
+  expect((reparsed.question as MatchingQuestion).responses.map(response => response.text)).toEqual(['Saturn', 'Jupiter', 'Mars']);
+});
+
+test('escapes arrows inside ordering items and matching pairs', () => {
+  const ordering: OrderingQuestion = {
+    id: 'q1',
+    type: 'ordering',
+    purpose: 'formative',
+    stem: 'Order the steps',
+    items: [{ id: 'i1', text: 'A -> B', order: 0 }, { id: 'i2', text: 'B -> C', order: 1 }],
+  };
+  const matching: MatchingQuestion = {
+    id: 'q2',
+    type: 'matching',
+    purpose: 'formative',
+    stem: 'Match the arrows',
+    mode: 'oneToOne',
+    premises: [{ id: 'p1', text: 'x -> y', responseId: 'r1' }],
+    responses: [{ id: 'r1', text: 'maps to' }, { id: 'r2', text: '<- back' }, { id: 'r3', text: 'a->b' }],
+  };
+  const text = serializeGift([ordering, matching]).text;
+  expect(text).toContain('=A \\-> B -> 1');
+
+  const [first, second] = parseGift(text).items;
+  expect((first.question as OrderingQuestion).items.map(item => item.text)).toEqual(['A -> B', 'B -> C']);
+  expect((second.question as MatchingQuestion).premises[0].text).toBe('x -> y');
+  expect((second.question as MatchingQuestion).responses.map(response => response.text)).toEqual(['maps to', '<- back', 'a->b']);
+});
+
+test('keeps comment lines inside a question out of it', () => {
+  const result = parseGift(`What is 2 + 2?
+// asked in week one
+{
+  =4
+  // a common mistake
+  ~5 #Count again
+}`);
+
+  expect(result.errors).toEqual([]);
+  expect(result.items).toHaveLength(1);
+  const question = result.items[0].question as MCQQuestion;
+  expect(question.stem).toBe('What is 2 + 2?');
+  expect(question.options.map(option => option.text)).toEqual(['4', '5']);
+  expect(question.options[1].feedback).toBe('Count again');
+});
+
+test('escapes lines that would be read back as comments', () => {
+  const question: MCQQuestion = {
+    id: 'q1',
+    type: 'mcq',
+    purpose: 'formative',
+    stem: 'Line1\n// not a comment\nLine3',
+    options: [
+      { id: 'o1', text: 'Right', isCorrect: true, feedback: 'Yes\n  // still feedback' },
+      { id: 'o2', text: 'Wrong', isCorrect: false },
+    ],
+  };
+  const text = serializeGift([question]).text;
+  expect(text).toContain('\\// not a comment');
+
+  const result = parseGift(text);
+  expect(result.errors).toEqual([]);
+  expect(result.items).toHaveLength(1);
+  const imported = result.items[0].question as MCQQuestion;
+  expect(imported.stem).toBe('Line1\n// not a comment\nLine3');
+  expect(imported.options[0].feedback).toBe('Yes\n  // still feedback');
+});
+
+test('imports and exports numerical answers with a tolerance or a range', () => {
+  const [exact, range, unsupported] = parseGift(`Speed of light in km/s? {#=299792:100#Close enough}
+
+Pick a number from 1 to 5 {#1..5}
+
+Half of pi {#=%50%1.57 =%50%1.6}`).items;
+
+  expect(exact.question).toMatchObject({ type: 'numeric', answerMode: 'exact', value: 299792, tolerance: 100, correctFeedback: 'Close enough' });
+  expect(range.question).toMatchObject({ type: 'numeric', answerMode: 'range', min: 1, max: 5 });
+  expect(unsupported.issues).toEqual(['Line 5: No full-credit numerical answer found']);
+
+  const relative = { ...(exact.question as NumericQuestion), tolerance: 10, toleranceType: 'relative' as const, value: 50 };
+  expect(serializeGift([relative, range.question!]).text).toContain('Speed of light in km/s? {#=50:5#Close enough}');
+  expect(serializeGift([range.question!]).text).toContain('Pick a number from 1 to 5 {#1..5}');
+});
+
+test('imports and exports essays as empty answer blocks', () => {
+  const [essay] = parseGift('::Essay:: Explain why the sky is blue. {}').items;
+  expect(essay.question).toMatchObject({ type: 'essay', stem: 'Explain why the sky is blue.' });
+
+  const question: EssayQuestion = { ...(essay.question as EssayQuestion), maxWords: 200 };
+  expect(serializeGift([question]).text).toBe('Explain why the sky is blue. {}\n');
+});
@@ -0,0 +1,448 @@
+import {
+  EssayQuestion,
+  MatchingQuestion,
+  MatchingResponse,
+  MCQOption,
+  MCQQuestion,
+  NumericQuestion,
+  OrderingQuestion,
+  Question,
+  ShortAnswerQuestion,
+} from '../types';
+import { generateId } from './assessmentUtils';
+import { ImportResult, ImportedItem, TextExportResult, createImportedItem } from './importUtils';
+import { getResponseMode, getScoringMethod } from './scoring';
+
+interface GiftBlock {
+  line: number;
+  text: string;
+}
+
+interface GiftAnswer {
+  marker: '=' | '~';
+  correct: boolean;
+  weight?: number;
+  text: string;
+  feedback?: string;
+}
+
+const SPECIAL_CHARACTERS = /[~=#{}:\\]/g;
+
+export const escapeGift = (text: string) => text.replace(SPECIAL_CHARACTERS, char => `\\${char}`);
+
+const unescapeGift = (text: string) => text.replace(/\\(.)/g, (_, char: string) => (char === 'n' ? '\n' : char));
+
+// Index of the first unescaped occurrence of any of the characters, or -1
+const findUnescaped = (text: string, characters: string, from = 0) => {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (characters.includes(text[i])) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+const splitUnescaped = (text: string, separator: string) => {
+  const parts: string[] = [];
+  let start = 0;
+  let index = text.indexOf(separator);
+  while (index !== -1) {
+    if (text[index - 1] !== '\\') {
+      parts.push(text.slice(start, index));
+      start = index + separator.length;
+    }
+    index = text.indexOf(separator, index + separator.length);
+  }
+  parts.push(text.slice(start));
+  return parts;
+};
+
+const cleanText = (text: string) => unescapeGift(text.replace(/^\s*\[(html|moodle|plain|markdown)\]/i, '')).trim();
+
+// Comments are dropped without ending the question; questions are separated by blank lines
+const splitBlocks = (source: string): GiftBlock[] => {
+  const blocks: GiftBlock[] = [];
+  let current: GiftBlock | undefined;
+
+  source.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim().startsWith('//')) return;
+    if (!line.trim()) {
+      current = undefined;
+      return;
+    }
+    if (!current) {
+      current = { line: index + 1, text: line };
+      blocks.push(current);
+    } else {
+      current.text += `\n${line}`;
+    }
+  });
+  return blocks;
+};
+
+// $CATEGORY paths carry the topic; the $course$/top prefixes Moodle adds are dropped
+const parseCategory = (value: string) =>
+  value
+    .trim()
+    .replace(/^\$(course|system|module|cat\d+)\$\/?/, '')
+    .replace(/^top(\/|$)/, '')
+    .trim() || undefined;
+
+const parseAnswers = (body: string): GiftAnswer[] => {
+  const answers: GiftAnswer[] = [];
+  let index = findUnescaped(body, '=~');
+
+  while (index !== -1) {
+    const next = findUnescaped(body, '=~', index + 1);
+    const marker = body[index] as GiftAnswer['marker'];
+    let content = body.slice(index + 1, next === -1 ? undefined : next);
+
+    let weight: number | undefined;
+    const weightMatch = /^%(-?\d+(?:\.\d+)?)%/.exec(content);
+    if (weightMatch) {
+      weight = Number(weightMatch[1]);
+      content = content.slice(weightMatch[0].length);
+    }
+
+    const feedbackIndex = findUnescaped(content, '#');
+    answers.push({
+      marker,
+      correct: weight !== undefined ? weight > 0 : marker === '=',
+      weight,
+      text: content.slice(0, feedbackIndex === -1 ? undefined : feedbackIndex),
+      feedback: feedbackIndex === -1 ? undefined : cleanText(content.slice(feedbackIndex + 1)) || undefined,
+    });
+    index = next;
+  }
+  return answers;
+};
+
+const createTrueFalse = (stem: string, topic: string | undefined, answer: string): MCQQuestion => {
+  // {T#shown when wrong#shown when right}
+  const [value, wrongFeedback, rightFeedback] = splitUnescaped(answer, '#').map(part => cleanText(part));
+  const isTrue = /^t(rue)?$/i.test(value);
+  const option = (text: string, isCorrect: boolean): MCQOption => ({
+    id: generateId(),
+    text,
+    isCorrect,
+    feedback: (isCorrect ? rightFeedback : wrongFeedback) || undefined,
+  });
+
+  return {
+    id: generateId(),
+    type: 'mcq',
+    purpose: 'formative',
+    stem,
+    topic,
+    options: [option('True', isTrue), option('False', !isTrue)],
+  };
+};
+
+// Pairs with an empty premise (= -> Pluto) are distractors; a response shared by several premises is many to one
+const createMatching = (stem: string, topic: string | undefined, pairs: string[][]): MatchingQuestion => {
+  const responses: MatchingResponse[] = [];
+  const responseFor = (text: string) => {
+    const existing = responses.find(response => response.text === text);
+    if (existing) return existing;
+    const response = { id: generateId(), text };
+    responses.push(response);
+    return response;
+  };
+
+  const premises = pairs.flatMap(([premise, response]) => {
+    const paired = responseFor(cleanText(response));
+    return cleanText(premise) ? [{ id: generateId(), text: cleanText(premise), responseId: paired.id }] : [];
+  });
+  const pairedIds = premises.map(premise => premise.responseId);
+
+  return {
+    id: generateId(),
+    type: 'matching',
+    purpose: 'formative',
+    stem,
+    topic,
+    mode: new Set(pairedIds).size === pairedIds.length ? 'oneToOne' : 'manyToOne',
+    premises,
+    responses,
+  };
+};
+
+// Parses 3.14:0.01, 3.14 or 1..5; undefined when the text is none of these
+const parseNumericAnswer = (text: string): Pick<NumericQuestion, 'answerMode' | 'value' | 'tolerance' | 'min' | 'max'> | undefined => {
+  const toNumber = (part: string) => (part.trim() && Number.isFinite(Number(part)) ? Number(part) : undefined);
+  const value = cleanText(text);
+  const range = value.split('..');
+  if (range.length === 2) {
+    const [min, max] = range.map(toNumber);
+    return min !== undefined && max !== undefined ? { answerMode: 'range', min, max } : undefined;
+  }
+  const [center, tolerance, ...rest] = value.split(':').map(toNumber);
+  if (center === undefined || rest.length > 0 || (value.includes(':') && tolerance === undefined)) return undefined;
+  return { answerMode: 'exact', value: center, tolerance: tolerance || undefined };
+};
+
+// {#3.14:0.01}, {#1..5} or {#=3.14:0.01#feedback =%50%3.1:0.1}; only the full-credit answer is kept
+const createNumeric = (stem: string, topic: string | undefined, body: string) => {
+  const issues: string[] = [];
+  const answers: Omit<GiftAnswer, 'marker'>[] = findUnescaped(body, '=~') === -1
+    ? [{ correct: true, text: body }]
+    : parseAnswers(body);
+  const answer = answers.find(entry => entry.correct && (entry.weight === undefined || entry.weight === 100));
+  const parsed = answer && parseNumericAnswer(answer.text);
+  if (!parsed) return { issues: ['No full-credit numerical answer found'] };
+  if (answers.length > 1) issues.push('Only the full-credit numerical answer is imported');
+
+  const question: NumericQuestion = {
+    id: generateId(),
+    type: 'numeric',
+    purpose: 'formative',
+    stem,
+    topic,
+    ...parsed,
+    toleranceType: 'absolute',
+    units: [],
+    correctFeedback: answer.feedback,
+  };
+  return { question, issues };
+};
+
+// Weights become the credit of each answer; answers without one are worth full credit
+const createShortAnswer = (stem: string, topic: string | undefined, answers: GiftAnswer[]): ShortAnswerQuestion => ({
+  id: generateId(),
+  type: 'short-answer',
+  purpose: 'formative',
+  stem,
+  topic,
+  answers: answers.map(answer => ({
+    id: generateId(),
+    text: cleanText(answer.text),
+    credit: Math.min(Math.max(answer.weight ?? 100, 0), 100),
+    feedback: answer.feedback,
+  })),
+});
+
+const parseQuestion = (block: GiftBlock, topic: string | undefined): ImportedItem => {
+  const source = `Line ${block.line}`;
+  const fail = (message: string) => createImportedItem(source, undefined, [`${source}: ${message}`]);
+  const issues: string[] = [];
+
+  let text = block.text;
+  const titleMatch = /^\s*::((?:\\.|[^\\])*?)::/.exec(text);
+  if (titleMatch) text = text.slice(titleMatch[0].length);
+
+  const open = findUnescaped(text, '{');
+  if (open === -1) return fail('No answer block found; descriptions are not imported');
+  const close = findUnescaped(text, '}', open + 1);
+  if (close === -1) return fail('Missing closing "}"');
+
+  const before = cleanText(text.slice(0, open));
+  const after = cleanText(text.slice(close + 1));
+  // Missing word questions keep a blank where the answers were
+  const stem = (after ? `${before} _____ ${after}` : before) || (titleMatch ? cleanText(titleMatch[1]) : '');
+
+  let body = text.slice(open + 1, close).trim();
+  const generalFeedback = body.indexOf('####');
+  if (generalFeedback !== -1) {
+    body = body.slice(0, generalFeedback).trim();
+    issues.push(`${source}: General feedback (####) is not imported`);
+  }
+
+  if (!body) {
+    const question: EssayQuestion = { id: generateId(), type: 'essay', purpose: 'formative', stem, topic };
+    return createImportedItem(source, question, issues);
+  }
+  if (body.startsWith('#')) {
+    const numeric = createNumeric(stem, topic, body.slice(1).trim());
+    const numericIssues = [...issues, ...numeric.issues.map(issue => `${source}: ${issue}`)];
+    return createImportedItem(source, numeric.question, numericIssues);
+  }
+  if (/^(t|f|true|false)(#|$)/i.test(body)) {
+    return createImportedItem(source, createTrueFalse(stem, topic, body), issues);
+  }
+
+  const answers = parseAnswers(body);
+  if (answers.length === 0) return fail('No answers found in the answer block');
+
+  const pairs = answers.map(answer => splitUnescaped(answer.text, '->'));
+  if (pairs.some(pair => pair.length > 1)) {
+    if (pairs.some(pair => pair.length !== 2)) return fail('Every matching answer needs one "->" between its two sides');
+
+    // Matching pairs onto positions (=Step -> 1) describe an order
+    const positions = pairs.map(pair => Number(cleanText(pair[1])));
+    const isOrdering = positions.every(position => Number.isInteger(position) && position > 0) &&
+      new Set(positions).size === positions.length && pairs.every(pair => cleanText(pair[0]));
+    if (!isOrdering) {
+      return createImportedItem(source, createMatching(stem, topic, pairs), issues);
+    }
+
+    const question: OrderingQuestion = {
+      id: generateId(),
+      type: 'ordering',
+      purpose: 'formative',
+      stem,
+      topic,
+      items: pairs
+        .map((pair, index) => ({ text: cleanText(pair[0]), position: positions[index] }))
+        .sort((a, b) => a.position - b.position)
+        .map(({ text: itemText }, order) => ({ id: generateId(), text: itemText, order })),
+    };
+    return createImportedItem(source, question, issues);
+  }
+
+  if (answers.every(answer => answer.marker === '=')) {
+    return createImportedItem(source, createShortAnswer(stem, topic, answers), issues);
+  }
+
+  const question: MCQQuestion = {
+    id: generateId(),
+    type: 'mcq',
+    purpose: 'formative',
+    stem,
+    topic,
+    options: answers.map(answer => ({
+      id: generateId(),
+      text: cleanText(answer.text),
+      isCorrect: answer.correct,
+      feedback: answer.feedback,
+    })),
+  };
+  return createImportedItem(source, question, issues);
+};
+
+export const parseGift = (source: string, name = 'Pasted GIFT'): ImportResult => {
+  const result: ImportResult = { format: 'GIFT', name, items: [], errors: [] };
+  let topic: string | undefined;
+
+  splitBlocks(source).forEach(block => {
+    let current = block;
+    const categoryMatch = /^\s*\$CATEGORY:(.*)(\n|$)/i.exec(current.text);
+    if (categoryMatch) {
+      topic = parseCategory(categoryMatch[1]);
+      // A question may follow its category line without a blank line in between
+      const rest = current.text.slice(categoryMatch[0].length);
+      if (!rest.trim()) return;
+      current = { line: current.line + 1, text: rest };
+    }
+    result.items.push(parseQuestion(current, topic));
+  });
+
+  if (result.items.length === 0) {
+    result.errors.push('No questions found');
+  }
+  return result;
+};
+
+// Moodle only accepts certain percentages, which 100 / n with five decimals matches
+const formatWeight = (weight: number) => `%${Number(weight.toFixed(5))}%`;
+
+// A line starting with // would be read back as a comment
+const serializeText = (text: string) =>
+  escapeGift(text.trim().replace(/\n\s*\n+/g, '\n')).replace(/^(\s*)\/\//gm, '$1\\//');
+
+// An arrow inside either side of a pair would split it again on import
+const serializePairText = (text: string) => serializeText(text).replace(/->/g, '\\->');
+
+// Multiple response becomes Moodle's weighted answers; only right minus wrong maps exactly,
+// the other methods take all credit away for any wrong choice
+const serializeMcq = (question: MCQQuestion) => {
+  const correctCount = question.options.filter(option => option.isCorrect).length;
+  const wrongWeight = getScoringMethod(question) === 'rightMinusWrong' ? -100 / correctCount : -100;
+  const answers = question.options.map(option => {
+    const marker = getResponseMode(question) === 'multiple' && correctCount > 0
+      ? `~${formatWeight(option.isCorrect ? 100 / correctCount : wrongWeight)}`
+      : option.isCorrect ? '=' : '~';
+    const feedback = option.feedback?.trim() ? ` #${serializeText(option.feedback)}` : '';
+    return `  ${marker}${serializeText(option.text)}${feedback}`;
+  });
+  return `${serializeText(question.stem)} {\n${answers.join('\n')}\n}`;
+};
+
+// GIFT has no ordering type; items become matching pairs onto their positions
+const serializeOrdering = (question: OrderingQuestion) => {
+  const pairs = [...question.items]
+    .sort((a, b) => a.order - b.order)
+    .map((item, index) => `  =${serializePairText(item.text)} -> ${index + 1}`);
+  return `${serializeText(question.stem)} {\n${pairs.join('\n')}\n}`;
+};
+
+// Distractors are pairs without a premise; GIFT has no feedback per pair
+const serializeMatching = (question: MatchingQuestion) => {
+  const pairedIds = question.premises.map(premise => premise.responseId);
+  const pairs = [
+    ...question.premises.flatMap(premise => {
+      const response = question.responses.find(entry => entry.id === premise.responseId);
+      return response ? [`  =${serializePairText(premise.text)} -> ${serializePairText(response.text)}`] : [];
+    }),
+    ...question.responses
+      .filter(response => !pairedIds.includes(response.id))
+      .map(response => `  = -> ${serializePairText(response.text)}`),
+  ];
+  return `${serializeText(question.stem)} {\n${pairs.join('\n')}\n}`;
+};
+
+// Relative tolerances are written as the absolute tolerance they allow; units and significant figures are not part of GIFT
+const serializeNumeric = (question: NumericQuestion) => {
+  const tolerance = question.tolerance ?? 0;
+  const allowed = question.toleranceType === 'relative' ? (Math.abs(question.value ?? 0) * tolerance) / 100 : tolerance;
+  const answer = question.answerMode === 'range'
+    ? `${question.min}..${question.max}`
+    : `${question.value}${allowed ? `:${Number(allowed.toPrecision(12))}` : ''}`;
+  const feedback = question.correctFeedback?.trim() ? `#${serializeText(question.correctFeedback)}` : '';
+  return `${serializeText(question.stem)} {#${feedback ? `=${answer}${feedback}` : answer}}`;
+};
+
+// Word limits, the model answer and the rubric are not part of GIFT
+const serializeEssay = (question: EssayQuestion) => `${serializeText(question.stem)} {}`;
+
+const serializeShortAnswer = (question: ShortAnswerQuestion) => {
+  const answers = question.answers.map(answer => {
+    const weight = answer.credit < 100 ? formatWeight(answer.credit) : '';
+    const feedback = answer.feedback?.trim() ? ` #${serializeText(answer.feedback)}` : '';
+    return `  =${weight}${serializeText(answer.text)}${feedback}`;
+  });
+  return `${serializeText(question.stem)} {\n${answers.join('\n')}\n}`;
+};
+
+export const serializeGift = (questions: Question[]): TextExportResult => {
+  const blocks: string[] = [];
+  const skipped: TextExportResult['skipped'] = [];
+  let topic: string | undefined;
+
+  questions.forEach(question => {
+    if (question.type === 'hotspot') {
+      skipped.push({ question, reason: 'Hotspot questions have no GIFT equivalent' });
+      return;
+    }
+    if (question.type === 'cloze') {
+      // GIFT's missing word format has a single gap and no case or pattern options
+      skipped.push({ question, reason: 'Fill in the blanks questions have no GIFT equivalent' });
+      return;
+    }
+    if (question.type === 'categorize') {
+      skipped.push({ question, reason: 'Categorize questions have no GIFT equivalent' });
+      return;
+    }
+    if (question.type === 'short-answer' && question.answers.some(answer => answer.isPattern)) {
+      skipped.push({ question, reason: 'Pattern answers have no GIFT equivalent' });
+      return;
+    }
+
+    const questionTopic = question.topic?.trim() || undefined;
+    if (questionTopic !== topic) {
+      blocks.push(`$CATEGORY: $course$/top${questionTopic ? `/${questionTopic}` : ''}`);
+      topic = questionTopic;
+    }
+    blocks.push(
+      question.type === 'mcq' ? serializeMcq(question) :
+      question.type === 'ordering' ? serializeOrdering(question) :
+      question.type === 'matching' ? serializeMatching(question) :
+      question.type === 'numeric' ? serializeNumeric(question) :
+      question.type === 'essay' ? serializeEssay(question) :
+      serializeShortAnswer(question)
+    );
+  });
+
+  return { text: blocks.length > 0 ? `${blocks.join('\n\n')}\n` : '', skipped };
+};
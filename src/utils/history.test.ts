@@ -0,0 +1,40 @@
+import { MCQQuestion } from '../types';
+import { createHistoryState, getTextEditKey, historyReducer } from './history';
+import { createEmptyQuestion } from './assessmentUtils';
+
+test('coalesces changes with the same key inside the window', () => {
+  let state = createHistoryState('');
+  state = historyReducer(state, { type: 'set', state: 'a', coalesceKey: 'stem', timestamp: 1000 });
+  state = historyReducer(state, { type: 'set', state: 'ab', coalesceKey: 'stem', timestamp: 1200 });
+  state = historyReducer(state, { type: 'set', state: 'abc', coalesceKey: 'stem', timestamp: 3000 });
+
+  expect(state.past).toEqual(['', 'ab']);
+
+  state = historyReducer(state, { type: 'undo' });
+  expect(state.present).toBe('ab');
+  state = historyReducer(state, { type: 'redo' });
+  expect(state.present).toBe('abc');
+});
+
+test('drops the oldest steps beyond the limit', () => {
+  let state = createHistoryState(0);
+  for (let i = 1; i <= 5; i++) {
+    state = historyReducer(state, { type: 'set', state: i, timestamp: i }, 3);
+  }
+  expect(state.past).toEqual([2, 3, 4]);
+});
+
+test('identifies single text field edits', () => {
+  const question = createEmptyQuestion('mcq') as MCQQuestion;
+  const [first] = question.options;
+
+  expect(getTextEditKey(question, { ...question, stem: 'W' })).toBe(`${question.id}:stem`);
+  expect(getTextEditKey(question, {
+    ...question,
+    options: question.options.map(opt => (opt.id === first.id ? { ...opt, text: 'Red' } : opt)),
+  })).toBe(`${question.id}:options:${first.id}:text`);
+  expect(getTextEditKey(question, {
+    ...question,
+    options: question.options.map(opt => ({ ...opt, isCorrect: opt.id === first.id })),
+  })).toBeUndefined();
+});
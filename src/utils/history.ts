@@ -0,0 +1,120 @@
+import { Question } from '../types';
+
+export interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  lastCoalesceKey?: string;
+  lastChangeAt: number;
+}
+
+export interface HistoryChangeOptions {
+  // Consecutive changes with the same key inside the coalesce window become one undo step
+  coalesceKey?: string;
+}
+
+export type HistoryAction<T> =
+  | { type: 'set'; state: T; coalesceKey?: string; timestamp: number }
+  | { type: 'replace'; state: T }
+  | { type: 'reset'; state: T }
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+// Snapshots share unchanged questions by reference, so each step mostly costs
+// the edited question; the limit keeps long sessions bounded.
+export const DEFAULT_HISTORY_LIMIT = 100;
+export const DEFAULT_COALESCE_WINDOW = 1000;
+
+export const createHistoryState = <T>(present: T): HistoryState<T> => ({
+  past: [],
+  present,
+  future: [],
+  lastChangeAt: 0,
+});
+
+export const historyReducer = <T>(
+  state: HistoryState<T>,
+  action: HistoryAction<T>,
+  limit = DEFAULT_HISTORY_LIMIT,
+  coalesceWindow = DEFAULT_COALESCE_WINDOW
+): HistoryState<T> => {
+  switch (action.type) {
+    case 'set': {
+      if (action.state === state.present) return state;
+
+      const coalesce =
+        !!action.coalesceKey &&
+        action.coalesceKey === state.lastCoalesceKey &&
+        action.timestamp - state.lastChangeAt < coalesceWindow;
+
+      return {
+        past: coalesce ? state.past : [...state.past, state.present].slice(-limit),
+        present: action.state,
+        future: [],
+        lastCoalesceKey: action.coalesceKey,
+        lastChangeAt: action.timestamp,
+      };
+    }
+    case 'replace':
+      return { ...state, present: action.state };
+    case 'reset':
+      return createHistoryState(action.state);
+    case 'undo': {
+      if (state.past.length === 0) return state;
+      return {
+        past: state.past.slice(0, -1),
+        present: state.past[state.past.length - 1],
+        future: [state.present, ...state.future],
+        lastChangeAt: 0,
+      };
+    }
+    case 'redo': {
+      if (state.future.length === 0) return state;
+      return {
+        past: [...state.past, state.present].slice(-limit),
+        present: state.future[0],
+        future: state.future.slice(1),
+        lastChangeAt: 0,
+      };
+    }
+    default:
+      return state;
+  }
+};
+
+// Returns a key identifying a single text field edit (e.g. typing in the stem or
+// in one option), so rapid keystrokes can be grouped into one undo step.
+// Any structural change (adding, removing, reordering, toggling) returns undefined.
+export const getTextEditKey = (prev: Question, next: Question): string | undefined => {
+  if (prev.id !== next.id || prev.type !== next.type) return undefined;
+
+  const before = prev as unknown as Record<string, unknown>;
+  const after = next as unknown as Record<string, unknown>;
+  const changed = Object.keys({ ...before, ...after }).filter(key => before[key] !== after[key]);
+  if (changed.length !== 1) return undefined;
+
+  const [field] = changed;
+  const oldValue = before[field];
+  const newValue = after[field];
+
+  if (typeof newValue === 'string' && (typeof oldValue === 'string' || oldValue === undefined)) {
+    return `${next.id}:${field}`;
+  }
+
+  if (Array.isArray(oldValue) && Array.isArray(newValue) && oldValue.length === newValue.length) {
+    const changedEntries = newValue
+      .map((entry, index) => ({ entry, previous: oldValue[index] }))
+      .filter(({ entry, previous }) => entry !== previous);
+    if (changedEntries.length !== 1) return undefined;
+
+    const { entry, previous } = changedEntries[0];
+    if (!entry || !previous || entry.id === undefined || entry.id !== previous.id) return undefined;
+
+    const entryFields = Object.keys({ ...previous, ...entry }).filter(key => previous[key] !== entry[key]);
+    if (entryFields.length === 1 && typeof entry[entryFields[0]] === 'string') {
+      return `${next.id}:${field}:${entry.id}:${entryFields[0]}`;
+    }
+  }
+
+  return undefined;
+};
@@ -0,0 +1,29 @@
+import { ellipsePoints, insertMidpoint, rectanglePoints, snapPoint, translatePoints } from './hotspotGeometry';
+
+const square = rectanglePoints({ x: 0.6, y: 0.4 }, { x: 0.2, y: 0.1 });
+
+test('draws rectangles from any two corners and ellipses as 16 points', () => {
+  expect(square).toEqual([{ x: 0.2, y: 0.1 }, { x: 0.6, y: 0.1 }, { x: 0.6, y: 0.4 }, { x: 0.2, y: 0.4 }]);
+  const ellipse = ellipsePoints({ x: 0.5, y: 0.5 }, 0.2, 0.1);
+  expect(ellipse).toHaveLength(16);
+  expect(ellipse[0]).toEqual({ x: 0.7, y: 0.5 });
+  expect(ellipse[4].y).toBeCloseTo(0.6);
+});
+
+test('moves zones without changing their shape at the edges of the image', () => {
+  expect(translatePoints(square, 0.1, 0.1)[0]).toEqual({ x: 0.3, y: 0.2 });
+  expect(translatePoints(square, 0.6, -0.5)).toEqual([{ x: 0.6, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 0.3 }, { x: 0.6, y: 0.3 }]);
+});
+
+test('inserts a point halfway along an edge, including the closing one', () => {
+  expect(insertMidpoint(square, 0)[1]).toEqual({ x: 0.4, y: 0.1 });
+  expect(insertMidpoint(square, 3)).toHaveLength(5);
+  expect(insertMidpoint(square, 3)[4]).toEqual({ x: 0.2, y: 0.25 });
+});
+
+test('snaps to the nearest point in range and then to the edges', () => {
+  const tolerance = { x: 0.02, y: 0.05 };
+  expect(snapPoint({ x: 0.61, y: 0.43 }, square, tolerance)).toEqual({ x: 0.6, y: 0.4 });
+  expect(snapPoint({ x: 0.64, y: 0.4 }, square, tolerance)).toEqual({ x: 0.64, y: 0.4 });
+  expect(snapPoint({ x: 0.99, y: 0.03 }, square, tolerance)).toEqual({ x: 1, y: 0 });
+});
@@ -0,0 +1,90 @@
+import { HotspotPoint, HotspotZone, ImageSize } from '../types';
+
+// Zones drawn before coordinates were normalized are in image pixels, which reach past 1 for any zone
+// larger than a pixel
+export const hasPixelCoordinates = (zones: HotspotZone[]) =>
+  zones.some(zone => zone.coordinates.some(point => point.x > 1 || point.y > 1));
+
+// Four decimals place a point within a pixel on images up to 10,000 pixels across
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+export const clampPoint = (point: HotspotPoint): HotspotPoint => ({
+  x: round(Math.min(Math.max(point.x, 0), 1)),
+  y: round(Math.min(Math.max(point.y, 0), 1)),
+});
+
+export const toImagePixels = (point: HotspotPoint, size: ImageSize): HotspotPoint => ({
+  x: Math.round(point.x * size.width),
+  y: Math.round(point.y * size.height),
+});
+
+// Records the image size and converts zones still stored in pixels of that image
+export const normalizeHotspotZones = <T extends { zones: HotspotZone[]; imageSize?: ImageSize }>(question: T, imageSize: ImageSize): T => ({
+  ...question,
+  imageSize,
+  zones: hasPixelCoordinates(question.zones)
+    ? question.zones.map(zone => ({
+        ...zone,
+        coordinates: zone.coordinates.map(point => clampPoint({ x: point.x / imageSize.width, y: point.y / imageSize.height })),
+      }))
+    : question.zones,
+});
+
+// Circles and ellipses are stored as polygons of 16 points, like the QTI shapes they import from
+export const ellipsePoints = (centre: HotspotPoint, rx: number, ry: number): HotspotPoint[] =>
+  Array.from({ length: 16 }, (_, i) => ({
+    x: centre.x + rx * Math.cos((i / 16) * 2 * Math.PI),
+    y: centre.y + ry * Math.sin((i / 16) * 2 * Math.PI),
+  }));
+
+export const rectanglePoints = (a: HotspotPoint, b: HotspotPoint): HotspotPoint[] => [
+  { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y) },
+  { x: Math.max(a.x, b.x), y: Math.min(a.y, b.y) },
+  { x: Math.max(a.x, b.x), y: Math.max(a.y, b.y) },
+  { x: Math.min(a.x, b.x), y: Math.max(a.y, b.y) },
+];
+
+// Moves every point by the same offset, stopping at the edges of the image so the zone keeps its shape
+export const translatePoints = (points: HotspotPoint[], dx: number, dy: number): HotspotPoint[] => {
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const x = Math.min(Math.max(dx, -Math.min(...xs)), 1 - Math.max(...xs));
+  const y = Math.min(Math.max(dy, -Math.min(...ys)), 1 - Math.max(...ys));
+  return points.map(point => clampPoint({ x: point.x + x, y: point.y + y }));
+};
+
+// Adds a point halfway along the edge that starts at the given point
+export const insertMidpoint = (points: HotspotPoint[], index: number): HotspotPoint[] => {
+  const a = points[index];
+  const b = points[(index + 1) % points.length];
+  return [...points.slice(0, index + 1), clampPoint({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }), ...points.slice(index + 1)];
+};
+
+// The nearest candidate within the tolerance on both axes, or the point itself; tolerances are fractions of
+// the image so they can stand for the same distance on screen at any zoom
+export const snapPoint = (
+  point: HotspotPoint,
+  candidates: HotspotPoint[],
+  tolerance: HotspotPoint
+): HotspotPoint => {
+  let best: HotspotPoint | undefined;
+  let bestDistance = Infinity;
+  candidates.forEach(candidate => {
+    const dx = Math.abs(candidate.x - point.x) / tolerance.x;
+    const dy = Math.abs(candidate.y - point.y) / tolerance.y;
+    if (dx <= 1 && dy <= 1 && dx * dx + dy * dy < bestDistance) {
+      best = candidate;
+      bestDistance = dx * dx + dy * dy;
+    }
+  });
+  if (best) return best;
+
+  // Points close to an edge of the image go onto it
+  return {
+    x: point.x < tolerance.x ? 0 : point.x > 1 - tolerance.x ? 1 : point.x,
+    y: point.y < tolerance.y ? 0 : point.y > 1 - tolerance.y ? 1 : point.y,
+  };
+};
+
+export const formatPoint = (point: HotspotPoint) =>
+  `(${Math.round(point.x * 1000) / 10}%, ${Math.round(point.y * 1000) / 10}%)`;
@@ -0,0 +1,211 @@
+import { AssessmentState, Question } from '../types';
+import { createQuestionRefs, createSection, orderQuestionsBySections, syncAssessmentQuestions } from './assessmentStructure';
+import { generateId, validateQuestion } from './assessmentUtils';
+import { createClozeMarker } from './cloze';
+
+export interface ImportedItem {
+  // Where the item came from (QTI identifier, line number, ...), shown in the preview
+  source: string;
+  question?: Question;
+  // Constructs that couldn't be imported; the item is skipped when there is no question
+  issues: string[];
+  validationErrors: string[];
+}
+
+export interface ImportResult {
+  format: string;
+  name: string;
+  items: ImportedItem[];
+  // Problems with the input as a whole, e.g. a missing manifest
+  errors: string[];
+}
+
+// Text formats can't express every question type; those are left out and listed
+export interface TextExportResult {
+  text: string;
+  skipped: { question: Question; reason: string }[];
+}
+
+export type ImportTarget =
+  | { kind: 'section'; sectionId: string }
+  | { kind: 'newSection'; title: string };
+
+export const createImportedItem = (source: string, question?: Question, issues: string[] = []): ImportedItem => ({
+  source,
+  question,
+  issues,
+  validationErrors: question ? validateQuestion(question).errors : [],
+});
+
+export const getImportableQuestions = (result: ImportResult) =>
+  result.items.flatMap(item => (item.question ? [item.question] : []));
+
+// Adds the imported questions to the end of a section (or a new one) in a single state change
+export const mergeImportedQuestions = (
+  state: AssessmentState,
+  questions: Question[],
+  target: ImportTarget
+): AssessmentState => {
+  if (questions.length === 0) return state;
+
+  const importedIds = questions.map(question => question.id);
+  const sections = target.kind === 'newSection'
+    ? [...state.assessment.sections, createSection(target.title, importedIds)]
+    : state.assessment.sections.map(section =>
+        section.id === target.sectionId
+          ? { ...section, questionRefs: [...section.questionRefs, ...createQuestionRefs(importedIds)] }
+          : section
+      );
+
+  const allQuestions = [...state.questions, ...questions];
+  const assessment = syncAssessmentQuestions({ ...state.assessment, sections }, allQuestions);
+
+  return {
+    ...state,
+    assessment,
+    questions: orderQuestionsBySections(allQuestions, assessment),
+    currentQuestionId: questions[0].id,
+  };
+};
+
+export type AssessmentImportMode = 'merge' | 'replace';
+
+const getChildren = (question: Question): { id: string }[] => {
+  switch (question.type) {
+    case 'mcq':
+      return question.options;
+    case 'ordering':
+      return question.items;
+    case 'hotspot':
+      return [...question.zones, ...(question.labels ?? [])];
+    case 'cloze':
+      return [...question.blanks, ...question.blanks.flatMap(blank => blank.choices)];
+    case 'matching':
+      return [...question.premises, ...question.responses];
+    case 'numeric':
+      return [];
+    case 'short-answer':
+      return question.answers;
+    case 'categorize':
+      return [...question.categories, ...question.items];
+    case 'essay':
+      return question.rubric ? [...question.rubric.levels, ...question.rubric.criteria] : [];
+  }
+};
+
+const withNewIds = (question: Question): Question => {
+  const renew = <T extends { id: string }>(entries: T[]) => entries.map(entry => ({ ...entry, id: generateId() }));
+  switch (question.type) {
+    case 'mcq':
+      return { ...question, id: generateId(), options: renew(question.options) };
+    case 'ordering':
+      return { ...question, id: generateId(), items: renew(question.items) };
+    case 'hotspot': {
+      // Labels refer to zones by id, so they follow the new ids
+      const zones = renew(question.zones);
+      const newIds = new Map(question.zones.map((zone, index) => [zone.id, zones[index].id]));
+      const labels = question.labels?.map(label => ({
+        ...label,
+        id: generateId(),
+        zoneIds: label.zoneIds.flatMap(zoneId => newIds.get(zoneId) ?? []),
+      }));
+      return { ...question, id: generateId(), zones, labels };
+    }
+    case 'cloze': {
+      // The passage refers to blanks by id, so its markers follow the new ids
+      const blanks = question.blanks.map(blank => ({ ...blank, id: generateId(), choices: renew(blank.choices) }));
+      const passage = question.blanks.reduce(
+        (text, blank, index) => text.split(createClozeMarker(blank.id)).join(createClozeMarker(blanks[index].id)),
+        question.passage
+      );
+      return { ...question, id: generateId(), passage, blanks };
+    }
+    case 'matching': {
+      // Premises refer to responses by id, so the pairs follow the new ids
+      const responses = renew(question.responses);
+      const newIds = new Map(question.responses.map((response, index) => [response.id, responses[index].id]));
+      const premises = question.premises.map(premise => ({
+        ...premise,
+        id: generateId(),
+        responseId: newIds.get(premise.responseId) ?? '',
+      }));
+      return { ...question, id: generateId(), premises, responses };
+    }
+    case 'numeric':
+      return { ...question, id: generateId() };
+    case 'short-answer':
+      return { ...question, id: generateId(), answers: renew(question.answers) };
+    case 'categorize': {
+      // Items refer to categories by id, so they follow the new ids
+      const categories = renew(question.categories);
+      const newIds = new Map(question.categories.map((category, index) => [category.id, categories[index].id]));
+      const items = question.items.map(item => ({
+        ...item,
+        id: generateId(),
+        categoryId: newIds.get(item.categoryId) ?? '',
+      }));
+      return { ...question, id: generateId(), categories, items };
+    }
+    case 'essay': {
+      const { rubric } = question;
+      return {
+        ...question,
+        id: generateId(),
+        rubric: rubric && { levels: renew(rubric.levels), criteria: renew(rubric.criteria) },
+      };
+    }
+  }
+};
+
+// Imported questions whose id (or any option, item, zone, blank, premise, response, answer, category or rubric id) is already taken get fresh ids
+// throughout, and sections are renamed the same way, so merging never produces duplicates
+export const remapCollidingIds = (imported: AssessmentState, existing: AssessmentState): AssessmentState => {
+  const used = new Set([
+    ...existing.questions.flatMap(question => [question.id, ...getChildren(question).map(child => child.id)]),
+    ...existing.assessment.sections.map(section => section.id),
+  ]);
+  const questionIds = new Map<string, string>();
+
+  const questions = imported.questions.map(question => {
+    const ids = [question.id, ...getChildren(question).map(child => child.id)];
+    const remapped = ids.some(id => used.has(id)) ? withNewIds(question) : question;
+    [remapped.id, ...getChildren(remapped).map(child => child.id)].forEach(id => used.add(id));
+    questionIds.set(question.id, remapped.id);
+    return remapped;
+  });
+
+  const sections = imported.assessment.sections.map(section => {
+    const id = used.has(section.id) ? generateId() : section.id;
+    used.add(id);
+    return {
+      ...section,
+      id,
+      questionRefs: section.questionRefs.map(ref => ({ ...ref, questionId: questionIds.get(ref.questionId) ?? ref.questionId })),
+    };
+  });
+
+  return {
+    assessment: { ...imported.assessment, sections },
+    questions,
+    currentQuestionId: imported.currentQuestionId && questionIds.get(imported.currentQuestionId),
+  };
+};
+
+// Merging keeps the current assessment details and appends the imported sections after its own
+export const mergeImportedAssessment = (state: AssessmentState, imported: AssessmentState): AssessmentState => {
+  if (imported.questions.length === 0) return state;
+
+  const remapped = remapCollidingIds(imported, state);
+  const allQuestions = [...state.questions, ...remapped.questions];
+  const assessment = syncAssessmentQuestions(
+    { ...state.assessment, sections: [...state.assessment.sections, ...remapped.assessment.sections] },
+    allQuestions
+  );
+
+  return {
+    ...state,
+    assessment,
+    questions: orderQuestionsBySections(allQuestions, assessment),
+    currentQuestionId: remapped.questions[0].id,
+  };
+};
@@ -0,0 +1,70 @@
+import { AssessmentState, MCQQuestion } from '../types';
+import { createEmptyAssessment } from './assessmentStructure';
+import { mergeImportedAssessment } from './importUtils';
+import { JSON_FILE_FORMAT, createAssessmentFile, parseAssessmentFile } from './jsonFormat';
+import { STORAGE_VERSION } from './storage';
+
+const mcq: MCQQuestion = {
+  id: 'q1',
+  type: 'mcq',
+  purpose: 'formative',
+  stem: 'Pick one',
+  options: [
+    { id: 'a', text: 'Right', isCorrect: true, feedback: 'Well done' },
+    { id: 'b', text: 'Wrong', isCorrect: false, feedback: 'Try again' },
+  ],
+};
+
+const state: AssessmentState = {
+  assessment: { ...createEmptyAssessment(['q1']), title: 'Quiz' },
+  questions: [mcq],
+  currentQuestionId: 'q1',
+};
+
+test('round-trips the assessment state', async () => {
+  const { text } = await createAssessmentFile(state);
+  const imported = parseAssessmentFile(text);
+
+  expect(imported.errors).toEqual([]);
+  expect(imported.kind).toBe('assessment');
+  expect(imported.state).toEqual(state);
+});
+
+test('reports schema problems by path', () => {
+  const file = {
+    format: JSON_FILE_FORMAT,
+    version: STORAGE_VERSION,
+    state: {
+      assessment: { ...state.assessment, sections: [{ id: 's', title: 'S', questionRefs: [{ questionId: 'missing', points: 1 }] }] },
+      questions: [{ ...mcq, options: [{ id: 'a', text: 3, isCorrect: 'yes' }, { id: 'a', text: 'Other', isCorrect: false }] }],
+    },
+  };
+
+  expect(parseAssessmentFile(JSON.stringify(file)).errors).toEqual([
+    'state.questions[0].options[1].id: duplicate id "a"',
+    'state.questions[0].options[0].text: expected a string but found a number',
+    'state.questions[0].options[0].isCorrect: expected a boolean but found a string',
+    'state.assessment.sections[0].questionRefs[0].questionId: no question has the id "missing"',
+  ]);
+  expect(parseAssessmentFile('{"format": "other", "version": 99}').errors).toHaveLength(2);
+  expect(parseAssessmentFile('not json').errors[0]).toMatch(/^The file is not valid JSON/);
+});
+
+test('gives merged questions new ids only where they collide', () => {
+  const other: MCQQuestion = { ...mcq, id: 'q2', options: [{ id: 'c', text: 'C', isCorrect: true }] };
+  const imported: AssessmentState = {
+    assessment: createEmptyAssessment(['q1', 'q2']),
+    questions: [mcq, other],
+  };
+
+  const merged = mergeImportedAssessment(state, imported);
+  const [, copy, kept] = merged.questions as MCQQuestion[];
+
+  expect(merged.questions).toHaveLength(3);
+  expect(copy.id).not.toBe('q1');
+  expect(copy.options.map(option => option.id)).not.toContain('a');
+  expect(kept).toBe(other);
+  expect(merged.assessment.sections).toHaveLength(2);
+  expect(merged.assessment.sections[1].questionRefs.map(ref => ref.questionId)).toEqual([copy.id, 'q2']);
+  expect(merged.assessment.title).toBe('Quiz');
+});
@@ -0,0 +1,448 @@
+import { AssessmentState, Question } from '../types';
+import { createSection } from './assessmentStructure';
+import { STORAGE_VERSION, StoredAssessmentState, deserializeAssessmentState, isObject, serializeQuestion } from './storage';
+
+// Marks files written by this app; the version follows STORAGE_VERSION so the storage migrations apply
+export const JSON_FILE_FORMAT = 'assessment-authoring-tool';
+
+export interface AssessmentFile {
+  format: typeof JSON_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  state: StoredAssessmentState;
+}
+
+export type AssessmentFileKind = 'assessment' | 'questions';
+
+export interface AssessmentFileImport {
+  // Selection exports only carry questions, which arrive in a single section
+  kind: AssessmentFileKind;
+  state?: AssessmentState;
+  // Each error starts with the path of the offending value, e.g. state.questions[2].options[0].text
+  errors: string[];
+}
+
+const QUESTION_TYPES = ['mcq', 'ordering', 'hotspot', 'cloze', 'matching', 'numeric', 'short-answer', 'categorize', 'essay'];
+const HOTSPOT_INTERACTIONS = ['click', 'labels'];
+const BLANK_MODES = ['text', 'dropdown'];
+const MATCHING_MODES = ['oneToOne', 'manyToOne'];
+const NUMERIC_ANSWER_MODES = ['exact', 'range'];
+const TOLERANCE_TYPES = ['absolute', 'relative'];
+const PURPOSES = ['formative', 'summative'];
+const BLOOMS_LEVELS = ['Remember', 'Understand', 'Apply', 'Analyze', 'Evaluate', 'Create'];
+const RESPONSE_MODES = ['single', 'multiple'];
+const SCORING_METHODS = ['allOrNothing', 'partialCredit', 'rightMinusWrong'];
+
+const describe = (value: unknown) =>
+  value === null ? 'null' : Array.isArray(value) ? 'an array' : `a ${typeof value}`;
+
+// Records "path: problem" for every mismatch instead of stopping at the first one
+const createValidator = () => {
+  const errors: string[] = [];
+
+  const fail = (path: string, message: string) => {
+    errors.push(`${path}: ${message}`);
+  };
+
+  const object = (value: unknown, path: string): value is Record<string, unknown> => {
+    if (isObject(value)) return true;
+    fail(path, `expected an object but found ${describe(value)}`);
+    return false;
+  };
+
+  const array = (value: unknown, path: string): value is unknown[] => {
+    if (Array.isArray(value)) return true;
+    fail(path, `expected an array but found ${describe(value)}`);
+    return false;
+  };
+
+  const string = (value: unknown, path: string, { optional = false, nonEmpty = false } = {}) => {
+    if (value === undefined && optional) return;
+    if (typeof value !== 'string') fail(path, `expected a string but found ${describe(value)}`);
+    else if (nonEmpty && !value.trim()) fail(path, 'must not be empty');
+  };
+
+  const number = (value: unknown, path: string, { optional = false, min = -Infinity } = {}) => {
+    if (value === undefined && optional) return;
+    if (typeof value !== 'number' || !Number.isFinite(value)) fail(path, `expected a number but found ${describe(value)}`);
+    else if (value < min) fail(path, `must be at least ${min}`);
+  };
+
+  const boolean = (value: unknown, path: string) => {
+    if (typeof value !== 'boolean') fail(path, `expected a boolean but found ${describe(value)}`);
+  };
+
+  const oneOf = (value: unknown, allowed: string[], path: string, { optional = false } = {}) => {
+    if (value === undefined && optional) return;
+    if (typeof value !== 'string' || !allowed.includes(value)) {
+      fail(path, `expected one of ${allowed.join(', ')} but found ${JSON.stringify(value) ?? 'nothing'}`);
+    }
+  };
+
+  // Ids must be unique within their list so they can be referenced
+  const ids = (entries: unknown[], path: string) => {
+    const seen = new Set<string>();
+    entries.forEach((entry, index) => {
+      if (!isObject(entry)) return;
+      string(entry.id, `${path}[${index}].id`, { nonEmpty: true });
+      if (typeof entry.id !== 'string') return;
+      if (seen.has(entry.id)) fail(`${path}[${index}].id`, `duplicate id "${entry.id}"`);
+      seen.add(entry.id);
+    });
+  };
+
+  return { errors, fail, object, array, string, number, boolean, oneOf, ids };
+};
+
+type Validator = ReturnType<typeof createValidator>;
+
+const validateQuestion = (v: Validator, question: unknown, path: string) => {
+  if (!v.object(question, path)) return;
+
+  v.oneOf(question.type, QUESTION_TYPES, `${path}.type`);
+  v.oneOf(question.purpose, PURPOSES, `${path}.purpose`);
+  v.string(question.stem, `${path}.stem`);
+  v.string(question.topic, `${path}.topic`, { optional: true });
+  v.string(question.learningObjective, `${path}.learningObjective`, { optional: true });
+  v.oneOf(question.bloomsLevel, BLOOMS_LEVELS, `${path}.bloomsLevel`, { optional: true });
+  if (question.tags !== undefined && v.array(question.tags, `${path}.tags`)) {
+    question.tags.forEach((tag, index) => v.string(tag, `${path}.tags[${index}]`));
+  }
+
+  if (question.type === 'mcq') {
+    v.oneOf(question.responseMode, RESPONSE_MODES, `${path}.responseMode`, { optional: true });
+    v.oneOf(question.scoring, SCORING_METHODS, `${path}.scoring`, { optional: true });
+    v.number(question.minSelections, `${path}.minSelections`, { optional: true, min: 1 });
+    v.number(question.maxSelections, `${path}.maxSelections`, { optional: true, min: 1 });
+  }
+
+  if (question.type === 'mcq' && v.array(question.options, `${path}.options`)) {
+    v.ids(question.options, `${path}.options`);
+    question.options.forEach((option, index) => {
+      const optionPath = `${path}.options[${index}]`;
+      if (!v.object(option, optionPath)) return;
+      v.string(option.text, `${optionPath}.text`);
+      v.boolean(option.isCorrect, `${optionPath}.isCorrect`);
+      v.string(option.feedback, `${optionPath}.feedback`, { optional: true });
+    });
+  }
+
+  if (question.type === 'ordering' && v.array(question.items, `${path}.items`)) {
+    v.ids(question.items, `${path}.items`);
+    question.items.forEach((item, index) => {
+      const itemPath = `${path}.items[${index}]`;
+      if (!v.object(item, itemPath)) return;
+      v.string(item.text, `${itemPath}.text`);
+      v.number(item.order, `${itemPath}.order`, { min: 0 });
+    });
+  }
+
+  if (question.type === 'hotspot') {
+    v.string(question.imageUrl, `${path}.imageUrl`, { optional: true });
+    if (question.imageFile !== undefined && v.object(question.imageFile, `${path}.imageFile`)) {
+      v.string(question.imageFile.name, `${path}.imageFile.name`);
+      v.string(question.imageFile.type, `${path}.imageFile.type`);
+      v.number(question.imageFile.lastModified, `${path}.imageFile.lastModified`);
+    }
+    if (question.imageSize !== undefined && v.object(question.imageSize, `${path}.imageSize`)) {
+      v.number(question.imageSize.width, `${path}.imageSize.width`, { min: 1 });
+      v.number(question.imageSize.height, `${path}.imageSize.height`, { min: 1 });
+    }
+    if (v.array(question.zones, `${path}.zones`)) {
+      v.ids(question.zones, `${path}.zones`);
+      question.zones.forEach((zone, index) => {
+        const zonePath = `${path}.zones[${index}]`;
+        if (!v.object(zone, zonePath)) return;
+        v.string(zone.label, `${zonePath}.label`, { optional: true });
+        if (!v.array(zone.coordinates, `${zonePath}.coordinates`)) return;
+        zone.coordinates.forEach((point, pointIndex) => {
+          const pointPath = `${zonePath}.coordinates[${pointIndex}]`;
+          if (!v.object(point, pointPath)) return;
+          v.number(point.x, `${pointPath}.x`);
+          v.number(point.y, `${pointPath}.y`);
+        });
+      });
+    }
+    v.oneOf(question.interaction, HOTSPOT_INTERACTIONS, `${path}.interaction`, { optional: true });
+    if (question.labels !== undefined && v.array(question.labels, `${path}.labels`)) {
+      v.ids(question.labels, `${path}.labels`);
+      question.labels.forEach((label, index) => {
+        const labelPath = `${path}.labels[${index}]`;
+        if (!v.object(label, labelPath)) return;
+        v.string(label.text, `${labelPath}.text`);
+        v.string(label.imageUrl, `${labelPath}.imageUrl`, { optional: true });
+        v.string(label.feedback, `${labelPath}.feedback`, { optional: true });
+        if (v.array(label.zoneIds, `${labelPath}.zoneIds`)) {
+          label.zoneIds.forEach((zoneId, zoneIndex) => v.string(zoneId, `${labelPath}.zoneIds[${zoneIndex}]`));
+        }
+      });
+    }
+  }
+
+  if (question.type === 'cloze') {
+    v.string(question.passage, `${path}.passage`);
+    if (v.array(question.blanks, `${path}.blanks`)) {
+      v.ids(question.blanks, `${path}.blanks`);
+      question.blanks.forEach((blank, index) => {
+        const blankPath = `${path}.blanks[${index}]`;
+        if (!v.object(blank, blankPath)) return;
+        v.oneOf(blank.mode, BLANK_MODES, `${blankPath}.mode`);
+        if (v.array(blank.acceptedAnswers, `${blankPath}.acceptedAnswers`)) {
+          blank.acceptedAnswers.forEach((answer, answerIndex) => v.string(answer, `${blankPath}.acceptedAnswers[${answerIndex}]`));
+        }
+        if (blank.caseSensitive !== undefined) v.boolean(blank.caseSensitive, `${blankPath}.caseSensitive`);
+        if (blank.ignoreWhitespace !== undefined) v.boolean(blank.ignoreWhitespace, `${blankPath}.ignoreWhitespace`);
+        v.string(blank.pattern, `${blankPath}.pattern`, { optional: true });
+        v.string(blank.feedback, `${blankPath}.feedback`, { optional: true });
+        if (v.array(blank.choices, `${blankPath}.choices`)) {
+          v.ids(blank.choices, `${blankPath}.choices`);
+          blank.choices.forEach((choice, choiceIndex) => {
+            const choicePath = `${blankPath}.choices[${choiceIndex}]`;
+            if (!v.object(choice, choicePath)) return;
+            v.string(choice.text, `${choicePath}.text`);
+            v.boolean(choice.isCorrect, `${choicePath}.isCorrect`);
+          });
+        }
+      });
+    }
+  }
+
+  if (question.type === 'matching') {
+    v.oneOf(question.mode, MATCHING_MODES, `${path}.mode`);
+    if (v.array(question.premises, `${path}.premises`)) {
+      v.ids(question.premises, `${path}.premises`);
+      question.premises.forEach((premise, index) => {
+        const premisePath = `${path}.premises[${index}]`;
+        if (!v.object(premise, premisePath)) return;
+        v.string(premise.text, `${premisePath}.text`);
+        v.string(premise.responseId, `${premisePath}.responseId`);
+        v.string(premise.feedback, `${premisePath}.feedback`, { optional: true });
+      });
+    }
+    if (v.array(question.responses, `${path}.responses`)) {
+      v.ids(question.responses, `${path}.responses`);
+      question.responses.forEach((response, index) => {
+        const responsePath = `${path}.responses[${index}]`;
+        if (!v.object(response, responsePath)) return;
+        v.string(response.text, `${responsePath}.text`);
+      });
+    }
+  }
+
+  if (question.type === 'numeric') {
+    v.oneOf(question.answerMode, NUMERIC_ANSWER_MODES, `${path}.answerMode`);
+    v.number(question.value, `${path}.value`, { optional: true });
+    v.number(question.tolerance, `${path}.tolerance`, { optional: true, min: 0 });
+    v.oneOf(question.toleranceType, TOLERANCE_TYPES, `${path}.toleranceType`);
+    v.number(question.min, `${path}.min`, { optional: true });
+    v.number(question.max, `${path}.max`, { optional: true });
+    if (v.array(question.units, `${path}.units`)) {
+      question.units.forEach((unit, index) => v.string(unit, `${path}.units[${index}]`));
+    }
+    if (question.unitRequired !== undefined) v.boolean(question.unitRequired, `${path}.unitRequired`);
+    v.number(question.significantFigures, `${path}.significantFigures`, { optional: true, min: 1 });
+    v.string(question.correctFeedback, `${path}.correctFeedback`, { optional: true });
+    v.string(question.incorrectFeedback, `${path}.incorrectFeedback`, { optional: true });
+  }
+
+  if (question.type === 'short-answer') {
+    if (v.array(question.answers, `${path}.answers`)) {
+      v.ids(question.answers, `${path}.answers`);
+      question.answers.forEach((answer, index) => {
+        const answerPath = `${path}.answers[${index}]`;
+        if (!v.object(answer, answerPath)) return;
+        v.string(answer.text, `${answerPath}.text`);
+        if (answer.isPattern !== undefined) v.boolean(answer.isPattern, `${answerPath}.isPattern`);
+        v.number(answer.credit, `${answerPath}.credit`, { min: 0 });
+        v.string(answer.feedback, `${answerPath}.feedback`, { optional: true });
+      });
+    }
+    if (question.caseSensitive !== undefined) v.boolean(question.caseSensitive, `${path}.caseSensitive`);
+    if (question.ignoreWhitespace !== undefined) v.boolean(question.ignoreWhitespace, `${path}.ignoreWhitespace`);
+    v.string(question.incorrectFeedback, `${path}.incorrectFeedback`, { optional: true });
+  }
+
+  if (question.type === 'categorize') {
+    if (v.array(question.categories, `${path}.categories`)) {
+      v.ids(question.categories, `${path}.categories`);
+      question.categories.forEach((category, index) => {
+        const categoryPath = `${path}.categories[${index}]`;
+        if (!v.object(category, categoryPath)) return;
+        v.string(category.text, `${categoryPath}.text`);
+      });
+    }
+    if (v.array(question.items, `${path}.items`)) {
+      v.ids(question.items, `${path}.items`);
+      question.items.forEach((item, index) => {
+        const itemPath = `${path}.items[${index}]`;
+        if (!v.object(item, itemPath)) return;
+        v.string(item.text, `${itemPath}.text`);
+        v.string(item.categoryId, `${itemPath}.categoryId`);
+        v.string(item.feedback, `${itemPath}.feedback`, { optional: true });
+      });
+    }
+  }
+
+  if (question.type === 'essay') {
+    v.number(question.minWords, `${path}.minWords`, { optional: true, min: 1 });
+    v.number(question.maxWords, `${path}.maxWords`, { optional: true, min: 1 });
+    v.number(question.maxCharacters, `${path}.maxCharacters`, { optional: true, min: 1 });
+    v.string(question.modelAnswer, `${path}.modelAnswer`, { optional: true });
+    if (question.rubric !== undefined && v.object(question.rubric, `${path}.rubric`)) {
+      const rubricPath = `${path}.rubric`;
+      const { levels, criteria } = question.rubric;
+      if (v.array(levels, `${rubricPath}.levels`)) {
+        v.ids(levels, `${rubricPath}.levels`);
+        levels.forEach((level, index) => {
+          const levelPath = `${rubricPath}.levels[${index}]`;
+          if (!v.object(level, levelPath)) return;
+          v.string(level.label, `${levelPath}.label`);
+          v.number(level.points, `${levelPath}.points`, { min: 0 });
+        });
+      }
+      if (v.array(criteria, `${rubricPath}.criteria`)) {
+        v.ids(criteria, `${rubricPath}.criteria`);
+        criteria.forEach((criterion, index) => {
+          const criterionPath = `${rubricPath}.criteria[${index}]`;
+          if (!v.object(criterion, criterionPath)) return;
+          v.string(criterion.title, `${criterionPath}.title`);
+          // One descriptor per level, in the order of the levels
+          if (!v.array(criterion.descriptors, `${criterionPath}.descriptors`)) return;
+          criterion.descriptors.forEach((descriptor, descriptorIndex) =>
+            v.string(descriptor, `${criterionPath}.descriptors[${descriptorIndex}]`)
+          );
+          if (Array.isArray(levels) && criterion.descriptors.length !== levels.length) {
+            v.fail(`${criterionPath}.descriptors`, `expected ${levels.length} descriptors, one per level, but found ${criterion.descriptors.length}`);
+          }
+        });
+      }
+    }
+  }
+};
+
+const validateAssessment = (v: Validator, assessment: unknown, path: string, questionIds: Set<string>) => {
+  if (!v.object(assessment, path)) return;
+
+  v.string(assessment.title, `${path}.title`);
+  v.string(assessment.description, `${path}.description`);
+  v.string(assessment.instructions, `${path}.instructions`);
+  v.number(assessment.timeLimitMinutes, `${path}.timeLimitMinutes`, { optional: true, min: 1 });
+  if (!v.array(assessment.sections, `${path}.sections`)) return;
+
+  v.ids(assessment.sections, `${path}.sections`);
+  const referenced = new Set<string>();
+  assessment.sections.forEach((section, index) => {
+    const sectionPath = `${path}.sections[${index}]`;
+    if (!v.object(section, sectionPath)) return;
+    v.string(section.title, `${sectionPath}.title`);
+    if (!v.array(section.questionRefs, `${sectionPath}.questionRefs`)) return;
+
+    section.questionRefs.forEach((ref, refIndex) => {
+      const refPath = `${sectionPath}.questionRefs[${refIndex}]`;
+      if (!v.object(ref, refPath)) return;
+      v.number(ref.points, `${refPath}.points`, { min: 0 });
+      v.string(ref.questionId, `${refPath}.questionId`, { nonEmpty: true });
+      if (typeof ref.questionId !== 'string') return;
+
+      if (!questionIds.has(ref.questionId)) v.fail(`${refPath}.questionId`, `no question has the id "${ref.questionId}"`);
+      else if (referenced.has(ref.questionId)) v.fail(`${refPath}.questionId`, `question "${ref.questionId}" is already in a section`);
+      referenced.add(ref.questionId);
+    });
+  });
+};
+
+const validateQuestions = (v: Validator, questions: unknown, path: string) => {
+  if (!v.array(questions, path)) return new Set<string>();
+
+  v.ids(questions, path);
+  questions.forEach((question, index) => validateQuestion(v, question, `${path}[${index}]`));
+  return new Set(questions.flatMap(question => (isObject(question) && typeof question.id === 'string' ? [question.id] : [])));
+};
+
+export const parseAssessmentFile = (text: string): AssessmentFileImport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return { kind: 'assessment', errors: [`The file is not valid JSON (${error instanceof Error ? error.message : error})`] };
+  }
+
+  const v = createValidator();
+  if (!v.object(data, 'file')) return { kind: 'assessment', errors: v.errors };
+
+  const kind: AssessmentFileKind = 'state' in data ? 'assessment' : 'questions';
+  if (data.format !== JSON_FILE_FORMAT) {
+    v.fail('format', `expected "${JSON_FILE_FORMAT}"; this is not an assessment file from this app`);
+  }
+  v.number(data.version, 'version', { min: 1 });
+  if (typeof data.version === 'number' && data.version > STORAGE_VERSION) {
+    v.fail('version', `the file was written by a newer version of the app (${data.version}); update before importing`);
+  }
+  if (v.errors.length > 0) return { kind, errors: v.errors };
+
+  if (kind === 'questions') {
+    validateQuestions(v, data.questions, 'questions');
+    if (v.errors.length > 0) return { kind, errors: v.errors };
+
+    const questions = data.questions as StoredAssessmentState['questions'];
+    const section = createSection('Imported questions', questions.map(question => question.id));
+    const snapshot = deserializeAssessmentState({
+      version: data.version,
+      savedAt: 0,
+      state: { assessment: { title: '', description: '', instructions: '', sections: [section] }, questions },
+    });
+    return { kind, state: snapshot?.state, errors: snapshot ? [] : ['The file could not be read'] };
+  }
+
+  if (!v.object(data.state, 'state')) return { kind, errors: v.errors };
+  const questionIds = validateQuestions(v, data.state.questions, 'state.questions');
+  // Files from before the assessment entity existed get one from the storage migrations
+  if ((data.version as number) >= 2) {
+    validateAssessment(v, data.state.assessment, 'state.assessment', questionIds);
+  }
+  if (v.errors.length > 0) return { kind, errors: v.errors };
+
+  const snapshot = deserializeAssessmentState({ version: data.version, savedAt: 0, state: data.state });
+  return { kind, state: snapshot?.state, errors: snapshot ? [] : ['The file could not be read'] };
+};
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Linked hotspot images are embedded so the file works offline; the link is kept when the host refuses
+const embedImage = async (question: Question): Promise<{ question: Question; embedded: boolean }> => {
+  if (question.type !== 'hotspot' || !question.imageUrl || !/^https?:/i.test(question.imageUrl)) {
+    return { question, embedded: true };
+  }
+
+  try {
+    const response = await fetch(question.imageUrl);
+    if (!response.ok) throw new Error(response.statusText);
+    return { question: { ...question, imageUrl: await blobToDataUrl(await response.blob()) }, embedded: true };
+  } catch {
+    return { question, embedded: false };
+  }
+};
+
+export const createAssessmentFile = async (state: AssessmentState) => {
+  const results = await Promise.all(state.questions.map(embedImage));
+  const file: AssessmentFile = {
+    format: JSON_FILE_FORMAT,
+    version: STORAGE_VERSION,
+    exportedAt: new Date().toISOString(),
+    state: {
+      assessment: state.assessment,
+      questions: results.map(result => serializeQuestion(result.question)),
+    },
+  };
+
+  return {
+    text: JSON.stringify(file, null, 2),
+    linkedImages: results.filter(result => !result.embedded).map(result => result.question),
+  };
+};
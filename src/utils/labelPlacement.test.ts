@@ -0,0 +1,32 @@
+import { HotspotQuestion } from '../types';
+import { findCorrectPlacement } from './labelPlacement';
+import { scoreLabelPlacementResponse } from './scoring';
+
+const square = (x: number) => [{ x, y: 0 }, { x: x + 10, y: 0 }, { x: x + 10, y: 10 }, { x, y: 10 }];
+
+const question: HotspotQuestion = {
+  id: 'q1',
+  type: 'hotspot',
+  purpose: 'summative',
+  stem: 'Label the diagram',
+  interaction: 'labels',
+  zones: [{ id: 'z1', coordinates: square(0) }, { id: 'z2', coordinates: square(20) }, { id: 'z3', coordinates: square(40) }],
+  labels: [
+    { id: 'vein', text: 'Vein', zoneIds: ['z1', 'z2'] },
+    { id: 'artery', text: 'Artery', zoneIds: ['z1'] },
+    { id: 'valve', text: 'Valve', zoneIds: ['z3'] },
+    { id: 'lung', text: 'Lung', zoneIds: [] },
+  ],
+};
+
+test('finds a placement that gives every label a zone of its own', () => {
+  expect(findCorrectPlacement(question)).toEqual({ z1: 'artery', z2: 'vein', z3: 'valve' });
+  const crowded = { ...question, labels: [...question.labels!, { id: 'aorta', text: 'Aorta', zoneIds: ['z1'] }] };
+  expect(findCorrectPlacement(crowded)).toBeUndefined();
+});
+
+test('label placement earns a share per label placed on one of its zones', () => {
+  expect(scoreLabelPlacementResponse(question, { z1: 'artery', z2: 'vein', z3: 'valve' })).toBe(1);
+  expect(scoreLabelPlacementResponse(question, { z1: 'vein', z2: 'lung', z3: 'valve' })).toBeCloseTo(2 / 3);
+  expect(scoreLabelPlacementResponse({ ...question, labels: [] }, {})).toBe(0);
+});
@@ -0,0 +1,33 @@
+import { HotspotInteraction, HotspotLabel, HotspotQuestion } from '../types';
+
+export const getHotspotInteraction = (question: HotspotQuestion): HotspotInteraction => question.interaction ?? 'click';
+
+export const isLabelPlacement = (question: HotspotQuestion) => getHotspotInteraction(question) === 'labels';
+
+// Labels that belong on at least one of the zones; the others are distractors
+export const getScoredLabels = (question: HotspotQuestion): HotspotLabel[] => {
+  const zoneIds = new Set(question.zones.map(zone => zone.id));
+  return (question.labels ?? []).filter(label => label.zoneIds.some(zoneId => zoneIds.has(zoneId)));
+};
+
+// Every zone holds one label, so a correct placement gives each scored label a zone of its own. Keyed by
+// zone id; undefined when there is none, e.g. when three labels only belong on the same two zones.
+export const findCorrectPlacement = (question: HotspotQuestion): Record<string, string> | undefined => {
+  const zoneIds = new Set(question.zones.map(zone => zone.id));
+  const labels = getScoredLabels(question);
+  const byId = new Map(labels.map(label => [label.id, label]));
+  const placement: Record<string, string> = {};
+
+  // Moves labels already placed to their other zones to make room (augmenting paths)
+  const place = (label: HotspotLabel, visited: Set<string>): boolean =>
+    label.zoneIds.some(zoneId => {
+      if (!zoneIds.has(zoneId) || visited.has(zoneId)) return false;
+      visited.add(zoneId);
+      const current = placement[zoneId];
+      if (current && !place(byId.get(current)!, visited)) return false;
+      placement[zoneId] = label.id;
+      return true;
+    });
+
+  return labels.every(label => place(label, new Set())) ? placement : undefined;
+};
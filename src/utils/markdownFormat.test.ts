@@ -0,0 +1,135 @@
+import { HotspotQuestion, MCQQuestion, OrderingQuestion, Question } from '../types';
+import { parseMarkdown, serializeMarkdown, syncMarkdownQuestions } from './markdownFormat';
+
+const source = `---
+purpose: summative
+topic: Astronomy
+tags: space, planets
+bloomsLevel: remember
+learningObjective: Name the planets
+---
+# Which planet is largest?
+Pick one.
+
+- [x] Jupiter
+  > Correct: a gas giant
+- [ ] Mars
+  > Too small
+
+# Order the planets from the Sun
+2. Venus
+1. Mercury
+3. Earth
+`;
+
+test('parses options, feedback, numbered items and front-matter with inferred types', () => {
+  const { blocks, diagnostics } = parseMarkdown(source);
+  const [mcq, ordering] = blocks.map(block => block.question);
+
+  expect(diagnostics).toEqual([]);
+  expect(mcq).toMatchObject({
+    type: 'mcq',
+    purpose: 'summative',
+    stem: 'Which planet is largest?\nPick one.',
+    topic: 'Astronomy',
+    tags: ['space', 'planets'],
+    bloomsLevel: 'Remember',
+    learningObjective: 'Name the planets',
+    options: [
+      { text: 'Jupiter', isCorrect: true, feedback: 'Correct: a gas giant' },
+      { text: 'Mars', isCorrect: false, feedback: 'Too small' },
+    ],
+  });
+  expect(ordering.purpose).toBe('formative');
+  expect((ordering as OrderingQuestion).items.map(item => item.text)).toEqual(['Mercury', 'Venus', 'Earth']);
+  expect(blocks.map(block => [block.line, block.endLine])).toEqual([[1, 15], [16, 20]]);
+});
+
+test('reports diagnostics with line numbers', () => {
+  const { diagnostics } = parseMarkdown(`Intro text
+---
+purpose: sometimes
+colour: red
+---
+# Pick one
+- Mars
+1. First
+1. Second
+> Stray feedback`);
+
+  expect(diagnostics).toEqual([
+    { line: 1, severity: 'error', message: 'Start each question with a "# " stem line' },
+    { line: 3, severity: 'error', message: 'Unknown purpose "sometimes"; use formative, summative' },
+    { line: 4, severity: 'warning', message: 'Unknown front-matter key "colour" is ignored' },
+    { line: 7, severity: 'error', message: 'Options need a checkbox: "- [x]" for correct, "- [ ]" for incorrect' },
+    { line: 9, severity: 'error', message: 'Item number 1 is used twice' },
+    { line: 10, severity: 'error', message: 'Feedback ("> ") must follow a checkbox option' },
+  ]);
+});
+
+test('serialized questions parse back to the same questions', () => {
+  const questions: Question[] = [
+    {
+      id: 'q1',
+      type: 'mcq',
+      purpose: 'formative',
+      stem: 'First line\n# not a heading\n\n- not an option',
+      tags: ['a', 'b'],
+      responseMode: 'multiple',
+      scoring: 'partialCredit',
+      maxSelections: 2,
+      options: [
+        { id: 'o1', text: 'Yes\n> still the option', isCorrect: true, feedback: 'Right\nWell done' },
+        { id: 'o2', text: 'No', isCorrect: false, feedback: 'Wrong' },
+      ],
+    },
+    { id: 'q2', type: 'ordering', purpose: 'formative', stem: 'Sort', items: [
+      { id: 'i1', text: 'Second', order: 1 },
+      { id: 'i2', text: 'First', order: 0 },
+    ] },
+    { id: 'q3', type: 'hotspot', purpose: 'formative', stem: 'Click', imageUrl: 'map.png', zones: [
+      { id: 'z1', coordinates: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }] },
+    ] },
+  ];
+
+  const parsed = parseMarkdown(serializeMarkdown(questions));
+  expect(parsed.diagnostics).toEqual([]);
+
+  const synced = syncMarkdownQuestions(questions, parsed.blocks).questions;
+  synced.forEach((question, index) => expect(question).toBe(questions[index]));
+});
+
+test('sync keeps child ids and hotspot zones and reuses generated ids by position', () => {
+  const existing: Question[] = [
+    { id: 'q1', type: 'mcq', purpose: 'formative', stem: 'Old', options: [{ id: 'o1', text: 'A', isCorrect: true }] },
+    { id: 'q2', type: 'hotspot', purpose: 'formative', stem: 'Click', imageUrl: 'map.png', zones: [
+      { id: 'z1', coordinates: [{ x: 0, y: 0 }] },
+    ] },
+  ];
+  const { blocks } = parseMarkdown(`---
+id: q1
+---
+# New
+- [ ] A
+- [x] B
+
+---
+id: q2
+type: hotspot
+---
+# Click here
+
+# Brand new
+- [x] Yes
+`);
+
+  const first = syncMarkdownQuestions(existing, blocks);
+  const [mcq, hotspot, added] = first.questions;
+  expect((mcq as MCQQuestion).options.map(option => option.id)[0]).toBe('o1');
+  expect(mcq.stem).toBe('New');
+  expect(hotspot).toMatchObject({ stem: 'Click here', imageUrl: 'map.png', zones: (existing[1] as HotspotQuestion).zones });
+  expect(first.generatedIds).toEqual([added.id]);
+
+  const second = syncMarkdownQuestions(first.questions, blocks, first.generatedIds);
+  expect(second.questions[2]).toBe(added);
+});
@@ -0,0 +1,532 @@
+import {
+  BloomsLevel,
+  CategorizeQuestion,
+  ClozeQuestion,
+  EssayQuestion,
+  HotspotQuestion,
+  MatchingQuestion,
+  MCQQuestion,
+  MCQResponseMode,
+  MCQScoringMethod,
+  NumericQuestion,
+  OrderingQuestion,
+  Purpose,
+  Question,
+  QuestionType,
+  ShortAnswerQuestion,
+} from '../types';
+import { generateId } from './assessmentUtils';
+import { getResponseMode } from './scoring';
+import { isLabelPlacement } from './labelPlacement';
+
+export interface MarkdownDiagnostic {
+  line: number;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface MarkdownBlock {
+  // First and last source line of the question, 1-based
+  line: number;
+  endLine: number;
+  // Only set when the front-matter names an id
+  id?: string;
+  // Child ids are left empty; syncMarkdownQuestions fills them in
+  question: Question;
+}
+
+export interface MarkdownParseResult {
+  blocks: MarkdownBlock[];
+  diagnostics: MarkdownDiagnostic[];
+}
+
+const QUESTION_TYPES: QuestionType[] = ['mcq', 'ordering', 'hotspot', 'cloze', 'matching', 'numeric', 'short-answer', 'categorize', 'essay'];
+const PURPOSES: Purpose[] = ['formative', 'summative'];
+const BLOOMS_LEVELS: BloomsLevel[] = ['Remember', 'Understand', 'Apply', 'Analyze', 'Evaluate', 'Create'];
+const RESPONSE_MODES: MCQResponseMode[] = ['single', 'multiple'];
+const SCORING_METHODS: MCQScoringMethod[] = ['allOrNothing', 'partialCredit', 'rightMinusWrong'];
+const FRONT_MATTER_KEYS = [
+  'id', 'type', 'purpose', 'topic', 'tags', 'bloomsLevel', 'learningObjective',
+  'responseMode', 'scoring', 'minSelections', 'maxSelections',
+];
+
+const FENCE = /^---\s*$/;
+const STEM_LINE = /^#(?:\s+(.*))?$/;
+const OPTION_LINE = /^[-*]\s+\[([ xX])\]\s?(.*)$/;
+const BARE_LIST_LINE = /^[-*]\s+/;
+const ITEM_LINE = /^(\d+)[.)]\s+(.*)$/;
+const FEEDBACK_LINE = /^\s*>\s?(.*)$/;
+const COMMENT_START = /^\s*<!--/;
+const COMMENT_END = /-->\s*$/;
+// Stem and option lines that would otherwise be read as markup are escaped with a backslash
+const MARKUP_LINE = /^(\\|#|---|[-*]\s|\d+[.)]\s|>|<!--|\s)/;
+
+interface Draft {
+  line: number;
+  fields: Record<string, { line: number; value: string }>;
+  stem?: string[];
+  options: { line: number; isCorrect: boolean; text: string[]; feedback: string[] }[];
+  items: { line: number; number: number; text: string[] }[];
+}
+
+const createDraft = (line: number): Draft => ({ line, fields: {}, options: [], items: [] });
+
+const unescape = (line: string) => (line.startsWith('\\') ? line.slice(1) : line);
+
+const joinLines = (lines: string[]) => lines.join('\n').trim();
+
+const finishDraft = (draft: Draft, diagnostics: MarkdownDiagnostic[]): MarkdownBlock => {
+  const error = (line: number, message: string) => diagnostics.push({ line, severity: 'error', message });
+  const field = (key: string) => draft.fields[key]?.value || undefined;
+
+  if (!draft.stem) {
+    error(draft.line, 'The question has no stem; start it with "# "');
+  }
+
+  const pick = <T extends string>(key: string, values: T[], label: string): T | undefined => {
+    const value = field(key);
+    if (value === undefined) return undefined;
+    const match = values.find(candidate => candidate.toLowerCase() === value.toLowerCase());
+    if (!match) error(draft.fields[key].line, `Unknown ${label} "${value}"; use ${values.join(', ')}`);
+    return match;
+  };
+
+  const explicitType = pick('type', QUESTION_TYPES, 'question type');
+  const purpose = pick('purpose', PURPOSES, 'purpose') ?? 'formative';
+  const bloomsLevel = pick('bloomsLevel', BLOOMS_LEVELS, "Bloom's level");
+
+  const hasOptions = draft.options.length > 0;
+  const hasItems = draft.items.length > 0;
+  const type = explicitType ?? (hasItems && !hasOptions ? 'ordering' : 'mcq');
+
+  if (!explicitType && hasOptions && hasItems) {
+    error(draft.items[0].line, 'A question has either checkbox options or numbered items, not both');
+  } else if (type !== 'mcq' && hasOptions) {
+    error(draft.options[0].line, `Checkbox options belong to multiple choice questions, not ${type}`);
+  } else if (type !== 'ordering' && hasItems) {
+    error(draft.items[0].line, `Numbered items belong to ordering questions, not ${type}`);
+  }
+
+  const count = (key: string) => {
+    const value = field(key);
+    if (value === undefined) return undefined;
+    if (/^[1-9]\d*$/.test(value)) return Number(value);
+    error(draft.fields[key].line, `${key} must be a whole number of at least 1`);
+    return undefined;
+  };
+
+  const seenNumbers = new Set<number>();
+  draft.items.forEach(item => {
+    if (seenNumbers.has(item.number)) error(item.line, `Item number ${item.number} is used twice`);
+    seenNumbers.add(item.number);
+  });
+
+  const tags = field('tags')?.split(',').map(tag => tag.trim()).filter(Boolean);
+  const base = {
+    id: field('id') ?? '',
+    purpose,
+    stem: joinLines(draft.stem ?? []),
+    topic: field('topic'),
+    tags: tags && tags.length > 0 ? Array.from(new Set(tags)) : undefined,
+    learningObjective: field('learningObjective'),
+    bloomsLevel,
+  };
+
+  let question: Question;
+  switch (type) {
+    case 'mcq': {
+      // Without a mode, several correct options mean multiple response
+      const responseMode = pick('responseMode', RESPONSE_MODES, 'response mode') ??
+        (draft.options.filter(option => option.isCorrect).length > 1 ? 'multiple' : 'single');
+      question = {
+        ...base,
+        type,
+        responseMode,
+        scoring: pick('scoring', SCORING_METHODS, 'scoring method'),
+        minSelections: count('minSelections'),
+        maxSelections: count('maxSelections'),
+        options: draft.options.map(option => ({
+          id: '',
+          text: joinLines(option.text),
+          isCorrect: option.isCorrect,
+          feedback: option.feedback.length > 0 ? joinLines(option.feedback) : undefined,
+        })),
+      };
+      break;
+    }
+    case 'ordering':
+      question = {
+        ...base,
+        type,
+        items: [...draft.items]
+          .sort((a, b) => a.number - b.number)
+          .map((item, order) => ({ id: '', text: joinLines(item.text), order })),
+      };
+      break;
+    case 'hotspot':
+      question = { ...base, type, zones: [] };
+      break;
+    case 'cloze':
+      question = { ...base, type, passage: '', blanks: [] };
+      break;
+    case 'matching':
+      question = { ...base, type, mode: 'oneToOne', premises: [], responses: [] };
+      break;
+    case 'numeric':
+      question = { ...base, type, answerMode: 'exact', toleranceType: 'absolute', units: [] };
+      break;
+    case 'short-answer':
+      question = { ...base, type, answers: [] };
+      break;
+    case 'categorize':
+      question = { ...base, type, categories: [], items: [] };
+      break;
+    case 'essay':
+      question = { ...base, type };
+      break;
+  }
+
+  return { line: draft.line, endLine: draft.line, id: field('id'), question };
+};
+
+export const parseMarkdown = (source: string): MarkdownParseResult => {
+  const blocks: MarkdownBlock[] = [];
+  const diagnostics: MarkdownDiagnostic[] = [];
+  const error = (line: number, message: string) => diagnostics.push({ line, severity: 'error', message });
+
+  let draft: Draft | undefined;
+  let frontMatterLine: number | undefined;
+  let commentLine: number | undefined;
+  // What indented lines continue: the stem, the last option or the last item
+  let lastPart: 'stem' | 'option' | 'item' | undefined;
+
+  const startQuestion = (line: number) => {
+    if (draft) blocks.push(finishDraft(draft, diagnostics));
+    draft = createDraft(line);
+    lastPart = undefined;
+  };
+
+  const lines = source.split(/\r?\n/);
+  lines.forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    const line = rawLine.trimEnd();
+
+    if (commentLine !== undefined) {
+      if (COMMENT_END.test(line)) commentLine = undefined;
+      return;
+    }
+
+    if (frontMatterLine !== undefined) {
+      if (FENCE.test(line)) {
+        frontMatterLine = undefined;
+        return;
+      }
+      if (!line.trim()) return;
+      const separator = line.indexOf(':');
+      if (separator === -1) {
+        error(lineNumber, 'Front-matter lines look like "key: value"');
+        return;
+      }
+      const key = line.slice(0, separator).trim();
+      if (!FRONT_MATTER_KEYS.includes(key)) {
+        diagnostics.push({ line: lineNumber, severity: 'warning', message: `Unknown front-matter key "${key}" is ignored` });
+        return;
+      }
+      draft!.fields[key] = { line: lineNumber, value: line.slice(separator + 1).trim() };
+      return;
+    }
+
+    if (COMMENT_START.test(line)) {
+      if (!COMMENT_END.test(line)) commentLine = lineNumber;
+      return;
+    }
+
+    if (FENCE.test(line)) {
+      startQuestion(lineNumber);
+      frontMatterLine = lineNumber;
+      return;
+    }
+
+    const stemMatch = STEM_LINE.exec(line);
+    if (stemMatch) {
+      if (!draft || draft.stem) startQuestion(lineNumber);
+      draft!.stem = [stemMatch[1] ?? ''];
+      lastPart = 'stem';
+      return;
+    }
+
+    if (!line.trim()) {
+      // Blank lines inside the stem are kept as paragraph breaks
+      if (lastPart === 'stem') draft!.stem!.push('');
+      return;
+    }
+
+    if (!draft?.stem) {
+      error(lineNumber, 'Start each question with a "# " stem line');
+      return;
+    }
+
+    const optionMatch = OPTION_LINE.exec(line);
+    if (optionMatch) {
+      draft.options.push({ line: lineNumber, isCorrect: optionMatch[1] !== ' ', text: [optionMatch[2]], feedback: [] });
+      lastPart = 'option';
+      return;
+    }
+
+    const itemMatch = ITEM_LINE.exec(line);
+    if (itemMatch) {
+      draft.items.push({ line: lineNumber, number: Number(itemMatch[1]), text: [itemMatch[2]] });
+      lastPart = 'item';
+      return;
+    }
+
+    const feedbackMatch = FEEDBACK_LINE.exec(line);
+    if (feedbackMatch) {
+      if (lastPart === 'option') {
+        draft.options[draft.options.length - 1].feedback.push(feedbackMatch[1]);
+      } else {
+        error(lineNumber, 'Feedback ("> ") must follow a checkbox option');
+      }
+      return;
+    }
+
+    if (BARE_LIST_LINE.test(line)) {
+      error(lineNumber, 'Options need a checkbox: "- [x]" for correct, "- [ ]" for incorrect');
+      return;
+    }
+
+    const indented = /^\s/.test(line);
+    const text = unescape(line.trim());
+    if (lastPart === 'stem') {
+      draft.stem.push(unescape(line));
+    } else if (indented && lastPart === 'option') {
+      draft.options[draft.options.length - 1].text.push(text);
+    } else if (indented && lastPart === 'item') {
+      draft.items[draft.items.length - 1].text.push(text);
+    } else {
+      error(lineNumber, 'Unexpected text after the answers; indent it to continue the line above');
+    }
+  });
+
+  if (frontMatterLine !== undefined) error(frontMatterLine, 'Front-matter is missing its closing "---"');
+  if (commentLine !== undefined) error(commentLine, 'Comment is missing its closing "-->"');
+  if (draft) blocks.push(finishDraft(draft, diagnostics));
+
+  // Each block runs up to the next one, so the cursor always maps to a question
+  blocks.forEach((block, index) => {
+    block.endLine = index + 1 < blocks.length ? blocks[index + 1].line - 1 : lines.length;
+  });
+
+  const seenIds = new Map<string, number>();
+  blocks.forEach(block => {
+    if (!block.id) return;
+    const firstLine = seenIds.get(block.id);
+    if (firstLine !== undefined) error(block.line, `Id "${block.id}" is already used by the question on line ${firstLine}`);
+    else seenIds.set(block.id, block.line);
+  });
+
+  diagnostics.sort((a, b) => a.line - b.line);
+  return { blocks, diagnostics };
+};
+
+const escapeLine = (line: string) => (MARKUP_LINE.test(line) ? `\\${line}` : line);
+
+// Front-matter values are single lines
+const frontMatterValue = (value: string) => value.replace(/\s*\n\s*/g, ' ').trim();
+
+const serializeQuestion = (question: Question) => {
+  const frontMatter = [
+    `id: ${question.id}`,
+    `type: ${question.type}`,
+    `purpose: ${question.purpose}`,
+    question.topic?.trim() && `topic: ${frontMatterValue(question.topic)}`,
+    question.tags && question.tags.length > 0 && `tags: ${question.tags.join(', ')}`,
+    question.bloomsLevel && `bloomsLevel: ${question.bloomsLevel}`,
+    question.learningObjective?.trim() && `learningObjective: ${frontMatterValue(question.learningObjective)}`,
+    ...(question.type === 'mcq' && getResponseMode(question) === 'multiple'
+      ? [
+          'responseMode: multiple',
+          question.scoring && `scoring: ${question.scoring}`,
+          question.minSelections && `minSelections: ${question.minSelections}`,
+          question.maxSelections && `maxSelections: ${question.maxSelections}`,
+        ]
+      : []),
+  ].filter(Boolean);
+
+  const [firstStemLine, ...stemLines] = question.stem.trim().split('\n');
+  const lines = ['---', ...frontMatter, '---', `# ${firstStemLine}`.trimEnd(), ...stemLines.map(escapeLine)];
+  const answerLines: string[] = [];
+  // Continuation lines are indented, so their leading whitespace is not kept
+  const continuation = (indent: string) => (line: string) => `${indent}${escapeLine(line.trim())}`.trimEnd();
+
+  switch (question.type) {
+    case 'mcq':
+      question.options.forEach(option => {
+        const [first, ...rest] = option.text.trim().split('\n');
+        answerLines.push(`- [${option.isCorrect ? 'x' : ' '}] ${first}`.trimEnd(), ...rest.map(continuation('  ')));
+        if (option.feedback?.trim()) {
+          answerLines.push(...option.feedback.trim().split('\n').map(line => `  > ${line}`.trimEnd()));
+        }
+      });
+      break;
+    case 'ordering':
+      [...question.items]
+        .sort((a, b) => a.order - b.order)
+        .forEach((item, index) => {
+          const [first, ...rest] = item.text.trim().split('\n');
+          answerLines.push(`${index + 1}. ${first}`.trimEnd(), ...rest.map(continuation('   ')));
+        });
+      break;
+    case 'hotspot': {
+      const zones = `${question.zones.length} zone${question.zones.length !== 1 ? 's' : ''}`;
+      const labels = question.labels?.length ?? 0;
+      answerLines.push(isLabelPlacement(question)
+        ? `<!-- ${zones}, ${labels} label${labels !== 1 ? 's' : ''} and the image are edited in the visual editor -->`
+        : `<!-- ${zones} and the image are edited in the visual editor -->`);
+      break;
+    }
+    case 'cloze':
+      answerLines.push(`<!-- The passage and ${question.blanks.length} blank${question.blanks.length !== 1 ? 's' : ''} are edited in the visual editor -->`);
+      break;
+    case 'matching':
+      answerLines.push(`<!-- ${question.premises.length} pair${question.premises.length !== 1 ? 's' : ''} and the responses are edited in the visual editor -->`);
+      break;
+    case 'numeric':
+      answerLines.push('<!-- The correct value, tolerance and units are edited in the visual editor -->');
+      break;
+    case 'short-answer':
+      answerLines.push(`<!-- ${question.answers.length} accepted answer${question.answers.length !== 1 ? 's' : ''} are edited in the visual editor -->`);
+      break;
+    case 'categorize':
+      answerLines.push(`<!-- ${question.categories.length} categories and ${question.items.length} item${question.items.length !== 1 ? 's' : ''} are edited in the visual editor -->`);
+      break;
+    case 'essay':
+      answerLines.push(question.rubric
+        ? `<!-- The limits, model answer and a rubric of ${question.rubric.criteria.length} criteri${question.rubric.criteria.length !== 1 ? 'a' : 'on'} are edited in the visual editor -->`
+        : '<!-- The limits, model answer and rubric are edited in the visual editor -->');
+      break;
+  }
+
+  return [...lines, ...(answerLines.length > 0 ? ['', ...answerLines] : [])].join('\n');
+};
+
+export const serializeMarkdown = (questions: Question[]) =>
+  questions.length > 0 ? `${questions.map(serializeQuestion).join('\n\n')}\n` : '';
+
+// Compares questions regardless of key order; File objects compare as equal
+const toStableJson = (value: unknown) =>
+  JSON.stringify(value, (_key, entry) =>
+    entry && typeof entry === 'object' && !Array.isArray(entry)
+      ? Object.fromEntries(Object.keys(entry).sort().map(key => [key, entry[key]]))
+      : entry
+  );
+
+// Keeps the ids, image, zones, labels, passage, blanks, pairs, answers, categories and rubric of the question the block was written from
+const mergeWithExisting = (parsed: Question, existing: Question | undefined): Question => {
+  if (existing?.type !== parsed.type) {
+    switch (parsed.type) {
+      case 'mcq':
+        return { ...parsed, options: parsed.options.map(option => ({ ...option, id: generateId() })) };
+      case 'ordering':
+        return { ...parsed, items: parsed.items.map(item => ({ ...item, id: generateId() })) };
+      case 'hotspot':
+        return { ...parsed, imageUrl: '' };
+      case 'cloze':
+      case 'matching':
+      case 'numeric':
+      case 'short-answer':
+      case 'categorize':
+      case 'essay':
+        return parsed;
+    }
+  }
+
+  switch (parsed.type) {
+    case 'mcq': {
+      const previous = existing as MCQQuestion;
+      return {
+        ...previous,
+        ...parsed,
+        options: parsed.options.map((option, index) => ({ ...option, id: previous.options[index]?.id ?? generateId() })),
+      };
+    }
+    case 'ordering': {
+      const previous = existing as OrderingQuestion;
+      // Items are written in their correct order, which need not be the stored order
+      const previousItems = [...previous.items].sort((a, b) => a.order - b.order);
+      const items = parsed.items.map((item, index) => ({ ...item, id: previousItems[index]?.id ?? generateId() }));
+      return {
+        ...previous,
+        ...parsed,
+        items: toStableJson(items) === toStableJson(previousItems) ? previous.items : items,
+      };
+    }
+    case 'hotspot': {
+      const previous = existing as HotspotQuestion;
+      return { ...previous, ...parsed, zones: previous.zones };
+    }
+    case 'cloze': {
+      const previous = existing as ClozeQuestion;
+      return { ...previous, ...parsed, passage: previous.passage, blanks: previous.blanks };
+    }
+    case 'matching': {
+      const previous = existing as MatchingQuestion;
+      return { ...previous, ...parsed, mode: previous.mode, premises: previous.premises, responses: previous.responses };
+    }
+    case 'numeric': {
+      const previous = existing as NumericQuestion;
+      return {
+        ...previous,
+        ...parsed,
+        answerMode: previous.answerMode,
+        toleranceType: previous.toleranceType,
+        units: previous.units,
+      };
+    }
+    case 'short-answer': {
+      const previous = existing as ShortAnswerQuestion;
+      return { ...previous, ...parsed, answers: previous.answers };
+    }
+    case 'categorize': {
+      const previous = existing as CategorizeQuestion;
+      return { ...previous, ...parsed, categories: previous.categories, items: previous.items };
+    }
+    case 'essay': {
+      const previous = existing as EssayQuestion;
+      return {
+        ...previous,
+        ...parsed,
+        minWords: previous.minWords,
+        maxWords: previous.maxWords,
+        maxCharacters: previous.maxCharacters,
+        modelAnswer: previous.modelAnswer,
+        rubric: previous.rubric,
+      };
+    }
+  }
+};
+
+// Turns parsed blocks into questions, in block order. Blocks without an id get
+// one by position from generatedIds, so retyping a new question keeps its id.
+// Questions whose text did not change are returned as the same objects.
+export const syncMarkdownQuestions = (
+  existing: Question[],
+  blocks: MarkdownBlock[],
+  generatedIds: string[] = []
+): { questions: Question[]; generatedIds: string[] } => {
+  const byId = new Map(existing.map(question => [question.id, question]));
+  const usedGeneratedIds: string[] = [];
+
+  const questions = blocks.map(block => {
+    let id = block.id;
+    if (!id) {
+      id = generatedIds[usedGeneratedIds.length] ?? generateId();
+      usedGeneratedIds.push(id);
+    }
+    const previous = byId.get(id);
+    const merged = mergeWithExisting({ ...block.question, id }, previous);
+    return previous && toStableJson(previous) === toStableJson(merged) ? previous : merged;
+  });
+
+  return { questions, generatedIds: usedGeneratedIds };
+};
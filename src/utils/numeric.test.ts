@@ -0,0 +1,55 @@
+import { NumericQuestion } from '../types';
+import { countSignificantFigures, describeNumericAnswer, parseNumericResponse } from './numeric';
+import { gradeNumericResponse } from './scoring';
+
+const question: NumericQuestion = {
+  id: 'q1',
+  type: 'numeric',
+  purpose: 'formative',
+  stem: 'How fast does a dropped object accelerate?',
+  answerMode: 'exact',
+  value: 9.81,
+  tolerance: 0.05,
+  toleranceType: 'absolute',
+  units: ['m/s²', 'm s^-2'],
+  correctFeedback: 'Right',
+  incorrectFeedback: 'About 9.8',
+};
+
+test('reads signs, decimal commas, E notation and a trailing unit', () => {
+  expect(parseNumericResponse(' -1,5e3 km ')).toEqual({ value: -1500, digits: '1.5', unit: 'km' });
+  expect(parseNumericResponse('−.25')).toEqual({ value: -0.25, digits: '.25', unit: '' });
+  expect(parseNumericResponse('about 3')).toBeUndefined();
+});
+
+test('reads commas between groups of three digits as thousands separators', () => {
+  expect(parseNumericResponse('1,500 N')).toEqual({ value: 1500, digits: '1500', unit: 'N' });
+  expect(parseNumericResponse('12,000,000')).toEqual({ value: 12000000, digits: '12000000', unit: '' });
+  expect(parseNumericResponse('1,234.5')).toEqual({ value: 1234.5, digits: '1234.5', unit: '' });
+  expect(parseNumericResponse('1,50')).toEqual({ value: 1.5, digits: '1.50', unit: '' });
+});
+
+test('counts significant figures the way a marker would', () => {
+  expect(countSignificantFigures('0.0450')).toBe(3);
+  expect(countSignificantFigures('1200')).toBe(2);
+  expect(countSignificantFigures('1200.')).toBe(4);
+});
+
+test('grades against the tolerance, units and significant figures', () => {
+  expect(gradeNumericResponse(question, '9.8')).toEqual({ credit: 1, feedback: 'Right' });
+  expect(gradeNumericResponse(question, '9.86 m s^-2').credit).toBe(1);
+  expect(gradeNumericResponse(question, '9.7')).toEqual({ credit: 0, feedback: 'About 9.8', problem: undefined });
+  expect(gradeNumericResponse(question, '9.8 km').problem).toBe('unit');
+  expect(gradeNumericResponse({ ...question, unitRequired: true }, '9.8').problem).toBe('unit');
+  expect(gradeNumericResponse({ ...question, significantFigures: 3 }, '9.8').problem).toBe('significantFigures');
+  expect(gradeNumericResponse(question, 'nine').problem).toBe('notANumber');
+
+  const relative = { ...question, value: 200, tolerance: 5, toleranceType: 'relative' as const };
+  expect(gradeNumericResponse(relative, '210').credit).toBe(1);
+  expect(gradeNumericResponse(relative, '211').credit).toBe(0);
+
+  const range = { ...question, answerMode: 'range' as const, min: 1, max: 2 };
+  expect([gradeNumericResponse(range, '1').credit, gradeNumericResponse(range, '2.01').credit]).toEqual([1, 0]);
+  expect(describeNumericAnswer(range)).toBe('1 to 2 m/s²');
+  expect(describeNumericAnswer(question)).toBe('9.81 ± 0.05 m/s²');
+});
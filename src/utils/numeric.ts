@@ -0,0 +1,73 @@
+import { NumericQuestion } from '../types';
+
+export interface NumericResponse {
+  value: number;
+  // The digits as typed, without sign or exponent, for counting significant figures
+  digits: string;
+  unit: string;
+}
+
+// A number, optionally in E notation, then whatever unit follows. Commas between groups of three digits
+// (1,500 or 12,000,000.5) separate thousands; any other comma is a decimal comma.
+const NUMBER_PATTERN = /^([+-]?)(?:(\d{1,3}(?:,\d{3})+(?![\d,])(?:\.\d*)?)|(\d+[.,]?\d*|[.,]\d+))(?:[eE]([+-]?\d+))?\s*(.*)$/;
+
+// Undefined when the response does not start with a number
+export const parseNumericResponse = (response: string): NumericResponse | undefined => {
+  const match = NUMBER_PATTERN.exec(response.trim().replace(/−/g, '-'));
+  if (!match) return undefined;
+  const digits = match[2] !== undefined ? match[2].replace(/,/g, '') : match[3].replace(',', '.');
+  return {
+    value: Number(`${match[1]}${digits}${match[4] !== undefined ? `e${match[4]}` : ''}`),
+    digits,
+    unit: match[5].trim(),
+  };
+};
+
+// Leading zeros never count; trailing zeros only count after a decimal point (1200 has 2, 1200. has 4)
+export const countSignificantFigures = (digits: string) => {
+  const significant = digits.replace('.', '').replace(/^0+/, '');
+  return digits.includes('.') ? significant.length : significant.replace(/0+$/, '').length;
+};
+
+const normalizeUnit = (unit: string) => unit.replace(/\s+/g, '');
+
+// Without a unit the response counts unless one is required; any other text after the number is wrong.
+// Units are compared case-sensitively, since mm and Mm differ.
+export const isUnitAccepted = (question: NumericQuestion, unit: string) => {
+  if (!unit) return !question.unitRequired || question.units.length === 0;
+  return question.units.some(accepted => normalizeUnit(accepted) === normalizeUnit(unit));
+};
+
+export const isNumericValueCorrect = (question: NumericQuestion, value: number) => {
+  if (question.answerMode === 'range') {
+    return question.min !== undefined && question.max !== undefined && value >= question.min && value <= question.max;
+  }
+  if (question.value === undefined) return false;
+  const tolerance = question.tolerance ?? 0;
+  const allowed = question.toleranceType === 'relative' ? (Math.abs(question.value) * tolerance) / 100 : tolerance;
+  // Absorbs floating point error, so 0.3 accepts 0.1 + 0.2
+  return Math.abs(value - question.value) <= allowed + 1e-9 * Math.max(1, Math.abs(question.value));
+};
+
+// The correct answer as one line for answer keys
+export const describeNumericAnswer = (question: NumericQuestion) => {
+  const unit = question.units[0]?.trim() ? ` ${question.units[0].trim()}` : '';
+  const figures = question.significantFigures ? ` (${question.significantFigures} significant figures)` : '';
+  if (question.answerMode === 'range') {
+    return `${question.min ?? '?'} to ${question.max ?? '?'}${unit}${figures}`;
+  }
+  const tolerance = question.tolerance
+    ? ` ± ${question.tolerance}${question.toleranceType === 'relative' ? '%' : ''}`
+    : '';
+  return `${question.value ?? '?'}${tolerance}${unit}${figures}`;
+};
+
+// What students are told about the form of their answer, for the paper test and the player
+export const getNumericHint = (question: NumericQuestion) => {
+  const requirements = [
+    question.significantFigures &&
+      `to ${question.significantFigures} significant figure${question.significantFigures !== 1 ? 's' : ''}`,
+    question.unitRequired && question.units.length > 0 && 'with its unit',
+  ].filter(Boolean);
+  return requirements.length > 0 ? `Give your answer ${requirements.join(' ')}.` : undefined;
+};
@@ -0,0 +1,65 @@
+import { AssessmentState, HotspotQuestion, MCQQuestion, OrderingQuestion } from '../types';
+import { createEmptyAssessment } from './assessmentStructure';
+import { buildPrintDocument } from './printDocument';
+
+const mcq: MCQQuestion = {
+  id: 'q1',
+  type: 'mcq',
+  purpose: 'formative',
+  stem: 'Is 1 < 2?',
+  options: [
+    { id: 'a', text: 'No', isCorrect: false, feedback: 'Look again' },
+    { id: 'b', text: 'Yes', isCorrect: true },
+  ],
+};
+
+const ordering: OrderingQuestion = {
+  id: 'q2',
+  type: 'ordering',
+  purpose: 'summative',
+  stem: 'Order the numbers',
+  items: ['One', 'Two', 'Three', 'Four'].map((text, order) => ({ id: text, text, order })),
+};
+
+const hotspot: HotspotQuestion = {
+  id: 'q3',
+  type: 'hotspot',
+  purpose: 'summative',
+  stem: 'Find the door',
+  imageUrl: 'data:image/png;base64,AAAA',
+  zones: [{ id: 'z', label: 'Door', coordinates: [{ x: 0.05, y: 0.1 }, { x: 0.15, y: 0.1 }, { x: 0.15, y: 0.4 }] }],
+};
+
+const state: AssessmentState = {
+  assessment: createEmptyAssessment(['q1', 'q2', 'q3']),
+  questions: [mcq, ordering, hotspot],
+};
+
+const printTest = (includeAnswerKey: boolean, seed = 7) =>
+  buildPrintDocument(state.assessment, state.questions, { includeAnswerKey, includeFeedback: true, seed }, {
+    q3: { width: 200, height: 100 },
+  });
+
+test('numbers questions, letters options and escapes text', () => {
+  const html = printTest(false);
+  expect(html).toContain('<span class="question-number">1.</span>');
+  expect(html).toContain('Is 1 &lt; 2?');
+  expect(html).toContain('B. Yes');
+  expect(html).toContain('viewBox="0 0 200 100"');
+  expect(html).not.toContain('Answer key');
+  expect(html).not.toContain('<polygon');
+  expect(html).toContain('Look again');
+});
+
+test('prints ordering items shuffled and keys them to the printed order', () => {
+  const html = printTest(true);
+  const printed = Array.from(html.matchAll(/<span class="blank"><\/span><span>(\w+)<\/span>/g), match => match[1]);
+  const key = /Blanks from top to bottom: <strong>([\d, ]+)<\/strong>/.exec(html)![1].split(', ').map(Number);
+
+  expect(printed).not.toEqual(['One', 'Two', 'Three', 'Four']);
+  expect(printed.map((text, index) => ({ text, position: key[index] })).sort((a, b) => a.position - b.position).map(e => e.text))
+    .toEqual(['One', 'Two', 'Three', 'Four']);
+  expect(printTest(true)).toBe(html);
+  expect(html).toContain('<strong>B</strong>');
+  expect(html).toContain('<polygon class="zone" points="10,10 30,10 30,40" />');
+});
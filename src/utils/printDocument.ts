@@ -0,0 +1,486 @@
+import {
+  Assessment,
+  CategorizeQuestion,
+  ClozeQuestion,
+  EssayQuestion,
+  HotspotQuestion,
+  HotspotZone,
+  ImageSize,
+  MatchingQuestion,
+  MCQQuestion,
+  NumericQuestion,
+  OrderingQuestion,
+  Question,
+} from '../types';
+import { getTotalPoints } from './assessmentStructure';
+import { SCORING_METHODS, getScoringMethod, getSelectionHint } from './scoring';
+import { describeBlankAnswer, getPlacedBlanks, renderClozePassage } from './cloze';
+import { describeNumericAnswer, getNumericHint } from './numeric';
+import { isLabelPlacement } from './labelPlacement';
+import { hasPixelCoordinates, toImagePixels } from './hotspotGeometry';
+import { getEssayLimitHint, getRubricMaxPoints } from './essay';
+import { createSeededRandom, shuffle } from './shuffle';
+import { describeShortAnswers } from './textAnswers';
+import { escapeXml } from './xml';
+
+export interface PrintOptions {
+  includeAnswerKey: boolean;
+  includeFeedback: boolean;
+  // Seeds the ordering shuffle so a printed test and its answer key always agree
+  seed: number;
+}
+
+interface NumberedQuestion {
+  number: number;
+  question: Question;
+  points: number;
+  // Ordering items in the order they are printed on the test
+  shuffledItems?: OrderingQuestion['items'];
+}
+
+const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+// The proportions of the editor's empty canvas, for images whose size is unknown
+const FALLBACK_IMAGE_SIZE: ImageSize = { width: 640, height: 384 };
+
+const PRINT_STYLES = `
+@page { size: A4; margin: 18mm 16mm; }
+* { box-sizing: border-box; }
+body { font-family: Georgia, 'Times New Roman', serif; font-size: 11pt; line-height: 1.45; color: #000; margin: 0 auto; max-width: 180mm; padding: 12mm 0; }
+h1 { font-size: 18pt; margin: 0 0 4pt; }
+h2 { font-size: 13pt; margin: 18pt 0 8pt; border-bottom: 1px solid #000; padding-bottom: 2pt; }
+.test-meta { font-size: 10pt; color: #333; margin: 0 0 10pt; }
+.student-fields { display: flex; gap: 24pt; margin: 12pt 0; }
+.student-fields span { flex: 1; border-bottom: 1px solid #000; padding-bottom: 2pt; }
+.instructions { border: 1px solid #000; padding: 8pt 10pt; margin-bottom: 12pt; }
+.question { break-inside: avoid; page-break-inside: avoid; margin: 0 0 14pt; }
+.question-heading { display: flex; gap: 6pt; }
+.question-number { font-weight: bold; min-width: 20pt; }
+.question-stem { flex: 1; }
+.question-points { font-size: 9pt; white-space: nowrap; }
+.question-hint { font-style: italic; font-size: 10pt; margin: 2pt 0 0 26pt; }
+.answers { list-style: none; margin: 6pt 0 0 26pt; padding: 0; }
+.answers li { margin: 3pt 0; display: flex; gap: 6pt; }
+.choice-box { display: inline-block; width: 10pt; height: 10pt; border: 1px solid #000; margin-top: 3pt; flex-shrink: 0; }
+.blank { display: inline-block; width: 28pt; border-bottom: 1px solid #000; flex-shrink: 0; }
+.passage { margin: 6pt 0 0 26pt; line-height: 2; }
+.gap { display: inline-block; min-width: 72pt; border-bottom: 1px solid #000; font-size: 8pt; vertical-align: baseline; }
+.gap-choices { list-style: none; margin: 4pt 0 0 26pt; padding: 0; font-size: 10pt; }
+.matching { display: flex; gap: 24pt; margin: 6pt 0 0 26pt; }
+.matching .answers { flex: 1; margin: 0; }
+.answer-line { width: 60%; border-bottom: 1px solid #000; height: 18pt; margin: 6pt 0 0 26pt; }
+.figure { margin: 8pt 0 0 26pt; }
+.figure svg { display: block; width: 100%; height: auto; border: 1px solid #999; }
+.zone { fill: rgba(0, 0, 0, 0.08); stroke: #000; stroke-width: 3; stroke-dasharray: 8 4; }
+.zone-label { font: bold 16px sans-serif; paint-order: stroke; stroke: #fff; stroke-width: 4px; }
+.label-image { max-width: 48pt; max-height: 48pt; }
+.page-break { break-before: page; page-break-before: always; }
+.key-list { margin: 0; padding-left: 0; list-style: none; }
+.key-list > li { break-inside: avoid; page-break-inside: avoid; margin-bottom: 10pt; }
+.key-list ol { margin: 2pt 0 0 26pt; }
+.feedback-option { margin: 2pt 0 0 26pt; }
+.essay-line { border-bottom: 1px solid #999; height: 22pt; margin-left: 26pt; }
+.model-answer { margin: 4pt 0; padding-left: 8pt; border-left: 2px solid #999; }
+.rubric { width: 100%; border-collapse: collapse; margin: 6pt 0 0; font-size: 9pt; }
+.rubric th, .rubric td { border: 1px solid #000; padding: 3pt 4pt; text-align: left; vertical-align: top; }
+@media screen { body { padding: 24px; } .page-break { border-top: 2px dashed #999; padding-top: 24px; margin-top: 32px; } }
+`;
+
+// Keeps line breaks authors typed into stems and options
+const text = (value: string) => escapeXml(value.trim()).replace(/\n/g, '<br>');
+
+const plural = (count: number, word: string) => `${count} ${word}${count !== 1 ? 's' : ''}`;
+
+const questionHeading = ({ number, question, points }: NumberedQuestion, showPoints = true) => `
+  <div class="question-heading">
+    <span class="question-number">${number}.</span>
+    <span class="question-stem">${text(question.stem) || '&nbsp;'}</span>
+    ${showPoints ? `<span class="question-points">(${plural(points, 'pt')})</span>` : ''}
+  </div>`;
+
+const zoneName = (zone: HotspotZone, index: number) => zone.label || `Zone ${index + 1}`;
+
+// Zones are drawn with the given caption, or left out so students have to find them
+const renderFigure = (
+  question: HotspotQuestion,
+  size: ImageSize | undefined,
+  zoneCaption?: (zone: HotspotZone, index: number) => string
+) => {
+  if (!question.imageUrl) return '';
+
+  const { width, height } = question.imageSize ?? size ?? FALLBACK_IMAGE_SIZE;
+  // Zones not yet converted from an earlier version are already in image pixels
+  const inPixels = hasPixelCoordinates(question.zones);
+  const zones = zoneCaption
+    ? question.zones.map((zone, index) => {
+        const points = inPixels ? zone.coordinates : zone.coordinates.map(point => toImagePixels(point, { width, height }));
+        return `
+        <polygon class="zone" points="${points.map(point => `${point.x},${point.y}`).join(' ')}" />
+        <text class="zone-label" x="${points[0]?.x ?? 0}" y="${(points[0]?.y ?? 0) - 6}">${escapeXml(zoneCaption(zone, index))}</text>`;
+      }).join('')
+    : '';
+
+  return `
+  <div class="figure">
+    <svg viewBox="0 0 ${width} ${height}" style="max-width: ${width}px" xmlns="http://www.w3.org/2000/svg">
+      <image href="${escapeXml(question.imageUrl)}" width="${width}" height="${height}" />${zones}
+    </svg>
+  </div>`;
+};
+
+// Zones are numbered on the image (their names could give the answer away) and labels lettered
+const renderLabelPlacement = (question: HotspotQuestion, size: ImageSize | undefined) => {
+  const labels = question.labels ?? [];
+  const unused = labels.length > question.zones.length || labels.some(label => label.zoneIds.length === 0);
+  const bank = labels
+    .map((label, index) => `<li><span>${LETTERS[index]}.</span>${label.imageUrl ? `<img class="label-image" src="${escapeXml(label.imageUrl)}" alt="">` : ''}<span>${text(label.text)}</span></li>`)
+    .join('');
+  return `
+  <p class="question-hint">Write the letter of the label that belongs in each numbered area.${unused ? ' Not every label is used.' : ''}</p>
+  ${renderFigure(question, size, (_, index) => String(index + 1))}
+  <ol class="answers">${bank}</ol>`;
+};
+
+const renderMcq = (question: MCQQuestion) => {
+  const hint = getSelectionHint(question);
+  const options = question.options
+    .map((option, index) => `<li><span class="choice-box"></span><span>${LETTERS[index]}. ${text(option.text)}</span></li>`)
+    .join('');
+  return `${hint ? `<p class="question-hint">${hint}</p>` : ''}<ol class="answers">${options}</ol>`;
+};
+
+const renderOrdering = (items: OrderingQuestion['items']) => `
+  <p class="question-hint">Number the items in the correct order.</p>
+  <ol class="answers">${items.map(item => `<li><span class="blank"></span><span>${text(item.text)}</span></li>`).join('')}</ol>`;
+
+// Gaps are numbered so dropdown choices and the answer key can refer to them
+const renderCloze = (question: ClozeQuestion) => {
+  const passage = renderClozePassage(
+    question,
+    (_, index) => `<span class="gap">${index + 1}</span>`,
+    value => escapeXml(value).replace(/\n/g, '<br>')
+  );
+  const choices = getPlacedBlanks(question).flatMap((blank, index) =>
+    blank.mode === 'dropdown'
+      ? [`<li><strong>${index + 1}:</strong> ${blank.choices.map(choice => text(choice.text)).join(' / ')}</li>`]
+      : []
+  );
+  return `<p class="question-hint">Fill in the numbered gaps${choices.length > 0 ? '; where choices are listed, use one of them' : ''}.</p>
+  <p class="passage">${passage}</p>${choices.length > 0 ? `<ul class="gap-choices">${choices.join('')}</ul>` : ''}`;
+};
+
+// Premises are numbered with a blank for the letter of their response
+const renderMatching = (question: MatchingQuestion) => {
+  const premises = question.premises
+    .map((premise, index) => `<li><span class="blank"></span><span>${index + 1}. ${text(premise.text)}</span></li>`)
+    .join('');
+  const responses = question.responses
+    .map((response, index) => `<li><span>${LETTERS[index]}. ${text(response.text)}</span></li>`)
+    .join('');
+  const hint = question.mode === 'manyToOne'
+    ? 'Write the letter of the matching response next to each item; a response may be used more than once.'
+    : 'Write the letter of the matching response next to each item; each response is used at most once.';
+  return `<p class="question-hint">${hint}</p>
+  <div class="matching"><ol class="answers">${premises}</ol><ol class="answers">${responses}</ol></div>`;
+};
+
+// Items are numbered with a blank for the letter of their category, like matching premises
+const renderCategorize = (question: CategorizeQuestion) => {
+  const items = question.items
+    .map((item, index) => `<li><span class="blank"></span><span>${index + 1}. ${text(item.text)}</span></li>`)
+    .join('');
+  const categories = question.categories
+    .map((category, index) => `<li><span>${LETTERS[index]}. ${text(category.text)}</span></li>`)
+    .join('');
+  const hint = question.items.some(item => !item.categoryId)
+    ? 'Write the letter of its category next to each item; leave the blank empty for items that belong in none.'
+    : 'Write the letter of its category next to each item.';
+  return `<p class="question-hint">${hint}</p>
+  <div class="matching"><ol class="answers">${items}</ol><ol class="answers">${categories}</ol></div>`;
+};
+
+const renderNumeric = (question: NumericQuestion) => {
+  const hint = getNumericHint(question);
+  return `${hint ? `<p class="question-hint">${hint}</p>` : ''}<div class="answer-line"></div>`;
+};
+
+// Roughly ten handwritten words fit on a line; without a word limit the answer gets a dozen lines
+const renderEssay = (question: EssayQuestion) => {
+  const hint = getEssayLimitHint(question);
+  const lines = Math.min(Math.max(Math.ceil((question.maxWords ?? 120) / 10), 4), 30);
+  return `${hint ? `<p class="question-hint">${hint}</p>` : ''}${'<div class="essay-line"></div>'.repeat(lines)}`;
+};
+
+// Criteria are rows and levels columns, as in the rubric editor
+const renderRubric = (question: EssayQuestion) => {
+  const { rubric } = question;
+  if (!rubric) return '';
+  const objective = [
+    question.learningObjective?.trim() && `Objective: ${text(question.learningObjective)}`,
+    question.bloomsLevel && `Bloom's level: ${question.bloomsLevel}`,
+  ].filter(Boolean).join(' · ');
+  const head = rubric.levels.map(level => `<th>${text(level.label)} (${plural(level.points, 'pt')})</th>`).join('');
+  const rows = rubric.criteria
+    .map(criterion => `<tr><th>${text(criterion.title)}</th>${rubric.levels
+      .map((_, index) => `<td>${text(criterion.descriptors[index] ?? '')}</td>`)
+      .join('')}</tr>`)
+    .join('');
+  return `${objective ? `<p class="question-hint">${objective}</p>` : ''}
+    <table class="rubric"><thead><tr><th>Criterion</th>${head}</tr></thead><tbody>${rows}</tbody></table>
+    <p class="question-hint">Rubric total ${plural(getRubricMaxPoints(rubric), 'pt')}, scaled to the question's points.</p>`;
+};
+
+const renderQuestion = (entry: NumberedQuestion, imageSizes: Record<string, ImageSize>) => {
+  const { question } = entry;
+  let body = '';
+  switch (question.type) {
+    case 'mcq':
+      body = renderMcq(question);
+      break;
+    case 'ordering':
+      body = renderOrdering(entry.shuffledItems ?? question.items);
+      break;
+    case 'hotspot': {
+      if (isLabelPlacement(question)) {
+        body = renderLabelPlacement(question, imageSizes[question.id]);
+        break;
+      }
+      const areas = question.zones.length;
+      body = `<p class="question-hint">Mark ${areas > 1 ? `the ${areas} correct areas` : 'the correct area'} on the image.</p>` +
+        renderFigure(question, imageSizes[question.id]);
+      break;
+    }
+    case 'cloze':
+      body = renderCloze(question);
+      break;
+    case 'matching':
+      body = renderMatching(question);
+      break;
+    case 'numeric':
+      body = renderNumeric(question);
+      break;
+    case 'short-answer':
+      body = '<div class="answer-line"></div>';
+      break;
+    case 'categorize':
+      body = renderCategorize(question);
+      break;
+    case 'essay':
+      body = renderEssay(question);
+      break;
+  }
+  return `<div class="question">${questionHeading(entry)}${body}</div>`;
+};
+
+const renderKeyEntry = (entry: NumberedQuestion, imageSizes: Record<string, ImageSize>) => {
+  const { question } = entry;
+  let answer = '';
+  switch (question.type) {
+    case 'mcq': {
+      const letters = question.options.flatMap((option, index) => (option.isCorrect ? [LETTERS[index]] : []));
+      const scoring = getScoringMethod(question);
+      // Markers need to know how to score partly right answers
+      answer = `<strong>${letters.join(', ') || '—'}</strong>` +
+        (scoring !== 'allOrNothing' ? ` (${SCORING_METHODS.find(method => method.value === scoring)!.label.toLowerCase()})` : '');
+      break;
+    }
+    case 'ordering': {
+      const correct = [...question.items].sort((a, b) => a.order - b.order);
+      const printed = entry.shuffledItems ?? question.items;
+      answer = `Blanks from top to bottom: <strong>${printed.map(item => correct.indexOf(item) + 1).join(', ')}</strong>
+        <ol>${correct.map(item => `<li>${text(item.text)}</li>`).join('')}</ol>`;
+      break;
+    }
+    case 'hotspot': {
+      const figure = renderFigure(question, imageSizes[question.id], zoneName) ||
+        `<p class="question-hint">${plural(question.zones.length, 'zone')}; the question has no image.</p>`;
+      if (!isLabelPlacement(question)) {
+        answer = figure;
+        break;
+      }
+      // A zone several labels belong on accepts any of them
+      const labels = question.labels ?? [];
+      const letters = question.zones.map((zone, index) => {
+        const accepted = labels.flatMap((label, labelIndex) => (label.zoneIds.includes(zone.id) ? [LETTERS[labelIndex]] : []));
+        return `${index + 1}&nbsp;→&nbsp;${accepted.join('/') || '—'}`;
+      });
+      answer = `<strong>${letters.join(', ')}</strong>${figure}`;
+      break;
+    }
+    case 'cloze':
+      answer = `<ol>${getPlacedBlanks(question).map(blank => `<li>${text(describeBlankAnswer(blank)) || '—'}</li>`).join('')}</ol>`;
+      break;
+    case 'matching': {
+      const letters = question.premises.map((premise, index) => {
+        const responseIndex = question.responses.findIndex(response => response.id === premise.responseId);
+        return `${index + 1}&nbsp;→&nbsp;${responseIndex === -1 ? '—' : LETTERS[responseIndex]}`;
+      });
+      answer = `<strong>${letters.join(', ')}</strong>`;
+      break;
+    }
+    case 'numeric':
+      answer = `<strong>${text(describeNumericAnswer(question))}</strong>`;
+      break;
+    case 'short-answer':
+      answer = `<strong>${text(describeShortAnswers(question)) || '—'}</strong>`;
+      break;
+    case 'categorize': {
+      const letters = question.items.map((item, index) => {
+        const categoryIndex = question.categories.findIndex(category => category.id === item.categoryId);
+        return `${index + 1}&nbsp;→&nbsp;${categoryIndex === -1 ? '—' : LETTERS[categoryIndex]}`;
+      });
+      answer = `<strong>${letters.join(', ')}</strong>`;
+      break;
+    }
+    case 'essay':
+      answer = (question.modelAnswer?.trim() ? `<div class="model-answer">${text(question.modelAnswer)}</div>` : '') +
+        (renderRubric(question) || '<p class="question-hint">Graded without a rubric.</p>');
+      break;
+  }
+  return `<li>${questionHeading(entry, false)}<div class="feedback-option">${answer}</div></li>`;
+};
+
+// Options and placement labels are lettered and cloze gaps, matching premises and categorize items numbered, as on the
+// test; typed answers are quoted
+const getFeedbackEntries = (question: Question): { label: string; feedback?: string }[] => {
+  switch (question.type) {
+    case 'mcq':
+      return question.options.map((option, index) => ({ label: LETTERS[index], feedback: option.feedback }));
+    case 'hotspot':
+      return isLabelPlacement(question)
+        ? (question.labels ?? []).map((label, index) => ({ label: LETTERS[index], feedback: label.feedback }))
+        : [];
+    case 'cloze':
+      return getPlacedBlanks(question).map((blank, index) => ({ label: String(index + 1), feedback: blank.feedback }));
+    case 'matching':
+      return question.premises.map((premise, index) => ({ label: String(index + 1), feedback: premise.feedback }));
+    case 'categorize':
+      return question.items.map((item, index) => ({ label: String(index + 1), feedback: item.feedback }));
+    case 'numeric':
+      return [{ label: 'Correct', feedback: question.correctFeedback }, { label: 'Otherwise', feedback: question.incorrectFeedback }];
+    case 'short-answer':
+      return [
+        ...question.answers.map(answer => ({
+          label: `“${text(answer.isPattern ? `/${answer.text}/` : answer.text)}”`,
+          feedback: answer.feedback,
+        })),
+        { label: 'Otherwise', feedback: question.incorrectFeedback },
+      ];
+    default:
+      return [];
+  }
+};
+
+const renderFeedbackEntry = ({ number, question }: NumberedQuestion) => {
+  if (question.purpose !== 'formative') return '';
+  const entries = getFeedbackEntries(question);
+  const feedback = entries.flatMap(({ label, feedback: value }) =>
+    value?.trim()
+      ? [`<p class="feedback-option"><strong>${label}.</strong> ${text(value)}</p>`]
+      : []
+  );
+  return feedback.length > 0
+    ? `<li><div class="question-heading"><span class="question-number">${number}.</span><span class="question-stem">${text(question.stem)}</span></div>${feedback.join('')}</li>`
+    : '';
+};
+
+const numberQuestions = (assessment: Assessment, questions: Question[], seed: number) => {
+  const random = createSeededRandom(seed);
+  const byId = new Map(questions.map(question => [question.id, question]));
+  let number = 0;
+
+  return assessment.sections.map(section => ({
+    section,
+    entries: section.questionRefs.flatMap((ref): NumberedQuestion[] => {
+      const question = byId.get(ref.questionId);
+      if (!question) return [];
+      number += 1;
+      return [{
+        number,
+        question,
+        points: ref.points,
+        shuffledItems: question.type === 'ordering' ? shuffle(question.items, random) : undefined,
+      }];
+    }),
+  }));
+};
+
+export const buildPrintDocument = (
+  assessment: Assessment,
+  questions: Question[],
+  options: PrintOptions,
+  imageSizes: Record<string, ImageSize> = {}
+) => {
+  const sections = numberQuestions(assessment, questions, options.seed);
+  const entries = sections.flatMap(({ entries: sectionEntries }) => sectionEntries);
+  const totalPoints = getTotalPoints(assessment);
+  const title = assessment.title.trim() || 'Untitled assessment';
+  // Section headings only help when there is more than one
+  const showSections = sections.filter(({ entries: sectionEntries }) => sectionEntries.length > 0).length > 1;
+
+  const meta = [
+    plural(entries.length, 'question'),
+    plural(totalPoints, 'point'),
+    assessment.timeLimitMinutes ? `${assessment.timeLimitMinutes} minutes` : undefined,
+  ].filter(Boolean).join(' · ');
+
+  const body = sections
+    .filter(({ entries: sectionEntries }) => sectionEntries.length > 0)
+    .map(({ section, entries: sectionEntries }) => `
+      ${showSections ? `<h2>${text(section.title || 'Untitled section')}</h2>` : ''}
+      ${sectionEntries.map(entry => renderQuestion(entry, imageSizes)).join('')}`)
+    .join('');
+
+  const feedback = entries.map(renderFeedbackEntry).filter(Boolean);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(title)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<header>
+  <h1>${text(title)}</h1>
+  <p class="test-meta">${meta}</p>
+  ${assessment.description.trim() ? `<p>${text(assessment.description)}</p>` : ''}
+  <div class="student-fields"><span>Name:</span><span>Date:</span></div>
+  ${assessment.instructions.trim() ? `<div class="instructions">${text(assessment.instructions)}</div>` : ''}
+</header>
+${body}
+${options.includeAnswerKey ? `
+<section class="page-break">
+  <h1>Answer key</h1>
+  <p class="test-meta">${text(title)}</p>
+  <ol class="key-list">${entries.map(entry => renderKeyEntry(entry, imageSizes)).join('')}</ol>
+</section>` : ''}
+${options.includeFeedback && feedback.length > 0 ? `
+<section class="page-break">
+  <h1>Feedback</h1>
+  <ol class="key-list">${feedback.join('')}</ol>
+</section>` : ''}
+</body>
+</html>
+`;
+};
+
+// Natural sizes of images the editor has not recorded a size for; images that fail to load fall back to
+// the editor canvas proportions
+export const loadImageSizes = async (questions: Question[]): Promise<Record<string, ImageSize>> => {
+  const entries = await Promise.all(
+    questions.map(question =>
+      new Promise<[string, ImageSize] | undefined>(resolve => {
+        if (question.type !== 'hotspot' || !question.imageUrl || question.imageSize) {
+          resolve(undefined);
+          return;
+        }
+        const image = new Image();
+        image.onload = () => resolve([question.id, { width: image.naturalWidth, height: image.naturalHeight }]);
+        image.onerror = () => resolve(undefined);
+        image.src = question.imageUrl;
+      })
+    )
+  );
+  return Object.fromEntries(entries.filter((entry): entry is [string, ImageSize] => !!entry));
+};
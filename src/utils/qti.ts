@@ -0,0 +1,52 @@
+export type QtiVersion = '2.1' | '3.0';
+
+export const QTI_VERSIONS: QtiVersion[] = ['2.1', '3.0'];
+
+interface QtiProfile {
+  namespace: string;
+  schemaLocation: string;
+  manifestNamespace: string;
+  manifestSchema: string;
+  itemResourceType: string;
+  testResourceType: string;
+}
+
+export const QTI_PROFILES: Record<QtiVersion, QtiProfile> = {
+  '2.1': {
+    namespace: 'http://www.imsglobal.org/xsd/imsqti_v2p1',
+    schemaLocation: 'http://www.imsglobal.org/xsd/imsqti_v2p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1p2.xsd',
+    manifestNamespace: 'http://www.imsglobal.org/xsd/imscp_v1p1',
+    manifestSchema: 'QTIv2.1 Package',
+    itemResourceType: 'imsqti_item_xmlv2p1',
+    testResourceType: 'imsqti_test_xmlv2p1',
+  },
+  '3.0': {
+    namespace: 'http://www.imsglobal.org/xsd/imsqtiasi_v3p0',
+    schemaLocation: 'http://www.imsglobal.org/xsd/imsqtiasi_v3p0 https://purl.imsglobal.org/spec/qti/v3p0/schema/xsd/imsqti_asiv3p0_v1p0.xsd',
+    manifestNamespace: 'http://www.imsglobal.org/xsd/qti/qtiv3p0/imscp_v1p1',
+    manifestSchema: 'QTI Package',
+    itemResourceType: 'imsqti_item_xmlv3p0',
+    testResourceType: 'imsqti_test_xmlv3p0',
+  },
+};
+
+const toKebabCase = (name: string) => name.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+
+const toCamelCase = (name: string) => name.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+
+// QTI 3.0 renamed the 2.1 vocabulary: choiceInteraction became qti-choice-interaction
+// and attributes like responseIdentifier became response-identifier.
+// Elements and attributes are written with their 2.1 names and mapped here.
+export const qtiElementName = (name: string, version: QtiVersion) =>
+  version === '2.1' ? name : `qti-${toKebabCase(name)}`;
+
+export const qtiAttributeName = (name: string, version: QtiVersion) =>
+  version === '2.1' || name.includes(':') ? name : toKebabCase(name);
+
+// Maps an element or attribute name of either version back to its 2.1 form
+export const toQti21Name = (name: string) =>
+  name.startsWith('qti-') ? toCamelCase(name.slice(4)) : toCamelCase(name);
+
+// QTI identifiers must be valid XML names, which our generated ids don't guarantee
+export const toQtiIdentifier = (prefix: string, id: string) =>
+  `${prefix}-${id.replace(/[^A-Za-z0-9_.-]/g, '_')}`;
@@ -0,0 +1,185 @@
+import { ClozeQuestion, EssayQuestion, HotspotQuestion, MatchingQuestion, MCQQuestion, NumericQuestion, OrderingQuestion, ShortAnswerQuestion } from '../types';
+import { createEmptyQuestion } from './assessmentUtils';
+import { buildQtiItem } from './qtiExport';
+
+const mcq: MCQQuestion = {
+  ...(createEmptyQuestion('mcq') as MCQQuestion),
+  id: 'q1',
+  stem: 'Pick <one>',
+  options: [
+    { id: 'a', text: 'Right', isCorrect: true, feedback: 'Well done' },
+    { id: 'b', text: 'Wrong', isCorrect: false, feedback: 'Try again' },
+  ],
+};
+
+test('exports a formative MCQ with response processing and modal feedback', () => {
+  const xml = buildQtiItem(mcq, '2.1', { points: 2 });
+  expect(xml).toContain('<choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1">');
+  expect(xml).toContain('<correctResponse>\n      <value>choice-a</value>');
+  expect(xml).toContain('<prompt>Pick &lt;one&gt;</prompt>');
+  expect(xml).toContain('<modalFeedback outcomeIdentifier="FEEDBACK" identifier="choice-b" showHide="show">Try again</modalFeedback>');
+  expect(xml).toContain('<value>2</value>');
+});
+
+test('maps element and attribute names for QTI 3.0', () => {
+  const ordering: OrderingQuestion = {
+    ...(createEmptyQuestion('ordering') as OrderingQuestion),
+    id: 'q2',
+    items: [
+      { id: 'x', text: 'Second', order: 1 },
+      { id: 'y', text: 'First', order: 0 },
+    ],
+  };
+  const xml = buildQtiItem(ordering, '3.0');
+  expect(xml).toContain('xmlns="http://www.imsglobal.org/xsd/imsqtiasi_v3p0"');
+  expect(xml).toContain('<qti-order-interaction response-identifier="RESPONSE" shuffle="true">');
+  expect(xml).toMatch(/<qti-value>choice-y<\/qti-value>\s*<qti-value>choice-x<\/qti-value>/);
+  expect(xml).not.toContain('qti-modal-feedback');
+});
+
+test('maps partial credit for multiple response onto mapResponse', () => {
+  const multiple: MCQQuestion = {
+    ...mcq,
+    responseMode: 'multiple',
+    scoring: 'rightMinusWrong',
+    maxSelections: 2,
+    options: [...mcq.options, { id: 'c', text: 'Also right', isCorrect: true, feedback: 'Yes' }],
+  };
+  const xml = buildQtiItem(multiple, '2.1', { points: 2 });
+  expect(xml).toContain('<choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="2">');
+  expect(xml).toContain('<responseDeclaration identifier="RESPONSE" cardinality="multiple" baseType="identifier">');
+  expect(xml).toContain('<mapping lowerBound="0" upperBound="2" defaultValue="0">');
+  expect(xml).toContain('<mapEntry mapKey="choice-b" mappedValue="-1"/>');
+  expect(xml).toContain('<mapResponse identifier="RESPONSE"/>');
+});
+
+test('exports each cloze blank as its own inline interaction and response', () => {
+  const cloze: ClozeQuestion = {
+    id: 'q3',
+    type: 'cloze',
+    purpose: 'summative',
+    stem: 'Complete',
+    passage: 'Water is {{t}} and boils at {{d}} degrees.',
+    blanks: [
+      { id: 't', mode: 'text', acceptedAnswers: ['H2O'], pattern: 'H_?2O', choices: [] },
+      { id: 'd', mode: 'dropdown', acceptedAnswers: [], choices: [
+        { id: 'x', text: '90', isCorrect: false },
+        { id: 'y', text: '100', isCorrect: true },
+      ] },
+    ],
+  };
+  const xml = buildQtiItem(cloze, '2.1', { points: 2 });
+  expect(xml).toContain('<responseDeclaration identifier="RESPONSE-1" cardinality="single" baseType="string">');
+  expect(xml).toContain('<mapEntry mapKey="H2O" mappedValue="1" caseSensitive="false"/>');
+  expect(xml).toContain('<p>Water is <textEntryInteraction responseIdentifier="RESPONSE-1"/> and boils at ');
+  expect(xml).toContain('<inlineChoice identifier="choice-y">100</inlineChoice>');
+  expect(xml).toContain('<patternMatch pattern="H_?2O">');
+  expect(xml.match(/<baseValue baseType="float">1<\/baseValue>/g)).toHaveLength(2);
+});
+
+test('exports matching as directed pairs with a share of the points per pair', () => {
+  const matching: MatchingQuestion = {
+    id: 'q4',
+    type: 'matching',
+    purpose: 'summative',
+    stem: 'Match the capitals',
+    mode: 'manyToOne',
+    premises: [
+      { id: 'fr', text: 'France', responseId: 'paris' },
+      { id: 'it', text: 'Italy', responseId: 'rome' },
+    ],
+    responses: [{ id: 'paris', text: 'Paris' }, { id: 'rome', text: 'Rome' }, { id: 'lyon', text: 'Lyon' }],
+  };
+  const xml = buildQtiItem(matching, '3.0', { points: 3 });
+  expect(xml).toContain('<qti-response-declaration identifier="RESPONSE" cardinality="multiple" base-type="directedPair">');
+  expect(xml).toContain('<qti-map-entry map-key="premise-fr response-paris" mapped-value="1.5"/>');
+  expect(xml).toContain('<qti-simple-associable-choice identifier="response-lyon" match-max="0">Lyon</qti-simple-associable-choice>');
+  expect(xml).toContain('<qti-match-interaction response-identifier="RESPONSE" shuffle="false" max-associations="2">');
+});
+
+test('exports label placement as a graphic gap match with a share per label', () => {
+  const labels: HotspotQuestion = {
+    id: 'q7',
+    type: 'hotspot',
+    purpose: 'summative',
+    stem: 'Label the map',
+    interaction: 'labels',
+    imageSize: { width: 100, height: 50 },
+    zones: [
+      { id: 'z1', coordinates: [{ x: 0, y: 0 }, { x: 0.1, y: 0 }, { x: 0.1, y: 0.2 }] },
+      { id: 'z2', coordinates: [{ x: 0.2, y: 0 }, { x: 0.3, y: 0 }, { x: 0.3, y: 0.2 }] },
+    ],
+    labels: [
+      { id: 'sea', text: 'Sea', zoneIds: ['z1', 'z2'] },
+      { id: 'lake', text: 'Lake', zoneIds: ['z1'], imageUrl: 'https://example.com/lake.png' },
+      { id: 'hill', text: 'Hill', zoneIds: [] },
+    ],
+  };
+  const xml = buildQtiItem(labels, '2.1', {
+    points: 4,
+    image: { href: '../images/map.png', mimeType: 'image/png' },
+    labelImages: { lake: { href: '../images/lake.png', mimeType: 'image/png' } },
+  });
+  expect(xml).toContain('<object type="image/png" data="../images/map.png" width="100" height="50"/>');
+  expect(xml).toContain('<graphicGapMatchInteraction responseIdentifier="RESPONSE">');
+  expect(xml).toContain('<value>label-lake zone-z1</value>');
+  expect(xml).toContain('<value>label-sea zone-z2</value>');
+  expect(xml).toContain('<mapEntry mapKey="label-sea zone-z1" mappedValue="2"/>');
+  expect(xml).not.toContain('label-hill zone');
+  expect(xml).toContain('<gapText identifier="label-hill" matchMax="1">Hill</gapText>');
+  expect(xml).toContain('<gapImg identifier="label-lake" matchMax="1" objectLabel="Lake">');
+  expect(xml).toContain('<associableHotspot identifier="zone-z2" shape="poly" coords="20,0,30,0,30,10" matchMax="1"/>');
+});
+
+test('exports numeric tolerances with equal and short answer credit with a mapping and patterns', () => {
+  const numeric: NumericQuestion = {
+    ...(createEmptyQuestion('numeric') as NumericQuestion),
+    id: 'q5',
+    stem: 'g',
+    value: 9.81,
+    tolerance: 2,
+    toleranceType: 'relative',
+    units: ['m/s²'],
+  };
+  const numericXml = buildQtiItem(numeric, '2.1');
+  expect(numericXml).toContain('<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="float">');
+  expect(numericXml).toContain('<equal toleranceMode="relative" tolerance="2 2">');
+  expect(numericXml).toContain('<p><textEntryInteraction responseIdentifier="RESPONSE"/> m/s²</p>');
+
+  const shortAnswer: ShortAnswerQuestion = {
+    ...(createEmptyQuestion('short-answer') as ShortAnswerQuestion),
+    id: 'q6',
+    stem: 'Name it',
+    answers: [
+      { id: 'a1', text: 'lexer', credit: 100 },
+      { id: 'a2', text: 'parser', credit: 50 },
+      { id: 'a3', text: 'tokeni[sz]er', isPattern: true, credit: 100 },
+    ],
+  };
+  const shortXml = buildQtiItem(shortAnswer, '2.1', { points: 2 });
+  expect(shortXml).toContain('<mapEntry mapKey="parser" mappedValue="1" caseSensitive="false"/>');
+  expect(shortXml).toContain('<patternMatch pattern="tokeni[sz]er">');
+});
+
+test('exports essays as extended text with the rubric for scorers and no response processing', () => {
+  const essay: EssayQuestion = {
+    ...(createEmptyQuestion('essay') as EssayQuestion),
+    id: 'q7',
+    stem: 'Discuss',
+    maxWords: 200,
+    modelAnswer: 'A model',
+    rubric: {
+      levels: [{ id: 'l1', label: 'Basic', points: 1 }, { id: 'l2', label: 'Full', points: 3 }],
+      criteria: [{ id: 'c1', title: 'Argument', descriptors: ['Stated', 'Supported'] }],
+    },
+  };
+  const xml = buildQtiItem(essay, '2.1');
+  expect(xml).toContain('<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string"/>');
+  expect(xml).toMatch(/<itemBody>\s*<rubricBlock view="scorer">/);
+  expect(xml).toContain('<th>Full (3)</th>');
+  expect(xml).toContain('<extendedTextInteraction responseIdentifier="RESPONSE" format="plain" expectedLength="1200">');
+  expect(xml).not.toContain('responseProcessing');
+
+  const xml30 = buildQtiItem(essay, '3.0');
+  expect(xml30).toMatch(/<qti-rubric-block view="scorer">\s*<qti-content-body>/);
+});
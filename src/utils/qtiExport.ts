@@ -0,0 +1,815 @@
+import JSZip from 'jszip';
+import {
+  Assessment,
+  CategorizeQuestion,
+  ClozeBlank,
+  ClozeQuestion,
+  EssayQuestion,
+  HotspotLabel,
+  HotspotQuestion,
+  HotspotZone,
+  ImageSize,
+  MatchingQuestion,
+  MCQQuestion,
+  NumericQuestion,
+  OrderingQuestion,
+  Question,
+  ShortAnswerQuestion,
+} from '../types';
+import { findQuestionRef, getOrderedQuestionIds, DEFAULT_QUESTION_POINTS } from './assessmentStructure';
+import { getResponseMode, getScoringMethod } from './scoring';
+import { getPlacedBlanks, parseClozePassage } from './cloze';
+import { findCorrectPlacement, getScoredLabels, isLabelPlacement } from './labelPlacement';
+import { getEssayLimitHint, getRubricMaxPoints } from './essay';
+import { hasPixelCoordinates, toImagePixels } from './hotspotGeometry';
+import { IMAGE_EXTENSIONS, parseDataUrl, readImageSize } from './storage';
+import { QTI_PROFILES, QtiVersion, qtiAttributeName, qtiElementName, toQtiIdentifier } from './qti';
+import { XmlContent, XmlElement, element, serializeXml } from './xml';
+
+export interface QtiImage {
+  href: string;
+  mimeType: string;
+}
+
+export interface QtiItemOptions {
+  points?: number;
+  image?: QtiImage;
+  // Images of placement labels by label id; labels without one are exported as text
+  labelImages?: Record<string, QtiImage>;
+}
+
+interface ResponseDeclaration {
+  identifier: string;
+  cardinality: 'single' | 'multiple' | 'ordered';
+  // Typed responses are strings or floats, matching pairs directed pairs; everything else refers to choices
+  baseType?: 'identifier' | 'string' | 'float' | 'directedPair';
+  correct: string[];
+  // Points per selected choice when the item gives partial credit
+  mapping?: { lowerBound?: number; upperBound: number; entries: [string, number][]; caseSensitive?: boolean };
+  // Added to the mapped points, e.g. for incorrect choices left out
+  mappingOffset?: number;
+}
+
+interface ItemParts {
+  // The first response drives the standard response processing and feedback
+  responses: ResponseDeclaration[];
+  interaction: XmlElement;
+  // A rubricBlock shown to scorers, which QTI only allows directly in the item body
+  rubric?: XmlElement;
+  feedback: { identifier: string; text: string }[];
+  // Response conditions that replace the standard processing; none for items scored by hand
+  scoring?: XmlElement[];
+}
+
+type QtiBuilder = (
+  name: string,
+  attributes?: XmlElement['attributes'],
+  children?: (XmlContent | false | undefined)[]
+) => XmlElement;
+
+// Builds QTI elements for one version from their 2.1 names; plain HTML goes through element()
+const createBuilder = (version: QtiVersion): QtiBuilder => (name, attributes = {}, children = []) =>
+  element(
+    qtiElementName(name, version),
+    Object.fromEntries(Object.entries(attributes).map(([key, value]) => [qtiAttributeName(key, version), value])),
+    children
+  );
+
+export const itemIdentifier = (question: Question) => toQtiIdentifier('item', question.id);
+
+export const itemHref = (question: Question) => `items/${itemIdentifier(question)}.xml`;
+
+const itemTitle = (question: Question) => {
+  const stem = question.stem.trim() || 'Untitled question';
+  return stem.length > 80 ? `${stem.slice(0, 77)}...` : stem;
+};
+
+const roundPoints = (value: number) => Math.round(value * 10000) / 10000;
+
+// Partial credit maps each choice to a share of the points, matching scoreMcqResponse
+const buildMcqMapping = (question: MCQQuestion, points: number): Pick<ResponseDeclaration, 'mapping' | 'mappingOffset'> => {
+  const correctCount = question.options.filter(option => option.isCorrect).length;
+  const entry = (option: MCQQuestion['options'][number], share: number): [string, number] =>
+    [toQtiIdentifier('choice', option.id), roundPoints(option.isCorrect ? share : -share)];
+
+  switch (getScoringMethod(question)) {
+    case 'allOrNothing':
+      return {};
+    case 'partialCredit': {
+      const share = points / question.options.length;
+      return {
+        mapping: { upperBound: points, entries: question.options.map(option => entry(option, share)) },
+        mappingOffset: roundPoints((question.options.length - correctCount) * share),
+      };
+    }
+    case 'rightMinusWrong': {
+      const share = correctCount > 0 ? points / correctCount : 0;
+      return { mapping: { lowerBound: 0, upperBound: points, entries: question.options.map(option => entry(option, share)) } };
+    }
+  }
+};
+
+const buildMcq = (q: QtiBuilder, question: MCQQuestion, points: number): ItemParts => {
+  const correct = question.options.filter(option => option.isCorrect).map(option => toQtiIdentifier('choice', option.id));
+  const multiple = getResponseMode(question) === 'multiple';
+
+  return {
+    responses: [{
+      identifier: 'RESPONSE',
+      cardinality: multiple ? 'multiple' : 'single',
+      correct,
+      ...(multiple ? buildMcqMapping(question, points) : {}),
+    }],
+    interaction: q('choiceInteraction', {
+      responseIdentifier: 'RESPONSE',
+      shuffle: false,
+      maxChoices: multiple ? question.maxSelections ?? 0 : 1,
+      minChoices: multiple ? question.minSelections : undefined,
+    }, [
+      q('prompt', {}, [question.stem]),
+      ...question.options.map(option =>
+        q('simpleChoice', { identifier: toQtiIdentifier('choice', option.id) }, [option.text])
+      ),
+    ]),
+    feedback: question.purpose === 'formative'
+      ? question.options
+          .filter(option => option.feedback?.trim())
+          .map(option => ({ identifier: toQtiIdentifier('choice', option.id), text: option.feedback!.trim() }))
+      : [],
+  };
+};
+
+const buildOrdering = (q: QtiBuilder, question: OrderingQuestion): ItemParts => ({
+  responses: [{
+    identifier: 'RESPONSE',
+    cardinality: 'ordered',
+    correct: [...question.items]
+      .sort((a, b) => a.order - b.order)
+      .map(item => toQtiIdentifier('choice', item.id)),
+  }],
+  interaction: q('orderInteraction', { responseIdentifier: 'RESPONSE', shuffle: true }, [
+    q('prompt', {}, [question.stem]),
+    ...question.items.map(item =>
+      q('simpleChoice', { identifier: toQtiIdentifier('choice', item.id) }, [item.text])
+    ),
+  ]),
+  feedback: [],
+});
+
+// The editor canvas proportions, for images whose size is unknown
+const FALLBACK_IMAGE_SIZE: ImageSize = { width: 640, height: 384 };
+
+// QTI coordinates are pixels of the image at the size the item declares for it. Zones are stored as fractions
+// of the image, so an image of unknown size is declared at the fallback size and the zones still line up;
+// zones not yet converted from an earlier version are already pixels of an undeclared natural size.
+const getHotspotGeometry = (question: HotspotQuestion) => {
+  const inPixels = hasPixelCoordinates(question.zones);
+  const size = question.imageSize ?? (question.imageUrl ? readImageSize(question.imageUrl) : undefined) ??
+    (inPixels ? undefined : FALLBACK_IMAGE_SIZE);
+  const coords = (zone: HotspotZone) =>
+    (inPixels || !size ? zone.coordinates : zone.coordinates.map(point => toImagePixels(point, size)))
+      .map(point => `${point.x},${point.y}`)
+      .join(',');
+  return { size, coords };
+};
+
+const buildImageElement = (question: HotspotQuestion, version: QtiVersion, image: QtiImage | undefined, size?: ImageSize) =>
+  image && (version === '2.1'
+    ? element('object', { type: image.mimeType, data: image.href, width: size?.width, height: size?.height })
+    : element('img', { src: image.href, alt: question.stem, width: size?.width, height: size?.height }));
+
+// Zones carry no order, so hotspots map to a hotspotInteraction where every zone
+// is part of the correct response.
+const buildHotspot = (q: QtiBuilder, question: HotspotQuestion, version: QtiVersion, image?: QtiImage): ItemParts => {
+  const correct = question.zones.map(zone => toQtiIdentifier('zone', zone.id));
+  const { size, coords } = getHotspotGeometry(question);
+  const imageElement = buildImageElement(question, version, image, size);
+
+  return {
+    responses: [{ identifier: 'RESPONSE', cardinality: correct.length > 1 ? 'multiple' : 'single', correct }],
+    interaction: q('hotspotInteraction', {
+      responseIdentifier: 'RESPONSE',
+      maxChoices: Math.max(correct.length, 1),
+    }, [
+      q('prompt', {}, [question.stem]),
+      imageElement,
+      ...question.zones.map(zone =>
+        q('hotspotChoice', {
+          identifier: toQtiIdentifier('zone', zone.id),
+          shape: 'poly',
+          coords: coords(zone),
+          hotspotLabel: zone.label || undefined,
+        })
+      ),
+    ]),
+    feedback: [],
+  };
+};
+
+// Labels are gaps and zones associable hotspots holding one label each. Responses are "label zone" directed
+// pairs; every pair of a label with a zone it belongs on maps to the label's share of the points as in
+// scoreLabelPlacementResponse, and the correct response is one placement that gives every label its zone.
+const buildLabelPlacement = (
+  q: QtiBuilder,
+  question: HotspotQuestion,
+  version: QtiVersion,
+  points: number,
+  image?: QtiImage,
+  labelImages: Record<string, QtiImage> = {}
+): ItemParts => {
+  const labels = question.labels ?? [];
+  const share = roundPoints(points / Math.max(getScoredLabels(question).length, 1));
+  const pair = (labelId: string, zoneId: string) => `${toQtiIdentifier('label', labelId)} ${toQtiIdentifier('zone', zoneId)}`;
+  const placement = findCorrectPlacement(question) ?? {};
+  const zoneIds = new Set(question.zones.map(zone => zone.id));
+  const { size, coords } = getHotspotGeometry(question);
+  const imageElement = buildImageElement(question, version, image, size);
+
+  const gap = (label: HotspotLabel) => {
+    const identifier = toQtiIdentifier('label', label.id);
+    const labelImage = labelImages[label.id];
+    if (!labelImage) return q('gapText', { identifier, matchMax: 1 }, [label.text]);
+    return q('gapImg', { identifier, matchMax: 1, objectLabel: label.text }, [
+      version === '2.1'
+        ? element('object', { type: labelImage.mimeType, data: labelImage.href }, [label.text])
+        : element('img', { src: labelImage.href, alt: label.text }),
+    ]);
+  };
+
+  return {
+    responses: [{
+      identifier: 'RESPONSE',
+      cardinality: 'multiple',
+      baseType: 'directedPair',
+      correct: Object.keys(placement).map(zoneId => pair(placement[zoneId], zoneId)),
+      mapping: {
+        lowerBound: 0,
+        upperBound: points,
+        entries: labels.flatMap(label =>
+          label.zoneIds.filter(zoneId => zoneIds.has(zoneId)).map((zoneId): [string, number] => [pair(label.id, zoneId), share])
+        ),
+      },
+    }],
+    interaction: q('graphicGapMatchInteraction', { responseIdentifier: 'RESPONSE' }, [
+      q('prompt', {}, [question.stem]),
+      imageElement,
+      ...labels.map(gap),
+      ...question.zones.map(zone =>
+        q('associableHotspot', {
+          identifier: toQtiIdentifier('zone', zone.id),
+          shape: 'poly',
+          coords: coords(zone),
+          matchMax: 1,
+          hotspotLabel: zone.label || undefined,
+        })
+      ),
+    ]),
+    feedback: [],
+  };
+};
+
+// Each placed blank is its own response, RESPONSE-1, RESPONSE-2, ... in passage order, and
+// earns an equal share of the points as in scoreClozeResponse. Text blanks map their accepted
+// answers; QTI has no whitespace option and matches patterns case-sensitively.
+const buildCloze = (q: QtiBuilder, question: ClozeQuestion, points: number): ItemParts => {
+  const blanks = getPlacedBlanks(question);
+  const share = blanks.length > 0 ? roundPoints(points / blanks.length) : 0;
+  const identifiers = new Map(blanks.map((blank, index) => [blank.id, `RESPONSE-${index + 1}`]));
+
+  const toResponse = (blank: ClozeBlank): ResponseDeclaration => {
+    const identifier = identifiers.get(blank.id)!;
+    if (blank.mode === 'dropdown') {
+      return {
+        identifier,
+        cardinality: 'single',
+        correct: blank.choices.filter(choice => choice.isCorrect).map(choice => toQtiIdentifier('choice', choice.id)),
+      };
+    }
+    const answers = blank.acceptedAnswers.map(answer => answer.trim()).filter(Boolean);
+    return {
+      identifier,
+      cardinality: 'single',
+      baseType: 'string',
+      correct: answers.slice(0, 1),
+      mapping: answers.length > 0
+        ? { upperBound: 1, entries: answers.map(answer => [answer, 1]), caseSensitive: !!blank.caseSensitive }
+        : undefined,
+    };
+  };
+
+  const isCorrect = (blank: ClozeBlank) => {
+    const variable = q('variable', { identifier: identifiers.get(blank.id) });
+    if (blank.mode === 'dropdown') {
+      return q('match', {}, [variable, q('correct', { identifier: identifiers.get(blank.id) })]);
+    }
+    const mapped = blank.acceptedAnswers.some(answer => answer.trim()) && q('gt', {}, [
+      q('mapResponse', { identifier: identifiers.get(blank.id) }),
+      q('baseValue', { baseType: 'float' }, ['0']),
+    ]);
+    const pattern = blank.pattern && q('patternMatch', { pattern: blank.pattern }, [variable]);
+    return mapped && pattern ? q('or', {}, [mapped, pattern]) : (mapped || pattern || q('baseValue', { baseType: 'boolean' }, ['false']));
+  };
+
+  return {
+    responses: blanks.map(toResponse),
+    interaction: element('div', {}, [
+      element('p', {}, [question.stem]),
+      element('p', {}, parseClozePassage(question.passage).map(segment => {
+        if (segment.kind === 'text') return segment.text;
+        const blank = blanks.find(entry => entry.id === segment.blankId);
+        if (!blank) return '';
+        const responseIdentifier = identifiers.get(blank.id);
+        return blank.mode === 'dropdown'
+          ? q('inlineChoiceInteraction', { responseIdentifier, shuffle: false }, blank.choices.map(choice =>
+              q('inlineChoice', { identifier: toQtiIdentifier('choice', choice.id) }, [choice.text])
+            ))
+          : q('textEntryInteraction', { responseIdentifier });
+      })),
+    ]),
+    feedback: [],
+    scoring: blanks.map(blank =>
+      q('responseCondition', {}, [
+        q('responseIf', {}, [
+          isCorrect(blank),
+          q('setOutcomeValue', { identifier: 'SCORE' }, [
+            q('sum', {}, [q('variable', { identifier: 'SCORE' }), q('baseValue', { baseType: 'float' }, [String(share)])]),
+          ]),
+        ]),
+      ])
+    ),
+  };
+};
+
+// Pairs are "premise response" directed pairs; each correct pair maps to an equal share
+// of the points as in scoreMatchingResponse. Responses in one-to-one matching can be used once.
+const buildMatching = (q: QtiBuilder, question: MatchingQuestion, points: number): ItemParts => {
+  const share = question.premises.length > 0 ? roundPoints(points / question.premises.length) : 0;
+  const correct = question.premises
+    .filter(premise => question.responses.some(response => response.id === premise.responseId))
+    .map(premise => `${toQtiIdentifier('premise', premise.id)} ${toQtiIdentifier('response', premise.responseId)}`);
+
+  return {
+    responses: [{
+      identifier: 'RESPONSE',
+      cardinality: 'multiple',
+      baseType: 'directedPair',
+      correct,
+      mapping: { lowerBound: 0, upperBound: points, entries: correct.map((pair): [string, number] => [pair, share]) },
+    }],
+    interaction: q('matchInteraction', {
+      responseIdentifier: 'RESPONSE',
+      shuffle: false,
+      maxAssociations: question.premises.length,
+    }, [
+      q('prompt', {}, [question.stem]),
+      q('simpleMatchSet', {}, question.premises.map(premise =>
+        q('simpleAssociableChoice', { identifier: toQtiIdentifier('premise', premise.id), matchMax: 1 }, [premise.text])
+      )),
+      q('simpleMatchSet', {}, question.responses.map(response =>
+        q('simpleAssociableChoice', {
+          identifier: toQtiIdentifier('response', response.id),
+          matchMax: question.mode === 'oneToOne' ? 1 : 0,
+        }, [response.text])
+      )),
+    ]),
+    feedback: [],
+  };
+};
+
+// Items are directed pairs "item category" like matching premises. As in scoreCategorizeResponse
+// every category with items is worth an equal share, split among its items; an item placed in the
+// wrong category takes one of that category's parts away, and lowerBound keeps the score at zero.
+const buildCategorize = (q: QtiBuilder, question: CategorizeQuestion, points: number): ItemParts => {
+  const categories = question.categories.filter(category => question.items.some(item => item.categoryId === category.id));
+  const pair = (itemId: string, categoryId: string) =>
+    `${toQtiIdentifier('item', itemId)} ${toQtiIdentifier('category', categoryId)}`;
+  const correct = question.items
+    .filter(item => categories.some(category => category.id === item.categoryId))
+    .map(item => pair(item.id, item.categoryId));
+  const entries: [string, number][] = [];
+  categories.forEach(category => {
+    const part = roundPoints(points / categories.length / question.items.filter(item => item.categoryId === category.id).length);
+    question.items.forEach(item => {
+      entries.push([pair(item.id, category.id), item.categoryId === category.id ? part : -part]);
+    });
+  });
+
+  return {
+    responses: [{
+      identifier: 'RESPONSE',
+      cardinality: 'multiple',
+      baseType: 'directedPair',
+      correct,
+      mapping: { lowerBound: 0, upperBound: points, entries },
+    }],
+    interaction: q('matchInteraction', {
+      responseIdentifier: 'RESPONSE',
+      shuffle: false,
+      maxAssociations: question.items.length,
+    }, [
+      q('prompt', {}, [question.stem]),
+      q('simpleMatchSet', {}, question.items.map(item =>
+        q('simpleAssociableChoice', { identifier: toQtiIdentifier('item', item.id), matchMax: 1 }, [item.text])
+      )),
+      q('simpleMatchSet', {}, question.categories.map(category =>
+        q('simpleAssociableChoice', { identifier: toQtiIdentifier('category', category.id), matchMax: 0 }, [category.text])
+      )),
+    ]),
+    feedback: [],
+  };
+};
+
+// The response is a float, so units and significant figures are not checked; the tolerance
+// becomes equal's toleranceMode (QTI's relative tolerance is a percentage too)
+const buildNumeric = (q: QtiBuilder, question: NumericQuestion): ItemParts => {
+  const variable = q('variable', { identifier: 'RESPONSE' });
+  const exact = question.answerMode === 'exact';
+  const tolerance = question.tolerance ?? 0;
+  const isCorrect = exact
+    ? q('equal', {
+        toleranceMode: tolerance ? question.toleranceType : 'exact',
+        tolerance: tolerance ? `${tolerance} ${tolerance}` : undefined,
+      }, [variable, q('correct', { identifier: 'RESPONSE' })])
+    : q('and', {}, [
+        q('gte', {}, [variable, q('baseValue', { baseType: 'float' }, [String(question.min ?? 0)])]),
+        q('lte', {}, [variable, q('baseValue', { baseType: 'float' }, [String(question.max ?? 0)])]),
+      ]);
+  const unit = question.units[0]?.trim();
+
+  return {
+    responses: [{
+      identifier: 'RESPONSE',
+      cardinality: 'single',
+      baseType: 'float',
+      correct: exact && question.value !== undefined ? [String(question.value)] : [],
+    }],
+    interaction: element('div', {}, [
+      element('p', {}, [question.stem]),
+      element('p', {}, [q('textEntryInteraction', { responseIdentifier: 'RESPONSE' }), unit && ` ${unit}`]),
+    ]),
+    feedback: [],
+    scoring: [
+      q('responseCondition', {}, [
+        q('responseIf', {}, [
+          isCorrect,
+          q('setOutcomeValue', { identifier: 'SCORE' }, [q('variable', { identifier: 'MAXSCORE' })]),
+        ]),
+      ]),
+    ],
+  };
+};
+
+// Answers map to their share of the points; patterns raise the score to theirs when they match,
+// so the best matching answer counts as in gradeShortAnswerResponse
+const buildShortAnswer = (q: QtiBuilder, question: ShortAnswerQuestion, points: number): ItemParts => {
+  const worth = (credit: number) => roundPoints((points * Math.min(Math.max(credit, 0), 100)) / 100);
+  const mapped = new Map<string, number>();
+  question.answers
+    .filter(answer => !answer.isPattern && answer.text.trim() && answer.credit > 0)
+    .forEach(answer => mapped.set(answer.text.trim(), Math.max(mapped.get(answer.text.trim()) ?? 0, worth(answer.credit))));
+  const patterns = question.answers.filter(answer => answer.isPattern && answer.text && answer.credit > 0);
+  const best = question.answers.find(answer => !answer.isPattern && answer.credit >= 100);
+
+  return {
+    responses: [{
+      identifier: 'RESPONSE',
+      cardinality: 'single',
+      baseType: 'string',
+      correct: best ? [best.text.trim()] : [],
+      mapping: { lowerBound: 0, upperBound: points, entries: Array.from(mapped), caseSensitive: !!question.caseSensitive },
+    }],
+    interaction: element('div', {}, [
+      element('p', {}, [question.stem]),
+      element('p', {}, [q('textEntryInteraction', { responseIdentifier: 'RESPONSE' })]),
+    ]),
+    feedback: [],
+    scoring: patterns.length > 0
+      ? [
+          q('responseCondition', {}, [
+            q('responseIf', {}, [
+              q('not', {}, [q('isNull', {}, [q('variable', { identifier: 'RESPONSE' })])]),
+              q('setOutcomeValue', { identifier: 'SCORE' }, [q('mapResponse', { identifier: 'RESPONSE' })]),
+            ]),
+          ]),
+          ...patterns.map(answer =>
+            q('responseCondition', {}, [
+              q('responseIf', {}, [
+                q('and', {}, [
+                  q('patternMatch', { pattern: answer.text }, [q('variable', { identifier: 'RESPONSE' })]),
+                  q('lt', {}, [q('variable', { identifier: 'SCORE' }), q('baseValue', { baseType: 'float' }, [String(worth(answer.credit))])]),
+                ]),
+                q('setOutcomeValue', { identifier: 'SCORE' }, [q('baseValue', { baseType: 'float' }, [String(worth(answer.credit))])]),
+              ]),
+            ])
+          ),
+        ]
+      : undefined,
+  };
+};
+
+// Essays are scored by hand, so there is no response processing. The model answer, the objective and the
+// rubric go in a rubricBlock for scorers; candidates are told the limits below the response box.
+const buildEssay = (q: QtiBuilder, question: EssayQuestion, version: QtiVersion): ItemParts => {
+  const { rubric } = question;
+  const hint = getEssayLimitHint(question);
+  const objective = [
+    question.learningObjective?.trim() && `Objective: ${question.learningObjective.trim()}`,
+    question.bloomsLevel && `Bloom's level: ${question.bloomsLevel}`,
+  ].filter(Boolean).join(' · ');
+  const scorerContent = [
+    objective && element('p', {}, [objective]),
+    question.modelAnswer?.trim() && element('div', { class: 'model-answer' }, [question.modelAnswer.trim()]),
+    rubric && element('table', { class: 'rubric' }, [
+      element('thead', {}, [
+        element('tr', {}, [
+          element('th', {}, ['Criterion']),
+          ...rubric.levels.map(level => element('th', {}, [`${level.label.trim()} (${level.points})`])),
+        ]),
+      ]),
+      element('tbody', {}, rubric.criteria.map(criterion =>
+        element('tr', {}, [
+          element('th', {}, [criterion.title.trim()]),
+          ...rubric.levels.map((_, index) => element('td', {}, [criterion.descriptors[index]?.trim() ?? ''])),
+        ])
+      )),
+    ]),
+    rubric && element('p', {}, [`Rubric total ${getRubricMaxPoints(rubric)} points, scaled to the item's maximum score.`]),
+  ].filter((content): content is XmlElement => !!content);
+
+  return {
+    responses: [{ identifier: 'RESPONSE', cardinality: 'single', baseType: 'string', correct: [] }],
+    rubric: scorerContent.length > 0
+      ? q('rubricBlock', { view: 'scorer' }, version === '2.1' ? scorerContent : [q('contentBody', {}, scorerContent)])
+      : undefined,
+    interaction: element('div', {}, [
+      q('extendedTextInteraction', {
+        responseIdentifier: 'RESPONSE',
+        format: 'plain',
+        expectedLength: question.maxCharacters ?? (question.maxWords !== undefined ? question.maxWords * 6 : undefined),
+      }, [q('prompt', {}, [question.stem])]),
+      hint && element('p', {}, [hint]),
+    ]),
+    feedback: [],
+    scoring: [],
+  };
+};
+
+const buildItemParts = (q: QtiBuilder, question: Question, version: QtiVersion, points: number, options: QtiItemOptions): ItemParts => {
+  const { image, labelImages } = options;
+  switch (question.type) {
+    case 'mcq':
+      return buildMcq(q, question, points);
+    case 'ordering':
+      return buildOrdering(q, question);
+    case 'hotspot':
+      return isLabelPlacement(question)
+        ? buildLabelPlacement(q, question, version, points, image, labelImages)
+        : buildHotspot(q, question, version, image);
+    case 'cloze':
+      return buildCloze(q, question, points);
+    case 'matching':
+      return buildMatching(q, question, points);
+    case 'numeric':
+      return buildNumeric(q, question);
+    case 'short-answer':
+      return buildShortAnswer(q, question, points);
+    case 'categorize':
+      return buildCategorize(q, question, points);
+    case 'essay':
+      return buildEssay(q, question, version);
+  }
+};
+
+// Full marks when the response matches the correct response, or the mapped points for
+// partial credit. Formative items also copy the response into FEEDBACK so the matching
+// modalFeedback blocks are shown.
+const buildResponseProcessing = (q: QtiBuilder, response: ResponseDeclaration, withFeedback: boolean) => {
+  const mapped = q('mapResponse', { identifier: 'RESPONSE' });
+  const scoreCondition = response.mapping
+    ? q('responseCondition', {}, [
+        q('responseIf', {}, [
+          q('isNull', {}, [q('variable', { identifier: 'RESPONSE' })]),
+          q('setOutcomeValue', { identifier: 'SCORE' }, [
+            q('baseValue', { baseType: 'float' }, ['0']),
+          ]),
+        ]),
+        q('responseElse', {}, [
+          q('setOutcomeValue', { identifier: 'SCORE' }, [
+            response.mappingOffset
+              ? q('sum', {}, [mapped, q('baseValue', { baseType: 'float' }, [String(response.mappingOffset)])])
+              : mapped,
+          ]),
+        ]),
+      ])
+    : q('responseCondition', {}, [
+        q('responseIf', {}, [
+          q('match', {}, [
+            q('variable', { identifier: 'RESPONSE' }),
+            q('correct', { identifier: 'RESPONSE' }),
+          ]),
+          q('setOutcomeValue', { identifier: 'SCORE' }, [
+            q('variable', { identifier: 'MAXSCORE' }),
+          ]),
+        ]),
+        q('responseElse', {}, [
+          q('setOutcomeValue', { identifier: 'SCORE' }, [
+            q('baseValue', { baseType: 'float' }, ['0']),
+          ]),
+        ]),
+      ]);
+
+  return q('responseProcessing', {}, [
+    scoreCondition,
+    withFeedback && q('setOutcomeValue', { identifier: 'FEEDBACK' }, [
+      q('variable', { identifier: 'RESPONSE' }),
+    ]),
+  ]);
+};
+
+const buildOutcome = (q: QtiBuilder, identifier: string, cardinality: string, baseType: string, defaultValue?: string) =>
+  q('outcomeDeclaration', { identifier, cardinality, baseType }, [
+    defaultValue !== undefined && q('defaultValue', {}, [q('value', {}, [defaultValue])]),
+  ]);
+
+export const buildQtiItem = (question: Question, version: QtiVersion, options: QtiItemOptions = {}) => {
+  const q = createBuilder(version);
+  const profile = QTI_PROFILES[version];
+  const points = options.points ?? DEFAULT_QUESTION_POINTS;
+  const { responses, interaction, rubric, feedback, scoring } = buildItemParts(q, question, version, points, options);
+  const feedbackCardinality = responses[0]?.cardinality === 'single' ? 'single' : 'multiple';
+
+  const item = q('assessmentItem', {
+    xmlns: profile.namespace,
+    'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+    'xsi:schemaLocation': profile.schemaLocation,
+    identifier: itemIdentifier(question),
+    title: itemTitle(question),
+    adaptive: false,
+    timeDependent: false,
+  }, [
+    ...responses.map(response =>
+      q('responseDeclaration', {
+        identifier: response.identifier,
+        cardinality: response.cardinality,
+        baseType: response.baseType ?? 'identifier',
+      }, [
+        response.correct.length > 0 && q('correctResponse', {}, response.correct.map(value => q('value', {}, [value]))),
+        response.mapping && q('mapping', {
+          lowerBound: response.mapping.lowerBound,
+          upperBound: response.mapping.upperBound,
+          defaultValue: 0,
+        }, response.mapping.entries.map(([mapKey, mappedValue]) =>
+          q('mapEntry', { mapKey, mappedValue, caseSensitive: response.mapping!.caseSensitive })
+        )),
+      ])
+    ),
+    buildOutcome(q, 'SCORE', 'single', 'float', '0'),
+    buildOutcome(q, 'MAXSCORE', 'single', 'float', String(points)),
+    feedback.length > 0 && buildOutcome(q, 'FEEDBACK', feedbackCardinality, 'identifier'),
+    q('itemBody', {}, [rubric, interaction]),
+    scoring ? scoring.length > 0 && q('responseProcessing', {}, scoring) : buildResponseProcessing(q, responses[0], feedback.length > 0),
+    ...feedback.map(({ identifier, text }) =>
+      q('modalFeedback', { outcomeIdentifier: 'FEEDBACK', identifier, showHide: 'show' }, [
+        version === '2.1' ? text : q('contentBody', {}, [element('p', {}, [text])]),
+      ])
+    ),
+  ]);
+
+  return serializeXml(item);
+};
+
+export const buildQtiTest = (assessment: Assessment, questions: Question[], version: QtiVersion) => {
+  const q = createBuilder(version);
+  const profile = QTI_PROFILES[version];
+  const questionIds = new Set(questions.map(question => question.id));
+  const byId = new Map(questions.map(question => [question.id, question]));
+
+  const test = q('assessmentTest', {
+    xmlns: profile.namespace,
+    'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+    'xsi:schemaLocation': profile.schemaLocation,
+    identifier: 'assessment',
+    title: assessment.title || 'Untitled assessment',
+  }, [
+    buildOutcome(q, 'SCORE', 'single', 'float', '0'),
+    !!assessment.timeLimitMinutes && q('timeLimits', { maxTime: assessment.timeLimitMinutes * 60 }),
+    q('testPart', { identifier: 'part-1', navigationMode: 'nonlinear', submissionMode: 'simultaneous' }, [
+      ...assessment.sections.map(section =>
+        q('assessmentSection', {
+          identifier: toQtiIdentifier('section', section.id),
+          title: section.title || 'Untitled section',
+          visible: true,
+        }, section.questionRefs
+          .filter(ref => questionIds.has(ref.questionId))
+          .map(ref => {
+            const question = byId.get(ref.questionId)!;
+            return q('assessmentItemRef', { identifier: itemIdentifier(question), href: itemHref(question) });
+          }))
+      ),
+    ]),
+    q('outcomeProcessing', {}, [
+      q('setOutcomeValue', { identifier: 'SCORE' }, [
+        q('sum', {}, [q('testVariables', { variableIdentifier: 'SCORE' })]),
+      ]),
+    ]),
+  ]);
+
+  return serializeXml(test);
+};
+
+const buildManifest = (
+  questions: Question[],
+  images: Map<string, QtiImage[]>,
+  version: QtiVersion
+) => {
+  const profile = QTI_PROFILES[version];
+
+  const manifest = element('manifest', {
+    xmlns: profile.manifestNamespace,
+    identifier: 'MANIFEST-assessment',
+  }, [
+    element('metadata', {}, [
+      element('schema', {}, [profile.manifestSchema]),
+      element('schemaversion', {}, [version === '2.1' ? '2.1' : '3.0.0']),
+    ]),
+    element('organizations'),
+    element('resources', {}, [
+      element('resource', { identifier: 'assessment', type: profile.testResourceType, href: 'assessment.xml' }, [
+        element('file', { href: 'assessment.xml' }),
+        ...questions.map(question => element('dependency', { identifierref: itemIdentifier(question) })),
+      ]),
+      ...questions.map(question =>
+        element('resource', {
+          identifier: itemIdentifier(question),
+          type: profile.itemResourceType,
+          href: itemHref(question),
+        }, [
+          element('file', { href: itemHref(question) }),
+          // Only images packaged alongside the item are listed as files
+          ...(images.get(question.id) ?? [])
+            .filter(image => !/^[a-z]+:/i.test(image.href))
+            .map(image => element('file', { href: image.href })),
+        ])
+      ),
+    ]),
+  ]);
+
+  return serializeXml(manifest);
+};
+
+// Item hrefs are relative to the item file, which lives in items/
+const toItemRelative = (image: QtiImage): QtiImage =>
+  /^[a-z]+:/i.test(image.href) ? image : { ...image, href: `../${image.href}` };
+
+export const createQtiPackage = async (assessment: Assessment, questions: Question[], version: QtiVersion) => {
+  const zip = new JSZip();
+  const byId = new Map(questions.map(question => [question.id, question]));
+  const ordered = getOrderedQuestionIds(assessment)
+    .map(id => byId.get(id))
+    .filter((question): question is Question => !!question);
+  const images = new Map<string, QtiImage>();
+  const labelImages = new Map<string, Record<string, QtiImage>>();
+
+  // Uploaded images are packaged under images/; linked ones stay links
+  const toQtiImage = (url: string, name: string): QtiImage => {
+    const data = parseDataUrl(url);
+    if (data) {
+      const href = `images/${name}.${IMAGE_EXTENSIONS[data.mimeType] ?? 'bin'}`;
+      zip.file(href, data.bytes);
+      return { href, mimeType: data.mimeType };
+    }
+    const extension = url.split('?')[0].split('.').pop()?.toLowerCase().replace('jpeg', 'jpg') ?? '';
+    const mimeType = Object.keys(IMAGE_EXTENSIONS).find(type => IMAGE_EXTENSIONS[type] === extension) ?? 'image/png';
+    return { href: url, mimeType };
+  };
+
+  ordered.forEach(question => {
+    if (question.type !== 'hotspot') return;
+    if (question.imageUrl) images.set(question.id, toQtiImage(question.imageUrl, itemIdentifier(question)));
+    if (!isLabelPlacement(question)) return;
+    labelImages.set(question.id, Object.fromEntries((question.labels ?? []).flatMap((label): [string, QtiImage][] =>
+      label.imageUrl ? [[label.id, toQtiImage(label.imageUrl, `${itemIdentifier(question)}-${toQtiIdentifier('label', label.id)}`)]] : []
+    )));
+  });
+
+  ordered.forEach(question => {
+    const image = images.get(question.id);
+    const itemLabelImages = labelImages.get(question.id);
+    zip.file(itemHref(question), buildQtiItem(question, version, {
+      points: findQuestionRef(assessment, question.id)?.ref.points,
+      image: image && toItemRelative(image),
+      labelImages: itemLabelImages && Object.fromEntries(
+        Object.keys(itemLabelImages).map(labelId => [labelId, toItemRelative(itemLabelImages[labelId])])
+      ),
+    }));
+  });
+
+  zip.file('assessment.xml', buildQtiTest(assessment, ordered, version));
+  const itemImages = new Map(ordered.map(question => [
+    question.id,
+    [...(images.has(question.id) ? [images.get(question.id)!] : []), ...Object.values(labelImages.get(question.id) ?? {})],
+  ]));
+  zip.file('imsmanifest.xml', buildManifest(ordered, itemImages, version));
+
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+};
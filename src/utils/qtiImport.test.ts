@@ -0,0 +1,64 @@
+import { HotspotQuestion, MCQQuestion } from '../types';
+import { createEmptyQuestion } from './assessmentUtils';
+import { buildQtiItem } from './qtiExport';
+import { parseQtiItemXml } from './qtiImport';
+
+test('imports an exported MCQ with its correct option and feedback', async () => {
+  const mcq: MCQQuestion = {
+    ...(createEmptyQuestion('mcq') as MCQQuestion),
+    stem: 'Pick one',
+    options: [
+      { id: 'a', text: 'Right', isCorrect: true, feedback: 'Well done' },
+      { id: 'b', text: 'Wrong', isCorrect: false, feedback: 'Try again' },
+    ],
+  };
+
+  const item = await parseQtiItemXml(buildQtiItem(mcq, '3.0'), 'item.xml');
+  expect(item.issues).toEqual([]);
+  expect(item.validationErrors).toEqual([]);
+  expect(item.question).toMatchObject({
+    type: 'mcq',
+    stem: 'Pick one',
+    options: [
+      { text: 'Right', isCorrect: true, feedback: 'Well done' },
+      { text: 'Wrong', isCorrect: false, feedback: 'Try again' },
+    ],
+  });
+});
+
+test('converts hotspot shapes and reports what was dropped', async () => {
+  const xml = `<?xml version="1.0"?>
+    <assessmentItem xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1" identifier="h1" title="Map">
+      <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">
+        <correctResponse><value>A</value></correctResponse>
+      </responseDeclaration>
+      <itemBody>
+        <p>Find the lake.</p>
+        <hotspotInteraction responseIdentifier="RESPONSE" maxChoices="1">
+          <object type="image/png" data="images/map.png" width="100" height="200"/>
+          <hotspotChoice identifier="A" shape="rect" coords="10,20,30,40"/>
+          <hotspotChoice identifier="B" shape="circle" coords="50,50,5"/>
+        </hotspotInteraction>
+      </itemBody>
+    </assessmentItem>`;
+
+  const item = await parseQtiItemXml(xml, 'map.xml');
+  const question = item.question as HotspotQuestion;
+  expect(question.stem).toBe('Find the lake.');
+  // Coordinates become fractions of the declared image size
+  expect(question.imageSize).toEqual({ width: 100, height: 200 });
+  expect(question.zones.map(zone => zone.coordinates)).toEqual([
+    [{ x: 0.1, y: 0.1 }, { x: 0.3, y: 0.1 }, { x: 0.3, y: 0.2 }, { x: 0.1, y: 0.2 }],
+  ]);
+  expect(item.issues).toEqual([
+    'Image "images/map.png" was not found',
+    '1 distractor hotspot(s) were dropped',
+  ]);
+});
+
+test('skips unsupported interactions instead of failing', async () => {
+  const xml = `<assessmentItem identifier="t1"><itemBody><extendedTextInteraction responseIdentifier="RESPONSE"/></itemBody></assessmentItem>`;
+  const item = await parseQtiItemXml(xml, 't1.xml');
+  expect(item.question).toBeUndefined();
+  expect(item.issues).toEqual(['Unsupported interaction: extendedTextInteraction']);
+});
@@ -0,0 +1,408 @@
+import JSZip from 'jszip';
+import { HotspotQuestion, HotspotZone, MCQOption, OrderingItem, Purpose, Question } from '../types';
+import { generateId } from './assessmentUtils';
+import { ellipsePoints, normalizeHotspotZones } from './hotspotGeometry';
+import { readImageSize } from './storage';
+import { qtiAttributeName, toQti21Name } from './qti';
+import { ImportResult, ImportedItem, createImportedItem } from './importUtils';
+
+// Turns an image reference inside an item into something the editor can display
+type ImageResolver = (src: string) => Promise<string | undefined>;
+
+const SUPPORTED_INTERACTIONS = ['choiceInteraction', 'orderInteraction', 'hotspotInteraction', 'graphicOrderInteraction'];
+
+const BLOCK_ELEMENTS = ['p', 'div', 'br', 'li', 'ul', 'ol', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'pre', 'table', 'tr'];
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  svg: 'image/svg+xml',
+  webp: 'image/webp',
+};
+
+// Element and attribute names are compared in their 2.1 form so both versions parse alike
+const nameOf = (el: Element) => toQti21Name(el.localName);
+
+const findAll = (root: Element, name: string) =>
+  Array.from(root.getElementsByTagName('*')).filter(el => nameOf(el) === name);
+
+const findFirst = (root: Element, name: string): Element | undefined => findAll(root, name)[0];
+
+const attr = (el: Element, name: string) =>
+  el.getAttribute(name) ?? el.getAttribute(qtiAttributeName(name, '3.0')) ?? undefined;
+
+const extractText = (node: Node, skip: (el: Element) => boolean): string => {
+  if (node.nodeType === Node.TEXT_NODE || node.nodeType === Node.CDATA_SECTION_NODE) {
+    return node.textContent ?? '';
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const el = node as Element;
+  if (skip(el)) return '';
+  const inner = Array.from(el.childNodes).map(child => extractText(child, skip)).join('');
+  return BLOCK_ELEMENTS.includes(el.localName) ? `\n${inner}\n` : inner;
+};
+
+// Collapses whitespace within lines and keeps paragraph breaks as newlines
+const getText = (el: Element | undefined, skip: (el: Element) => boolean = () => false) =>
+  el
+    ? extractText(el, skip)
+        .split('\n')
+        .map(line => line.replace(/\s+/g, ' ').trim())
+        .filter(Boolean)
+        .join('\n')
+    : '';
+
+const isFeedback = (el: Element) => ['feedbackInline', 'feedbackBlock'].includes(nameOf(el));
+
+const parseXml = (xml: string) => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  return doc.getElementsByTagName('parsererror').length > 0 ? undefined : doc.documentElement;
+};
+
+const getCorrectResponse = (item: Element, responseIdentifier: string) => {
+  const declaration = findAll(item, 'responseDeclaration').find(el => attr(el, 'identifier') === responseIdentifier);
+  if (!declaration) return { declaration, correct: [] as string[] };
+
+  const correctResponse = findFirst(declaration, 'correctResponse');
+  if (correctResponse) {
+    return { declaration, correct: findAll(correctResponse, 'value').map(value => getText(value)) };
+  }
+
+  // Items scored through a mapping list the correct choices as positively mapped keys
+  const correct = findAll(declaration, 'mapEntry')
+    .filter(entry => Number(attr(entry, 'mappedValue')) > 0)
+    .map(entry => attr(entry, 'mapKey') ?? '');
+  return { declaration, correct };
+};
+
+const getModalFeedback = (item: Element) =>
+  new Map(findAll(item, 'modalFeedback').map(el => [attr(el, 'identifier') ?? '', getText(el)]));
+
+const parseNumbers = (coords: string) => coords.split(/[\s,]+/).filter(Boolean).map(Number);
+
+// QTI shapes become polygons; circles and ellipses are approximated with 16 points
+const shapeToPolygon = (shape: string, coords: string): { x: number; y: number }[] | undefined => {
+  const n = parseNumbers(coords);
+  if (n.some(value => Number.isNaN(value))) return undefined;
+
+  let points: { x: number; y: number }[];
+  switch (shape) {
+    case 'poly':
+      points = [];
+      for (let i = 0; i + 1 < n.length; i += 2) {
+        points.push({ x: n[i], y: n[i + 1] });
+      }
+      // A closing point repeating the first one is implicit in our zones
+      if (points.length > 3 && points[0].x === points[points.length - 1].x && points[0].y === points[points.length - 1].y) {
+        points.pop();
+      }
+      break;
+    case 'rect':
+      if (n.length < 4) return undefined;
+      points = [{ x: n[0], y: n[1] }, { x: n[2], y: n[1] }, { x: n[2], y: n[3] }, { x: n[0], y: n[3] }];
+      break;
+    case 'circle':
+      if (n.length < 3) return undefined;
+      points = ellipsePoints({ x: n[0], y: n[1] }, n[2], n[2]);
+      break;
+    case 'ellipse':
+      if (n.length < 4) return undefined;
+      points = ellipsePoints({ x: n[0], y: n[1] }, n[2], n[3]);
+      break;
+    default:
+      return undefined;
+  }
+
+  return points.length >= 3 ? points.map(point => ({ x: Math.round(point.x), y: Math.round(point.y) })) : undefined;
+};
+
+interface ParsedInteraction {
+  stem: string;
+  purpose: Purpose;
+  issues: string[];
+  correct: string[];
+  item: Element;
+}
+
+const parseChoice = (interaction: Element, { stem, purpose, correct, item, issues }: ParsedInteraction): Question => {
+  const modalFeedback = getModalFeedback(item);
+  const options: MCQOption[] = findAll(interaction, 'simpleChoice').map(choice => {
+    const identifier = attr(choice, 'identifier') ?? '';
+    const inlineFeedback = getText(findFirst(choice, 'feedbackInline'));
+    return {
+      id: generateId(),
+      text: getText(choice, isFeedback),
+      isCorrect: correct.includes(identifier),
+      feedback: inlineFeedback || modalFeedback.get(identifier) || undefined,
+    };
+  });
+
+  const maxChoices = Number(attr(interaction, 'maxChoices') ?? 1);
+  const minChoices = Number(attr(interaction, 'minChoices') ?? 0);
+  if (maxChoices === 1 && correct.length > 1) {
+    issues.push('Single-choice interaction lists several correct responses; imported as multiple response');
+  }
+  if (maxChoices === 1 && correct.length <= 1) {
+    return { id: generateId(), type: 'mcq', purpose, stem, options, responseMode: 'single' };
+  }
+
+  // maxChoices 0 means no limit
+  return {
+    id: generateId(),
+    type: 'mcq',
+    purpose,
+    stem,
+    options,
+    responseMode: 'multiple',
+    minSelections: minChoices > 1 ? minChoices : undefined,
+    maxSelections: maxChoices > 1 && maxChoices < options.length ? maxChoices : undefined,
+  };
+};
+
+const parseOrder = (interaction: Element, { stem, purpose, correct, issues }: ParsedInteraction): Question => {
+  const choices = findAll(interaction, 'simpleChoice');
+  const unordered = choices.filter(choice => !correct.includes(attr(choice, 'identifier') ?? ''));
+  if (unordered.length > 0 && correct.length > 0) {
+    issues.push(`${unordered.length} choice(s) missing from the correct order were placed last`);
+  }
+
+  const rank = (choice: Element) => {
+    const index = correct.indexOf(attr(choice, 'identifier') ?? '');
+    return index === -1 ? correct.length + choices.indexOf(choice) : index;
+  };
+  const items: OrderingItem[] = [...choices]
+    .sort((a, b) => rank(a) - rank(b))
+    .map((choice, order) => ({ id: generateId(), text: getText(choice, isFeedback), order }));
+
+  return { id: generateId(), type: 'ordering', purpose, stem, items };
+};
+
+const parseHotspot = async (
+  interaction: Element,
+  { stem, purpose, correct, issues }: ParsedInteraction,
+  declaration: Element | undefined,
+  resolveImage: ImageResolver
+): Promise<Question> => {
+  if (nameOf(interaction) === 'graphicOrderInteraction') {
+    issues.push('Graphic order interaction imported as a hotspot; the order of the zones is not kept');
+  }
+
+  const imageElement = findFirst(interaction, 'object') ?? findFirst(interaction, 'img');
+  const src = imageElement && (imageElement.getAttribute('data') ?? imageElement.getAttribute('src'));
+  let imageUrl = '';
+  if (src) {
+    imageUrl = (await resolveImage(src)) ?? '';
+    if (!imageUrl) issues.push(`Image "${src}" was not found`);
+  } else {
+    issues.push('No background image found');
+  }
+
+  const choices = findAll(interaction, 'hotspotChoice');
+  let shapes = choices
+    .filter(choice => correct.length === 0 || correct.includes(attr(choice, 'identifier') ?? ''))
+    .map(choice => ({
+      shape: attr(choice, 'shape') ?? '',
+      coords: attr(choice, 'coords') ?? '',
+      label: attr(choice, 'hotspotLabel'),
+    }));
+
+  // Area mappings define the correct regions directly
+  const areaEntries = declaration ? findAll(declaration, 'areaMapEntry') : [];
+  if (correct.length === 0 && areaEntries.length > 0) {
+    shapes = areaEntries
+      .filter(entry => Number(attr(entry, 'mappedValue')) > 0)
+      .map(entry => ({ shape: attr(entry, 'shape') ?? '', coords: attr(entry, 'coords') ?? '', label: undefined }));
+  } else if (correct.length === 0) {
+    issues.push('No correct response declared; every hotspot was imported as a correct zone');
+  } else if (shapes.length < choices.length) {
+    issues.push(`${choices.length - shapes.length} distractor hotspot(s) were dropped`);
+  }
+
+  const zones: HotspotZone[] = [];
+  shapes.forEach(({ shape, coords, label }, index) => {
+    const coordinates = shapeToPolygon(shape, coords);
+    if (coordinates) {
+      zones.push({ id: generateId(), coordinates, label: label || `Zone ${index + 1}` });
+    } else {
+      issues.push(`Unsupported hotspot shape "${shape}" was skipped`);
+    }
+  });
+
+  // Coordinates are pixels of the image at its declared size, or its natural size when none is declared
+  const declared = imageElement && { width: Number(imageElement.getAttribute('width')), height: Number(imageElement.getAttribute('height')) };
+  const size = declared && declared.width > 0 && declared.height > 0 ? declared : readImageSize(imageUrl);
+  const question: HotspotQuestion = { id: generateId(), type: 'hotspot', purpose, stem, zones, imageUrl };
+  return size ? normalizeHotspotZones(question, size) : question;
+};
+
+const parseItemElement = async (item: Element, source: string, resolveImage: ImageResolver): Promise<ImportedItem> => {
+  const issues: string[] = [];
+  const itemBody = findFirst(item, 'itemBody');
+  const interactions = itemBody
+    ? Array.from(itemBody.getElementsByTagName('*')).filter(el => nameOf(el).endsWith('Interaction'))
+    : [];
+
+  if (interactions.length === 0) {
+    return createImportedItem(source, undefined, ['No interaction found']);
+  }
+
+  const interaction = interactions[0];
+  const interactionName = nameOf(interaction);
+  if (!SUPPORTED_INTERACTIONS.includes(interactionName)) {
+    return createImportedItem(source, undefined, [`Unsupported interaction: ${interactionName}`]);
+  }
+  if (interactions.length > 1) {
+    issues.push(`Only the first of ${interactions.length} interactions was imported`);
+  }
+
+  if (findAll(item, 'templateDeclaration').length > 0) {
+    issues.push('Template variables are not supported; the item was imported as written');
+  }
+  if (findAll(itemBody!, 'math').length > 0) {
+    issues.push('MathML was imported as plain text');
+  }
+  const mediaOutsideInteraction = ['img', 'object']
+    .flatMap(name => findAll(itemBody!, name))
+    .filter(el => !interaction.contains(el));
+  if (mediaOutsideInteraction.length > 0) {
+    issues.push('Images in the item body are not imported');
+  }
+
+  // The stem is the body text around the interaction followed by its prompt
+  const bodyText = getText(itemBody, el => nameOf(el).endsWith('Interaction') || isFeedback(el));
+  const prompt = getText(findFirst(interaction, 'prompt'));
+  const stem = [bodyText, prompt].filter(Boolean).join('\n') || attr(item, 'title') || '';
+
+  const { declaration, correct } = getCorrectResponse(item, attr(interaction, 'responseIdentifier') ?? 'RESPONSE');
+  if (correct.length === 0 && interactionName !== 'hotspotInteraction') {
+    issues.push('No correct response declared');
+  }
+
+  const parsed: ParsedInteraction = { stem, purpose: 'formative', issues, correct, item };
+  let question: Question;
+  switch (interactionName) {
+    case 'choiceInteraction':
+      question = parseChoice(interaction, parsed);
+      break;
+    case 'orderInteraction':
+      question = parseOrder(interaction, parsed);
+      break;
+    default:
+      question = await parseHotspot(interaction, parsed, declaration, resolveImage);
+  }
+
+  return createImportedItem(source, question, issues);
+};
+
+// Only absolute and data URLs can be used without a package to resolve against
+const resolveStandaloneImage: ImageResolver = async src => (/^(https?:|data:)/i.test(src) ? src : undefined);
+
+export const parseQtiItemXml = async (
+  xml: string,
+  source: string,
+  resolveImage: ImageResolver = resolveStandaloneImage
+): Promise<ImportedItem> => {
+  const root = parseXml(xml);
+  if (!root) return createImportedItem(source, undefined, ['The file is not well-formed XML']);
+  if (nameOf(root) !== 'assessmentItem') {
+    return createImportedItem(source, undefined, [`Expected an assessment item but found <${root.localName}>`]);
+  }
+
+  try {
+    return await parseItemElement(root, attr(root, 'identifier') ?? source, resolveImage);
+  } catch (err) {
+    return createImportedItem(source, undefined, [`Could not read the item: ${err instanceof Error ? err.message : err}`]);
+  }
+};
+
+const resolvePath = (basePath: string, href: string) => {
+  const parts = basePath.split('/').slice(0, -1);
+  decodeURIComponent(href).split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+};
+
+const createPackageImageResolver = (zip: JSZip, itemPath: string): ImageResolver => async src => {
+  if (/^(https?:|data:)/i.test(src)) return src;
+
+  const path = resolvePath(itemPath, src);
+  const file = zip.file(path);
+  if (!file) return undefined;
+
+  const extension = path.split('.').pop()?.toLowerCase() ?? '';
+  return `data:${MIME_TYPES[extension] ?? 'application/octet-stream'};base64,${await file.async('base64')}`;
+};
+
+const getManifestItemPaths = async (zip: JSZip, errors: string[]) => {
+  const manifestFile = zip.file(/(^|\/)imsmanifest\.xml$/i)[0];
+  const manifest = manifestFile && parseXml(await manifestFile.async('string'));
+
+  if (!manifest) {
+    errors.push('No readable imsmanifest.xml; every XML file in the package was checked for items');
+    return Object.keys(zip.files).filter(path => path.toLowerCase().endsWith('.xml') && !zip.files[path].dir);
+  }
+
+  const basePath = manifestFile.name;
+  return Array.from(manifest.getElementsByTagName('*'))
+    .filter(el => el.localName === 'resource' && (el.getAttribute('type') ?? '').startsWith('imsqti_item'))
+    .map(el => resolvePath(basePath, el.getAttribute('href') ?? ''));
+};
+
+export const parseQtiPackage = async (data: Blob | ArrayBuffer, name: string): Promise<ImportResult> => {
+  const result: ImportResult = { format: 'QTI', name, items: [], errors: [] };
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    result.errors.push('The file is not a valid zip package');
+    return result;
+  }
+
+  const hadManifest = !!zip.file(/(^|\/)imsmanifest\.xml$/i)[0];
+  const paths = await getManifestItemPaths(zip, result.errors);
+
+  for (const path of paths) {
+    const file = zip.file(path);
+    if (!file) {
+      result.items.push(createImportedItem(path, undefined, ['Listed in the manifest but missing from the package']));
+      continue;
+    }
+
+    const xml = await file.async('string');
+    // Without a manifest, non-item XML files (tests, metadata) are silently skipped
+    if (!hadManifest && !/<(qti-)?assessment-?item[\s>]/i.test(xml)) continue;
+    result.items.push(await parseQtiItemXml(xml, path, createPackageImageResolver(zip, path)));
+  }
+
+  if (result.items.length === 0 && result.errors.length === 0) {
+    result.errors.push('The package contains no assessment items');
+  }
+  return result;
+};
+
+export const parseQtiFile = async (file: File): Promise<ImportResult> => {
+  if (/\.zip$/i.test(file.name) || file.type.includes('zip')) {
+    return parseQtiPackage(file, file.name);
+  }
+
+  const result: ImportResult = { format: 'QTI', name: file.name, items: [], errors: [] };
+  const xml = await file.text();
+  const root = parseXml(xml);
+
+  if (!root) {
+    result.errors.push('The file is not well-formed XML');
+  } else if (root.localName === 'questestinterop') {
+    result.errors.push('QTI 1.x files are not supported; export the bank as QTI 2.1 or 3.0');
+  } else if (nameOf(root) === 'assessmentTest') {
+    result.errors.push('A test file only references its items; import the whole content package (.zip) instead');
+  } else {
+    result.items.push(await parseQtiItemXml(xml, file.name));
+  }
+  return result;
+};
@@ -0,0 +1,35 @@
+import { MCQQuestion, OrderingQuestion } from '../types';
+import { createEmptyQuestion } from './assessmentUtils';
+import { collectTags, filterQuestions, matchesFilter, EMPTY_FILTER } from './questionFilters';
+
+const mcq: MCQQuestion = {
+  ...(createEmptyQuestion('mcq') as MCQQuestion),
+  stem: 'Which planet is largest?',
+  topic: 'Astronomy',
+  tags: ['space', 'easy'],
+};
+const ordering: OrderingQuestion = {
+  ...(createEmptyQuestion('ordering') as OrderingQuestion),
+  stem: 'Order the steps',
+  purpose: 'summative',
+  items: [
+    { id: 'a', text: 'Boil water', order: 0 },
+    { id: 'b', text: 'Add pasta', order: 1 },
+  ],
+};
+
+test('searches across stems and item text, ignoring case', () => {
+  expect(filterQuestions([mcq, ordering], { search: 'PASTA' })).toEqual([ordering]);
+  expect(filterQuestions([mcq, ordering], { search: 'planet largest' })).toEqual([mcq]);
+  expect(matchesFilter(mcq, { search: 'mcq' })).toBe(false);
+});
+
+test('combines attribute filters', () => {
+  expect(filterQuestions([mcq, ordering], { ...EMPTY_FILTER, tag: 'space', purpose: 'formative' })).toEqual([mcq]);
+  expect(filterQuestions([mcq, ordering], { ...EMPTY_FILTER, type: 'ordering', topic: 'Astronomy' })).toEqual([]);
+  expect(filterQuestions([mcq, ordering], { ...EMPTY_FILTER, validation: 'valid' })).toEqual([]);
+});
+
+test('collects the distinct tags in the bank', () => {
+  expect(collectTags([mcq, { ...ordering, tags: ['easy', ' lab '] }])).toEqual(['easy', 'lab', 'space']);
+});
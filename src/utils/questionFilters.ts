@@ -0,0 +1,69 @@
+import { BloomsLevel, Purpose, Question, QuestionType } from '../types';
+import { validateQuestion } from './assessmentUtils';
+
+export type ValidationFilter = 'valid' | 'invalid';
+
+export interface QuestionFilter {
+  search: string;
+  type?: QuestionType;
+  purpose?: Purpose;
+  topic?: string;
+  bloomsLevel?: BloomsLevel;
+  tag?: string;
+  validation?: ValidationFilter;
+}
+
+export const EMPTY_FILTER: QuestionFilter = { search: '' };
+
+// Keys whose string values aren't authored text and shouldn't match a search
+const NON_SEARCHABLE_KEYS = ['id', 'type', 'purpose', 'imageUrl', 'bloomsLevel', 'mode', 'responseId', 'answerMode', 'toleranceType', 'categoryId', 'zoneIds', 'interaction'];
+
+const collectText = (value: unknown, key?: string): string[] => {
+  if (key && NON_SEARCHABLE_KEYS.includes(key)) return [];
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.flatMap(entry => collectText(entry));
+  if (value && typeof value === 'object' && !(value instanceof Blob)) {
+    return Object.entries(value).flatMap(([childKey, child]) => collectText(child, childKey));
+  }
+  return [];
+};
+
+// Stem, topic, tags and every option/item/zone text of the question, lowercased
+export const getSearchableText = (question: Question) =>
+  collectText(question).join('\n').toLowerCase();
+
+export const isFilterActive = (filter: QuestionFilter) =>
+  !!(filter.search.trim() || filter.type || filter.purpose || filter.topic ||
+    filter.bloomsLevel || filter.tag || filter.validation);
+
+export const matchesFilter = (question: Question, filter: QuestionFilter): boolean => {
+  if (filter.type && question.type !== filter.type) return false;
+  if (filter.purpose && question.purpose !== filter.purpose) return false;
+  if (filter.topic && (question.topic ?? '').trim() !== filter.topic) return false;
+  if (filter.bloomsLevel && question.bloomsLevel !== filter.bloomsLevel) return false;
+  if (filter.tag && !(question.tags ?? []).includes(filter.tag)) return false;
+
+  if (filter.validation) {
+    const { isValid } = validateQuestion(question);
+    if ((filter.validation === 'valid') !== isValid) return false;
+  }
+
+  const terms = filter.search.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length > 0) {
+    const text = getSearchableText(question);
+    return terms.every(term => text.includes(term));
+  }
+
+  return true;
+};
+
+export const filterQuestions = (questions: Question[], filter: QuestionFilter) =>
+  isFilterActive(filter) ? questions.filter(question => matchesFilter(question, filter)) : questions;
+
+const uniqueSorted = (values: (string | undefined)[]) =>
+  Array.from(new Set(values.map(value => value?.trim()).filter((value): value is string => !!value)))
+    .sort((a, b) => a.localeCompare(b));
+
+export const collectTopics = (questions: Question[]) => uniqueSorted(questions.map(q => q.topic));
+
+export const collectTags = (questions: Question[]) => uniqueSorted(questions.flatMap(q => q.tags ?? []));
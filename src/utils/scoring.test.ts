@@ -0,0 +1,109 @@
+import { CategorizeQuestion, MatchingQuestion, MCQQuestion, ShortAnswerQuestion } from '../types';
+import {
+  getResponseMode,
+  getSelectionHint,
+  gradeShortAnswerResponse,
+  scoreCategorizeResponse,
+  scoreMatchingResponse,
+  scoreMcqResponse,
+} from './scoring';
+
+const question: MCQQuestion = {
+  id: 'q1',
+  type: 'mcq',
+  purpose: 'summative',
+  stem: 'Which are planets?',
+  responseMode: 'multiple',
+  options: [
+    { id: 'a', text: 'Mars', isCorrect: true },
+    { id: 'b', text: 'Venus', isCorrect: true },
+    { id: 'c', text: 'The Moon', isCorrect: false },
+    { id: 'd', text: 'The Sun', isCorrect: false },
+  ],
+};
+
+test('scores multiple response with each scoring method', () => {
+  const responses = [['a', 'b'], ['a'], ['a', 'c'], ['a', 'b', 'c', 'd'], []];
+  const scores = (scoring: MCQQuestion['scoring']) =>
+    responses.map(response => scoreMcqResponse({ ...question, scoring }, response));
+
+  expect(scores('allOrNothing')).toEqual([1, 0, 0, 0, 0]);
+  expect(scores('partialCredit')).toEqual([1, 0.75, 0.5, 0.5, 0]);
+  expect(scores('rightMinusWrong')).toEqual([1, 0.5, 0, 0, 0]);
+});
+
+test('responses outside the selection limits score nothing', () => {
+  const limited = { ...question, scoring: 'partialCredit' as const, maxSelections: 2 };
+  expect(scoreMcqResponse(limited, ['a', 'b', 'c'])).toBe(0);
+  expect(getSelectionHint(limited)).toBe('Select 1 to 2 options.');
+  expect(getSelectionHint({ ...limited, minSelections: 2 })).toBe('Select 2 options.');
+  expect(getSelectionHint(question)).toBe('Select all that apply.');
+});
+
+test('questions without a mode are single response unless several options are correct', () => {
+  const withoutMode = { ...question, responseMode: undefined };
+  expect(getResponseMode(withoutMode)).toBe('multiple');
+  expect(getResponseMode({ ...withoutMode, options: withoutMode.options.slice(1) })).toBe('single');
+  expect(scoreMcqResponse({ ...question, responseMode: 'single', options: question.options.slice(1) }, ['b'])).toBe(1);
+});
+
+test('matching earns an equal share per correct pair and ignores distractors', () => {
+  const matching: MatchingQuestion = {
+    id: 'q2',
+    type: 'matching',
+    purpose: 'summative',
+    stem: 'Match',
+    mode: 'manyToOne',
+    premises: [
+      { id: 'p1', text: 'Io', responseId: 'r1' },
+      { id: 'p2', text: 'Europa', responseId: 'r1' },
+      { id: 'p3', text: 'Titan', responseId: 'r2' },
+      { id: 'p4', text: 'Triton', responseId: 'r3' },
+    ],
+    responses: [{ id: 'r1', text: 'Jupiter' }, { id: 'r2', text: 'Saturn' }, { id: 'r3', text: 'Neptune' }, { id: 'r4', text: 'Mars' }],
+  };
+  expect(scoreMatchingResponse(matching, { p1: 'r1', p2: 'r1', p3: 'r2', p4: 'r3' })).toBe(1);
+  expect(scoreMatchingResponse(matching, { p1: 'r1', p2: 'r4', p3: 'r2' })).toBe(0.5);
+  expect(scoreMatchingResponse({ ...matching, premises: [] }, {})).toBe(0);
+});
+
+test('categorize splits each category share between its items and takes misplaced items away', () => {
+  const categorize: CategorizeQuestion = {
+    id: 'q4',
+    type: 'categorize',
+    purpose: 'summative',
+    stem: 'Sort',
+    categories: [{ id: 'c1', text: 'Mammals' }, { id: 'c2', text: 'Birds' }, { id: 'c3', text: 'Fish' }],
+    items: [
+      { id: 'i1', text: 'Whale', categoryId: 'c1' },
+      { id: 'i2', text: 'Bat', categoryId: 'c1' },
+      { id: 'i3', text: 'Penguin', categoryId: 'c2' },
+      { id: 'i4', text: 'Granite', categoryId: '' },
+    ],
+  };
+  expect(scoreCategorizeResponse(categorize, { i1: 'c1', i2: 'c1', i3: 'c2' })).toBe(1);
+  expect(scoreCategorizeResponse(categorize, { i1: 'c1', i2: 'c1', i3: 'c2', i4: 'c1' })).toBe(0.75);
+  expect(scoreCategorizeResponse(categorize, { i1: 'c1', i3: 'c3' })).toBe(0.25);
+  expect(scoreCategorizeResponse(categorize, { i1: 'c2', i3: 'c1' })).toBe(0);
+});
+
+test('short answers earn the credit of the best matching answer', () => {
+  const shortAnswer: ShortAnswerQuestion = {
+    id: 'q3',
+    type: 'short-answer',
+    purpose: 'formative',
+    stem: 'What turns source code into tokens?',
+    answers: [
+      { id: 'a1', text: 'lexer', credit: 100, feedback: 'Yes' },
+      { id: 'a2', text: 'lex(er|ical analy[sz]er)|tokeni[sz]er', isPattern: true, credit: 100 },
+      { id: 'a3', text: 'pars(e|er)', isPattern: true, credit: 50, feedback: 'Close' },
+    ],
+    incorrectFeedback: 'Think about the first stage',
+  };
+  expect(gradeShortAnswerResponse(shortAnswer, '  Lexer ')).toEqual({ credit: 1, feedback: 'Yes' });
+  expect(gradeShortAnswerResponse(shortAnswer, 'Lexical analyser').credit).toBe(1);
+  expect(gradeShortAnswerResponse(shortAnswer, 'parser')).toEqual({ credit: 0.5, feedback: 'Close' });
+  expect(gradeShortAnswerResponse(shortAnswer, 'compiler')).toEqual({ credit: 0, feedback: 'Think about the first stage' });
+  expect(gradeShortAnswerResponse({ ...shortAnswer, caseSensitive: true }, 'Lexer').credit).toBe(0);
+  expect(gradeShortAnswerResponse({ ...shortAnswer, ignoreWhitespace: true }, 'lex er').credit).toBe(1);
+});
@@ -0,0 +1,150 @@
+import {
+  CategorizeQuestion,
+  ClozeQuestion,
+  HotspotQuestion,
+  MatchingQuestion,
+  MCQQuestion,
+  MCQResponseMode,
+  MCQScoringMethod,
+  NumericQuestion,
+  ShortAnswerQuestion,
+} from '../types';
+import { getPlacedBlanks, isClozeResponseCorrect } from './cloze';
+import { getScoredLabels } from './labelPlacement';
+import { countSignificantFigures, isNumericValueCorrect, isUnitAccepted, parseNumericResponse } from './numeric';
+import { findShortAnswerMatch } from './textAnswers';
+
+export const SCORING_METHODS: { value: MCQScoringMethod; label: string; description: string }[] = [
+  {
+    value: 'allOrNothing',
+    label: 'All or nothing',
+    description: 'Full points only when exactly the correct options are selected',
+  },
+  {
+    value: 'partialCredit',
+    label: 'Partial credit per option',
+    description: 'Every option selected when correct or left out when incorrect earns an equal share',
+  },
+  {
+    value: 'rightMinusWrong',
+    label: 'Right minus wrong',
+    description: 'Each correct selection earns a share and each incorrect one takes a share away, never below zero',
+  },
+];
+
+// Questions saved before the mode existed, and most imports, have no mode;
+// several correct options can only have been meant as multiple response
+export const getResponseMode = (question: MCQQuestion): MCQResponseMode =>
+  question.responseMode ?? (question.options.filter(option => option.isCorrect).length > 1 ? 'multiple' : 'single');
+
+export const getScoringMethod = (question: MCQQuestion): MCQScoringMethod =>
+  getResponseMode(question) === 'multiple' ? question.scoring ?? 'allOrNothing' : 'allOrNothing';
+
+export const getSelectionLimits = (question: MCQQuestion) =>
+  getResponseMode(question) === 'multiple'
+    ? { min: question.minSelections ?? 1, max: question.maxSelections ?? question.options.length }
+    : { min: 1, max: 1 };
+
+// Shown to students; single response needs no instruction
+export const getSelectionHint = (question: MCQQuestion) => {
+  if (getResponseMode(question) === 'single') return undefined;
+  const { min, max } = getSelectionLimits(question);
+  if (min === max) return `Select ${min} option${min !== 1 ? 's' : ''}.`;
+  if (min > 1 || max < question.options.length) return `Select ${min} to ${max} options.`;
+  return 'Select all that apply.';
+};
+
+// Share of the question's points earned by a response, from 0 to 1
+export const scoreMcqResponse = (question: MCQQuestion, selectedIds: string[]) => {
+  const selected = new Set(selectedIds);
+  const { min, max } = getSelectionLimits(question);
+  if (selected.size < min || selected.size > max) return 0;
+
+  const correct = question.options.filter(option => option.isCorrect);
+  const correctSelected = correct.filter(option => selected.has(option.id)).length;
+  const incorrectSelected = question.options.filter(option => !option.isCorrect && selected.has(option.id)).length;
+
+  switch (getScoringMethod(question)) {
+    case 'allOrNothing':
+      return correctSelected === correct.length && incorrectSelected === 0 ? 1 : 0;
+    case 'partialCredit': {
+      const incorrectLeftOut = question.options.length - correct.length - incorrectSelected;
+      return (correctSelected + incorrectLeftOut) / question.options.length;
+    }
+    case 'rightMinusWrong':
+      return correct.length > 0 ? Math.max(0, (correctSelected - incorrectSelected) / correct.length) : 0;
+  }
+};
+
+// Each blank earns an equal share; responses are keyed by blank id
+export const scoreClozeResponse = (question: ClozeQuestion, responses: Record<string, string>) => {
+  const blanks = getPlacedBlanks(question);
+  if (blanks.length === 0) return 0;
+  return blanks.filter(blank => isClozeResponseCorrect(blank, responses[blank.id] ?? '')).length / blanks.length;
+};
+
+// Each premise paired with its correct response earns an equal share; pairs are keyed by premise id
+export const scoreMatchingResponse = (question: MatchingQuestion, pairs: Record<string, string>) => {
+  if (question.premises.length === 0) return 0;
+  const correct = question.premises.filter(premise => premise.responseId && pairs[premise.id] === premise.responseId);
+  return correct.length / question.premises.length;
+};
+
+// Each category with items earns an equal share, split between the items that belong in it. An item placed
+// in the wrong category, distractors included, takes one of that category's parts away; the total never goes
+// below zero. Placements are keyed by item id.
+export const scoreCategorizeResponse = (question: CategorizeQuestion, placements: Record<string, string>) => {
+  const categories = question.categories.filter(category => question.items.some(item => item.categoryId === category.id));
+  if (categories.length === 0) return 0;
+  const credit = categories.reduce((total, category) => {
+    const size = question.items.filter(item => item.categoryId === category.id).length;
+    const placed = question.items.filter(item => placements[item.id] === category.id);
+    const right = placed.filter(item => item.categoryId === category.id).length;
+    return total + (right - (placed.length - right)) / size / categories.length;
+  }, 0);
+  return Math.max(0, credit);
+};
+
+// Each label that belongs on a zone earns an equal share when it is placed on one of its zones; distractors
+// earn nothing but take up a zone. Placements are keyed by zone id.
+export const scoreLabelPlacementResponse = (question: HotspotQuestion, placements: Record<string, string>) => {
+  const labels = getScoredLabels(question);
+  if (labels.length === 0) return 0;
+  const placed = labels.filter(label => label.zoneIds.some(zoneId => placements[zoneId] === label.id));
+  return placed.length / labels.length;
+};
+
+// Why a numeric response was turned down before its value was compared
+export type NumericResponseProblem = 'notANumber' | 'unit' | 'significantFigures';
+
+export interface ResponseGrade {
+  // Share of the points, from 0 to 1
+  credit: number;
+  feedback?: string;
+  problem?: NumericResponseProblem;
+}
+
+export const gradeNumericResponse = (question: NumericQuestion, response: string): ResponseGrade => {
+  const wrong = (problem?: NumericResponseProblem): ResponseGrade => ({
+    credit: 0,
+    feedback: question.incorrectFeedback?.trim() || undefined,
+    problem,
+  });
+  const parsed = parseNumericResponse(response);
+  if (!parsed) return wrong('notANumber');
+  if (!isUnitAccepted(question, parsed.unit)) return wrong('unit');
+  if (question.significantFigures && countSignificantFigures(parsed.digits) !== question.significantFigures) {
+    return wrong('significantFigures');
+  }
+  return isNumericValueCorrect(question, parsed.value)
+    ? { credit: 1, feedback: question.correctFeedback?.trim() || undefined }
+    : wrong();
+};
+
+// The best matching answer decides the credit and the feedback
+export const gradeShortAnswerResponse = (question: ShortAnswerQuestion, response: string): ResponseGrade => {
+  const match = findShortAnswerMatch(question, response);
+  return match
+    ? { credit: Math.min(Math.max(match.credit, 0), 100) / 100, feedback: match.feedback?.trim() || undefined }
+    : { credit: 0, feedback: question.incorrectFeedback?.trim() || undefined };
+};
@@ -0,0 +1,406 @@
+import JSZip from 'jszip';
+import {
+  Assessment,
+  CategorizeQuestion,
+  ClozeQuestion,
+  EssayQuestion,
+  HotspotQuestion,
+  MatchingQuestion,
+  MCQQuestion,
+  NumericQuestion,
+  OrderingQuestion,
+  Question,
+  ShortAnswerQuestion,
+} from '../types';
+import { createEmptyAssessment } from './assessmentStructure';
+import { PlayerData, createPlayerData, createScormPackage } from './scormExport';
+import { PLAYER_SCRIPT } from './scormPlayer';
+
+const mcq: MCQQuestion = {
+  id: 'q1',
+  type: 'mcq',
+  purpose: 'formative',
+  stem: 'Pick B',
+  options: [
+    { id: 'o1', text: 'A', isCorrect: false, feedback: 'No' },
+    { id: 'o2', text: 'B', isCorrect: true, feedback: 'Yes' },
+  ],
+};
+
+const ordering: OrderingQuestion = {
+  id: 'q2',
+  type: 'ordering',
+  purpose: 'summative',
+  stem: 'Order',
+  items: [{ id: 'i1', text: 'First', order: 0 }, { id: 'i2', text: 'Second', order: 1 }],
+};
+
+const hotspot: HotspotQuestion = {
+  id: 'q3',
+  type: 'hotspot',
+  purpose: 'summative',
+  stem: 'Click the square',
+  imageUrl: 'data:image/png;base64,iVBORw0KGgo=',
+  zones: [{ id: 'z1', coordinates: [{ x: 0.1, y: 0.1 }, { x: 0.5, y: 0.1 }, { x: 0.5, y: 0.5 }, { x: 0.1, y: 0.5 }] }],
+};
+
+const questions: Question[] = [mcq, ordering, hotspot];
+const assessment: Assessment = { ...createEmptyAssessment(['q1', 'q2', 'q3']), title: 'Quiz' };
+
+// What the package's scripts share through the window
+declare global {
+  interface Window {
+    API?: ReturnType<typeof createScormApiStub>;
+    ASSESSMENT_DATA?: PlayerData;
+    ASSESSMENT_PLAYER?: { submit(): void };
+  }
+}
+
+// Just enough of the SCORM 1.2 runtime API for the player, recording everything it is sent
+const createScormApiStub = (initial: Record<string, string> = {}) => {
+  const values: Record<string, string> = { 'cmi.core.lesson_status': 'not attempted', ...initial };
+  const calls: string[] = [];
+  return {
+    values,
+    calls,
+    LMSInitialize: () => { calls.push('LMSInitialize'); return 'true'; },
+    LMSFinish: () => { calls.push('LMSFinish'); return 'true'; },
+    LMSCommit: () => { calls.push('LMSCommit'); return 'true'; },
+    LMSGetValue: (key: string) => {
+      if (key === 'cmi.interactions._count') {
+        return String(Object.keys(values).filter(name => /^cmi\.interactions\.\d+\.id$/.test(name)).length);
+      }
+      return values[key] ?? '';
+    },
+    LMSSetValue: (key: string, value: string) => { values[key] = value; return 'true'; },
+    LMSGetLastError: () => '0',
+  };
+};
+
+const runPlayer = (api: ReturnType<typeof createScormApiStub>, passingScore?: number, playerQuestions = questions) => {
+  const playerAssessment = playerQuestions === questions
+    ? assessment
+    : createEmptyAssessment(playerQuestions.map(question => question.id));
+  document.body.innerHTML = '<main id="player"></main>';
+  window.API = api;
+  window.ASSESSMENT_DATA = createPlayerData(playerAssessment, playerQuestions, { version: 'scorm12', passingScore, showFeedback: true });
+  // Runs the player the way index.html does
+  const script = document.createElement('script');
+  script.textContent = PLAYER_SCRIPT;
+  document.body.appendChild(script);
+};
+
+// Clicks at a percentage of the image, shown at 200 by 200 pixels
+const clickImage = (x: number, y: number) => {
+  const image = document.querySelector<HTMLImageElement>('.player-figure img')!;
+  image.getBoundingClientRect = () => ({ left: 0, top: 0, width: 200, height: 200 } as DOMRect);
+  image.parentElement!.dispatchEvent(new MouseEvent('click', { clientX: x * 2, clientY: y * 2, bubbles: true }));
+};
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('reports score, status and interactions through the SCORM 1.2 API', () => {
+  jest.spyOn(Math, 'random').mockReturnValue(0.99);
+  const api = createScormApiStub();
+  runPlayer(api, 50);
+
+  expect(api.calls).toEqual(['LMSInitialize', 'LMSCommit']);
+  expect(api.values['cmi.core.lesson_status']).toBe('incomplete');
+
+  const optionB = document.querySelector<HTMLInputElement>('input[value="b"]')!;
+  optionB.checked = true;
+  optionB.dispatchEvent(new Event('change'));
+  // The unshuffled order is rotated, so moving the first item down restores it
+  document.querySelector<HTMLButtonElement>('.player-order button[title="Move down"]')!.click();
+  clickImage(80, 80);
+  document.querySelector<HTMLButtonElement>('.player-submit')!.click();
+
+  expect(api.values).toMatchObject({
+    'cmi.core.score.raw': '67',
+    'cmi.core.score.max': '100',
+    'cmi.core.lesson_status': 'passed',
+    'cmi.interactions.0.id': 'q1_q1',
+    'cmi.interactions.0.type': 'choice',
+    'cmi.interactions.0.student_response': 'b',
+    'cmi.interactions.0.result': 'correct',
+    'cmi.interactions.1.type': 'sequencing',
+    'cmi.interactions.1.student_response': 'a,b',
+    'cmi.interactions.1.result': 'correct',
+    'cmi.interactions.2.student_response': '',
+    'cmi.interactions.2.correct_responses.0.pattern': 'a',
+    'cmi.interactions.2.result': 'wrong',
+  });
+  expect(api.calls.slice(-2)).toEqual(['LMSCommit', 'LMSFinish']);
+  expect(document.querySelector('.player-status')!.textContent).toContain('You scored 2 of 3 points');
+});
+
+test('prefers the mastery score set in the LMS', () => {
+  const api = createScormApiStub({ 'cmi.student_data.mastery_score': '100' });
+  runPlayer(api, 50);
+
+  clickImage(20, 30);
+  window.ASSESSMENT_PLAYER!.submit();
+
+  expect(api.values['cmi.interactions.2.result']).toBe('correct');
+  expect(api.values['cmi.core.lesson_status']).toBe('failed');
+});
+
+test('scores cloze blanks as equal shares and reports them as fill-in', () => {
+  const cloze: ClozeQuestion = {
+    id: 'q4',
+    type: 'cloze',
+    purpose: 'formative',
+    stem: 'Complete',
+    passage: 'Water is {{b1}} and boils at {{b2}} degrees.',
+    blanks: [
+      { id: 'b1', mode: 'text', acceptedAnswers: ['H2O'], ignoreWhitespace: true, choices: [] },
+      {
+        id: 'b2',
+        mode: 'dropdown',
+        acceptedAnswers: [],
+        choices: [{ id: 'c1', text: '90', isCorrect: false }, { id: 'c2', text: '100', isCorrect: true }],
+        feedback: 'At sea level',
+      },
+    ],
+  };
+  const api = createScormApiStub();
+  runPlayer(api, undefined, [cloze]);
+
+  const input = document.querySelector<HTMLInputElement>('.player-blank input')!;
+  input.value = ' h 2 o ';
+  input.dispatchEvent(new Event('input'));
+  const select = document.querySelector<HTMLSelectElement>('.player-blank select')!;
+  select.value = 'a';
+  select.dispatchEvent(new Event('change'));
+  window.ASSESSMENT_PLAYER!.submit();
+
+  expect(api.values).toMatchObject({
+    'cmi.core.score.raw': '50',
+    'cmi.interactions.0.type': 'fill-in',
+    'cmi.interactions.0.student_response': ' h 2 o ,90',
+    'cmi.interactions.0.correct_responses.0.pattern': 'H2O,100',
+    'cmi.interactions.0.result': 'wrong',
+  });
+  expect(document.querySelector('.player-verdict')!.textContent).toBe('Partly correct (50%)');
+  expect(document.querySelector('.player-blank-feedback')!.textContent).toBe('Blank 2: At sea level');
+});
+
+test('scores matching pairs as equal shares and keeps one-to-one responses exclusive', () => {
+  const matching: MatchingQuestion = {
+    id: 'q5',
+    type: 'matching',
+    purpose: 'formative',
+    stem: 'Match the capitals',
+    mode: 'oneToOne',
+    premises: [
+      { id: 'p1', text: 'France', responseId: 'r1', feedback: 'Paris' },
+      { id: 'p2', text: 'Italy', responseId: 'r2' },
+    ],
+    responses: [{ id: 'r1', text: 'Paris' }, { id: 'r2', text: 'Rome' }, { id: 'r3', text: 'Lyon' }],
+  };
+  const api = createScormApiStub();
+  runPlayer(api, undefined, [matching]);
+
+  const [first, second] = Array.from(document.querySelectorAll<HTMLSelectElement>('.player-match select'));
+  first.value = 'a';
+  first.dispatchEvent(new Event('change'));
+  expect(second.options[1].disabled).toBe(true);
+  second.value = 'c';
+  second.dispatchEvent(new Event('change'));
+  window.ASSESSMENT_PLAYER!.submit();
+
+  expect(api.values).toMatchObject({
+    'cmi.core.score.raw': '50',
+    'cmi.interactions.0.type': 'matching',
+    'cmi.interactions.0.student_response': '1.a,2.c',
+    'cmi.interactions.0.correct_responses.0.pattern': '1.a,2.b',
+  });
+  expect(document.querySelector('.player-match.is-wrong .player-blank-answer')!.textContent).toBe('B. Rome');
+});
+
+test('scores categorize placements and takes away for misplaced distractors', () => {
+  const categorize: CategorizeQuestion = {
+    id: 'q7',
+    type: 'categorize',
+    purpose: 'formative',
+    stem: 'Sort the animals',
+    categories: [{ id: 'c1', text: 'Mammals' }, { id: 'c2', text: 'Birds' }],
+    items: [
+      { id: 'i1', text: 'Whale', categoryId: 'c1', feedback: 'It breathes air' },
+      { id: 'i2', text: 'Penguin', categoryId: 'c2' },
+      { id: 'i3', text: 'Granite', categoryId: '' },
+    ],
+  };
+  const api = createScormApiStub();
+  runPlayer(api, undefined, [categorize]);
+
+  const selects = Array.from(document.querySelectorAll<HTMLSelectElement>('.player-match select'));
+  selects[0].value = 'a';
+  selects[1].value = 'b';
+  selects[2].value = 'a';
+  selects.forEach(select => select.dispatchEvent(new Event('change')));
+  window.ASSESSMENT_PLAYER!.submit();
+
+  expect(api.values).toMatchObject({
+    'cmi.core.score.raw': '50',
+    'cmi.interactions.0.type': 'matching',
+    'cmi.interactions.0.student_response': '1.a,2.b,3.a',
+    'cmi.interactions.0.correct_responses.0.pattern': '1.a,2.b',
+  });
+  expect(document.querySelectorAll('.player-match.is-wrong')).toHaveLength(1);
+  expect(document.querySelector('.player-match.is-wrong .player-blank-answer')!.textContent).toBe('No category');
+  expect(document.querySelector('.player-match.is-correct .player-feedback')!.textContent).toBe('It breathes air');
+});
+
+test('places labels on zones and scores each label', () => {
+  const labels: HotspotQuestion = {
+    ...hotspot,
+    id: 'q8',
+    purpose: 'formative',
+    interaction: 'labels',
+    zones: [...hotspot.zones, { id: 'z2', label: 'Corner', coordinates: [{ x: 0.6, y: 0.6 }, { x: 0.9, y: 0.6 }, { x: 0.9, y: 0.9 }] }],
+    labels: [
+      { id: 'l1', text: 'Square', zoneIds: ['z1'], feedback: 'Four sides' },
+      { id: 'l2', text: 'Triangle', zoneIds: ['z2'], feedback: 'Three sides' },
+      { id: 'l3', text: 'Circle', zoneIds: [], feedback: 'Not drawn' },
+    ],
+  };
+  const api = createScormApiStub();
+  runPlayer(api, undefined, [labels]);
+  const pick = (text: string) =>
+    Array.from(document.querySelectorAll<HTMLButtonElement>('.player-labels .player-label')).find(chip => chip.textContent === text)!.click();
+  const target = (index: number) => document.querySelectorAll('.player-target')[index].dispatchEvent(new MouseEvent('click', { bubbles: true }));
+
+  pick('Square');
+  target(0);
+  pick('Circle');
+  target(1);
+  expect(document.querySelectorAll('.player-marks .player-label')).toHaveLength(2);
+  window.ASSESSMENT_PLAYER!.submit();
+
+  expect(api.values).toMatchObject({
+    'cmi.core.score.raw': '50',
+    'cmi.interactions.0.type': 'matching',
+    'cmi.interactions.0.student_response': '1.a,3.b',
+    'cmi.interactions.0.correct_responses.0.pattern': '1.a,2.b',
+  });
+  expect(document.querySelector('.player-label.is-wrong')!.textContent).toBe('Circle');
+  expect(Array.from(document.querySelectorAll('.player-blank-feedback')).map(node => node.textContent)).toEqual([
+    'Square: Four sides',
+    'Triangle: Belongs on Corner. Three sides',
+    'Circle: Not drawn',
+  ]);
+});
+
+test('converts zones still in image pixels and refuses them when the image size is unknown', () => {
+  const pixels: HotspotQuestion = {
+    ...hotspot,
+    imageUrl: 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAMgAAABkCAYAAAA=',
+    zones: [{ id: 'z1', coordinates: [{ x: 20, y: 10 }, { x: 100, y: 10 }, { x: 100, y: 50 }] }],
+  };
+  const data = createPlayerData(createEmptyAssessment(['q3']), [pixels], { version: 'scorm12', showFeedback: false });
+  expect(data.sections[0].questions[0].zones![0].points).toEqual([[0.1, 0.1], [0.5, 0.1], [0.5, 0.5]]);
+
+  const linked = { ...pixels, imageUrl: 'https://example.com/diagram.png' };
+  expect(() => createPlayerData(createEmptyAssessment(['q3']), [linked], { version: 'scorm12', showFeedback: false }))
+    .toThrow('The zones of question 1 were drawn in an earlier version');
+});
+
+test('grades typed numeric and short answers like the authoring tool', () => {
+  const numeric: NumericQuestion = {
+    id: 'q6',
+    type: 'numeric',
+    purpose: 'formative',
+    stem: 'g in m/s²',
+    answerMode: 'exact',
+    value: 9.81,
+    tolerance: 1,
+    toleranceType: 'relative',
+    units: ['m/s²'],
+    significantFigures: 2,
+    incorrectFeedback: 'Use two significant figures',
+  };
+  const shortAnswer: ShortAnswerQuestion = {
+    id: 'q7',
+    type: 'short-answer',
+    purpose: 'formative',
+    stem: 'Capital of France',
+    answers: [{ id: 'a1', text: 'Paris', credit: 100 }, { id: 'a2', text: 'par.*', isPattern: true, credit: 50, feedback: 'Check the spelling' }],
+  };
+  const api = createScormApiStub();
+  runPlayer(api, undefined, [numeric, shortAnswer]);
+
+  const [numberInput, textInput] = Array.from(document.querySelectorAll<HTMLInputElement>('.player-typed input'));
+  numberInput.value = '9,8 m/s²';
+  numberInput.dispatchEvent(new Event('input'));
+  textInput.value = 'Parris';
+  textInput.dispatchEvent(new Event('input'));
+  window.ASSESSMENT_PLAYER!.submit();
+
+  expect(api.values).toMatchObject({
+    'cmi.core.score.raw': '75',
+    'cmi.interactions.0.type': 'numeric',
+    'cmi.interactions.0.student_response': '9.8',
+    'cmi.interactions.0.result': 'correct',
+    'cmi.interactions.1.type': 'fill-in',
+    'cmi.interactions.1.student_response': 'Parris',
+    'cmi.interactions.1.correct_responses.0.pattern': 'Paris',
+  });
+  expect(document.querySelector('.player-blank-feedback')!.textContent).toBe('Check the spelling');
+});
+
+test('collects essays for grading without scoring them', () => {
+  const essay: EssayQuestion = {
+    id: 'q9',
+    type: 'essay',
+    purpose: 'formative',
+    stem: 'Why is the sky blue?',
+    minWords: 3,
+    maxWords: 50,
+    modelAnswer: 'Air scatters blue light more than red light.',
+    rubric: {
+      levels: [{ id: 'l1', label: 'Basic', points: 1 }, { id: 'l2', label: 'Full', points: 2 }],
+      criteria: [{ id: 'c1', title: 'Physics', descriptors: ['Names scattering', 'Explains scattering'] }],
+    },
+  };
+  const api = createScormApiStub();
+  runPlayer(api, undefined, [mcq, essay]);
+
+  const optionB = document.querySelector<HTMLInputElement>('input[value="b"]')!;
+  optionB.checked = true;
+  optionB.dispatchEvent(new Event('change'));
+  const textarea = document.querySelector<HTMLTextAreaElement>('.player-essay')!;
+  textarea.value = 'Rayleigh  scattering';
+  textarea.dispatchEvent(new Event('input'));
+  expect(document.querySelector('.player-count')!.className).toBe('player-count is-over');
+  expect(document.querySelector('.player-count')!.textContent).toBe('2 words');
+  expect(document.querySelectorAll('.player-rubric td')).toHaveLength(2);
+  window.ASSESSMENT_PLAYER!.submit();
+
+  expect(api.values).toMatchObject({
+    'cmi.core.score.raw': '100',
+    'cmi.interactions.1.type': 'fill-in',
+    'cmi.interactions.1.student_response': 'Rayleigh  scattering',
+    'cmi.interactions.1.result': 'neutral',
+  });
+  expect(api.values['cmi.interactions.1.correct_responses.0.pattern']).toBeUndefined();
+  expect(textarea.disabled).toBe(true);
+  expect(document.querySelector('.is-pending .player-verdict')!.textContent).toBe('Submitted for grading');
+  expect(document.querySelector('.player-model-answer p')!.textContent).toBe(essay.modelAnswer);
+  expect(document.querySelector('.player-status')!.textContent).toContain('Essays are graded separately');
+});
+
+test('packages SCORM 1.2 with a manifest and cmi5 with a course structure', async () => {
+  const scorm = await JSZip.loadAsync(await createScormPackage(assessment, questions, { version: 'scorm12', passingScore: 80, showFeedback: false }));
+  const manifest = await scorm.file('imsmanifest.xml')!.async('string');
+  expect(manifest).toContain('<adlcp:masteryscore>80</adlcp:masteryscore>');
+  expect(manifest).toContain('<file href="images/q3.png"/>');
+  expect(scorm.file('player.js')).not.toBeNull();
+  expect(await scorm.file('data.js')!.async('string')).toContain('"image": "images/q3.png"');
+
+  const cmi5 = await JSZip.loadAsync(await createScormPackage(assessment, questions, { version: 'cmi5', showFeedback: false }));
+  expect(cmi5.file('imsmanifest.xml')).toBeNull();
+  expect(await cmi5.file('cmi5.xml')!.async('string')).toContain('moveOn="Completed"');
+});
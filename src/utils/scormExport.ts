@@ -0,0 +1,424 @@
+import JSZip from 'jszip';
+import { Assessment, HotspotQuestion, MCQScoringMethod, Question } from '../types';
+import { generateId } from './assessmentUtils';
+import { toFileSlug } from './download';
+import { getResponseMode, getScoringMethod, getSelectionHint } from './scoring';
+import { getPlacedBlanks, parseClozePassage } from './cloze';
+import { describeNumericAnswer, getNumericHint } from './numeric';
+import { describeShortAnswers } from './textAnswers';
+import { findCorrectPlacement, isLabelPlacement } from './labelPlacement';
+import { getEssayLimitHint } from './essay';
+import { hasPixelCoordinates, normalizeHotspotZones } from './hotspotGeometry';
+import { IMAGE_EXTENSIONS, parseDataUrl, readImageSize } from './storage';
+import { PLAYER_SCRIPT, PLAYER_STYLES, createPlayerHtml } from './scormPlayer';
+import { element, serializeXml } from './xml';
+
+export type ScormVersion = 'scorm12' | 'cmi5';
+
+export const SCORM_VERSIONS: { value: ScormVersion; label: string }[] = [
+  { value: 'scorm12', label: 'SCORM 1.2' },
+  { value: 'cmi5', label: 'cmi5' },
+];
+
+export interface ScormExportOptions {
+  version: ScormVersion;
+  // Percentage needed to pass; without it the attempt is only marked completed
+  passingScore?: number;
+  // Shows the correct answers and option feedback after submitting
+  showFeedback: boolean;
+}
+
+export interface PlayerBlank {
+  id: string;
+  // Text entry blanks
+  answers?: string[];
+  caseSensitive?: boolean;
+  ignoreWhitespace?: boolean;
+  pattern?: string;
+  // Dropdown blanks
+  choices?: { id: string; text: string; correct: boolean }[];
+  feedback?: string;
+}
+
+// What the player reads from data.js; ids are short so they fit LMS identifier rules
+export interface PlayerQuestion {
+  id: string;
+  type: Question['type'];
+  stem: string;
+  points: number;
+  options?: { id: string; text: string; correct: boolean; feedback?: string }[];
+  multiple?: boolean;
+  scoring?: MCQScoringMethod;
+  minSelections?: number;
+  maxSelections?: number;
+  hint?: string;
+  // Ordering items in the correct order, which the player shuffles; categorize items name the id of
+  // their category, or none for distractors
+  items?: { id: string; text: string; category?: string; feedback?: string }[];
+  categories?: { id: string; text: string }[];
+  image?: string;
+  zones?: { id: string; label?: string; points: [number, number][] }[];
+  // Label placement: the zones each label belongs on (none for distractors) and its zone in one correct placement
+  labels?: { id: string; text: string; image?: string; zones: string[]; zone?: string; feedback?: string }[];
+  // Passage text and blanks in reading order
+  segments?: (string | PlayerBlank)[];
+  // Matching premises name the id of their response; unpaired responses are distractors
+  premises?: { id: string; text: string; response: string; feedback?: string }[];
+  responses?: { id: string; text: string }[];
+  oneToOne?: boolean;
+  // Numeric answers between min and max, with the tolerance already applied
+  min?: number;
+  max?: number;
+  units?: string[];
+  unitRequired?: boolean;
+  significantFigures?: number;
+  // Short answers; credit is a percentage
+  answers?: { text: string; pattern?: boolean; credit: number; feedback?: string }[];
+  caseSensitive?: boolean;
+  ignoreWhitespace?: boolean;
+  // Numeric and short answers: the answer as shown to students and as reported to the LMS
+  answerText?: string;
+  correctResponse?: string;
+  correctFeedback?: string;
+  incorrectFeedback?: string;
+  // Essays, which the player collects but does not score; descriptors follow the order of the levels
+  minWords?: number;
+  maxWords?: number;
+  maxCharacters?: number;
+  modelAnswer?: string;
+  rubric?: { levels: { label: string; points: number }[]; criteria: { title: string; descriptors: string[] }[] };
+}
+
+export interface PlayerData {
+  version: ScormVersion;
+  title: string;
+  description: string;
+  instructions: string;
+  timeLimitMinutes?: number;
+  passingScore?: number;
+  showFeedback: boolean;
+  sections: { title: string; questions: PlayerQuestion[] }[];
+}
+
+const choiceId = (index: number) => (index < 26 ? String.fromCharCode(97 + index) : `c${index + 1}`);
+
+// Packaged images are keyed by question id, and label images by question and label id
+const labelImageKey = (questionId: string, labelId: string) => `${questionId}-${labelId}`;
+
+// The player places zones in fractions of the image. Zones not yet converted from an earlier version are
+// pixels of the image, so they need its size, which a linked image only gets once it loads in the editor.
+const getFractionalZones = (question: HotspotQuestion, number: number) => {
+  if (!hasPixelCoordinates(question.zones)) return question.zones;
+  const size = question.imageSize ?? (question.imageUrl ? readImageSize(question.imageUrl) : undefined);
+  if (!size) {
+    throw new Error(
+      `The zones of question ${number} were drawn in an earlier version. Open it in the editor and let the image ` +
+      'load so they can be converted before exporting.'
+    );
+  }
+  return normalizeHotspotZones(question, size).zones;
+};
+
+const toPlayerQuestion = (question: Question, number: number, points: number, images: Map<string, string>): PlayerQuestion => {
+  // SCORM 1.2 identifiers allow letters, digits, '-' and '_' only
+  const base = { id: `q${number}_${question.id.replace(/[^A-Za-z0-9_-]/g, '')}`, type: question.type, stem: question.stem, points };
+
+  switch (question.type) {
+    case 'mcq': {
+      const multiple = getResponseMode(question) === 'multiple';
+      return {
+        ...base,
+        options: question.options.map((option, index) => ({
+          id: choiceId(index),
+          text: option.text,
+          correct: option.isCorrect,
+          feedback: question.purpose === 'formative' ? option.feedback?.trim() || undefined : undefined,
+        })),
+        multiple,
+        scoring: getScoringMethod(question),
+        minSelections: multiple ? question.minSelections : undefined,
+        maxSelections: multiple ? question.maxSelections : undefined,
+        hint: getSelectionHint(question),
+      };
+    }
+    case 'ordering':
+      return {
+        ...base,
+        items: [...question.items]
+          .sort((a, b) => a.order - b.order)
+          .map((item, index) => ({ id: choiceId(index), text: item.text })),
+      };
+    case 'hotspot': {
+      const zoneId = (id: string) => {
+        const index = question.zones.findIndex(zone => zone.id === id);
+        return index === -1 ? [] : [choiceId(index)];
+      };
+      const placement = findCorrectPlacement(question) ?? {};
+      return {
+        ...base,
+        image: images.get(question.id) ?? question.imageUrl,
+        zones: getFractionalZones(question, number).map((zone, index) => ({
+          id: choiceId(index),
+          label: zone.label || undefined,
+          points: zone.coordinates.map((point): [number, number] => [point.x, point.y]),
+        })),
+        labels: isLabelPlacement(question)
+          ? (question.labels ?? []).map((label, index) => ({
+              id: String(index + 1),
+              text: label.text,
+              image: label.imageUrl ? images.get(labelImageKey(question.id, label.id)) ?? label.imageUrl : undefined,
+              zones: label.zoneIds.flatMap(zoneId),
+              zone: zoneId(Object.keys(placement).find(id => placement[id] === label.id) ?? '')[0],
+              feedback: question.purpose === 'formative' ? label.feedback?.trim() || undefined : undefined,
+            }))
+          : undefined,
+      };
+    }
+    case 'cloze': {
+      const blanks = getPlacedBlanks(question);
+      return {
+        ...base,
+        segments: parseClozePassage(question.passage).flatMap((segment): (string | PlayerBlank)[] => {
+          if (segment.kind === 'text') return [segment.text];
+          const index = blanks.findIndex(blank => blank.id === segment.blankId);
+          if (index === -1) return [];
+          const blank = blanks[index];
+          const feedback = question.purpose === 'formative' ? blank.feedback?.trim() || undefined : undefined;
+          return [blank.mode === 'dropdown'
+            ? {
+                id: `b${index + 1}`,
+                choices: blank.choices.map((choice, choiceIndex) => ({ id: choiceId(choiceIndex), text: choice.text, correct: choice.isCorrect })),
+                feedback,
+              }
+            : {
+                id: `b${index + 1}`,
+                answers: blank.acceptedAnswers.filter(answer => answer.trim()),
+                caseSensitive: blank.caseSensitive || undefined,
+                ignoreWhitespace: blank.ignoreWhitespace || undefined,
+                pattern: blank.pattern || undefined,
+                feedback,
+              }];
+        }),
+      };
+    }
+    case 'matching': {
+      const responseId = (id: string) => {
+        const index = question.responses.findIndex(response => response.id === id);
+        return index === -1 ? '' : choiceId(index);
+      };
+      return {
+        ...base,
+        premises: question.premises.map((premise, index) => ({
+          id: String(index + 1),
+          text: premise.text,
+          response: responseId(premise.responseId),
+          feedback: question.purpose === 'formative' ? premise.feedback?.trim() || undefined : undefined,
+        })),
+        responses: question.responses.map((response, index) => ({ id: choiceId(index), text: response.text })),
+        oneToOne: question.mode === 'oneToOne',
+      };
+    }
+    case 'numeric': {
+      const formative = question.purpose === 'formative';
+      const exact = question.answerMode === 'exact';
+      const value = question.value ?? 0;
+      const tolerance = question.tolerance ?? 0;
+      const allowed = question.toleranceType === 'relative' ? (Math.abs(value) * tolerance) / 100 : tolerance;
+      // The same floating point allowance as isNumericValueCorrect
+      const slack = 1e-9 * Math.max(1, Math.abs(value));
+      return {
+        ...base,
+        min: exact ? value - allowed - slack : question.min ?? 0,
+        max: exact ? value + allowed + slack : question.max ?? 0,
+        units: question.units.map(unit => unit.trim()).filter(Boolean),
+        unitRequired: question.unitRequired || undefined,
+        significantFigures: question.significantFigures,
+        hint: getNumericHint(question),
+        answerText: describeNumericAnswer(question),
+        // Ranges use the min[:]max notation of xAPI numeric interactions
+        correctResponse: exact && !allowed ? String(value) : exact ? `${value - allowed}[:]${value + allowed}` : `${question.min}[:]${question.max}`,
+        correctFeedback: formative ? question.correctFeedback?.trim() || undefined : undefined,
+        incorrectFeedback: formative ? question.incorrectFeedback?.trim() || undefined : undefined,
+      };
+    }
+    case 'short-answer': {
+      const formative = question.purpose === 'formative';
+      const best = question.answers.find(answer => answer.credit >= 100 && !answer.isPattern) ?? question.answers[0];
+      return {
+        ...base,
+        answers: question.answers.map(answer => ({
+          text: answer.text,
+          pattern: answer.isPattern || undefined,
+          credit: Math.min(Math.max(answer.credit, 0), 100),
+          feedback: formative ? answer.feedback?.trim() || undefined : undefined,
+        })),
+        caseSensitive: question.caseSensitive || undefined,
+        ignoreWhitespace: question.ignoreWhitespace || undefined,
+        answerText: describeShortAnswers(question),
+        correctResponse: best?.text.trim() ?? '',
+        incorrectFeedback: formative ? question.incorrectFeedback?.trim() || undefined : undefined,
+      };
+    }
+    case 'categorize': {
+      const categoryId = (id: string) => {
+        const index = question.categories.findIndex(category => category.id === id);
+        return index === -1 ? undefined : choiceId(index);
+      };
+      return {
+        ...base,
+        items: question.items.map((item, index) => ({
+          id: String(index + 1),
+          text: item.text,
+          category: categoryId(item.categoryId),
+          feedback: question.purpose === 'formative' ? item.feedback?.trim() || undefined : undefined,
+        })),
+        categories: question.categories.map((category, index) => ({ id: choiceId(index), text: category.text })),
+      };
+    }
+    case 'essay':
+      return {
+        ...base,
+        hint: getEssayLimitHint(question),
+        minWords: question.minWords,
+        maxWords: question.maxWords,
+        maxCharacters: question.maxCharacters,
+        modelAnswer: question.modelAnswer?.trim() || undefined,
+        rubric: question.rubric && {
+          levels: question.rubric.levels.map(level => ({ label: level.label, points: level.points })),
+          criteria: question.rubric.criteria.map(criterion => ({ title: criterion.title, descriptors: criterion.descriptors })),
+        },
+      };
+  }
+};
+
+export const createPlayerData = (
+  assessment: Assessment,
+  questions: Question[],
+  options: ScormExportOptions,
+  images: Map<string, string> = new Map()
+): PlayerData => {
+  const byId = new Map(questions.map(question => [question.id, question]));
+  let number = 0;
+
+  return {
+    version: options.version,
+    title: assessment.title.trim() || 'Untitled assessment',
+    description: assessment.description.trim(),
+    instructions: assessment.instructions.trim(),
+    timeLimitMinutes: assessment.timeLimitMinutes,
+    passingScore: options.passingScore === undefined ? undefined : options.passingScore / 100,
+    showFeedback: options.showFeedback,
+    sections: assessment.sections
+      .map(section => ({
+        title: section.title.trim() || 'Untitled section',
+        questions: section.questionRefs.flatMap(ref => {
+          const question = byId.get(ref.questionId);
+          if (!question) return [];
+          number += 1;
+          return [toPlayerQuestion(question, number, ref.points, images)];
+        }),
+      }))
+      .filter(section => section.questions.length > 0),
+  };
+};
+
+const PLAYER_FILES = ['index.html', 'player.js', 'player.css', 'data.js'];
+
+const buildScormManifest = (data: PlayerData, identifier: string, imageFiles: string[]) =>
+  serializeXml(
+    element('manifest', {
+      identifier,
+      version: '1.0',
+      xmlns: 'http://www.imsproject.org/xsd/imscp_rootv1p1p2',
+      'xmlns:adlcp': 'http://www.adlnet.org/xsd/adlcp_rootv1p2',
+      'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+      'xsi:schemaLocation': 'http://www.imsproject.org/xsd/imscp_rootv1p1p2 imscp_rootv1p1p2.xsd ' +
+        'http://www.adlnet.org/xsd/adlcp_rootv1p2 adlcp_rootv1p2.xsd',
+    }, [
+      element('metadata', {}, [
+        element('schema', {}, ['ADL SCORM']),
+        element('schemaversion', {}, ['1.2']),
+      ]),
+      element('organizations', { default: 'ORG-1' }, [
+        element('organization', { identifier: 'ORG-1' }, [
+          element('title', {}, [data.title]),
+          element('item', { identifier: 'ITEM-1', identifierref: 'RES-1', isvisible: 'true' }, [
+            element('title', {}, [data.title]),
+            data.passingScore !== undefined && element('adlcp:masteryscore', {}, [String(Math.round(data.passingScore * 100))]),
+            !!data.timeLimitMinutes && element('adlcp:maxtimeallowed', {}, [
+              `${String(Math.floor(data.timeLimitMinutes / 60)).padStart(2, '0')}:${String(data.timeLimitMinutes % 60).padStart(2, '0')}:00`,
+            ]),
+          ]),
+        ]),
+      ]),
+      element('resources', {}, [
+        element('resource', { identifier: 'RES-1', type: 'webcontent', 'adlcp:scormtype': 'sco', href: 'index.html' },
+          [...PLAYER_FILES, ...imageFiles].map(href => element('file', { href }))),
+      ]),
+    ])
+  );
+
+// Course and AU ids must be IRIs; a URN keeps them unique without owning a domain
+const buildCmi5CourseStructure = (data: PlayerData, identifier: string) => {
+  const text = (value: string) => [element('langstring', { lang: 'en-US' }, [value])];
+  const description = data.description || data.title;
+
+  return serializeXml(
+    element('courseStructure', { xmlns: 'https://w3id.org/xapi/profiles/cmi5/v1/CourseStructure.xsd' }, [
+      element('course', { id: `urn:assessment-authoring-tool:${identifier}` }, [
+        element('title', {}, text(data.title)),
+        element('description', {}, text(description)),
+      ]),
+      element('au', {
+        id: `urn:assessment-authoring-tool:${identifier}:au`,
+        moveOn: data.passingScore !== undefined ? 'Passed' : 'Completed',
+        masteryScore: data.passingScore,
+        launchMethod: 'AnyWindow',
+      }, [
+        element('title', {}, text(data.title)),
+        element('description', {}, text(description)),
+        element('url', {}, ['index.html']),
+      ]),
+    ])
+  );
+};
+
+export const createScormPackage = async (assessment: Assessment, questions: Question[], options: ScormExportOptions) => {
+  const zip = new JSZip();
+  const images = new Map<string, string>();
+
+  // Uploaded images are packaged so the player works without the authoring tool; linked ones stay links
+  const packageImage = (key: string, url: string | undefined) => {
+    const parsed = url ? parseDataUrl(url) : undefined;
+    if (!parsed) return;
+
+    const href = `images/${key.replace(/[^A-Za-z0-9_-]/g, '')}.${IMAGE_EXTENSIONS[parsed.mimeType] ?? 'bin'}`;
+    zip.file(href, parsed.bytes);
+    images.set(key, href);
+  };
+  questions.forEach(question => {
+    if (question.type !== 'hotspot') return;
+    packageImage(question.id, question.imageUrl);
+    if (isLabelPlacement(question)) {
+      question.labels?.forEach(label => packageImage(labelImageKey(question.id, label.id), label.imageUrl));
+    }
+  });
+
+  const data = createPlayerData(assessment, questions, options, images);
+  const identifier = `${toFileSlug(assessment.title)}-${generateId()}`;
+
+  zip.file('index.html', createPlayerHtml(data.title));
+  zip.file('player.js', PLAYER_SCRIPT);
+  zip.file('player.css', PLAYER_STYLES);
+  // Line and paragraph separators are valid in JSON but end string literals in older script engines
+  const json = JSON.stringify(data, null, 2).replace(/\u2028/g, '\\u2028').replace(/\u2029/g, '\\u2029');
+  zip.file('data.js', `window.ASSESSMENT_DATA = ${json};\n`);
+
+  if (options.version === 'cmi5') {
+    zip.file('cmi5.xml', buildCmi5CourseStructure(data, identifier));
+  } else {
+    zip.file('imsmanifest.xml', buildScormManifest(data, identifier, Array.from(images.values())));
+  }
+
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+};
@@ -0,0 +1,1217 @@
+import { escapeXml } from './xml';
+
+// The player runs inside LMS frames of any age, so it is plain ES5 without dependencies.
+// It reads window.ASSESSMENT_DATA (written to data.js by the export) and reports through
+// the SCORM 1.2 API object or, for cmi5, xAPI statements to the LRS named in the launch URL.
+// Without either it still runs and says that nothing is recorded.
+export const PLAYER_SCRIPT = `(function () {
+  'use strict';
+
+  var data = window.ASSESSMENT_DATA;
+  var root = document.getElementById('player');
+  var startedAt = new Date();
+  var answers = {};
+  var orders = {};
+  var finished = false;
+
+  function h(tag, attrs, children) {
+    var node = document.createElement(tag);
+    Object.keys(attrs || {}).forEach(function (key) {
+      var value = attrs[key];
+      if (value === undefined || value === null || value === false) return;
+      if (key === 'text') node.textContent = value;
+      else if (key.indexOf('on') === 0) node.addEventListener(key.slice(2), value);
+      else node.setAttribute(key, value === true ? '' : value);
+    });
+    (children || []).forEach(function (child) {
+      if (child) node.appendChild(typeof child === 'string' ? document.createTextNode(child) : child);
+    });
+    return node;
+  }
+
+  function pad(value, length) {
+    var text = String(value);
+    while (text.length < length) text = '0' + text;
+    return text;
+  }
+
+  function elapsedSeconds() {
+    return Math.max(0, (new Date().getTime() - startedAt.getTime()) / 1000);
+  }
+
+  function allQuestions() {
+    return data.sections.reduce(function (list, section) { return list.concat(section.questions); }, []);
+  }
+
+  function sameSet(a, b) {
+    return a.length === b.length && a.every(function (value) { return b.indexOf(value) !== -1; });
+  }
+
+  function pointInZone(point, zone) {
+    var inside = false;
+    for (var i = 0, j = zone.points.length - 1; i < zone.points.length; j = i++) {
+      var a = zone.points[i];
+      var b = zone.points[j];
+      if ((a[1] > point.y) !== (b[1] > point.y) &&
+          point.x < ((b[0] - a[0]) * (point.y - a[1])) / (b[1] - a[1]) + a[0]) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  }
+
+  function shuffled(items) {
+    var result = items.slice();
+    for (var i = result.length - 1; i > 0; i--) {
+      var j = Math.floor(Math.random() * (i + 1));
+      var swap = result[i];
+      result[i] = result[j];
+      result[j] = swap;
+    }
+    if (result.length > 1 && result.every(function (item, index) { return item === items[index]; })) {
+      result.push(result.shift());
+    }
+    return result;
+  }
+
+  // Same rules as scoreMcqResponse in the authoring tool
+  function mcqCredit(question, response) {
+    var min = question.multiple ? question.minSelections || 1 : 1;
+    var max = question.multiple ? question.maxSelections || question.options.length : 1;
+    if (response.length < min || response.length > max) return 0;
+
+    var correctCount = 0;
+    var correctChosen = 0;
+    var wrongChosen = 0;
+    question.options.forEach(function (option) {
+      var chosen = response.indexOf(option.id) !== -1;
+      if (option.correct) correctCount++;
+      if (chosen && option.correct) correctChosen++;
+      if (chosen && !option.correct) wrongChosen++;
+    });
+
+    if (question.scoring === 'partialCredit') {
+      return (correctChosen + question.options.length - correctCount - wrongChosen) / question.options.length;
+    }
+    if (question.scoring === 'rightMinusWrong') {
+      return correctCount > 0 ? Math.max(0, (correctChosen - wrongChosen) / correctCount) : 0;
+    }
+    return correctChosen === correctCount && wrongChosen === 0 ? 1 : 0;
+  }
+
+  function blanksOf(question) {
+    return question.segments.filter(function (segment) { return typeof segment !== 'string'; });
+  }
+
+  function trim(value) {
+    return value.replace(/^\\s+|\\s+$/g, '');
+  }
+
+  // Same rules as normalizeTextResponse and compileAnswerPattern in the authoring tool
+  function normalizeText(options, value) {
+    var spaced = options.ignoreWhitespace ? value.replace(/\\s+/g, '') : trim(value).replace(/\\s+/g, ' ');
+    return options.caseSensitive ? spaced : spaced.toLowerCase();
+  }
+
+  function patternMatches(options, pattern, value) {
+    try {
+      return new RegExp('^(?:' + pattern + ')$', options.caseSensitive ? '' : 'i').test(trim(value));
+    } catch (error) {
+      return false;
+    }
+  }
+
+  function blankCorrect(blank, value) {
+    if (blank.choices) {
+      return blank.choices.some(function (choice) { return choice.correct && choice.id === value; });
+    }
+    var normalized = normalizeText(blank, value);
+    if (!normalized) return false;
+    if (blank.answers.some(function (answer) { return normalizeText(blank, answer) === normalized; })) return true;
+    return !!blank.pattern && patternMatches(blank, blank.pattern, value);
+  }
+
+  // Same rules as parseNumericResponse and countSignificantFigures in the authoring tool
+  function parseNumber(value) {
+    var match = /^([+-]?)(?:(\\d{1,3}(?:,\\d{3})+(?![\\d,])(?:\\.\\d*)?)|(\\d+[.,]?\\d*|[.,]\\d+))(?:[eE]([+-]?\\d+))?\\s*(.*)$/
+      .exec(trim(value).replace(/\\u2212/g, '-'));
+    if (!match) return null;
+    var digits = match[2] ? match[2].replace(/,/g, '') : match[3].replace(',', '.');
+    return { value: Number(match[1] + digits + (match[4] ? 'e' + match[4] : '')), digits: digits, unit: trim(match[5]) };
+  }
+
+  function significantFigures(digits) {
+    var significant = digits.replace('.', '').replace(/^0+/, '');
+    return digits.indexOf('.') !== -1 ? significant.length : significant.replace(/0+$/, '').length;
+  }
+
+  // Same rules as gradeNumericResponse and gradeShortAnswerResponse; the best matching short answer counts
+  function gradeTyped(question, value) {
+    if (question.type === 'numeric') {
+      var parsed = parseNumber(value);
+      var unit = parsed ? parsed.unit.replace(/\\s+/g, '') : '';
+      var right = !!parsed &&
+        (unit
+          ? question.units.some(function (accepted) { return accepted.replace(/\\s+/g, '') === unit; })
+          : !question.unitRequired || !question.units.length) &&
+        (!question.significantFigures || significantFigures(parsed.digits) === question.significantFigures) &&
+        parsed.value >= question.min && parsed.value <= question.max;
+      return { credit: right ? 1 : 0, feedback: right ? question.correctFeedback : question.incorrectFeedback };
+    }
+    var normalized = normalizeText(question, value);
+    var best = null;
+    question.answers.forEach(function (answer) {
+      var matches = answer.pattern
+        ? !!trim(value) && patternMatches(question, answer.text, value)
+        : !!normalized && normalizeText(question, answer.text) === normalized;
+      if (matches && (!best || answer.credit > best.credit)) best = answer;
+    });
+    return best ? { credit: best.credit / 100, feedback: best.feedback } : { credit: 0, feedback: question.incorrectFeedback };
+  }
+
+  function blankText(blank, value) {
+    if (!blank.choices) return value;
+    var choice = blank.choices.filter(function (c) { return c.id === value; })[0];
+    return choice ? choice.text : '';
+  }
+
+  function blankAnswer(blank) {
+    if (!blank.choices) return blank.answers[0] || blank.pattern || '';
+    return blank.choices.filter(function (c) { return c.correct; }).map(function (c) { return c.text; })[0] || '';
+  }
+
+  // Same rules as scoreCategorizeResponse in the authoring tool
+  function categorizeCredit(question, placements) {
+    var categories = question.categories.filter(function (category) {
+      return question.items.some(function (item) { return item.category === category.id; });
+    });
+    var credit = 0;
+    categories.forEach(function (category) {
+      var size = question.items.filter(function (item) { return item.category === category.id; }).length;
+      question.items.forEach(function (item) {
+        if (placements[item.id] === category.id) credit += (item.category === category.id ? 1 : -1) / size / categories.length;
+      });
+    });
+    return Math.max(0, credit);
+  }
+
+  function categoryText(question, id) {
+    var index = -1;
+    question.categories.forEach(function (category, i) { if (category.id === id) index = i; });
+    return index === -1 ? 'No category' : String.fromCharCode(65 + index) + '. ' + question.categories[index].text;
+  }
+
+  // Same rules as scoreLabelPlacementResponse in the authoring tool; placements are keyed by zone id
+  function labelCredit(question, placements) {
+    var scored = question.labels.filter(function (label) { return label.zones.length; });
+    if (!scored.length) return 0;
+    return scored.filter(function (label) {
+      return label.zones.some(function (zone) { return placements[zone] === label.id; });
+    }).length / scored.length;
+  }
+
+  function placedZone(question, label) {
+    var placements = answers[question.id] || {};
+    return Object.keys(placements).filter(function (zone) { return placements[zone] === label.id; })[0];
+  }
+
+  function zoneNames(question, ids) {
+    return question.zones
+      .map(function (zone, index) { return ids.indexOf(zone.id) === -1 ? '' : zone.label || 'Area ' + (index + 1); })
+      .filter(function (name) { return name; })
+      .join(' or ');
+  }
+
+  function responseText(question, id) {
+    var index = -1;
+    question.responses.forEach(function (response, i) { if (response.id === id) index = i; });
+    return index === -1 ? '' : String.fromCharCode(65 + index) + '. ' + question.responses[index].text;
+  }
+
+  function evaluate(question) {
+    var response = [];
+    var pattern = [];
+    var correct = false;
+    var credit;
+
+    if (question.type === 'mcq') {
+      response = answers[question.id] || [];
+      pattern = question.options.filter(function (o) { return o.correct; }).map(function (o) { return o.id; });
+      credit = mcqCredit(question, response);
+      correct = credit === 1;
+    } else if (question.type === 'ordering') {
+      response = orders[question.id].map(function (item) { return item.id; });
+      pattern = question.items.map(function (item) { return item.id; });
+      correct = response.join(',') === pattern.join(',');
+    } else if (question.type === 'hotspot' && question.labels) {
+      // Placements are written label.zone like matching pairs; the pattern is one correct placement
+      var placed = answers[question.id] || {};
+      response = question.zones
+        .filter(function (zone) { return placed[zone.id]; })
+        .map(function (zone) { return placed[zone.id] + '.' + zone.id; });
+      pattern = question.labels
+        .filter(function (label) { return label.zone; })
+        .map(function (label) { return label.id + '.' + label.zone; });
+      credit = labelCredit(question, placed);
+      correct = credit === 1;
+    } else if (question.type === 'hotspot') {
+      var marks = answers[question.id] || [];
+      var hits = marks.map(function (mark) {
+        var zone = question.zones.filter(function (z) { return pointInZone(mark, z); })[0];
+        return zone ? zone.id : null;
+      });
+      response = hits.filter(function (id, index) { return id && hits.indexOf(id) === index; });
+      pattern = question.zones.map(function (zone) { return zone.id; });
+      correct = marks.length === pattern.length && hits.indexOf(null) === -1 && sameSet(response, pattern);
+    } else if (question.type === 'cloze') {
+      var values = answers[question.id] || {};
+      var blanks = blanksOf(question);
+      var right = blanks.filter(function (blank) { return blankCorrect(blank, values[blank.id] || ''); }).length;
+      response = blanks.map(function (blank) { return blankText(blank, values[blank.id] || ''); });
+      pattern = blanks.map(blankAnswer);
+      credit = blanks.length > 0 ? right / blanks.length : 0;
+      correct = credit === 1;
+    } else if (question.type === 'matching') {
+      // Pairs are written premise.response, as SCORM 1.2 matching interactions expect
+      var pairs = answers[question.id] || {};
+      var matched = question.premises.filter(function (premise) { return pairs[premise.id] === premise.response; }).length;
+      response = question.premises
+        .filter(function (premise) { return pairs[premise.id]; })
+        .map(function (premise) { return premise.id + '.' + pairs[premise.id]; });
+      pattern = question.premises.map(function (premise) { return premise.id + '.' + premise.response; });
+      credit = question.premises.length > 0 ? matched / question.premises.length : 0;
+      correct = credit === 1;
+    } else if (question.type === 'categorize') {
+      // Placements are written item.category like matching pairs; distractors have no correct pair
+      var placements = answers[question.id] || {};
+      response = question.items
+        .filter(function (item) { return placements[item.id]; })
+        .map(function (item) { return item.id + '.' + placements[item.id]; });
+      pattern = question.items
+        .filter(function (item) { return item.category; })
+        .map(function (item) { return item.id + '.' + item.category; });
+      credit = categorizeCredit(question, placements);
+      correct = credit === 1;
+    } else if (question.type === 'numeric' || question.type === 'short-answer') {
+      var typed = trim(answers[question.id] || '');
+      var number = question.type === 'numeric' && parseNumber(typed);
+      // Numeric interactions report the number without its unit
+      response = [number ? String(number.value) : typed];
+      pattern = [question.correctResponse];
+      credit = gradeTyped(question, typed).credit;
+      correct = credit === 1;
+    } else if (question.type === 'essay') {
+      // Essays are graded by hand later, so they earn nothing here
+      response = [trim(answers[question.id] || '')];
+      credit = 0;
+    }
+
+    return {
+      question: question,
+      correct: correct,
+      // Share of the points earned; multiple response, label placement, cloze, matching, categorize and short answer
+      // questions give partial credit
+      credit: credit === undefined ? (correct ? 1 : 0) : credit,
+      answered: response.some(function (value) { return value !== ''; }),
+      response: response,
+      pattern: pattern,
+      pending: question.type === 'essay',
+      interactionType: question.type === 'ordering' ? 'sequencing'
+        : question.type === 'essay' ? 'long-fill-in'
+        : question.type === 'cloze' || question.type === 'short-answer' ? 'fill-in'
+        : question.type === 'matching' || question.type === 'categorize' || question.labels ? 'matching'
+        : question.type === 'numeric' ? 'numeric'
+        : 'choice'
+    };
+  }
+
+  function score(results) {
+    var max = 0;
+    var raw = 0;
+    results.forEach(function (result) {
+      if (result.pending) return;
+      max += result.question.points;
+      raw += result.credit * result.question.points;
+    });
+    return { raw: raw, max: max, scaled: max > 0 ? raw / max : 0 };
+  }
+
+  // ---- LMS connections
+
+  function findScormApi() {
+    var win = window;
+    for (var i = 0; i < 10 && win; i++) {
+      if (win.API) return win.API;
+      if (win.parent === win) break;
+      win = win.parent;
+    }
+    return window.opener && window.opener.API ? window.opener.API : null;
+  }
+
+  function scormTime(seconds) {
+    var hours = Math.floor(seconds / 3600);
+    var minutes = Math.floor((seconds % 3600) / 60);
+    return pad(hours, 4) + ':' + pad(minutes, 2) + ':' + pad((seconds % 60).toFixed(2), 5);
+  }
+
+  function clockTime(date) {
+    return pad(date.getHours(), 2) + ':' + pad(date.getMinutes(), 2) + ':' + pad(date.getSeconds(), 2);
+  }
+
+  function scorm12(api) {
+    var closed = false;
+    function set(key, value) { api.LMSSetValue(key, String(value)); }
+    function close() {
+      if (closed) return;
+      closed = true;
+      set('cmi.core.session_time', scormTime(elapsedSeconds()));
+      api.LMSCommit('');
+      api.LMSFinish('');
+    }
+
+    return {
+      name: 'SCORM 1.2',
+      start: function (done) {
+        api.LMSInitialize('');
+        var status = api.LMSGetValue('cmi.core.lesson_status');
+        if (!status || status === 'not attempted') set('cmi.core.lesson_status', 'incomplete');
+        api.LMSCommit('');
+        var mastery = parseFloat(api.LMSGetValue('cmi.student_data.mastery_score'));
+        done({ masteryScore: isNaN(mastery) ? data.passingScore : mastery / 100 });
+      },
+      finish: function (results, total, settings, done) {
+        var time = clockTime(new Date());
+        results.forEach(function (result) {
+          var count = parseInt(api.LMSGetValue('cmi.interactions._count'), 10) || 0;
+          var prefix = 'cmi.interactions.' + count + '.';
+          set(prefix + 'id', result.question.id);
+          // SCORM 1.2 has no long-fill-in type and keeps at most 255 characters of a response
+          set(prefix + 'type', result.interactionType === 'long-fill-in' ? 'fill-in' : result.interactionType);
+          set(prefix + 'weighting', result.question.points);
+          set(prefix + 'student_response', result.response.join(',').slice(0, 255));
+          if (!result.pending) set(prefix + 'correct_responses.0.pattern', result.pattern.join(','));
+          set(prefix + 'result', result.pending ? 'neutral' : result.correct ? 'correct' : 'wrong');
+          set(prefix + 'time', time);
+        });
+        set('cmi.core.score.min', 0);
+        set('cmi.core.score.max', 100);
+        set('cmi.core.score.raw', Math.round(total.scaled * 100));
+        set('cmi.core.lesson_status', settings.masteryScore === undefined
+          ? 'completed'
+          : total.scaled >= settings.masteryScore ? 'passed' : 'failed');
+        set('cmi.core.exit', '');
+        close();
+        done();
+      },
+      abandon: close
+    };
+  }
+
+  function uuid() {
+    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function (c) {
+      var r = Math.floor(Math.random() * 16);
+      return (c === 'x' ? r : (r & 3) | 8).toString(16);
+    });
+  }
+
+  function cmi5(params) {
+    var CMI5_CATEGORY = { id: 'https://w3id.org/xapi/cmi5/context/categories/cmi5' };
+    var MOVEON_CATEGORY = { id: 'https://w3id.org/xapi/cmi5/context/categories/moveon' };
+    var endpoint = params.endpoint.replace(/\\/?$/, '/');
+    var actor = JSON.parse(params.actor);
+    var token = '';
+    var launchData = {};
+    var terminated = false;
+
+    function request(method, url, body, keepalive) {
+      return fetch(url, {
+        method: method,
+        keepalive: !!keepalive,
+        headers: {
+          'Authorization': 'Basic ' + token,
+          'Content-Type': 'application/json',
+          'X-Experience-API-Version': '1.0.3'
+        },
+        body: body === undefined ? undefined : JSON.stringify(body)
+      }).then(function (response) {
+        if (!response.ok) throw new Error('LRS responded with ' + response.status);
+        return response.status === 204 ? null : response.json();
+      });
+    }
+
+    function statement(verb, display, options) {
+      var context = JSON.parse(JSON.stringify(launchData.contextTemplate || {}));
+      context.registration = params.registration;
+      if (options.categories) {
+        context.contextActivities = context.contextActivities || {};
+        context.contextActivities.category = (context.contextActivities.category || []).concat(options.categories);
+      }
+      var result = {
+        id: uuid(),
+        timestamp: new Date().toISOString(),
+        actor: actor,
+        verb: { id: 'http://adlnet.gov/expapi/verbs/' + verb, display: { 'en-US': display } },
+        object: options.object || { id: params.activityId, objectType: 'Activity' },
+        context: context
+      };
+      if (options.result) result.result = options.result;
+      return result;
+    }
+
+    function send(statements, keepalive) {
+      return request('POST', endpoint + 'statements', statements, keepalive);
+    }
+
+    function duration() {
+      return 'PT' + elapsedSeconds().toFixed(2) + 'S';
+    }
+
+    function terminate(keepalive) {
+      if (terminated) return Promise.resolve();
+      terminated = true;
+      return send([statement('terminated', 'terminated', {
+        categories: [CMI5_CATEGORY],
+        result: { duration: duration() }
+      })], keepalive);
+    }
+
+    function answered(result) {
+      var question = result.question;
+      var pairs = question.premises || question.categories || question.labels;
+      var list = !pairs && (question.options || question.items || question.zones);
+      // xAPI separates the two sides of a matching pair with [.]
+      function join(values) {
+        return values.map(function (value) { return pairs ? value.replace('.', '[.]') : value; }).join('[,]');
+      }
+      function describe(entries) {
+        return entries.map(function (entry) {
+          return { id: entry.id, description: { 'en-US': entry.text || entry.label || entry.id } };
+        });
+      }
+      var definition = {
+        type: 'http://adlnet.gov/expapi/activities/cmi.interaction',
+        name: { 'en-US': question.stem.slice(0, 200) },
+        interactionType: result.interactionType
+      };
+      if (!result.pending) definition.correctResponsesPattern = [join(result.pattern)];
+      // Fill-in interactions have no choices; matching ones list both sides
+      if (list) definition.choices = describe(list);
+      if (question.premises) {
+        definition.source = describe(question.premises);
+        definition.target = describe(question.responses);
+      } else if (question.categories) {
+        definition.source = describe(question.items);
+        definition.target = describe(question.categories);
+      } else if (question.labels) {
+        definition.source = describe(question.labels);
+        definition.target = describe(question.zones);
+      }
+      return statement('answered', 'answered', {
+        object: { id: params.activityId + '/interactions/' + encodeURIComponent(question.id), objectType: 'Activity', definition: definition },
+        // Essays are sent without a success or score until they are graded
+        result: result.pending ? { response: join(result.response) } : {
+          response: join(result.response),
+          success: result.correct,
+          score: { raw: result.credit * question.points, min: 0, max: question.points }
+        }
+      });
+    }
+
+    return {
+      name: 'cmi5',
+      start: function (done) {
+        fetch(params.fetch, { method: 'POST' })
+          .then(function (response) { return response.json(); })
+          .then(function (auth) {
+            token = auth['auth-token'];
+            var query = '?stateId=LMS.LaunchData&activityId=' + encodeURIComponent(params.activityId) +
+              '&agent=' + encodeURIComponent(params.actor) + '&registration=' + encodeURIComponent(params.registration);
+            return request('GET', endpoint + 'activities/state' + query);
+          })
+          .then(function (state) {
+            launchData = state || {};
+            return send([statement('initialized', 'initialized', { categories: [CMI5_CATEGORY] })]);
+          })
+          .then(function () {
+            done({
+              masteryScore: launchData.masteryScore !== undefined ? launchData.masteryScore : data.passingScore,
+              recordOutcome: !launchData.launchMode || launchData.launchMode === 'Normal'
+            });
+          })
+          .catch(function (error) {
+            done({ error: 'Could not connect to the LMS: ' + error.message });
+          });
+      },
+      finish: function (results, total, settings, done) {
+        var outcome = [statement('completed', 'completed', {
+          categories: [CMI5_CATEGORY, MOVEON_CATEGORY],
+          result: { completion: true, duration: duration() }
+        })];
+        if (settings.masteryScore !== undefined) {
+          var passed = total.scaled >= settings.masteryScore;
+          outcome.push(statement(passed ? 'passed' : 'failed', passed ? 'passed' : 'failed', {
+            categories: [CMI5_CATEGORY, MOVEON_CATEGORY],
+            result: {
+              score: { scaled: total.scaled, raw: total.raw, min: 0, max: total.max },
+              success: passed,
+              duration: duration()
+            }
+          }));
+        }
+
+        send(results.map(answered))
+          .then(function () { return settings.recordOutcome === false ? null : send(outcome); })
+          .then(function () { return terminate(); })
+          .then(function () {
+            done();
+            if (launchData.returnURL) window.location.href = launchData.returnURL;
+          })
+          .catch(function (error) {
+            done('Your results could not be sent to the LMS: ' + error.message);
+          });
+      },
+      abandon: function () {
+        if (token) terminate(true);
+      }
+    };
+  }
+
+  function standalone() {
+    return {
+      name: '',
+      start: function (done) { done({ masteryScore: data.passingScore }); },
+      finish: function (results, total, settings, done) { done(); },
+      abandon: function () {}
+    };
+  }
+
+  function launchParams() {
+    var params = {};
+    window.location.search.replace(/^\\?/, '').split('&').forEach(function (pair) {
+      if (!pair) return;
+      var parts = pair.split('=');
+      params[decodeURIComponent(parts[0])] = decodeURIComponent((parts[1] || '').replace(/\\+/g, ' '));
+    });
+    return params;
+  }
+
+  function createRuntime() {
+    if (data.version === 'cmi5') {
+      var params = launchParams();
+      return params.endpoint && params.fetch && params.actor ? cmi5(params) : standalone();
+    }
+    var api = findScormApi();
+    return api ? scorm12(api) : standalone();
+  }
+
+  // ---- Rendering
+
+  var runtime = createRuntime();
+  var settings = {};
+  var status = h('p', { 'class': 'player-status', role: 'status' });
+  var submitButton = h('button', { type: 'button', 'class': 'player-submit', text: 'Submit answers', onclick: submit });
+  var questionNodes = {};
+  var redraws = {};
+  var timerId;
+
+  function renderMcq(question, body) {
+    if (question.hint) body.appendChild(h('p', { 'class': 'player-hint', text: question.hint }));
+    question.options.forEach(function (option, index) {
+      var input = h('input', {
+        type: question.multiple ? 'checkbox' : 'radio',
+        name: question.id,
+        value: option.id,
+        onchange: function () {
+          var checked = body.querySelectorAll('input:checked');
+          answers[question.id] = Array.prototype.map.call(checked, function (node) { return node.value; });
+          // Once the maximum is reached the remaining options wait until one is unticked
+          if (question.multiple && question.maxSelections) {
+            Array.prototype.forEach.call(body.querySelectorAll('input'), function (node) {
+              node.disabled = !node.checked && checked.length >= question.maxSelections;
+            });
+          }
+        }
+      });
+      body.appendChild(h('label', { 'class': 'player-option', 'data-option': option.id }, [
+        input,
+        h('span', { text: String.fromCharCode(65 + index) + '. ' + option.text })
+      ]));
+    });
+  }
+
+  function renderOrdering(question, body) {
+    orders[question.id] = shuffled(question.items);
+    var list = h('ol', { 'class': 'player-order' });
+
+    function move(from, to) {
+      var order = orders[question.id];
+      if (to < 0 || to >= order.length || finished) return;
+      order.splice(to, 0, order.splice(from, 1)[0]);
+      draw();
+      // Keep focus on the button that was used so an item can be moved several places by keyboard
+      list.querySelectorAll('button')[to * 2 + (to > from ? 1 : 0)].focus();
+    }
+
+    function draw() {
+      list.innerHTML = '';
+      orders[question.id].forEach(function (item, index) {
+        list.appendChild(h('li', { 'data-item': item.id }, [
+          h('span', { text: item.text }),
+          h('button', { type: 'button', title: 'Move up', 'aria-label': 'Move up', disabled: index === 0 || finished, text: '\\u2191', onclick: function () { move(index, index - 1); } }),
+          h('button', { type: 'button', title: 'Move down', 'aria-label': 'Move down', disabled: index === orders[question.id].length - 1 || finished, text: '\\u2193', onclick: function () { move(index, index + 1); } })
+        ]));
+      });
+    }
+
+    draw();
+    body.appendChild(h('p', { 'class': 'player-hint', text: 'Put the items in the correct order.' }));
+    body.appendChild(list);
+    redraws[question.id] = draw;
+  }
+
+  function renderHotspot(question, body) {
+    var marks = answers[question.id] = [];
+    var limit = Math.max(question.zones.length, 1);
+    var layer = h('div', { 'class': 'player-marks' });
+    var image = h('img', { src: question.image, alt: question.stem });
+    var figure = h('div', { 'class': 'player-figure' }, [image, layer]);
+
+    function draw() {
+      layer.innerHTML = '';
+      marks.forEach(function (mark) {
+        var dot = h('span', { 'class': 'player-mark' });
+        dot.style.left = mark.x * 100 + '%';
+        dot.style.top = mark.y * 100 + '%';
+        layer.appendChild(dot);
+      });
+    }
+
+    // Zones are stored in fractions of the image size, whatever size it is shown at
+    figure.addEventListener('click', function (event) {
+      var rect = image.getBoundingClientRect();
+      if (finished || !rect.width || !rect.height) return;
+      marks.push({
+        x: (event.clientX - rect.left) / rect.width,
+        y: (event.clientY - rect.top) / rect.height
+      });
+      if (marks.length > limit) marks.shift();
+      draw();
+    });
+
+    body.appendChild(h('p', { 'class': 'player-hint', text: limit > 1 ? 'Click the ' + limit + ' correct areas on the image.' : 'Click the correct area on the image.' }));
+    body.appendChild(figure);
+    body.appendChild(h('button', { type: 'button', 'class': 'player-clear', text: 'Clear marks', onclick: function () {
+      if (finished) return;
+      marks.length = 0;
+      draw();
+    } }));
+  }
+
+  // Labels are dragged onto the zones, or picked and then placed with a click or the keyboard.
+  // Every zone holds one label; placed labels go back to the bank when clicked.
+  function renderLabels(question, body) {
+    var placements = answers[question.id] = {};
+    var picked = null;
+    var image = h('img', { src: question.image, alt: question.stem });
+    var svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+    var layer = h('div', { 'class': 'player-marks' });
+    var bank = h('div', { 'class': 'player-labels' });
+    var figure = h('div', { 'class': 'player-figure player-targets' }, [image, svg, layer]);
+    var unused = question.labels.length > question.zones.length ||
+      question.labels.some(function (label) { return !label.zones.length; });
+
+    function place(labelId, zoneId) {
+      if (finished || !question.labels.some(function (label) { return label.id === labelId; })) return;
+      Object.keys(placements).forEach(function (zone) { if (placements[zone] === labelId) delete placements[zone]; });
+      if (zoneId) placements[zoneId] = labelId;
+      picked = null;
+      draw();
+    }
+
+    // Drag data names the question too, so labels cannot be dropped on another question
+    function dropTarget(node, zoneId) {
+      node.addEventListener('dragover', function (event) { event.preventDefault(); });
+      node.addEventListener('drop', function (event) {
+        event.preventDefault();
+        var dragged = event.dataTransfer.getData('text/plain').split(' ');
+        if (dragged[0] === question.id) place(dragged[1], zoneId);
+      });
+    }
+
+    function chip(label, zoneId) {
+      var node = h('button', {
+        type: 'button',
+        'class': 'player-label' + (picked === label.id ? ' is-picked' : ''),
+        'data-label': label.id,
+        'data-zone': zoneId,
+        'aria-pressed': zoneId ? undefined : String(picked === label.id),
+        title: zoneId ? 'Move back to the labels' : undefined,
+        draggable: finished ? undefined : 'true',
+        disabled: finished,
+        ondragstart: function (event) { event.dataTransfer.setData('text/plain', question.id + ' ' + label.id); },
+        onclick: function () {
+          if (zoneId) return place(label.id, null);
+          picked = picked === label.id ? null : label.id;
+          draw();
+        }
+      }, [label.image ? h('img', { src: label.image, alt: label.text }) : label.text]);
+      if (zoneId) dropTarget(node, zoneId);
+      return node;
+    }
+
+    function draw() {
+      bank.innerHTML = '';
+      layer.innerHTML = '';
+      question.labels.forEach(function (label) {
+        var zoneId = placedZone(question, label);
+        if (!zoneId) return bank.appendChild(chip(label));
+        var zone = question.zones.filter(function (z) { return z.id === zoneId; })[0];
+        var node = chip(label, zoneId);
+        var centre = zone.points.reduce(function (sum, p) {
+          return [sum[0] + p[0] / zone.points.length, sum[1] + p[1] / zone.points.length];
+        }, [0, 0]);
+        node.style.left = centre[0] * 100 + '%';
+        node.style.top = centre[1] * 100 + '%';
+        layer.appendChild(node);
+      });
+      svg.setAttribute('class', picked ? 'is-ready' : '');
+    }
+
+    // Zones are stored in fractions of the image size, so the overlay is stretched over the image
+    svg.setAttribute('viewBox', '0 0 1 1');
+    svg.setAttribute('preserveAspectRatio', 'none');
+    question.zones.forEach(function (zone, index) {
+      var polygon = document.createElementNS('http://www.w3.org/2000/svg', 'polygon');
+      polygon.setAttribute('points', zone.points.map(function (p) { return p.join(','); }).join(' '));
+      polygon.setAttribute('class', 'player-target');
+      polygon.setAttribute('data-zone', zone.id);
+      polygon.setAttribute('tabindex', '0');
+      polygon.setAttribute('role', 'button');
+      polygon.setAttribute('aria-label', 'Area ' + (index + 1));
+      polygon.addEventListener('click', function () { if (picked) place(picked, zone.id); });
+      polygon.addEventListener('keydown', function (event) {
+        if ((event.key === 'Enter' || event.key === ' ') && picked) {
+          event.preventDefault();
+          place(picked, zone.id);
+        }
+      });
+      dropTarget(polygon, zone.id);
+      svg.appendChild(polygon);
+    });
+    dropTarget(bank, null);
+
+    body.appendChild(h('p', { 'class': 'player-hint', text: 'Drag each label onto its area of the image, or pick a label and then its area.' +
+      (unused ? ' Not every label is used.' : '') }));
+    body.appendChild(bank);
+    body.appendChild(figure);
+    redraws[question.id] = draw;
+    draw();
+  }
+
+  function renderCloze(question, body) {
+    var values = answers[question.id] = {};
+    var passage = h('p', { 'class': 'player-passage' }, question.segments.map(function (segment, index) {
+      if (typeof segment === 'string') return segment;
+      var label = 'Blank ' + (blanksOf(question).indexOf(segment) + 1);
+      function update(event) { values[segment.id] = event.target.value; }
+      var field = segment.choices
+        ? h('select', { 'aria-label': label, onchange: update }, [h('option', { value: '', text: '\u2014' })].concat(
+            segment.choices.map(function (choice) { return h('option', { value: choice.id, text: choice.text }); })
+          ))
+        : h('input', { type: 'text', 'aria-label': label, autocomplete: 'off', spellcheck: 'false', oninput: update });
+      return h('span', { 'class': 'player-blank', 'data-blank': segment.id + '-' + index }, [field]);
+    }));
+    body.appendChild(passage);
+  }
+
+  function renderMatching(question, body) {
+    var pairs = answers[question.id] = {};
+    var selects = [];
+
+    // In one-to-one matching a response taken by another premise cannot be picked again
+    function refresh() {
+      if (!question.oneToOne) return;
+      selects.forEach(function (select) {
+        Array.prototype.forEach.call(select.options, function (option) {
+          option.disabled = !!option.value && option.value !== select.value &&
+            Object.keys(pairs).some(function (id) { return pairs[id] === option.value; });
+        });
+      });
+    }
+
+    body.appendChild(h('p', { 'class': 'player-hint', text: question.oneToOne
+      ? 'Match each item with a response; each response can be used once.'
+      : 'Match each item with a response; a response can be used more than once.' }));
+    question.premises.forEach(function (premise) {
+      var select = h('select', { 'aria-label': premise.text, onchange: function (event) {
+        pairs[premise.id] = event.target.value;
+        refresh();
+      } }, [h('option', { value: '', text: '\u2014' })].concat(question.responses.map(function (response) {
+        return h('option', { value: response.id, text: responseText(question, response.id) });
+      })));
+      selects.push(select);
+      body.appendChild(h('div', { 'class': 'player-match', 'data-premise': premise.id }, [
+        h('span', { 'class': 'player-match-premise', text: premise.text }),
+        select
+      ]));
+    });
+  }
+
+  function renderTyped(question, body) {
+    if (question.hint) body.appendChild(h('p', { 'class': 'player-hint', text: question.hint }));
+    body.appendChild(h('span', { 'class': 'player-blank player-typed' }, [
+      h('input', { type: 'text', 'aria-label': 'Answer', autocomplete: 'off', spellcheck: 'false', oninput: function (event) {
+        answers[question.id] = event.target.value;
+      } })
+    ]));
+  }
+
+  function renderCategorize(question, body) {
+    var placements = answers[question.id] = {};
+    body.appendChild(h('p', { 'class': 'player-hint', text: 'Choose the category of each item; leave items that belong in none without one.' }));
+    question.items.forEach(function (item) {
+      var select = h('select', { 'aria-label': item.text, onchange: function (event) {
+        placements[item.id] = event.target.value;
+      } }, [h('option', { value: '', text: '\u2014' })].concat(question.categories.map(function (category) {
+        return h('option', { value: category.id, text: categoryText(question, category.id) });
+      })));
+      body.appendChild(h('div', { 'class': 'player-match', 'data-item': item.id }, [
+        h('span', { 'class': 'player-match-premise', text: item.text }),
+        select
+      ]));
+    });
+  }
+
+  function wordCount(text) {
+    var trimmed = trim(text);
+    return trimmed ? trimmed.split(/\\s+/).length : 0;
+  }
+
+  function renderEssay(question, body) {
+    if (question.hint) body.appendChild(h('p', { 'class': 'player-hint', text: question.hint }));
+    var count = h('p', { 'class': 'player-count', text: '0 words' });
+    body.appendChild(h('textarea', { 'class': 'player-essay', rows: 10, maxlength: question.maxCharacters, 'aria-label': 'Answer', oninput: function (event) {
+      var text = event.target.value;
+      var words = wordCount(text);
+      var over = (question.minWords !== undefined && words < question.minWords) ||
+        (question.maxWords !== undefined && words > question.maxWords);
+      answers[question.id] = text;
+      count.textContent = words + (words === 1 ? ' word' : ' words');
+      count.className = 'player-count' + (over ? ' is-over' : '');
+    } }));
+    body.appendChild(count);
+    if (!question.rubric) return;
+    body.appendChild(h('details', { 'class': 'player-rubric' }, [
+      h('summary', { text: 'How this answer is graded' }),
+      h('table', {}, [
+        h('tr', {}, [h('th', {})].concat(question.rubric.levels.map(function (level) {
+          return h('th', { text: level.label + ' (' + level.points + (level.points === 1 ? ' pt)' : ' pts)') });
+        })))
+      ].concat(question.rubric.criteria.map(function (criterion) {
+        return h('tr', {}, [h('th', { text: criterion.title })].concat(criterion.descriptors.map(function (descriptor) {
+          return h('td', { text: descriptor });
+        })));
+      })))
+    ]));
+  }
+
+  function renderQuestion(question, number) {
+    var body = h('div', { 'class': 'player-answers' });
+    if (question.type === 'mcq') renderMcq(question, body);
+    else if (question.type === 'ordering') renderOrdering(question, body);
+    else if (question.type === 'cloze') renderCloze(question, body);
+    else if (question.type === 'matching') renderMatching(question, body);
+    else if (question.type === 'numeric' || question.type === 'short-answer') renderTyped(question, body);
+    else if (question.type === 'categorize') renderCategorize(question, body);
+    else if (question.type === 'essay') renderEssay(question, body);
+    else if (question.labels) renderLabels(question, body);
+    else renderHotspot(question, body);
+
+    var node = h('section', { 'class': 'player-question', id: 'question-' + number }, [
+      h('h3', {}, [
+        h('span', { 'class': 'player-number', text: number + '.' }),
+        h('span', { 'class': 'player-stem', text: question.stem }),
+        h('span', { 'class': 'player-points', text: '(' + question.points + (question.points === 1 ? ' pt)' : ' pts)') })
+      ]),
+      body
+    ]);
+    questionNodes[question.id] = node;
+    return node;
+  }
+
+  function showResult(result) {
+    var node = questionNodes[result.question.id];
+    var question = result.question;
+    var partial = !result.correct && result.credit > 0;
+    Array.prototype.forEach.call(node.querySelectorAll('input, select, textarea, .player-clear'), function (input) { input.disabled = true; });
+    if (result.pending) {
+      node.className += ' is-pending';
+      node.appendChild(h('p', { 'class': 'player-verdict', text: result.answered ? 'Submitted for grading' : 'Not answered' }));
+      if (data.showFeedback && question.modelAnswer) {
+        node.appendChild(h('div', { 'class': 'player-model-answer' }, [
+          h('strong', { text: 'Model answer' }),
+          h('p', { text: question.modelAnswer })
+        ]));
+      }
+      return;
+    }
+    node.className += result.correct ? ' is-correct' : partial ? ' is-partial' : ' is-wrong';
+    if (redraws[question.id]) redraws[question.id]();
+    node.appendChild(h('p', {
+      'class': 'player-verdict',
+      text: result.correct ? 'Correct'
+        : partial ? 'Partly correct (' + Math.round(result.credit * 100) + '%)'
+        : result.answered ? 'Incorrect' : 'Not answered'
+    }));
+    if (question.type === 'cloze') {
+      blanksOf(question).forEach(function (blank, index) {
+        var value = answers[question.id][blank.id] || '';
+        var slot = node.querySelectorAll('.player-blank')[index];
+        var right = blankCorrect(blank, value);
+        slot.className += right ? ' is-correct' : ' is-wrong';
+        if (!data.showFeedback) return;
+        if (!right) slot.appendChild(h('span', { 'class': 'player-blank-answer', text: blankAnswer(blank) }));
+        if (blank.feedback) {
+          node.appendChild(h('p', { 'class': 'player-blank-feedback', text: 'Blank ' + (index + 1) + ': ' + blank.feedback }));
+        }
+      });
+      return;
+    }
+    if (question.type === 'matching') {
+      question.premises.forEach(function (premise) {
+        var row = node.querySelector('[data-premise="' + premise.id + '"]');
+        var right = answers[question.id][premise.id] === premise.response;
+        row.className += right ? ' is-correct' : ' is-wrong';
+        if (!data.showFeedback) return;
+        if (!right) row.appendChild(h('span', { 'class': 'player-blank-answer', text: responseText(question, premise.response) }));
+        if (premise.feedback) row.appendChild(h('span', { 'class': 'player-feedback', text: premise.feedback }));
+      });
+      return;
+    }
+    if (question.labels) {
+      Array.prototype.forEach.call(node.querySelectorAll('.player-marks .player-label'), function (chip) {
+        var placedLabel = question.labels.filter(function (label) { return label.id === chip.getAttribute('data-label'); })[0];
+        chip.className += placedLabel.zones.indexOf(chip.getAttribute('data-zone')) !== -1 ? ' is-correct' : ' is-wrong';
+      });
+      if (!data.showFeedback) return;
+      question.labels.forEach(function (label) {
+        var zoneId = placedZone(question, label);
+        var notes = [];
+        if (label.zones.length && label.zones.indexOf(zoneId) === -1) notes.push('Belongs on ' + zoneNames(question, label.zones) + '.');
+        if (label.feedback && (zoneId || label.zones.length)) notes.push(label.feedback);
+        if (notes.length) node.appendChild(h('p', { 'class': 'player-blank-feedback', text: label.text + ': ' + notes.join(' ') }));
+      });
+      return;
+    }
+    if (question.type === 'categorize') {
+      question.items.forEach(function (item) {
+        var row = node.querySelector('[data-item="' + item.id + '"]');
+        var right = (answers[question.id][item.id] || '') === (item.category || '');
+        row.className += right ? ' is-correct' : ' is-wrong';
+        if (!data.showFeedback) return;
+        if (!right) row.appendChild(h('span', { 'class': 'player-blank-answer', text: categoryText(question, item.category) }));
+        if (item.feedback) row.appendChild(h('span', { 'class': 'player-feedback', text: item.feedback }));
+      });
+      return;
+    }
+    if (question.type === 'numeric' || question.type === 'short-answer') {
+      var slot = node.querySelector('.player-typed');
+      var grade = gradeTyped(question, answers[question.id] || '');
+      slot.className += grade.credit === 1 ? ' is-correct' : ' is-wrong';
+      if (!data.showFeedback) return;
+      if (grade.credit < 1) slot.appendChild(h('span', { 'class': 'player-blank-answer', text: question.answerText }));
+      if (grade.feedback) node.appendChild(h('p', { 'class': 'player-blank-feedback', text: grade.feedback }));
+      return;
+    }
+    if (!data.showFeedback) return;
+
+    if (question.type === 'mcq') {
+      question.options.forEach(function (option) {
+        var label = node.querySelector('[data-option="' + option.id + '"]');
+        if (option.correct) label.className += ' is-answer';
+        var chosen = (answers[question.id] || []).indexOf(option.id) !== -1;
+        if (chosen && option.feedback) label.appendChild(h('span', { 'class': 'player-feedback', text: option.feedback }));
+      });
+    } else if (!result.correct && question.type === 'ordering') {
+      node.appendChild(h('p', { 'class': 'player-hint', text: 'Correct order:' }));
+      node.appendChild(h('ol', {}, question.items.map(function (item) { return h('li', { text: item.text }); })));
+    } else if (!result.correct) {
+      var layer = node.querySelector('.player-marks');
+      var svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+      svg.setAttribute('viewBox', '0 0 1 1');
+      svg.setAttribute('preserveAspectRatio', 'none');
+      svg.setAttribute('class', 'player-zones');
+      question.zones.forEach(function (zone) {
+        var polygon = document.createElementNS('http://www.w3.org/2000/svg', 'polygon');
+        polygon.setAttribute('points', zone.points.map(function (p) { return p.join(','); }).join(' '));
+        svg.appendChild(polygon);
+      });
+      layer.appendChild(svg);
+    }
+  }
+
+  function submit() {
+    if (finished) return;
+    finished = true;
+    clearInterval(timerId);
+    submitButton.disabled = true;
+
+    var results = allQuestions().map(evaluate);
+    var total = score(results);
+    results.forEach(showResult);
+
+    var passed = settings.masteryScore === undefined ? undefined : total.scaled >= settings.masteryScore;
+    status.textContent = 'Sending your results\\u2026';
+    runtime.finish(results, total, settings, function (error) {
+      status.textContent = 'You scored ' + Math.round(total.raw * 100) / 100 + ' of ' + total.max + ' points (' + Math.round(total.scaled * 100) + '%)' +
+        (passed === undefined ? '.' : passed ? ' and passed.' : ' and did not pass.') +
+        (results.some(function (result) { return result.pending; }) ? ' Essays are graded separately and are not part of this score.' : '') +
+        (error ? ' ' + error : '');
+      status.className = 'player-status ' + (error ? 'is-error' : '');
+    });
+  }
+
+  function startTimer(minutes) {
+    var timer = h('p', { 'class': 'player-timer' });
+    var deadline = startedAt.getTime() + minutes * 60000;
+    function tick() {
+      var left = Math.max(0, Math.round((deadline - new Date().getTime()) / 1000));
+      timer.textContent = 'Time left: ' + Math.floor(left / 60) + ':' + pad(left % 60, 2);
+      if (left === 0) submit();
+    }
+    tick();
+    timerId = setInterval(tick, 1000);
+    return timer;
+  }
+
+  function render() {
+    var header = h('header', {}, [
+      h('h1', { text: data.title }),
+      data.description ? h('p', { 'class': 'player-description', text: data.description }) : null,
+      data.instructions ? h('div', { 'class': 'player-instructions', text: data.instructions }) : null,
+      data.timeLimitMinutes ? startTimer(data.timeLimitMinutes) : null,
+      runtime.name ? null : h('p', { 'class': 'player-notice', text: 'Not connected to an LMS: answers are scored here but not recorded.' })
+    ]);
+    root.appendChild(header);
+
+    var number = 0;
+    var showSections = data.sections.length > 1;
+    data.sections.forEach(function (section) {
+      if (showSections) root.appendChild(h('h2', { text: section.title }));
+      section.questions.forEach(function (question) {
+        number += 1;
+        root.appendChild(renderQuestion(question, number));
+      });
+    });
+    root.appendChild(h('footer', {}, [submitButton, status]));
+  }
+
+  root.appendChild(h('p', { 'class': 'player-status', text: 'Loading\\u2026' }));
+  runtime.start(function (result) {
+    settings = result || {};
+    root.innerHTML = '';
+    render();
+    if (settings.error) {
+      status.textContent = settings.error;
+      status.className = 'player-status is-error';
+    }
+  });
+
+  window.addEventListener('pagehide', function () {
+    if (!finished) runtime.abandon();
+  });
+  window.ASSESSMENT_PLAYER = { submit: submit };
+})();
+`;
+
+export const PLAYER_STYLES = `* { box-sizing: border-box; }
+body { margin: 0; background: #f9fafb; color: #111827; font: 16px/1.5 system-ui, -apple-system, 'Segoe UI', sans-serif; }
+#player { max-width: 760px; margin: 0 auto; padding: 24px 16px 48px; }
+h1 { font-size: 24px; margin: 0 0 8px; }
+h2 { font-size: 18px; margin: 32px 0 12px; padding-bottom: 4px; border-bottom: 1px solid #e5e7eb; }
+h3 { display: flex; gap: 8px; font-size: 16px; font-weight: 600; margin: 0 0 12px; }
+.player-stem { flex: 1; white-space: pre-wrap; }
+.player-points, .player-hint { color: #6b7280; font-size: 14px; font-weight: normal; }
+.player-description, .player-instructions { white-space: pre-wrap; }
+.player-instructions { padding: 12px 16px; background: #eff6ff; border-radius: 6px; }
+.player-notice, .player-timer { font-size: 14px; color: #92400e; background: #fffbeb; padding: 8px 12px; border-radius: 6px; }
+.player-timer { position: sticky; top: 0; z-index: 1; }
+.player-question { background: #fff; border: 1px solid #e5e7eb; border-radius: 8px; padding: 16px 20px; margin: 16px 0; }
+.player-question.is-correct { border-color: #10b981; }
+.player-question.is-wrong { border-color: #ef4444; }
+.player-question.is-partial { border-color: #f59e0b; }
+.player-option { display: flex; flex-wrap: wrap; align-items: baseline; gap: 8px; padding: 6px 8px; border-radius: 6px; cursor: pointer; }
+.player-option.is-answer { background: #ecfdf5; }
+.player-feedback { flex-basis: 100%; margin-left: 24px; font-size: 14px; color: #374151; }
+.player-order { padding-left: 24px; }
+.player-order li { padding: 4px 0; }
+.player-order li span { display: inline-block; min-width: 60%; }
+.player-order button, .player-clear { margin-left: 4px; padding: 2px 8px; border: 1px solid #d1d5db; border-radius: 4px; background: #fff; cursor: pointer; }
+.player-figure { position: relative; display: inline-block; max-width: 100%; cursor: crosshair; }
+.player-figure img { display: block; max-width: 100%; height: auto; }
+.player-marks, .player-zones { position: absolute; inset: 0; width: 100%; height: 100%; pointer-events: none; }
+.player-zones polygon { fill: rgba(16, 185, 129, 0.25); stroke: #059669; stroke-width: 3; vector-effect: non-scaling-stroke; }
+.player-targets { cursor: default; }
+.player-targets svg { position: absolute; inset: 0; width: 100%; height: 100%; }
+.player-target { fill: rgba(37, 99, 235, 0.12); stroke: #2563eb; stroke-width: 3; stroke-dasharray: 8 4; vector-effect: non-scaling-stroke; cursor: pointer; }
+.is-ready .player-target { fill: rgba(37, 99, 235, 0.28); }
+.player-labels { display: flex; flex-wrap: wrap; gap: 8px; min-height: 36px; margin: 0 0 12px; }
+.player-label { font: inherit; font-size: 14px; padding: 4px 10px; border: 1px solid #93c5fd; border-radius: 6px; background: #eff6ff; cursor: grab; }
+.player-label img { display: block; max-width: 64px; max-height: 64px; }
+.player-label.is-picked { border-color: #2563eb; box-shadow: 0 0 0 2px #2563eb; }
+.player-marks .player-label { position: absolute; transform: translate(-50%, -50%); pointer-events: auto; }
+.player-label.is-correct { border-color: #10b981; background: #ecfdf5; }
+.player-label.is-wrong { border-color: #ef4444; background: #fef2f2; }
+.player-mark { position: absolute; width: 16px; height: 16px; margin: -8px 0 0 -8px; border: 3px solid #fff; border-radius: 50%; background: #2563eb; box-shadow: 0 0 0 1px #1e3a8a; }
+.player-clear { display: block; margin: 8px 0 0; }
+.player-passage { line-height: 2.2; white-space: pre-wrap; }
+.player-blank input, .player-blank select { font: inherit; padding: 2px 6px; border: 1px solid #9ca3af; border-radius: 4px; }
+.player-blank input { width: 10em; }
+.player-typed input { width: 16em; }
+.player-blank.is-correct input, .player-blank.is-correct select { border-color: #10b981; background: #ecfdf5; }
+.player-blank.is-wrong input, .player-blank.is-wrong select { border-color: #ef4444; background: #fef2f2; }
+.player-blank-answer { margin-left: 6px; font-size: 14px; color: #047857; }
+.player-blank-feedback { margin: 8px 0 0; font-size: 14px; color: #374151; }
+.player-match { display: flex; flex-wrap: wrap; align-items: baseline; gap: 12px; padding: 6px 8px; border-radius: 6px; }
+.player-match-premise { flex: 1; min-width: 40%; white-space: pre-wrap; }
+.player-match select { font: inherit; max-width: 50%; padding: 2px 6px; border: 1px solid #9ca3af; border-radius: 4px; }
+.player-match.is-correct select { border-color: #10b981; background: #ecfdf5; }
+.player-match.is-wrong select { border-color: #ef4444; background: #fef2f2; }
+.player-match .player-feedback { margin-left: 0; }
+.player-essay { display: block; width: 100%; font: inherit; padding: 8px 10px; border: 1px solid #9ca3af; border-radius: 6px; resize: vertical; }
+.player-count { margin: 4px 0 0; font-size: 14px; color: #6b7280; text-align: right; }
+.player-count.is-over { color: #b45309; }
+.player-rubric { margin: 12px 0 0; font-size: 14px; }
+.player-rubric summary { cursor: pointer; color: #2563eb; }
+.player-rubric table { width: 100%; margin-top: 8px; border-collapse: collapse; }
+.player-rubric th, .player-rubric td { padding: 6px 8px; border: 1px solid #e5e7eb; text-align: left; vertical-align: top; }
+.player-rubric th { background: #f9fafb; }
+.player-model-answer { margin: 12px 0 0; padding: 12px 16px; background: #f9fafb; border-radius: 6px; font-size: 14px; }
+.player-model-answer p { margin: 4px 0 0; white-space: pre-wrap; }
+.player-question.is-pending { border-color: #6366f1; }
+.player-verdict { font-weight: 600; margin: 12px 0 0; }
+.is-correct .player-verdict { color: #047857; }
+.is-wrong .player-verdict { color: #b91c1c; }
+.is-partial .player-verdict { color: #b45309; }
+.is-pending .player-verdict { color: #4338ca; }
+footer { display: flex; align-items: center; gap: 16px; margin-top: 24px; }
+.player-submit { padding: 10px 20px; border: none; border-radius: 6px; background: #2563eb; color: #fff; font-size: 16px; cursor: pointer; }
+.player-submit:disabled { background: #9ca3af; cursor: default; }
+.player-status.is-error { color: #b91c1c; }
+`;
+
+export const createPlayerHtml = (title: string) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" href="player.css">
+</head>
+<body>
+<main id="player"></main>
+<script src="data.js"></script>
+<script src="player.js"></script>
+</body>
+</html>
+`;
@@ -0,0 +1,111 @@
+import { HotspotQuestion } from '../types';
+import {
+  DRAFT_STORAGE_KEY,
+  SAVED_STORAGE_KEY,
+  STORAGE_VERSION,
+  VERSIONS_STORAGE_KEY,
+  deserializeAssessmentState,
+  loadPersistedAssessment,
+  readVersionHistory,
+  serializeAssessmentState,
+  writeSnapshot,
+} from './storage';
+import { createEmptyQuestion } from './assessmentUtils';
+import { createEmptyAssessment } from './assessmentStructure';
+
+const hotspotWithFile = (): HotspotQuestion => ({
+  ...(createEmptyQuestion('hotspot') as HotspotQuestion),
+  stem: 'Click the heart',
+  imageUrl: 'data:image/png;base64,aGVsbG8=',
+  imageFile: new File(['hello'], 'heart.png', { type: 'image/png', lastModified: 42 }),
+});
+
+beforeEach(() => {
+  window.localStorage.clear();
+});
+
+test('stores File metadata and rebuilds the file from the data URL', () => {
+  const question = hotspotWithFile();
+  const state = { assessment: createEmptyAssessment([question.id]), questions: [question] };
+  const stored = JSON.parse(JSON.stringify(serializeAssessmentState(state)));
+
+  expect(stored.version).toBe(STORAGE_VERSION);
+  expect(stored.state.questions[0].imageFile).toEqual({ name: 'heart.png', type: 'image/png', lastModified: 42 });
+
+  const restored = deserializeAssessmentState(stored)!.state.questions[0] as HotspotQuestion;
+  expect(restored.imageFile).toBeInstanceOf(File);
+  expect(restored.imageFile?.name).toBe('heart.png');
+  expect(restored.imageFile?.size).toBe(5);
+  expect(restored.imageUrl).toBe(question.imageUrl);
+});
+
+test('ignores data written by a newer storage version', () => {
+  const stored = serializeAssessmentState({ assessment: createEmptyAssessment(), questions: [] });
+  expect(deserializeAssessmentState({ ...stored, version: STORAGE_VERSION + 1 })).toBeNull();
+});
+
+test('offers a draft only when it is newer than the last explicit save', () => {
+  const saved = createEmptyQuestion('mcq');
+  const edited = { ...saved, stem: 'Edited after saving' };
+
+  writeSnapshot(SAVED_STORAGE_KEY, { assessment: createEmptyAssessment([saved.id]), questions: [saved] }, 1000);
+  writeSnapshot(DRAFT_STORAGE_KEY, { assessment: createEmptyAssessment([edited.id]), questions: [edited] }, 2000);
+
+  const load = loadPersistedAssessment();
+  expect(load.state.questions[0].stem).toBe('');
+  expect(load.pendingDraft?.state.questions[0].stem).toBe('Edited after saving');
+
+  writeSnapshot(SAVED_STORAGE_KEY, { assessment: createEmptyAssessment([edited.id]), questions: [edited] }, 3000);
+  expect(loadPersistedAssessment().pendingDraft).toBeUndefined();
+});
+
+test('migrates version 1 data into a single-section assessment', () => {
+  const question = createEmptyQuestion('ordering');
+  const restored = deserializeAssessmentState({
+    version: 1,
+    savedAt: 1000,
+    state: { questions: [question], currentQuestionId: question.id },
+  });
+
+  expect(restored?.state.assessment.sections).toHaveLength(1);
+  expect(restored?.state.assessment.sections[0].questionRefs).toEqual([{ questionId: question.id, points: 1 }]);
+});
+
+test('migrates version 2 hotspot zones from image pixels to fractions of the image', () => {
+  const question: HotspotQuestion = {
+    ...(createEmptyQuestion('hotspot') as HotspotQuestion),
+    // A PNG header for a 200 by 100 image
+    imageUrl: 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAMgAAABkCAYAAAA=',
+    zones: [{ id: 'z1', coordinates: [{ x: 20, y: 10 }, { x: 100, y: 10 }, { x: 100, y: 50 }] }],
+  };
+  const linked: HotspotQuestion = { ...question, id: 'linked', imageUrl: 'https://example.com/map.png' };
+  const restored = deserializeAssessmentState({
+    version: 2,
+    savedAt: 1000,
+    state: { assessment: createEmptyAssessment([question.id, linked.id]), questions: [question, linked] },
+  });
+
+  const [migrated, unchanged] = restored!.state.questions as HotspotQuestion[];
+  expect(migrated.imageSize).toEqual({ width: 200, height: 100 });
+  expect(migrated.zones[0].coordinates).toEqual([{ x: 0.1, y: 0.1 }, { x: 0.5, y: 0.1 }, { x: 0.5, y: 0.5 }]);
+  // Linked images are converted by the editor once they load
+  expect(unchanged.zones).toEqual(linked.zones);
+});
+
+test('keeps version histories written by storage version 1', () => {
+  const question: HotspotQuestion = {
+    ...(createEmptyQuestion('hotspot') as HotspotQuestion),
+    stem: 'Click the heart',
+    // A PNG header for a 200 by 100 image
+    imageUrl: 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAMgAAABkCAYAAAA=',
+    zones: [{ id: 'z1', coordinates: [{ x: 20, y: 10 }, { x: 100, y: 10 }, { x: 100, y: 50 }] }],
+  };
+  const entry = { version: 1, savedAt: 1000, changeNote: 'First save', snapshot: question };
+  window.localStorage.setItem(VERSIONS_STORAGE_KEY, JSON.stringify({ version: 1, histories: { [question.id]: [entry] } }));
+
+  const [restored] = readVersionHistory()[question.id];
+  const snapshot = restored.snapshot as HotspotQuestion;
+  expect(restored.changeNote).toBe('First save');
+  expect(snapshot.stem).toBe('Click the heart');
+  expect(snapshot.zones[0].coordinates).toEqual([{ x: 0.1, y: 0.1 }, { x: 0.5, y: 0.1 }, { x: 0.5, y: 0.5 }]);
+});
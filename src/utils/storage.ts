@@ -0,0 +1,376 @@
+import { Assessment, AssessmentState, HotspotQuestion, ImageSize, Question, QuestionSaveRecord, QuestionVersion } from '../types';
+import { createEmptyAssessment, orderQuestionsBySections, syncAssessmentQuestions } from './assessmentStructure';
+import { hasPixelCoordinates, normalizeHotspotZones } from './hotspotGeometry';
+
+// Bump this whenever the persisted shape changes and add a migration below
+export const STORAGE_VERSION = 3;
+
+export const DRAFT_STORAGE_KEY = 'assessment-authoring-tool:draft';
+export const SAVED_STORAGE_KEY = 'assessment-authoring-tool:saved';
+export const SAVE_RECORDS_STORAGE_KEY = 'assessment-authoring-tool:save-records';
+export const VERSIONS_STORAGE_KEY = 'assessment-authoring-tool:versions';
+
+// File objects can't be serialized, so only their metadata is stored.
+// The contents are rebuilt from the question's data URL on load.
+export interface StoredFileInfo {
+  name: string;
+  type: string;
+  lastModified: number;
+}
+
+export type StoredHotspotQuestion = Omit<HotspotQuestion, 'imageFile'> & {
+  imageFile?: StoredFileInfo;
+};
+
+export type StoredQuestion = Exclude<Question, HotspotQuestion> | StoredHotspotQuestion;
+
+export interface StoredAssessmentState {
+  assessment: Assessment;
+  questions: StoredQuestion[];
+  currentQuestionId?: string;
+}
+
+export interface StoredAssessment {
+  version: number;
+  savedAt: number;
+  state: StoredAssessmentState;
+}
+
+export interface PersistedSnapshot {
+  savedAt: number;
+  state: AssessmentState;
+}
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// v3 stores hotspot zones as fractions of the image size. Uploaded images give their size right away;
+// zones on linked images stay in pixels until the image loads in the editor.
+const normalizeStoredZones = (question: StoredQuestion): StoredQuestion => {
+  if (question.type !== 'hotspot' || !hasPixelCoordinates(question.zones)) return question;
+  const size = question.imageUrl ? readImageSize(question.imageUrl) : undefined;
+  return size ? normalizeHotspotZones(question, size) : question;
+};
+
+// Stored data as read back, before it is known to be a StoredAssessment
+type StoredData = Record<string, unknown> & { version: number };
+
+const getStoredState = (data: StoredData) => (isObject(data.state) ? data.state : {});
+
+const getStoredQuestions = (data: StoredData) => {
+  const { questions } = getStoredState(data);
+  return Array.isArray(questions) ? questions.filter(isObject) : [];
+};
+
+// Each entry upgrades data stored with version N to version N + 1
+const migrations: Record<number, (data: StoredData) => StoredData> = {
+  // v2 introduced the assessment entity; older sets become a single section
+  1: data => ({
+    ...data,
+    state: {
+      ...getStoredState(data),
+      assessment: createEmptyAssessment(
+        getStoredQuestions(data).flatMap(question => (typeof question.id === 'string' ? [question.id] : []))
+      ),
+    },
+  }),
+  2: data => ({
+    ...data,
+    state: {
+      ...getStoredState(data),
+      questions: getStoredQuestions(data).map(question => normalizeStoredZones(question as StoredQuestion)),
+    },
+  }),
+};
+
+// File extensions for the image types authors can upload
+export const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+  'image/webp': 'webp',
+};
+
+export const parseDataUrl = (dataUrl: string): { mimeType: string; bytes: Uint8Array } | undefined => {
+  const match = /^data:([^;,]*)(;base64)?,(.*)$/.exec(dataUrl);
+  if (!match) return undefined;
+
+  try {
+    const isBase64 = !!match[2];
+    const payload = isBase64 ? atob(match[3]) : decodeURIComponent(match[3]);
+    const bytes = new Uint8Array(payload.length);
+    for (let i = 0; i < payload.length; i++) {
+      bytes[i] = payload.charCodeAt(i);
+    }
+    return { mimeType: match[1], bytes };
+  } catch {
+    return undefined;
+  }
+};
+
+const readUint16 = (bytes: Uint8Array, offset: number, littleEndian = false) =>
+  littleEndian ? bytes[offset] | (bytes[offset + 1] << 8) : (bytes[offset] << 8) | bytes[offset + 1];
+
+// Natural size from the header of a PNG, GIF or JPEG data URL, without loading the image
+export const readImageSize = (dataUrl: string): ImageSize | undefined => {
+  const bytes = parseDataUrl(dataUrl)?.bytes;
+  if (!bytes || bytes.length < 24) return undefined;
+
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+    return { width: readUint16(bytes, 18), height: readUint16(bytes, 22) };
+  }
+  if (bytes[0] === 0x47 && bytes[1] === 0x49 && bytes[2] === 0x46) {
+    return { width: readUint16(bytes, 6, true), height: readUint16(bytes, 8, true) };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    // Walks the segments to the start of frame, skipping DHT (C4), JPG (C8) and DAC (CC)
+    let offset = 2;
+    while (offset + 9 < bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1];
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: readUint16(bytes, offset + 7), height: readUint16(bytes, offset + 5) };
+      }
+      offset += 2 + readUint16(bytes, offset + 2);
+    }
+  }
+  return undefined;
+};
+
+export const dataUrlToFile = (dataUrl: string, info: StoredFileInfo): File | undefined => {
+  const parsed = parseDataUrl(dataUrl);
+  if (!parsed) return undefined;
+
+  return new File([parsed.bytes], info.name, {
+    type: info.type || parsed.mimeType,
+    lastModified: info.lastModified,
+  });
+};
+
+export const serializeQuestion = (question: Question): StoredQuestion => {
+  if (question.type !== 'hotspot' || !question.imageFile) {
+    return question as StoredQuestion;
+  }
+
+  const { imageFile, ...rest } = question;
+  return {
+    ...rest,
+    imageFile: {
+      name: imageFile.name,
+      type: imageFile.type,
+      lastModified: imageFile.lastModified,
+    },
+  };
+};
+
+export const deserializeQuestion = (stored: StoredQuestion): Question => {
+  if (stored.type !== 'hotspot' || !stored.imageFile) {
+    return stored as Question;
+  }
+
+  const { imageFile, ...rest } = stored;
+  return {
+    ...rest,
+    imageFile: rest.imageUrl ? dataUrlToFile(rest.imageUrl, imageFile) : undefined,
+  };
+};
+
+export const serializeAssessmentState = (state: AssessmentState, savedAt = Date.now()): StoredAssessment => ({
+  version: STORAGE_VERSION,
+  savedAt,
+  state: {
+    assessment: state.assessment,
+    questions: state.questions.map(serializeQuestion),
+    currentQuestionId: state.currentQuestionId,
+  },
+});
+
+export const migrateStoredAssessment = (data: unknown): StoredAssessment | null => {
+  if (!isObject(data) || typeof data.version !== 'number') {
+    return null;
+  }
+
+  // Data written by a newer version of the app can't be read safely
+  if (data.version > STORAGE_VERSION) {
+    return null;
+  }
+
+  let migrated: StoredData = { ...data, version: data.version };
+  while (migrated.version < STORAGE_VERSION) {
+    const migrate = migrations[migrated.version];
+    if (!migrate) return null;
+    migrated = { ...migrate(migrated), version: migrated.version + 1 };
+  }
+
+  const { state } = migrated;
+  if (!isObject(state) || !Array.isArray(state.questions)) {
+    return null;
+  }
+
+  // Questions and the assessment are taken as stored; the assessment is synced with the questions on load
+  return {
+    version: migrated.version,
+    savedAt: typeof migrated.savedAt === 'number' ? migrated.savedAt : 0,
+    state: {
+      assessment: state.assessment as Assessment,
+      questions: state.questions as StoredQuestion[],
+      currentQuestionId: typeof state.currentQuestionId === 'string' ? state.currentQuestionId : undefined,
+    },
+  };
+};
+
+export const deserializeAssessmentState = (data: unknown): PersistedSnapshot | null => {
+  const stored = migrateStoredAssessment(data);
+  if (!stored) return null;
+
+  const storedQuestions = stored.state.questions.map(deserializeQuestion);
+  const assessment = syncAssessmentQuestions(stored.state.assessment ?? createEmptyAssessment(), storedQuestions);
+  const questions = orderQuestionsBySections(storedQuestions, assessment);
+  const currentQuestionId = questions.some(q => q.id === stored.state.currentQuestionId)
+    ? stored.state.currentQuestionId
+    : questions[0]?.id;
+
+  return {
+    savedAt: stored.savedAt,
+    state: { assessment, questions, currentQuestionId },
+  };
+};
+
+// Null when nothing is stored; throws when storage is unavailable or holds data this version can't read
+export const readSnapshot = (key: string): PersistedSnapshot | null => {
+  const raw = window.localStorage.getItem(key);
+  if (!raw) return null;
+
+  const snapshot = deserializeAssessmentState(JSON.parse(raw));
+  if (!snapshot) throw new Error(`Could not read ${key} from storage`);
+  return snapshot;
+};
+
+export const writeSnapshot = (key: string, state: AssessmentState, savedAt = Date.now()): boolean => {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(serializeAssessmentState(state, savedAt)));
+    return true;
+  } catch {
+    // Usually the storage quota being exceeded by large embedded images
+    return false;
+  }
+};
+
+export const removeSnapshot = (key: string) => {
+  try {
+    window.localStorage.removeItem(key);
+  } catch {
+    // Storage may be unavailable (e.g. private browsing); nothing to clean up then
+  }
+};
+
+// Compares content only; a different selected question alone isn't worth recovering
+export const isSameState = (a: AssessmentState, b: AssessmentState) => {
+  const content = (state: AssessmentState) =>
+    JSON.stringify(serializeAssessmentState({ ...state, currentQuestionId: undefined }, 0));
+  return content(a) === content(b);
+};
+
+export interface PersistedAssessmentLoad {
+  state: AssessmentState;
+  lastSavedAt?: number;
+  // A draft newer than the last explicit save, waiting for the author to recover or discard it
+  pendingDraft?: PersistedSnapshot;
+  // Set when something was stored but could not be read back
+  storageError?: string;
+}
+
+export const loadPersistedAssessment = (): PersistedAssessmentLoad => {
+  let storageError: string | undefined;
+  const read = (key: string) => {
+    try {
+      return readSnapshot(key);
+    } catch {
+      storageError = 'Could not read the assessment stored in this browser';
+      return null;
+    }
+  };
+  const saved = read(SAVED_STORAGE_KEY);
+  const draft = read(DRAFT_STORAGE_KEY);
+
+  if (!saved) {
+    return {
+      state: draft?.state ?? { assessment: createEmptyAssessment(), questions: [], currentQuestionId: undefined },
+      storageError,
+    };
+  }
+
+  return {
+    state: saved.state,
+    lastSavedAt: saved.savedAt,
+    storageError,
+    pendingDraft: draft && draft.savedAt > saved.savedAt && !isSameState(draft.state, saved.state)
+      ? draft
+      : undefined,
+  };
+};
+
+export const readSaveRecords = (): Record<string, QuestionSaveRecord> => {
+  try {
+    const raw = window.localStorage.getItem(SAVE_RECORDS_STORAGE_KEY);
+    const records: unknown = raw ? JSON.parse(raw) : {};
+    return isObject(records) ? (records as Record<string, QuestionSaveRecord>) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const writeSaveRecords = (records: Record<string, QuestionSaveRecord>): boolean => {
+  try {
+    window.localStorage.setItem(SAVE_RECORDS_STORAGE_KEY, JSON.stringify(records));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+type StoredQuestionVersion = Omit<QuestionVersion, 'snapshot'> & { snapshot: StoredQuestion };
+
+export const readVersionHistory = (): Record<string, QuestionVersion[]> => {
+  try {
+    const raw = window.localStorage.getItem(VERSIONS_STORAGE_KEY);
+    const data: unknown = raw ? JSON.parse(raw) : undefined;
+    if (
+      !isObject(data) ||
+      typeof data.version !== 'number' ||
+      data.version < 1 ||
+      data.version > STORAGE_VERSION ||
+      !isObject(data.histories)
+    ) {
+      return {};
+    }
+
+    // Histories only change with the hotspot zones of v3
+    const migrate = data.version < 3 ? normalizeStoredZones : (question: StoredQuestion) => question;
+    const histories = data.histories as Record<string, StoredQuestionVersion[]>;
+    return Object.fromEntries(
+      Object.entries(histories).filter(([, versions]) => Array.isArray(versions)).map(([questionId, versions]) => [
+        questionId,
+        versions.map(entry => ({ ...entry, snapshot: deserializeQuestion(migrate(entry.snapshot)) })),
+      ])
+    );
+  } catch {
+    return {};
+  }
+};
+
+export const writeVersionHistory = (histories: Record<string, QuestionVersion[]>): boolean => {
+  const stored: Record<string, StoredQuestionVersion[]> = Object.fromEntries(
+    Object.entries(histories).map(([questionId, versions]) => [
+      questionId,
+      versions.map(entry => ({ ...entry, snapshot: serializeQuestion(entry.snapshot) })),
+    ])
+  );
+
+  try {
+    window.localStorage.setItem(VERSIONS_STORAGE_KEY, JSON.stringify({ version: STORAGE_VERSION, histories: stored }));
+    return true;
+  } catch {
+    return false;
+  }
+};
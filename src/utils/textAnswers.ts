@@ -0,0 +1,45 @@
+import { ShortAnswerAnswer, ShortAnswerQuestion } from '../types';
+
+export interface TextMatchOptions {
+  caseSensitive?: boolean;
+  ignoreWhitespace?: boolean;
+}
+
+export const normalizeTextResponse = (value: string, options: TextMatchOptions) => {
+  const spaced = options.ignoreWhitespace ? value.replace(/\s+/g, '') : value.trim().replace(/\s+/g, ' ');
+  return options.caseSensitive ? spaced : spaced.toLowerCase();
+};
+
+// Undefined when the pattern is not a valid regular expression
+export const compileAnswerPattern = (pattern: string, options: TextMatchOptions): RegExp | undefined => {
+  try {
+    return new RegExp(`^(?:${pattern})$`, options.caseSensitive ? '' : 'i');
+  } catch {
+    return undefined;
+  }
+};
+
+export const isShortAnswerMatch = (question: ShortAnswerQuestion, answer: ShortAnswerAnswer, response: string) => {
+  if (answer.isPattern) {
+    return !!response.trim() && (compileAnswerPattern(answer.text, question)?.test(response.trim()) ?? false);
+  }
+  const normalized = normalizeTextResponse(response, question);
+  return !!normalized && normalizeTextResponse(answer.text, question) === normalized;
+};
+
+// The matching answer worth the most, so a full-credit answer wins over a pattern for a common slip
+export const findShortAnswerMatch = (question: ShortAnswerQuestion, response: string) =>
+  question.answers
+    .filter(answer => isShortAnswerMatch(question, answer, response))
+    .reduce<ShortAnswerAnswer | undefined>((best, answer) => (!best || answer.credit > best.credit ? answer : best), undefined);
+
+// Answers worth something, best first, as one line for answer keys
+export const describeShortAnswers = (question: ShortAnswerQuestion) =>
+  [...question.answers]
+    .filter(answer => answer.credit > 0 && answer.text.trim())
+    .sort((a, b) => b.credit - a.credit)
+    .map(answer => {
+      const text = answer.isPattern ? `/${answer.text}/` : answer.text.trim();
+      return answer.credit < 100 ? `${text} (${answer.credit}%)` : text;
+    })
+    .join(' / ');
@@ -0,0 +1,39 @@
+import { MCQQuestion } from '../types';
+import { createEmptyQuestion } from './assessmentUtils';
+import { createQuestionVersion, diffQuestions, restoreQuestionVersion } from './versionUtils';
+
+const question = createEmptyQuestion('mcq') as MCQQuestion;
+
+test('diffs stem, metadata and options matched by id', () => {
+  const [first, second] = question.options;
+  const edited: MCQQuestion = {
+    ...question,
+    stem: 'What is 2 + 2?',
+    topic: 'Arithmetic',
+    options: [
+      { ...second, text: '4' },
+      { ...first, isCorrect: true },
+      ...question.options.slice(3),
+    ],
+  };
+
+  const diffs = diffQuestions(question, edited);
+
+  expect(diffs).toEqual(expect.arrayContaining([
+    { group: 'stem', field: 'Stem', kind: 'added', before: undefined, after: 'What is 2 + 2?' },
+    { group: 'metadata', field: 'Topic', kind: 'added', before: undefined, after: 'Arithmetic' },
+    { group: 'options', field: 'Option 1 position', kind: 'changed', before: '2', after: '1' },
+    { group: 'options', field: 'Option 1 text', kind: 'added', before: undefined, after: '4' },
+    { group: 'options', field: 'Option 2 is correct', kind: 'changed', before: 'No', after: 'Yes' },
+    { group: 'options', field: 'Option 3', kind: 'removed', before: undefined },
+  ]));
+});
+
+test('numbers versions and restores snapshots under the same id', () => {
+  const first = createQuestionVersion(question, [], '');
+  const second = createQuestionVersion({ ...question, stem: 'Changed' }, [first], 'Reworded');
+
+  expect(first).toMatchObject({ version: 1, changeNote: 'Initial version' });
+  expect(second).toMatchObject({ version: 2, changeNote: 'Reworded' });
+  expect(restoreQuestionVersion({ ...question, stem: 'Later' }, first)).toEqual(question);
+});
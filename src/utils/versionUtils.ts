@@ -0,0 +1,159 @@
+import { Question, QuestionVersion } from '../types';
+
+export type DiffGroup = 'stem' | 'options' | 'items' | 'zones' | 'metadata';
+
+export interface FieldDiff {
+  group: DiffGroup;
+  field: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: string;
+  after?: string;
+}
+
+const COLLECTION_LABELS: Record<string, { group: DiffGroup; singular: string }> = {
+  options: { group: 'options', singular: 'Option' },
+  items: { group: 'items', singular: 'Item' },
+  zones: { group: 'zones', singular: 'Zone' },
+};
+
+const METADATA_LABELS: Record<string, string> = {
+  type: 'Question type',
+  purpose: 'Purpose',
+  topic: 'Topic',
+  learningObjective: 'Learning objective',
+  bloomsLevel: "Bloom's level",
+  imageUrl: 'Image',
+};
+
+// Fields that never differ meaningfully between snapshots of the same question; the image size follows the image
+const IGNORED_FIELDS = ['id', 'imageFile', 'imageSize'];
+
+const formatValue = (value: unknown): string | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'string') {
+    return value.startsWith('data:') ? `Uploaded image (${Math.round(value.length / 1024)} KB)` : value;
+  }
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value) && value.every(entry => typeof entry === 'string')) return value.join(', ') || undefined;
+  if (Array.isArray(value) && value.every(point => typeof point?.x === 'number')) {
+    return value.map(point => `(${point.x},${point.y})`).join(' ');
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const humanize = (key: string) => key.replace(/([A-Z])/g, ' $1').toLowerCase();
+
+const diffValue = (group: DiffGroup, field: string, before: unknown, after: unknown): FieldDiff | undefined => {
+  const oldValue = formatValue(before);
+  const newValue = formatValue(after);
+  if (oldValue === newValue) return undefined;
+
+  return {
+    group,
+    field,
+    kind: oldValue === undefined ? 'added' : newValue === undefined ? 'removed' : 'changed',
+    before: oldValue,
+    after: newValue,
+  };
+};
+
+// Options, items, zones and the other lists of a question whose entries have ids
+type CollectionEntry = { id: string; label?: string; text?: string } & Record<string, unknown>;
+
+const isCollection = (value: unknown): value is CollectionEntry[] =>
+  Array.isArray(value) &&
+  value.every(entry => typeof entry === 'object' && entry !== null && typeof entry.id === 'string');
+
+// Entries are matched by id, so edits to an option show up as changes rather than remove + add
+const diffCollection = (key: string, before: CollectionEntry[] = [], after: CollectionEntry[] = []): FieldDiff[] => {
+  const { group, singular } = COLLECTION_LABELS[key] ?? { group: 'metadata' as DiffGroup, singular: humanize(key) };
+  const diffs: FieldDiff[] = [];
+  const label = (entry: CollectionEntry, index: number) =>
+    `${singular} ${index + 1}${entry.label ? ` (${entry.label})` : ''}`;
+  const summary = (entry: CollectionEntry) => formatValue(entry.text ?? entry.label ?? entry.coordinates);
+
+  after.forEach((entry, index) => {
+    const previousIndex = before.findIndex(prev => prev.id === entry.id);
+    if (previousIndex === -1) {
+      diffs.push({ group, field: label(entry, index), kind: 'added', after: summary(entry) });
+      return;
+    }
+
+    const previous = before[previousIndex];
+    if (previousIndex !== index && key !== 'zones') {
+      diffs.push({
+        group,
+        field: `${label(entry, index)} position`,
+        kind: 'changed',
+        before: String(previousIndex + 1),
+        after: String(index + 1),
+      });
+    }
+
+    Object.keys({ ...previous, ...entry })
+      .filter(field => field !== 'id' && field !== 'order')
+      .forEach(field => {
+        const diff = diffValue(group, `${label(entry, index)} ${humanize(field)}`, previous[field], entry[field]);
+        if (diff) diffs.push(diff);
+      });
+  });
+
+  before.forEach((entry, index) => {
+    if (!after.some(next => next.id === entry.id)) {
+      diffs.push({ group, field: label(entry, index), kind: 'removed', before: summary(entry) });
+    }
+  });
+
+  return diffs;
+};
+
+export const diffQuestions = (before: Question, after: Question): FieldDiff[] => {
+  const oldFields = before as unknown as Record<string, unknown>;
+  const newFields = after as unknown as Record<string, unknown>;
+  const diffs: FieldDiff[] = [];
+
+  Object.keys({ ...oldFields, ...newFields })
+    .filter(key => !IGNORED_FIELDS.includes(key))
+    .forEach(key => {
+      const oldValue = oldFields[key];
+      const newValue = newFields[key];
+
+      // Lists without ids, such as tags and units, are compared as values
+      if (
+        (Array.isArray(oldValue) || Array.isArray(newValue)) &&
+        (oldValue === undefined || isCollection(oldValue)) &&
+        (newValue === undefined || isCollection(newValue))
+      ) {
+        diffs.push(...diffCollection(key, oldValue, newValue));
+        return;
+      }
+
+      const group: DiffGroup = key === 'stem' ? 'stem' : 'metadata';
+      const diff = diffValue(group, key === 'stem' ? 'Stem' : METADATA_LABELS[key] ?? humanize(key), oldValue, newValue);
+      if (diff) diffs.push(diff);
+    });
+
+  return diffs;
+};
+
+export const createQuestionVersion = (
+  question: Question,
+  history: QuestionVersion[],
+  changeNote: string,
+  changedBy?: string
+): QuestionVersion => {
+  const version = (history[history.length - 1]?.version ?? 0) + 1;
+  return {
+    version,
+    savedAt: Date.now(),
+    changedBy,
+    changeNote: changeNote.trim() || (version === 1 ? 'Initial version' : 'No change note'),
+    snapshot: question,
+  };
+};
+
+// Restoring keeps the question's identity, only its content is rolled back
+export const restoreQuestionVersion = (question: Question, version: QuestionVersion): Question => ({
+  ...version.snapshot,
+  id: question.id,
+});
@@ -0,0 +1,57 @@
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string | number | boolean | undefined>;
+  children: XmlContent[];
+}
+
+export type XmlContent = XmlElement | string;
+
+export const element = (
+  name: string,
+  attributes: XmlElement['attributes'] = {},
+  children: (XmlContent | false | null | undefined)[] = []
+): XmlElement => ({
+  name,
+  attributes,
+  children: children.filter((child): child is XmlContent => child !== false && child !== null && child !== undefined),
+});
+
+export const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const serializeAttributes = (attributes: XmlElement['attributes']) =>
+  Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}="${escapeXml(String(value))}"`)
+    .join('');
+
+// Added whitespace would change the text, so mixed content is written without any
+const serializeInline = (node: XmlContent): string => {
+  if (typeof node === 'string') return escapeXml(node);
+  const open = `<${node.name}${serializeAttributes(node.attributes)}`;
+  return node.children.length === 0 ? `${open}/>` : `${open}>${node.children.map(serializeInline).join('')}</${node.name}>`;
+};
+
+// Elements holding only text, or text mixed with elements, stay on one line; everything else is indented
+const serializeElement = (node: XmlElement, depth: number): string => {
+  const indent = '  '.repeat(depth);
+  const open = `${indent}<${node.name}${serializeAttributes(node.attributes)}`;
+
+  if (node.children.length === 0) return `${open}/>`;
+  if (node.children.some(child => typeof child === 'string')) {
+    return `${open}>${node.children.map(serializeInline).join('')}</${node.name}>`;
+  }
+
+  const children = node.children.map(child =>
+    typeof child === 'string' ? `${'  '.repeat(depth + 1)}${escapeXml(child)}` : serializeElement(child, depth + 1)
+  );
+  return `${open}>\n${children.join('\n')}\n${indent}</${node.name}>`;
+};
+
+export const serializeXml = (root: XmlElement) =>
+  `<?xml version="1.0" encoding="UTF-8"?>\n${serializeElement(root, 0)}\n`;